@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiService } from '@/services/apiService';
+
+interface AggregateChartProps {
+  tables: string[];
+}
+
+interface GroupCount {
+  key: string;
+  count: number;
+}
+
+/** Field types stored outside of the table, which cannot be grouped by. */
+const VIRTUAL_FIELD_TYPES = ['hasMany', 'manyToMany'];
+const DATE_FIELD_TYPES = ['date', 'datetime'];
+const MAX_GROUPS = 20;
+
+/**
+ * Bar chart of the number of records of a table by value of one of its fields, using the aggregate endpoint.
+ */
+const AggregateChart: React.FC<AggregateChartProps> = ({ tables }) => {
+  const [table, setTable] = useState<string>(tables[0] ?? '');
+  const [fields, setFields] = useState<Record<string, string>>({});
+  const [field, setField] = useState<string>('created_at');
+  const [unit, setUnit] = useState<string>('month');
+  const [groups, setGroups] = useState<GroupCount[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!table && tables.length > 0) {
+      setTable(tables[0]);
+    }
+  }, [tables, table]);
+
+  useEffect(() => {
+    if (!table) return;
+    apiService.getTableSchema(table).then(response => {
+      const types: Record<string, string> = { created_at: 'datetime' };
+      for (const [name, definition] of Object.entries<any>(response.success ? response.data : {})) {
+        if (!VIRTUAL_FIELD_TYPES.includes(definition.type)) {
+          types[name] = definition.type;
+        }
+      }
+      setFields(types);
+      setField('created_at');
+    });
+  }, [table]);
+
+  const isDate = DATE_FIELD_TYPES.includes(fields[field]);
+
+  useEffect(() => {
+    if (!table || !fields[field]) return;
+
+    const loadGroups = async () => {
+      setLoading(true);
+      const response = await apiService.aggregate(table, {
+        count: '*',
+        groupBy: isDate ? `${field}:${unit}` : field,
+        sort: isDate ? field : '-count',
+        limit: MAX_GROUPS
+      });
+      if (response.success) {
+        setGroups(response.data.map((row: any) => ({ key: row[field] === null ? '(empty)' : String(row[field]), count: row.count })));
+        setError(null);
+      } else {
+        setGroups([]);
+        setError(response.error || 'Failed to load aggregates');
+      }
+      setLoading(false);
+    };
+    loadGroups();
+  }, [table, fields, field, unit, isDate]);
+
+  const max = Math.max(1, ...groups.map(group => group.count));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Records by Field</CardTitle>
+          <CardDescription>Number of records per value, or per period for dates</CardDescription>
+        </div>
+        <BarChart3 className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent className="content-spacing">
+        <div className="responsive-flex">
+          <Select value={table} onValueChange={setTable}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue placeholder="Table" />
+            </SelectTrigger>
+            <SelectContent>
+              {tables.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={field} onValueChange={setField}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue placeholder="Field" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.keys(fields).map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {isDate && (
+            <Select value={unit} onValueChange={setUnit}>
+              <SelectTrigger className="sm:w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">By day</SelectItem>
+                <SelectItem value="week">By week</SelectItem>
+                <SelectItem value="month">By month</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {error && <div className="alert alert-error text-sm">{error}</div>}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No records.</p>
+        ) : (
+          <div className="space-y-2">
+            {groups.map(group => (
+              <div key={group.key} className="flex items-center gap-3 text-sm">
+                <span className="w-32 truncate text-muted-foreground" title={group.key}>{group.key}</span>
+                <div className="flex-1 h-4 rounded bg-muted">
+                  <div className="h-4 rounded bg-primary" style={{ width: `${(group.count / max) * 100}%` }} />
+                </div>
+                <span className="w-12 text-right font-medium">{group.count}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AggregateChart;
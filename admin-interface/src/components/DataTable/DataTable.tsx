@@ -33,11 +33,15 @@ export interface DataTableProps {
     direction: 'asc' | 'desc';
   };
   filters?: Record<string, any>;
+  /** Server-side search text; the search box is shown when `onSearch` is set. */
+  searchValue?: string;
+  searchPlaceholder?: string;
   selectedRows?: string[];
   rowKey?: string;
   selectable?: boolean;
   onSort?: (key: string, direction: 'asc' | 'desc') => void;
   onFilter?: (filters: Record<string, any>) => void;
+  onSearch?: (query: string) => void;
   onPageChange?: (page: number, pageSize: number) => void;
   onEdit?: (record: any, index: number) => void;
   onDelete?: (record: any, index: number) => void;
@@ -62,11 +66,14 @@ export const DataTable: React.FC<DataTableProps> = ({
   pagination,
   sortConfig,
   filters = {},
+  searchValue = '',
+  searchPlaceholder = 'Search...',
   selectedRows = [],
   rowKey = 'id',
   selectable = false,
   onSort,
   onFilter,
+  onSearch,
   onPageChange,
   onEdit,
   onDelete,
@@ -83,6 +90,7 @@ export const DataTable: React.FC<DataTableProps> = ({
 }) => {
   const [localFilters, setLocalFilters] = useState<Record<string, any>>(filters);
   const [showFilters, setShowFilters] = useState(false);
+  const [searchInput, setSearchInput] = useState(searchValue);
   const [editingRow, setEditingRow] = useState<string | null>(null);
   const [editingData, setEditingData] = useState<any>({});
   const tableRef = useRef<HTMLDivElement>(null);
@@ -100,6 +108,17 @@ export const DataTable: React.FC<DataTableProps> = ({
     return () => window.removeEventListener('resize', updateTableWidth);
   }, []);
 
+  useEffect(() => {
+    setSearchInput(searchValue);
+  }, [searchValue]);
+
+  // Searches once typing pauses rather than on every key
+  useEffect(() => {
+    if (!onSearch || searchInput === searchValue) return;
+    const timer = setTimeout(() => onSearch(searchInput), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput, searchValue, onSearch]);
+
   const totalColumnWidth = useMemo(() => {
     return columns.reduce((total, col) => total + (col.width || 150), 0) + 
            (selectable ? 40 : 0) + 
@@ -323,6 +342,18 @@ export const DataTable: React.FC<DataTableProps> = ({
       )}
 
       <div className="data-table__toolbar">
+        {onSearch && (
+          <div className="data-table__search">
+            <Search size={14} className="data-table__search-icon" />
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder={searchPlaceholder}
+              className="data-table__search-input"
+            />
+          </div>
+        )}
         <button
           onClick={() => setShowFilters(!showFilters)}
           className={cn('data-table__filter-toggle', { active: showFilters })}
@@ -0,0 +1,159 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { apiService } from '../services/apiService';
+
+interface HistoryEntry {
+  id: string;
+  operation: 'create' | 'update' | 'delete' | 'restore';
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  changed_fields: string[];
+  record_version?: number;
+  actor_id?: string;
+  ip_address?: string;
+  changed_at: string;
+}
+
+interface RecordHistoryPanelProps {
+  tableName: string;
+  recordId: string;
+  onClose: () => void;
+  onReverted: () => void;
+}
+
+const operationVariant: Record<HistoryEntry['operation'], "default" | "secondary" | "destructive" | "outline"> = {
+  create: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+  restore: 'outline',
+};
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const RecordHistoryPanel: React.FC<RecordHistoryPanelProps> = ({ tableName, recordId, onClose, onReverted }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await apiService.getRecordHistory(tableName, recordId);
+      if (response.success) {
+        setEntries(response.data || []);
+        setError(null);
+      } else {
+        setError(response.error || 'Failed to load history');
+      }
+    } catch {
+      setError('Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [tableName, recordId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const handleRevert = async (entry: HistoryEntry) => {
+    const label = entry.record_version ? `version ${entry.record_version}` : 'this version';
+    if (!confirm(`Revert this record to ${label}?`)) {
+      return;
+    }
+
+    const response = await apiService.revertRecord(tableName, recordId, entry.id);
+    if (response.success) {
+      await loadHistory();
+      onReverted();
+    } else {
+      setError(response.error || 'Failed to revert record');
+    }
+  };
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-50 w-full max-w-md overflow-y-auto border-l bg-background shadow-lg">
+      <div className="flex items-center justify-between border-b p-4">
+        <div className="flex items-center gap-2">
+          <History size={18} />
+          <h3 className="font-semibold">History</h3>
+          <code className="text-xs text-muted-foreground">{recordId}</code>
+        </div>
+        <button onClick={onClose} className="icon-button" title="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="content-spacing p-4">
+        {error && <div className="alert alert-error">{error}</div>}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-muted-foreground">No recorded changes</p>
+        ) : (
+          entries.map((entry, index) => (
+            <div key={entry.id} className="space-y-2 rounded-md border p-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Badge variant={operationVariant[entry.operation]}>{entry.operation}</Badge>
+                  {entry.record_version && (
+                    <span className="text-xs text-muted-foreground">v{entry.record_version}</span>
+                  )}
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(entry.changed_at).toLocaleString()}
+                </span>
+              </div>
+
+              <div className="text-xs text-muted-foreground">
+                by {entry.actor_id || 'system'}{entry.ip_address && ` from ${entry.ip_address}`}
+              </div>
+
+              {entry.changed_fields.length > 0 && (
+                <table className="w-full text-xs">
+                  <tbody>
+                    {entry.changed_fields.map(field => (
+                      <tr key={field} className="align-top">
+                        <td className="py-1 pr-2 font-medium">{field}</td>
+                        <td className="py-1 pr-2 text-red-600 line-through break-all">
+                          {entry.before && formatValue(entry.before[field])}
+                        </td>
+                        <td className="py-1 text-green-600 break-all">
+                          {entry.after && formatValue(entry.after[field])}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {/* The most recent entry is the current state */}
+              {index > 0 && entry.after && (
+                <Button
+                  onClick={() => handleRevert(entry)}
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                >
+                  <RotateCcw size={14} />
+                  Revert to this version
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecordHistoryPanel;
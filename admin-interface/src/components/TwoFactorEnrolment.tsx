@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { authService, type TwoFactorSetup } from '../services/authService';
+
+interface TwoFactorEnrolmentProps {
+  /** The challenge token of a login whose role requires two-factor authentication; omitted for the signed-in user. */
+  challengeToken?: string;
+  /** Called once the user has seen their recovery codes. */
+  onDone: () => void;
+}
+
+/**
+ * Enrols a user in two-factor authentication: shows the secret to add to an authenticator app,
+ * confirms a first code, and shows the recovery codes once.
+ */
+export const TwoFactorEnrolment: React.FC<TwoFactorEnrolmentProps> = ({ challengeToken, onDone }) => {
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    authService.setupTwoFactor(challengeToken)
+      .then(setSetup)
+      .catch((error) => {
+        console.error('Failed to start two-factor enrolment:', error);
+        setError('Could not start the enrolment. Please sign in again.');
+      });
+  }, [challengeToken]);
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    const codes = await authService.enableTwoFactor(code.trim(), challengeToken);
+    setLoading(false);
+    if (codes) {
+      setRecoveryCodes(codes);
+    } else {
+      setError('Invalid code. Check the time of your device and try again.');
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm">
+          Two-factor authentication is enabled. Keep these recovery codes somewhere safe: each one signs you in once
+          if you lose your device, and they will not be shown again.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-muted p-3 rounded-md">
+          {recoveryCodes.map((recoveryCode) => <li key={recoveryCode}>{recoveryCode}</li>)}
+        </ul>
+        <Button className="w-full" onClick={onDone}>I saved my recovery codes</Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleEnable} className="space-y-4">
+      {error && (
+        <div className="bg-destructive/15 text-destructive px-3 py-2 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+      <p className="text-sm">
+        Add this account to your authenticator app, then enter the 6-digit code it shows.
+      </p>
+      {setup && (
+        <div className="space-y-2 text-sm">
+          <a href={setup.otpauthUrl} className="text-primary underline break-all">Open in authenticator app</a>
+          <p>
+            Or enter this key manually: <code className="font-mono bg-muted px-1 rounded break-all">{setup.secret}</code>
+          </p>
+        </div>
+      )}
+      <Input
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        placeholder="123456"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        disabled={!setup || loading}
+        required
+      />
+      <Button type="submit" className="w-full" disabled={!setup || loading}>
+        {loading ? 'Verifying...' : 'Enable two-factor authentication'}
+      </Button>
+    </form>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
-import { authService } from '../services/authService';
+import { authService, type LoginResult } from '../services/authService';
 
 interface User {
   id: string;
@@ -9,7 +9,9 @@ interface User {
 
 interface AuthContextType {
   user: User | null;
-  login: (email: string, password: string) => Promise<boolean>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  /** Loads the signed-in user, once a login completed with a second factor. */
+  completeLogin: () => Promise<void>;
   logout: () => void;
   isAuthenticated: boolean;
   loading: boolean;
@@ -52,23 +54,27 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const login = async (email: string, password: string): Promise<boolean> => {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     try {
       setLoading(true);
-      const success = await authService.login(email, password);
-      if (success) {
+      const result = await authService.login(email, password);
+      if (result.status === 'success') {
         await checkAuthStatus();
-        return true;
       }
-      return false;
+      return result;
     } catch (error) {
       console.error('Login failed:', error);
-      return false;
+      return { status: 'failed' };
     } finally {
       setLoading(false);
     }
   };
 
+  const completeLogin = async () => {
+    setLoading(true);
+    await checkAuthStatus();
+  };
+
   const logout = () => {
     authService.logout();
     setUser(null);
@@ -77,6 +83,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const value: AuthContextType = {
     user,
     login,
+    completeLogin,
     logout,
     isAuthenticated: !!user,
     loading
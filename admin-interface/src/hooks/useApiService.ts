@@ -11,6 +11,11 @@ interface UseApiServiceReturn {
     createSystemUser: ApiService['createSystemUser'];
     updateSystemUser: ApiService['updateSystemUser'];
     deleteSystemUser: ApiService['deleteSystemUser'];
+    getPendingVerifications: ApiService['getPendingVerifications'];
+    verifyUserEmail: ApiService['verifyUserEmail'];
+    getTwoFactor: ApiService['getTwoFactor'];
+    setTwoFactorPolicy: ApiService['setTwoFactorPolicy'];
+    resetTwoFactor: ApiService['resetTwoFactor'];
 }
 
 export const useApiService = (): UseApiServiceReturn => {
@@ -42,5 +47,10 @@ export const useApiService = (): UseApiServiceReturn => {
         createSystemUser: apiService.createSystemUser.bind(apiService),
         updateSystemUser: apiService.updateSystemUser.bind(apiService),
         deleteSystemUser: apiService.deleteSystemUser.bind(apiService),
+        getPendingVerifications: apiService.getPendingVerifications.bind(apiService),
+        verifyUserEmail: apiService.verifyUserEmail.bind(apiService),
+        getTwoFactor: apiService.getTwoFactor.bind(apiService),
+        setTwoFactorPolicy: apiService.setTwoFactorPolicy.bind(apiService),
+        resetTwoFactor: apiService.resetTwoFactor.bind(apiService),
     }
 }
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useApiService } from '@/hooks/useApiService';
 import StorageInfo from '@/components/StorageInfo';
+import AggregateChart from '@/components/AggregateChart';
 
 const Dashboard: React.FC = () => {
   const { tables, loading, error } = useApiService();
@@ -65,6 +66,8 @@ const Dashboard: React.FC = () => {
         <StorageInfo />
       </div>
 
+      {tables.length > 0 && <AggregateChart tables={tables} />}
+
       {/* Welcome Card */}
       <Card>
         <CardHeader>
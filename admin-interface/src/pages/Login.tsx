@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { authService } from '../services/authService';
+import { TwoFactorEnrolment } from '../components/TwoFactorEnrolment';
 import { Zap } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -12,7 +14,10 @@ const Login: React.FC = () => {
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const [attempts, setAttempts] = useState(0);
-  const { login, isAuthenticated } = useAuth();
+  const [challenge, setChallenge] = useState<{ step: 'verify' | 'setup'; challengeToken: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const { login, completeLogin, isAuthenticated } = useAuth();
 
   useEffect(() => {
     setError('');
@@ -46,12 +51,15 @@ const Login: React.FC = () => {
     setError('');
 
     try {
-      const success = await login(email.trim(), password);
-      if (!success) {
+      const result = await login(email.trim(), password);
+      if (result.status === 'failed') {
         setAttempts(prev => prev + 1);
         setError('Invalid credentials. Please check your email and password.');
       } else {
         setAttempts(0); // Reset on successful login
+        if (result.status === 'two-factor') {
+          setChallenge({ step: result.step, challengeToken: result.challengeToken });
+        }
       }
     } catch (error) {
       setAttempts(prev => prev + 1);
@@ -62,6 +70,32 @@ const Login: React.FC = () => {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+
+    setLoading(true);
+    setError('');
+
+    const verified = await authService.verifyTwoFactor(
+      challenge.challengeToken,
+      useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() }
+    );
+    if (verified) {
+      await completeLogin();
+    } else {
+      setError(useRecoveryCode ? 'Invalid or already used recovery code.' : 'Invalid code. Please try again.');
+    }
+    setLoading(false);
+  };
+
+  const restart = () => {
+    setChallenge(null);
+    setCode('');
+    setUseRecoveryCode(false);
+    setPassword('');
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
       <Card className="w-full max-w-md">
@@ -79,43 +113,82 @@ const Login: React.FC = () => {
             </div>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <label htmlFor="email" className="text-sm font-medium">
-                Email:
-              </label>
-              <Input
-                type="email"
-                id="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                disabled={loading}
-              />
+          {challenge?.step === 'setup' ? (
+            <div className="space-y-4">
+              <p className="text-sm font-medium">Your account requires two-factor authentication.</p>
+              <TwoFactorEnrolment challengeToken={challenge.challengeToken} onDone={completeLogin} />
+              <Button variant="ghost" className="w-full" onClick={restart}>Back to sign in</Button>
             </div>
+          ) : challenge?.step === 'verify' ? (
+            <form onSubmit={handleVerify} className="space-y-4">
+              <div className="space-y-2">
+                <label htmlFor="code" className="text-sm font-medium">
+                  {useRecoveryCode ? 'Recovery code:' : 'Authentication code:'}
+                </label>
+                <Input
+                  id="code"
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  disabled={loading}
+                  autoFocus
+                />
+              </div>
 
-            <div className="space-y-2">
-              <label htmlFor="password" className="text-sm font-medium">
-                Password:
-              </label>
-              <Input
-                type="password"
-                id="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                disabled={loading}
-              />
-            </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? 'Verifying...' : 'Verify'}
+              </Button>
+              <Button
+                type="button"
+                variant="link"
+                className="w-full"
+                onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); setError(''); }}
+              >
+                {useRecoveryCode ? 'Use a code of your authenticator app' : 'Use a recovery code'}
+              </Button>
+              <Button type="button" variant="ghost" className="w-full" onClick={restart}>Back to sign in</Button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <label htmlFor="email" className="text-sm font-medium">
+                  Email:
+                </label>
+                <Input
+                  type="email"
+                  id="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  disabled={loading}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label htmlFor="password" className="text-sm font-medium">
+                  Password:
+                </label>
+                <Input
+                  type="password"
+                  id="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  disabled={loading}
+                />
+              </div>
 
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={loading}
-            >
-              {loading ? 'Signing in...' : 'Sign In'}
-            </Button>
-          </form>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={loading}
+              >
+                {loading ? 'Signing in...' : 'Sign In'}
+              </Button>
+            </form>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -5,7 +5,11 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, Dialog
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Badge } from '../components/ui/badge';
 import { useApiService } from '../hooks/useApiService';
+import { authService } from '../services/authService';
+import { TwoFactorEnrolment } from '../components/TwoFactorEnrolment';
+import type { PendingVerification, TwoFactorOverview } from '../services/api';
 
 interface SystemUser {
   id: string;
@@ -15,6 +19,9 @@ interface SystemUser {
   updatedAt: string;
 }
 
+// Roles of the users of the auth endpoints that a two-factor policy can apply to
+const TWO_FACTOR_ROLES = ['admin', 'user'];
+
 interface SystemRole {
   id: string;
   name: string;
@@ -29,10 +36,16 @@ export function SystemUsers() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [roleId, setRoleId] = useState('');
+  const [pendingVerifications, setPendingVerifications] = useState<PendingVerification[]>([]);
+  const [twoFactor, setTwoFactor] = useState<TwoFactorOverview>({ users: [], policies: [] });
+  const [ownTwoFactorEnabled, setOwnTwoFactorEnabled] = useState<boolean | null>(null);
+  const [isEnrolmentOpen, setIsEnrolmentOpen] = useState(false);
 
   useEffect(() => {
     fetchUsers();
     fetchRoles();
+    fetchPendingVerifications();
+    fetchTwoFactor();
   }, []);
 
   const fetchUsers = async () => {
@@ -53,6 +66,58 @@ export function SystemUsers() {
     }
   };
 
+  const fetchPendingVerifications = async () => {
+    try {
+      const response = await apiService.getPendingVerifications();
+      setPendingVerifications(response.data ?? []);
+    } catch (error) {
+      console.error('Failed to fetch pending verifications:', error);
+    }
+  };
+
+  const handleVerifyUser = async (userId: string) => {
+    try {
+      await apiService.verifyUserEmail(userId);
+      fetchPendingVerifications();
+    } catch (error) {
+      console.error('Failed to verify user:', error);
+    }
+  };
+
+  const fetchTwoFactor = async () => {
+    try {
+      const response = await apiService.getTwoFactor();
+      setTwoFactor(response.data ?? { users: [], policies: [] });
+      const status = await authService.getTwoFactorStatus();
+      setOwnTwoFactorEnabled(status?.enabled ?? null);
+    } catch (error) {
+      console.error('Failed to fetch two-factor authentication:', error);
+    }
+  };
+
+  const handleToggleTwoFactorPolicy = async (role: string, required: boolean) => {
+    try {
+      await apiService.setTwoFactorPolicy(role, required);
+      fetchTwoFactor();
+    } catch (error) {
+      console.error('Failed to update two-factor policy:', error);
+    }
+  };
+
+  const handleResetTwoFactor = async (userId: string) => {
+    try {
+      await apiService.resetTwoFactor(userId);
+      fetchTwoFactor();
+    } catch (error) {
+      console.error('Failed to reset two-factor authentication:', error);
+    }
+  };
+
+  const handleEnrolmentDone = () => {
+    setIsEnrolmentOpen(false);
+    fetchTwoFactor();
+  };
+
   const handleSaveUser = async () => {
     try {
       if (editingUser) {
@@ -112,6 +177,53 @@ export function SystemUsers() {
     },
   ];
 
+  const verificationColumns = [
+    { key: 'email', title: 'Email' },
+    {
+      key: 'sentAt',
+      title: 'Link sent',
+      render: (value: string) => new Date(value).toLocaleString(),
+    },
+    {
+      key: 'expired',
+      title: 'Link status',
+      render: (value: boolean) => value
+        ? <Badge variant="destructive">Expired</Badge>
+        : <Badge variant="secondary">Pending</Badge>,
+    },
+    {
+      key: 'actions',
+      title: 'Actions',
+      render: (_value: unknown, record: PendingVerification) => (
+        <Button variant="outline" size="sm" onClick={() => handleVerifyUser(record.userId)}>
+          Verify
+        </Button>
+      ),
+    },
+  ];
+
+  const twoFactorColumns = [
+    { key: 'email', title: 'Email' },
+    {
+      key: 'enabledAt',
+      title: 'Enabled',
+      render: (value: string) => new Date(value).toLocaleString(),
+    },
+    { key: 'recoveryCodesLeft', title: 'Recovery codes left' },
+    {
+      key: 'actions',
+      title: 'Actions',
+      render: (_value: unknown, record: TwoFactorOverview['users'][number]) => (
+        <Button variant="outline" size="sm" onClick={() => handleResetTwoFactor(record.userId)}>
+          Reset
+        </Button>
+      ),
+    },
+  ];
+
+  const isTwoFactorRequired = (role: string) =>
+    twoFactor.policies.some((policy) => policy.role === role && policy.required);
+
   return (
     <div className="p-6">
       <h1 className="text-2xl font-bold mb-4">System Users</h1>
@@ -160,6 +272,45 @@ export function SystemUsers() {
         </DialogContent>
       </Dialog>
       <DataTable columns={columns} data={users} />
+
+      <h2 className="text-xl font-semibold mt-8 mb-2">Pending Email Verifications</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Users who registered while email verification is on and have not opened their verification link yet.
+      </p>
+      <DataTable columns={verificationColumns} data={pendingVerifications} rowKey="userId" />
+
+      <h2 className="text-xl font-semibold mt-8 mb-2">Two-Factor Authentication</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Users of a role that requires two-factor authentication enrol at their next login. Resetting a user who lost
+        their device removes their second factor.
+      </p>
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        {TWO_FACTOR_ROLES.map((role) => (
+          <div key={role} className="flex items-center gap-2">
+            <span className="text-sm font-medium capitalize">{role}</span>
+            {isTwoFactorRequired(role)
+              ? <Badge>Required</Badge>
+              : <Badge variant="secondary">Optional</Badge>}
+            <Button variant="outline" size="sm" onClick={() => handleToggleTwoFactorPolicy(role, !isTwoFactorRequired(role))}>
+              {isTwoFactorRequired(role) ? 'Make optional' : 'Require'}
+            </Button>
+          </div>
+        ))}
+        {ownTwoFactorEnabled === false && (
+          <Dialog open={isEnrolmentOpen} onOpenChange={setIsEnrolmentOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm">Enable for my account</Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Enable two-factor authentication</DialogTitle>
+              </DialogHeader>
+              {isEnrolmentOpen && <TwoFactorEnrolment onDone={handleEnrolmentDone} />}
+            </DialogContent>
+          </Dialog>
+        )}
+      </div>
+      <DataTable columns={twoFactorColumns} data={twoFactor.users} rowKey="userId" />
     </div>
   );
 }
\ No newline at end of file
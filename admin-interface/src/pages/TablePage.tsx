@@ -5,10 +5,15 @@ import {
   Download,
   RefreshCw,
   BarChart3,
-  Search,
-  ChevronDown
+  ChevronDown,
+  Trash2,
+  RotateCcw,
+  History,
+  Lock,
+  Unlock
 } from 'lucide-react';
 import { DataTable, type Column } from '@/components/DataTable/DataTable';
+import RecordHistoryPanel from '@/components/RecordHistoryPanel';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { apiService } from '../services/apiService';
@@ -24,6 +29,38 @@ interface TableRecord {
   [key: string]: any;
 }
 
+interface DeleteDependents {
+  resource: string;
+  field: string;
+  onDelete: 'cascade' | 'setNull' | 'restrict' | 'noAction';
+  ids: string[];
+}
+
+const onDeleteEffects: Record<DeleteDependents['onDelete'], string> = {
+  cascade: 'will be deleted',
+  setNull: 'will be unlinked',
+  restrict: 'prevent the delete',
+  noAction: 'prevent the delete'
+};
+
+/**
+ * Describes the records affected by a delete, one line per relation field.
+ */
+function describeDependents(dependents: DeleteDependents[]): string {
+  return dependents
+    .map(group => `- ${group.ids.length} ${group.resource} record(s) (${group.field}) ${onDeleteEffects[group.onDelete]}`)
+    .join('\n');
+}
+
+/**
+ * Renders a search snippet, highlighting the words wrapped in `<mark>` tags; the rest stays plain text.
+ */
+function renderSnippet(snippet: string): React.ReactNode {
+  return snippet.split(/<mark>(.*?)<\/mark>/g).map((part, index) =>
+    index % 2 === 1 ? <mark key={index}>{part}</mark> : part
+  );
+}
+
 interface TableSchema {
   [key: string]: {
     type: string;
@@ -46,6 +83,11 @@ export const TablePage: React.FC<TablePageProps> = ({ className }) => {
   const [selectedRows, setSelectedRows] = useState<string[]>([]);
   const [showStatsModal, setShowStatsModal] = useState(false);
   const [tableStats, setTableStats] = useState<any>(null);
+  const [softDelete, setSoftDelete] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [historyRecordId, setHistoryRecordId] = useState<string | null>(null);
+  const [schemaMode, setSchemaMode] = useState<'auto' | 'strict' | 'strip'>('auto');
+  const [searchable, setSearchable] = useState<string[]>([]);
 
   const [pagination, setPagination] = useState({
     current: 1,
@@ -78,7 +120,7 @@ export const TablePage: React.FC<TablePageProps> = ({ className }) => {
       loadTableData(selectedTable);
       loadTableSchema(selectedTable);
     }
-  }, [selectedTable, pagination.current, pagination.pageSize, sortConfig, filters]);
+  }, [selectedTable, pagination.current, pagination.pageSize, sortConfig, filters, showTrash, searchQuery]);
 
   useEffect(() => {
     if (tableName && tableName !== selectedTable) {
@@ -86,6 +128,12 @@ export const TablePage: React.FC<TablePageProps> = ({ className }) => {
     }
   }, [tableName]);
 
+  useEffect(() => {
+    setShowTrash(false);
+    setSelectedRows([]);
+    setSearchQuery('');
+  }, [selectedTable]);
+
   const loadTables = async () => {
     try {
       const response = await apiService.getTables();
@@ -104,13 +152,27 @@ export const TablePage: React.FC<TablePageProps> = ({ className }) => {
     setLoading(true);
     setError('');
     try {
+      if (searchQuery.trim() && !showTrash) {
+        const response = await apiService.searchRecords(table, searchQuery, pagination.current, pagination.pageSize);
+        if (response.success) {
+          setData(response.data || []);
+          setPagination(prev => ({ ...prev, total: response.meta?.total ?? 0 }));
+        } else {
+          setError(response.error || 'Failed to search records');
+          setData([]);
+        }
+        return;
+      }
+
       const response = await apiService.getTableData(
         table,
         pagination.current,
-        pagination.pageSize
+        pagination.pageSize,
+        showTrash
       );
       if (response.success) {
         setData(response.data || []);
+        setSoftDelete(response.softDelete === true);
         if (response.pagination) {
           setPagination(prev => ({
             ...prev,
@@ -135,6 +197,8 @@ export const TablePage: React.FC<TablePageProps> = ({ className }) => {
       const response = await apiService.getTableSchema(table);
       if (response.success) {
         setSchema(response.data);
+        setSchemaMode(response.schemaMode || 'auto');
+        setSearchable(response.searchable || []);
       }
     } catch (error) {
       console.error('Failed to load table schema:', error);
@@ -155,12 +219,29 @@ export const TablePage: React.FC<TablePageProps> = ({ className }) => {
     }
   };
 
+  const handleRestore = useCallback(async (record: TableRecord) => {
+    if (!selectedTable) return;
+
+    try {
+      const response = await apiService.restoreRecord(selectedTable, record.id);
+      if (response.success) {
+        await loadTableData(selectedTable);
+        setSelectedRows(prev => prev.filter(id => id !== record.id));
+      } else {
+        setError(response.error || 'Failed to restore record');
+      }
+    } catch (error) {
+      logger.error({ error }, 'Failed to restore record');
+      setError('Failed to restore record');
+    }
+  }, [selectedTable, loadTableData]);
+
   const columns = useMemo((): Column[] => {
     if (!data.length || !schema) return [];
 
     const sampleRecord = data[0];
 
-    return Object.keys(sampleRecord).map((key, index) => {
+    const dataColumns: Column[] = Object.keys(sampleRecord).filter(key => key !== '_search').map((key, index) => {
       const schemaField = schema[key];
       const isIdField = key === 'id' || key.endsWith('_id');
 
@@ -213,7 +294,60 @@ export const TablePage: React.FC<TablePageProps> = ({ className }) => {
         },
       };
     });
-  }, [data, schema]);
+
+    if (sampleRecord._search) {
+      dataColumns.push({
+        key: '_search',
+        title: 'Match',
+        width: 300,
+        render: (match: any) => (
+          <span className="data-table__search-match">{renderSnippet(match?.snippet ?? '')}</span>
+        ),
+      });
+    }
+
+    if (!showTrash) {
+      return [
+        ...dataColumns,
+        {
+          key: '__history',
+          title: 'History',
+          width: 110,
+          render: (_value: any, record: TableRecord) => (
+            <Button
+              onClick={() => setHistoryRecordId(record.id)}
+              variant="outline"
+              size="sm"
+              className="gap-2"
+            >
+              <History size={14} />
+              History
+            </Button>
+          ),
+        },
+      ];
+    }
+
+    return [
+      ...dataColumns,
+      {
+        key: '__restore',
+        title: 'Restore',
+        width: 110,
+        render: (_value: any, record: TableRecord) => (
+          <Button
+            onClick={() => handleRestore(record)}
+            variant="outline"
+            size="sm"
+            className="gap-2"
+          >
+            <RotateCcw size={14} />
+            Restore
+          </Button>
+        ),
+      },
+    ];
+  }, [data, schema, showTrash, handleRestore]);
 
   const handleSort = useCallback((key: string, direction: 'asc' | 'desc') => {
     setSortConfig({ key, direction });
@@ -235,7 +369,21 @@ export const TablePage: React.FC<TablePageProps> = ({ className }) => {
   const handleDelete = useCallback(async (record: TableRecord) => {
     if (!selectedTable) return;
 
-    if (!confirm(`Are you sure you want to delete this record?`)) {
+    let message = 'Are you sure you want to delete this record?';
+    try {
+      const response = await apiService.getRecordDependents(selectedTable, record.id);
+      if (response.success && response.data.blocked) {
+        setError(`This record cannot be deleted while other records reference it:\n${describeDependents(response.data.dependents)}`);
+        return;
+      }
+      if (response.success && response.data.dependents.length > 0) {
+        message += `\n\nThis will also affect:\n${describeDependents(response.data.dependents)}`;
+      }
+    } catch (error) {
+      logger.error({ error }, 'Failed to load record dependents');
+    }
+
+    if (!confirm(message)) {
       return;
     }
 
@@ -256,13 +404,18 @@ export const TablePage: React.FC<TablePageProps> = ({ className }) => {
   const handleBulkDelete = useCallback(async (records: TableRecord[]) => {
     if (!selectedTable) return;
 
-    if (!confirm(`Are you sure you want to delete ${records.length} record(s)?`)) {
+    const message = showTrash
+      ? `Permanently delete ${records.length} record(s)? This cannot be undone.`
+      : `Are you sure you want to delete ${records.length} record(s)?`;
+    if (!confirm(message)) {
       return;
     }
 
     try {
       const ids = records.map(record => record.id);
-      const response = await apiService.bulkDelete(selectedTable, ids);
+      const response = showTrash
+        ? await apiService.purgeRecords(selectedTable, ids)
+        : await apiService.bulkDelete(selectedTable, ids);
       if (response.success) {
         await loadTableData(selectedTable);
         setSelectedRows([]);
@@ -273,8 +426,43 @@ export const TablePage: React.FC<TablePageProps> = ({ className }) => {
       logger.error('Failed to delete records:', error);
       setError('Failed to delete records');
     }
+  }, [selectedTable, loadTableData, showTrash]);
+
+  const handleEmptyTrash = useCallback(async () => {
+    if (!selectedTable) return;
+
+    if (!confirm(`Permanently delete every record in the ${selectedTable} trash? This cannot be undone.`)) {
+      return;
+    }
+
+    const response = await apiService.purgeRecords(selectedTable);
+    if (response.success) {
+      await loadTableData(selectedTable);
+      setSelectedRows([]);
+    } else {
+      setError(response.error || 'Failed to empty trash');
+    }
   }, [selectedTable, loadTableData]);
 
+  const toggleSchemaLock = useCallback(async () => {
+    if (!selectedTable) return;
+
+    // Locked resources reject unknown fields instead of adding them to the schema
+    const mode = schemaMode === 'auto' ? 'strict' : 'auto';
+    const response = await apiService.setSchemaMode(selectedTable, mode);
+    if (response.success) {
+      setSchemaMode(response.schemaMode);
+    } else {
+      setError(response.error || 'Failed to change schema mode');
+    }
+  }, [selectedTable, schemaMode]);
+
+  const toggleTrash = useCallback(() => {
+    setShowTrash(prev => !prev);
+    setSelectedRows([]);
+    setPagination(prev => ({ ...prev, current: 1 }));
+  }, []);
+
   const handleRowSelect = useCallback((selectedKeys: string[]) => {
     setSelectedRows(selectedKeys);
   }, []);
@@ -360,25 +548,14 @@ export const TablePage: React.FC<TablePageProps> = ({ className }) => {
       <div className="responsive-flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold text-foreground">
-            {selectedTable} Records
+            {selectedTable} {showTrash ? 'Trash' : 'Records'}
           </h2>
           <p className="text-muted-foreground">
-            {pagination.total} total records
+            {pagination.total} {showTrash ? 'deleted' : 'total'} records
           </p>
         </div>
 
         <div className="responsive-flex items-center gap-2">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground" size={16} />
-            <input
-              type="text"
-              placeholder="Search records..."
-              value={searchQuery}
-              onChange={(e) => handleSearch(e.target.value)}
-              className="form-input pl-10"
-            />
-          </div>
-
           <Button
             onClick={handleRefresh}
             variant="outline"
@@ -416,6 +593,39 @@ export const TablePage: React.FC<TablePageProps> = ({ className }) => {
             </div>
           </div>
 
+          {softDelete && (
+            <Button
+              onClick={toggleTrash}
+              variant={showTrash ? 'default' : 'outline'}
+              size="sm"
+              className="gap-2"
+            >
+              <Trash2 size={16} />
+              {showTrash ? 'Back to records' : 'Trash'}
+            </Button>
+          )}
+
+          {showTrash && pagination.total > 0 && (
+            <Button
+              onClick={handleEmptyTrash}
+              variant="destructive"
+              size="sm"
+            >
+              Empty trash
+            </Button>
+          )}
+
+          <Button
+            onClick={toggleSchemaLock}
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            title={schemaMode === 'auto' ? 'Unknown fields are added to the schema' : `Unknown fields are ${schemaMode === 'strict' ? 'rejected' : 'dropped'}`}
+          >
+            {schemaMode === 'auto' ? <Unlock size={16} /> : <Lock size={16} />}
+            {schemaMode === 'auto' ? 'Lock schema' : 'Unlock schema'}
+          </Button>
+
           <Button
             onClick={loadTableStats}
             variant="outline"
@@ -462,7 +672,7 @@ export const TablePage: React.FC<TablePageProps> = ({ className }) => {
       )}
 
       {error && (
-        <div className="alert alert-error">
+        <div className="alert alert-error whitespace-pre-line">
           {error}
         </div>
       )}
@@ -478,24 +688,37 @@ export const TablePage: React.FC<TablePageProps> = ({ className }) => {
               pagination={pagination}
               sortConfig={sortConfig}
               filters={filters}
+              searchValue={searchQuery}
+              searchPlaceholder={`Search ${searchable.join(', ')}...`}
               selectedRows={selectedRows}
               selectable={true}
+              showActions={!showTrash}
               stickyHeader={true}
               stickyFirstColumn={true}
               onSort={handleSort}
               onFilter={handleFilter}
+              onSearch={searchable.length > 0 && !showTrash ? handleSearch : undefined}
               onPageChange={handlePageChange}
               onEdit={handleEdit}
               onDelete={handleDelete}
               onBulkDelete={handleBulkDelete}
               onRowSelect={handleRowSelect}
-              emptyText={`No ${selectedTable.toLowerCase()} records found`}
+              emptyText={showTrash ? 'Trash is empty' : `No ${selectedTable.toLowerCase()} records found`}
               size="middle"
             />
           </div>
         </CardContent>
       </Card>
 
+      {historyRecordId && (
+        <RecordHistoryPanel
+          tableName={selectedTable}
+          recordId={historyRecordId}
+          onClose={() => setHistoryRecordId(null)}
+          onReverted={() => loadTableData(selectedTable)}
+        />
+      )}
+
       {showStatsModal && tableStats && (
         <div className="modal-overlay" onClick={() => setShowStatsModal(false)}>
           <div className="modal-content" onClick={(e) => e.stopPropagation()}>
@@ -1,3 +1,18 @@
+import { authService } from './authService';
+
+export interface PendingVerification {
+  userId: string;
+  email: string;
+  sentAt: string;
+  expiresAt: string;
+  expired: boolean;
+}
+
+export interface TwoFactorOverview {
+  users: Array<{ userId: string; email: string | null; enabledAt: string; recoveryCodesLeft: number }>;
+  policies: Array<{ role: string; required: boolean }>;
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
@@ -60,7 +75,8 @@ export class ApiService {
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    retried = false
   ): Promise<ApiResponse<T>> {
     try {
       const token = localStorage.getItem('token');
@@ -76,6 +92,11 @@ export class ApiService {
         credentials: 'include',
       });
 
+      // The access token has expired: renew the session and retry once
+      if (response.status === 401 && !retried && await authService.refresh()) {
+        return this.request<T>(endpoint, options, true);
+      }
+
       if (!response.ok) {
         const errorText = await response.text();
         let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
@@ -396,6 +417,34 @@ export class ApiService {
     });
   }
 
+  // Email verification of application users
+  async getPendingVerifications(): Promise<ApiResponse<PendingVerification[]>> {
+    return this.request<PendingVerification[]>('/admin/api/verifications');
+  }
+
+  async verifyUserEmail(userId: string): Promise<ApiResponse<void>> {
+    return this.request<void>(`/admin/api/verifications/${encodeURIComponent(userId)}/verify`, {
+      method: 'POST',
+    });
+  }
+
+  async getTwoFactor(): Promise<ApiResponse<TwoFactorOverview>> {
+    return this.request<TwoFactorOverview>('/admin/api/2fa');
+  }
+
+  async setTwoFactorPolicy(role: string, required: boolean): Promise<ApiResponse<void>> {
+    return this.request<void>(`/admin/api/2fa/policies/${encodeURIComponent(role)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ required }),
+    });
+  }
+
+  async resetTwoFactor(userId: string): Promise<ApiResponse<void>> {
+    return this.request<void>(`/admin/api/2fa/users/${encodeURIComponent(userId)}/reset`, {
+      method: 'POST',
+    });
+  }
+
   async getSystemRoles(): Promise<ApiResponse<any[]>> {
     return this.request<any[]>('/system/roles');
   }
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { refreshOnUnauthorized } from './authService';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || window.location.origin;
 
@@ -52,6 +53,9 @@ api.interceptors.request.use(async (config) => {
   return Promise.reject(error);
 });
 
+// Renew the session when the access token expires
+refreshOnUnauthorized(api);
+
 export const apiService = {
   // Tables
   async getTables() {
@@ -59,13 +63,22 @@ export const apiService = {
     return response.data.data || [];
   },
 
-  async getTableData(tableName: string, page = 1, limit = 10) {
+  async getTableData(tableName: string, page = 1, limit = 10, trash = false) {
     const response = await api.get(`/admin/api/tables/${tableName}/data`, {
-      params: { page, limit }
+      params: { page, limit, ...(trash && { trash: true }) }
     });
     return response.data;
   },
 
+  async searchRecords(tableName: string, q: string, page = 1, limit = 10) {
+    try {
+      const response = await api.get(`/api/${tableName}`, { params: { q, page, limit } });
+      return response.data;
+    } catch (error: any) {
+      return { success: false, error: error?.response?.data?.error || error.message };
+    }
+  },
+
   async createRecord(tableName: string, data: any) {
     const response = await api.post(`/admin/api/tables/${tableName}/records`, data);
     return response.data;
@@ -77,10 +90,67 @@ export const apiService = {
   },
 
   async deleteRecord(tableName: string, id: string) {
-    const response = await api.delete(`/admin/api/tables/${tableName}/records/${id}`);
+    try {
+      const response = await api.delete(`/admin/api/tables/${tableName}/records/${id}`);
+      return response.data;
+    } catch (error: any) {
+      return { success: false, error: error?.response?.data?.error || error.message };
+    }
+  },
+
+  async aggregate(tableName: string, params: Record<string, string | number>) {
+    try {
+      const response = await api.get(`/api/${tableName}/aggregate`, { params });
+      return response.data;
+    } catch (error: any) {
+      return { success: false, error: error?.response?.data?.error || error.message };
+    }
+  },
+
+  async getRecordDependents(tableName: string, id: string) {
+    const response = await api.get(`/admin/api/tables/${tableName}/records/${id}/dependents`);
+    return response.data;
+  },
+
+  async restoreRecord(tableName: string, id: string) {
+    const response = await api.post(`/admin/api/tables/${tableName}/records/${id}/restore`);
     return response.data;
   },
 
+  async purgeRecords(tableName: string, ids?: string[]) {
+    try {
+      const response = await api.post(`/admin/api/tables/${tableName}/trash/purge`, ids ? { ids } : {});
+      return response.data;
+    } catch (error: any) {
+      return { success: false, error: error?.response?.data?.error || error.message };
+    }
+  },
+
+  async getRecordHistory(tableName: string, id: string, page = 1, limit = 50) {
+    const response = await api.get('/admin/api/audit', {
+      params: { resource: tableName, recordId: id, page, limit }
+    });
+    return response.data;
+  },
+
+  async revertRecord(tableName: string, id: string, entryId: string) {
+    try {
+      const response = await api.post(`/admin/api/tables/${tableName}/records/${id}/revert`, { entryId });
+      return response.data;
+    } catch (error: any) {
+      return { success: false, error: error?.response?.data?.error || error.message };
+    }
+  },
+
+  async setSchemaMode(tableName: string, mode: 'auto' | 'strict' | 'strip' | null) {
+    try {
+      const response = await api.put(`/admin/api/tables/${tableName}/schema-mode`, { mode });
+      return response.data;
+    } catch (error: any) {
+      return { success: false, error: error?.response?.data?.error || error.message };
+    }
+  },
+
   getTableSchema(tableName: string): Promise<any> {
     // Implement the API call to fetch the schema for a table
     return fetch(`${API_BASE_URL}/admin/api/tables/${tableName}/schema`, {
@@ -1,4 +1,4 @@
-import axios from 'axios';
+import axios, { type AxiosInstance } from 'axios';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || window.location.origin;
 
@@ -15,34 +15,113 @@ const getCSRFToken = async () => {
   }
 };
 
+// The refresh in progress: each refresh token works once, so concurrent requests share one refresh
+let refreshing: Promise<boolean> | null = null;
+
+/**
+ * The outcome of a login: signed in, or a second factor is needed. With `setup`, the user must enrol first.
+ */
+export type LoginResult =
+  | { status: 'success' }
+  | { status: 'failed' }
+  | { status: 'two-factor'; step: 'verify' | 'setup'; challengeToken: string };
+
+/**
+ * A started two-factor enrolment: the secret, and the `otpauth://` URI authenticator apps read.
+ */
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+const postAuth = async (path: string, body: Record<string, unknown>) => {
+  const csrfToken = await getCSRFToken();
+  return sessionApi.post(`${API_BASE_URL}${path}`, body, {
+    headers: {
+      'Content-Type': 'application/json',
+      'CSRF-Token': csrfToken
+    }
+  });
+};
+
 export const authService = {
-  async login(email: string, password: string): Promise<boolean> {
+  async login(email: string, password: string): Promise<LoginResult> {
     try {
-      const csrfToken = await getCSRFToken();
+      const response = await postAuth('/auth/login', { email, password });
 
-      const response = await axios.post(`${API_BASE_URL}/auth/login`, {
-        email,
-        password
-      }, {
-        headers: {
-          'Content-Type': 'application/json',
-          'CSRF-Token': csrfToken
-        },
-        withCredentials: true
-      });
-
-      return response.status === 200 && response.data?.success === true;
+      if (response.data?.twoFactorRequired) {
+        return { status: 'two-factor', step: response.data.twoFactorStep, challengeToken: response.data.challengeToken };
+      }
+      return { status: response.status === 200 && response.data?.success === true ? 'success' : 'failed' };
     } catch (error) {
       console.error('Login error:', error);
+      return { status: 'failed' };
+    }
+  },
+
+  /**
+   * Completes a login with a code of the authenticator app, or a recovery code.
+   * @returns Whether the code was accepted.
+   */
+  async verifyTwoFactor(challengeToken: string, code: { code?: string; recoveryCode?: string }): Promise<boolean> {
+    try {
+      const response = await postAuth('/auth/2fa/verify', { challengeToken, ...code });
+      return response.data?.success === true;
+    } catch (error) {
+      console.error('Two-factor verification error:', error);
       return false;
     }
   },
 
-  async getCurrentUser() {
+  /**
+   * Starts a two-factor enrolment, for the signed-in user or during a login with a challenge token.
+   */
+  async setupTwoFactor(challengeToken?: string): Promise<TwoFactorSetup> {
+    const response = await postAuth('/auth/2fa/setup', challengeToken ? { challengeToken } : {});
+    return { secret: response.data.secret, otpauthUrl: response.data.otpauthUrl };
+  },
+
+  /**
+   * Confirms a two-factor enrolment with a first code; during a login, this signs the user in.
+   * @returns The recovery codes, or null if the code was refused.
+   */
+  async enableTwoFactor(code: string, challengeToken?: string): Promise<string[] | null> {
     try {
-      const response = await axios.get(`${API_BASE_URL}/admin/api/current-user`, {
-        withCredentials: true
+      const response = await postAuth('/auth/2fa/enable', { code, ...(challengeToken && { challengeToken }) });
+      return response.data?.recoveryCodes ?? null;
+    } catch (error) {
+      console.error('Two-factor enrolment error:', error);
+      return null;
+    }
+  },
+
+  async getTwoFactorStatus(): Promise<{ enabled: boolean; required: boolean; recoveryCodesLeft: number } | null> {
+    try {
+      const response = await sessionApi.get(`${API_BASE_URL}/auth/2fa`);
+      return response.data?.data ?? null;
+    } catch (error) {
+      console.error('Get two-factor status error:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Renews the session from the refresh token cookie.
+   * @returns Whether the session was renewed; it cannot be once the refresh token has expired or was revoked.
+   */
+  refresh(): Promise<boolean> {
+    refreshing ??= axios.post(`${API_BASE_URL}/auth/refresh`, {}, { withCredentials: true })
+      .then((response) => response.data?.success === true)
+      .catch(() => false)
+      .finally(() => {
+        refreshing = null;
       });
+    return refreshing;
+  },
+
+  async getCurrentUser() {
+    try {
+      const response = await sessionApi.get(`${API_BASE_URL}/admin/api/current-user`);
       return response.data;
     } catch (error) {
       console.error('Get current user error:', error);
@@ -63,4 +142,25 @@ export const authService = {
       console.error('Logout error:', error);
     }
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Makes an axios instance renew the session and retry once when a request is rejected with a 401,
+ * which the server answers when the access token has expired.
+ * @param instance The axios instance.
+ */
+export const refreshOnUnauthorized = (instance: AxiosInstance) => {
+  instance.interceptors.response.use(undefined, async (error) => {
+    const config = error.config;
+    if (error.response?.status === 401 && config && !config._retried && !config.url?.includes('/auth/')) {
+      config._retried = true;
+      if (await authService.refresh()) {
+        return instance.request(config);
+      }
+    }
+    return Promise.reject(error);
+  });
+};
+
+const sessionApi = axios.create({ withCredentials: true });
+refreshOnUnauthorized(sessionApi);
@@ -1,5 +1,6 @@
 import logger from '@/lib/logger';
 import axios from 'axios';
+import { refreshOnUnauthorized } from './authService';
 
 const API_BASE_URL = 'http://localhost:3000';
 
@@ -53,6 +54,9 @@ api.interceptors.request.use(async (config) => {
   return Promise.reject(error);
 });
 
+// Renew the session when the access token expires
+refreshOnUnauthorized(api);
+
 export interface Policy {
   id?: string;
   name: string;
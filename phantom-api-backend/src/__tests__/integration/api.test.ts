@@ -1,9 +1,24 @@
-import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
 import request from 'supertest';
 import { createApp } from '../../app';
 import { generateToken } from '../../middleware/auth';
 import { initializePolicyTables } from '../../init-policies';
 import { initializeSystemTables } from '../../init-system-tables';
+import { tableManager, sqliteRaw } from '../../database';
+import { slowQueryLog } from '../../database/slow-query-log';
+import { AppError } from '../../middleware/errorHandler';
+import { mailer, FileTransport } from '../../mail/mailer';
+import { registerUserHooks } from '../../controllers/auth';
+import { comparePassword } from '../../middleware/auth';
+import { JwtToken, JWT_TOKEN_SCHEMA } from '../../models/JwtToken';
+import { PASSWORD_RESET_TOKEN_SCHEMA } from '../../models/PasswordResetToken';
+import { EMAIL_VERIFICATION_SCHEMA } from '../../models/EmailVerification';
+import { TWO_FACTOR_SCHEMA } from '../../models/TwoFactor';
+import { TWO_FACTOR_POLICY_SCHEMA } from '../../models/TwoFactorPolicy';
+import { generateCode, timeStep } from '../../auth/totp';
+import { tokenRevocations } from '../../cache/token-revocations';
 
 describe('API Integration Tests', () => {
   // oxlint-disable-next-line no-unused-vars
@@ -261,4 +276,1848 @@ describe('API Integration Tests', () => {
       expect(res.statusCode).toEqual(403);
     });
   });
+
+  describe('List metadata', () => {
+    it('should return pagination metadata and honour filters in counts', async () => {
+      const uniqueId = Date.now() + 4;
+      for (let i = 0; i < 3; i++) {
+        await request(app)
+          .post('/api/ListItem')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ label: `list${uniqueId}`, position: i });
+      }
+
+      const where = encodeURIComponent(JSON.stringify({ label: `list${uniqueId}` }));
+      const res = await request(app)
+        .get(`/api/ListItem?limit=2&where=${where}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.statusCode).toEqual(200);
+      expect(res.body.data).toHaveLength(2);
+      expect(res.body.meta).toEqual({ total: 3, limit: 2, offset: 0, page: 1, hasMore: true });
+
+      const countRes = await request(app)
+        .get(`/api/ListItem/count?where=${encodeURIComponent(JSON.stringify({ position: { gte: 1 }, label: `list${uniqueId}` }))}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(countRes.statusCode).toEqual(200);
+      expect(countRes.body.data.total).toEqual(2);
+    });
+
+    it('should reject unknown filter operators', async () => {
+      const res = await request(app)
+        .get(`/api/ListItem?where=${encodeURIComponent(JSON.stringify({ position: { above: 1 } }))}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.statusCode).toEqual(400);
+      expect(res.body.error).toContain('Unknown filter operator');
+    });
+  });
+
+  describe('Cursor pagination', () => {
+    it('should page forwards and backwards without gaps or repeats', async () => {
+      const uniqueId = Date.now() + 5;
+      for (let i = 0; i < 5; i++) {
+        await request(app)
+          .post('/api/CursorItem')
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ batch: `cursor${uniqueId}`, rank: i % 2 });
+      }
+
+      const where = encodeURIComponent(JSON.stringify({ batch: `cursor${uniqueId}` }));
+      const fetchPage = (cursor?: string) => request(app)
+        .get(`/api/CursorItem?paginate=cursor&limit=2&sort=-rank&where=${where}${cursor ? `&cursor=${cursor}` : ''}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      const seen: string[] = [];
+      let res = await fetchPage();
+      expect(res.body.meta.prevCursor).toBeNull();
+      const firstPageIds = res.body.data.map((row: any) => row.id);
+      seen.push(...firstPageIds);
+      while (res.body.meta.nextCursor) {
+        res = await fetchPage(res.body.meta.nextCursor);
+        expect(res.statusCode).toEqual(200);
+        seen.push(...res.body.data.map((row: any) => row.id));
+      }
+
+      expect(seen).toHaveLength(5);
+      expect(new Set(seen).size).toEqual(5);
+
+      // Walk back from the second page to the first
+      const secondPage = await fetchPage((await fetchPage()).body.meta.nextCursor);
+      const previous = await fetchPage(secondPage.body.meta.prevCursor);
+      expect(previous.body.data.map((row: any) => row.id)).toEqual(firstPageIds);
+      expect(previous.body.meta.prevCursor).toBeNull();
+    });
+
+    it('should reject a cursor issued for a different sort', async () => {
+      const first = await request(app)
+        .get('/api/CursorItem?paginate=cursor&limit=1&sort=-rank')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      const res = await request(app)
+        .get(`/api/CursorItem?limit=1&sort=rank&cursor=${first.body.meta.nextCursor}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.statusCode).toEqual(400);
+    });
+  });
+
+  describe('Batch transactions', () => {
+    it('should roll back every operation when an atomic batch fails', async () => {
+      const uniqueId = Date.now() + 6;
+      const res = await request(app)
+        .post('/api/batch')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          atomic: true,
+          requests: [
+            { resource: 'BatchOrder', action: 'create', data: { reference: `order${uniqueId}` } },
+            { resource: 'BatchOrder', action: 'update', data: { reference: 'missing id' } }
+          ]
+        });
+
+      expect(res.statusCode).toEqual(400);
+      expect(res.body.error).toContain('Batch operation 1 failed');
+
+      const countRes = await request(app)
+        .get(`/api/BatchOrder/count?where=${encodeURIComponent(JSON.stringify({ reference: `order${uniqueId}` }))}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(countRes.body.data.total).toEqual(0);
+    });
+
+    it('should resolve references to earlier results', async () => {
+      const uniqueId = Date.now() + 7;
+      const res = await request(app)
+        .post('/api/batch')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          atomic: true,
+          requests: [
+            { resource: 'BatchOrder', action: 'create', data: { reference: `order${uniqueId}` } },
+            { resource: 'BatchOrderLine', action: 'create', data: { order_ref: '$0.id', sku: 'A-1' } }
+          ]
+        });
+
+      expect(res.statusCode).toEqual(200);
+      expect(res.body.results).toHaveLength(2);
+      expect(res.body.results[1].data.order_ref).toEqual(res.body.results[0].data.id);
+    });
+
+    it('should keep independent results when not atomic', async () => {
+      const res = await request(app)
+        .post('/api/batch')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          requests: [
+            { resource: 'BatchOrder', action: 'create', data: { reference: `order${Date.now() + 8}` } },
+            { resource: 'BatchOrder', action: 'read', data: { id: '$1.id' } }
+          ]
+        });
+
+      expect(res.statusCode).toEqual(200);
+      expect(res.body.results[0].success).toBe(true);
+      expect(res.body.results[1].success).toBe(false);
+      expect(res.body.results[1].error).toContain('earlier operation');
+    });
+  });
+
+  describe('Bulk operations', () => {
+    it('should create, update and delete records in bulk', async () => {
+      const uniqueId = `bulk${Date.now()}`;
+      const createRes = await request(app)
+        .post('/api/BulkItem/bulk')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({
+          records: [
+            { tag: uniqueId, quantity: 1 },
+            'not a record',
+            { tag: uniqueId, quantity: 5, color: 'red' },
+            { tag: uniqueId, quantity: 9 }
+          ]
+        });
+
+      expect(createRes.statusCode).toEqual(201);
+      expect(createRes.body.data.ids).toHaveLength(3);
+      expect(createRes.body.data.errors).toEqual([{ index: 1, error: 'Record must be a non-empty object' }]);
+
+      const updateRes = await request(app)
+        .patch('/api/BulkItem/bulk')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ where: { tag: uniqueId, quantity: { gte: 5 } }, data: { color: 'blue' } });
+
+      expect(updateRes.statusCode).toEqual(200);
+      expect(updateRes.body.data.ids).toHaveLength(2);
+
+      const countBlue = await request(app)
+        .get(`/api/BulkItem/count?where=${encodeURIComponent(JSON.stringify({ tag: uniqueId, color: 'blue' }))}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(countBlue.body.data.total).toEqual(2);
+
+      const deleteRes = await request(app)
+        .delete(`/api/BulkItem?where=${encodeURIComponent(JSON.stringify({ tag: uniqueId, color: 'blue' }))}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(deleteRes.statusCode).toEqual(200);
+      expect(deleteRes.body.data.ids.sort()).toEqual(updateRes.body.data.ids.sort());
+
+      const countLeft = await request(app)
+        .get(`/api/BulkItem/count?where=${encodeURIComponent(JSON.stringify({ tag: uniqueId }))}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(countLeft.body.data.total).toEqual(1);
+    });
+
+    it('should require a filter for bulk updates and deletes', async () => {
+      const deleteRes = await request(app)
+        .delete('/api/BulkItem')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(deleteRes.statusCode).toEqual(400);
+
+      const updateRes = await request(app)
+        .patch('/api/BulkItem/bulk')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ where: {}, data: { color: 'green' } });
+      expect(updateRes.statusCode).toEqual(400);
+    });
+  });
+
+  describe('Upsert', () => {
+    beforeEach(async () => {
+      await tableManager.createTableFromSchema('UpsertItem', {
+        fields: {
+          sku: { type: 'string', unique: true },
+          stock: { type: 'integer' }
+        },
+        permissions: {
+          create: ['admin', 'user'],
+          read: ['admin', 'user', 'anon'],
+          update: ['admin', 'user'],
+          delete: ['admin']
+        }
+      });
+    });
+
+    it('should insert new records and update conflicting ones', async () => {
+      const sku = `sku${Date.now()}`;
+      const first = await request(app)
+        .put('/api/UpsertItem/upsert')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ conflictOn: ['sku'], data: { sku, stock: 1 } });
+
+      expect(first.statusCode).toEqual(200);
+      expect(first.body.data[0].operation).toEqual('inserted');
+
+      const second = await request(app)
+        .put('/api/UpsertItem/upsert')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ conflictOn: ['sku'], data: [{ sku, stock: 7 }, { sku: `${sku}b`, stock: 2 }] });
+
+      expect(second.statusCode).toEqual(200);
+      expect(second.body.data.map((row: any) => row.operation)).toEqual(['updated', 'inserted']);
+      expect(second.body.data[0].id).toEqual(first.body.data[0].id);
+      expect(second.body.data[0].record.stock).toEqual(7);
+    });
+
+    it('should require a unique constraint on the conflict fields', async () => {
+      const res = await request(app)
+        .put('/api/UpsertItem/upsert')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ conflictOn: ['stock'], data: { sku: 'any', stock: 1 } });
+
+      expect(res.statusCode).toEqual(400);
+      expect(res.body.error).toContain('unique constraint');
+    });
+  });
+
+  describe('Conditional requests', () => {
+    const schema = {
+      fields: { title: { type: 'string' } },
+      permissions: {
+        create: ['admin'],
+        read: ['admin'],
+        update: ['admin'],
+        delete: ['admin']
+      }
+    };
+    let id: string;
+
+    beforeEach(async () => {
+      await tableManager.createTableFromSchema('VersionedItem', schema);
+      id = (await tableManager.create('VersionedItem', { title: 'Draft' })).id;
+    });
+
+    it('should emit an ETag and answer 304 when it still matches', async () => {
+      const res = await request(app)
+        .get(`/api/VersionedItem/${id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.statusCode).toEqual(200);
+      expect(res.headers.etag).toEqual('"v1"');
+
+      const cached = await request(app)
+        .get(`/api/VersionedItem/${id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .set('If-None-Match', res.headers.etag);
+
+      expect(cached.statusCode).toEqual(304);
+    });
+
+    it('should patch only when If-Match holds and bump the version', async () => {
+      const patched = await request(app)
+        .patch(`/api/VersionedItem/${id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .set('If-Match', '"v1"')
+        .send({ title: 'Published' });
+
+      expect(patched.statusCode).toEqual(200);
+      expect(patched.body.data.version).toEqual(2);
+      expect(patched.headers.etag).toEqual('"v2"');
+
+      const stale = await request(app)
+        .patch(`/api/VersionedItem/${id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .set('If-Match', '"v1"')
+        .send({ title: 'Overwritten' });
+
+      expect(stale.statusCode).toEqual(412);
+      expect((await tableManager.findById('VersionedItem', id)).title).toEqual('Published');
+    });
+
+    it('should refuse to delete a modified record', async () => {
+      await tableManager.update('VersionedItem', id, { title: 'Edited elsewhere' });
+
+      const res = await request(app)
+        .delete(`/api/VersionedItem/${id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .set('If-Match', '"v1"');
+
+      expect(res.statusCode).toEqual(412);
+      expect(await tableManager.findById('VersionedItem', id)).toBeTruthy();
+    });
+
+    it('should backfill missing versions and never write unconditionally', async () => {
+      sqliteRaw.prepare('UPDATE VersionedItem SET version = NULL WHERE id = ?').run(id);
+      const etag = (await request(app)
+        .get(`/api/VersionedItem/${id}`)
+        .set('Authorization', `Bearer ${adminToken}`)).headers.etag;
+
+      const res = await request(app)
+        .patch(`/api/VersionedItem/${id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .set('If-Match', etag)
+        .send({ title: 'Unchecked' });
+
+      expect(res.statusCode).toEqual(412);
+      expect((await tableManager.findById('VersionedItem', id)).title).toEqual('Draft');
+
+      await tableManager.createTableFromSchema('VersionedItem', schema);
+      expect((await tableManager.findById('VersionedItem', id)).version).toEqual(1);
+    });
+  });
+
+  describe('Soft delete', () => {
+    let id: string;
+
+    beforeEach(async () => {
+      await tableManager.createTableFromSchema('TrashItem', {
+        fields: { title: { type: 'string' } },
+        softDelete: true,
+        permissions: {
+          create: ['admin'],
+          read: ['admin'],
+          update: ['admin'],
+          delete: ['admin']
+        }
+      });
+      id = (await tableManager.create('TrashItem', { title: `trash${Date.now()}` })).id;
+    });
+
+    it('should hide deleted records unless withDeleted is set, and restore them', async () => {
+      const deleteRes = await request(app)
+        .delete(`/api/TrashItem/${id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(deleteRes.statusCode).toEqual(200);
+
+      const hidden = await request(app)
+        .get(`/api/TrashItem/${id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(hidden.statusCode).toEqual(404);
+
+      const listed = await request(app)
+        .get(`/api/TrashItem?withDeleted=true&where=${encodeURIComponent(JSON.stringify({ id }))}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(listed.body.data).toHaveLength(1);
+      expect(listed.body.data[0].deleted_at).toBeTruthy();
+
+      const restored = await request(app)
+        .post(`/api/TrashItem/${id}/restore`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(restored.statusCode).toEqual(200);
+      expect(restored.body.data.deleted_at).toBeNull();
+
+      const again = await request(app)
+        .post(`/api/TrashItem/${id}/restore`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(again.statusCode).toEqual(404);
+    });
+
+    it('should only purge records that are in the trash', async () => {
+      const kept = (await tableManager.create('TrashItem', { title: 'kept' })).id;
+      await tableManager.delete('TrashItem', id);
+
+      const purged = await tableManager.purge('TrashItem', [id, kept]);
+
+      expect(purged).toEqual([id]);
+      expect(await tableManager.findById('TrashItem', id, [], 'include')).toBeNull();
+      expect(await tableManager.findById('TrashItem', kept)).toBeTruthy();
+    });
+  });
+
+  describe('Record history', () => {
+    beforeEach(async () => {
+      await tableManager.createTableFromSchema('HistoryItem', {
+        fields: { title: { type: 'string' } },
+        permissions: {
+          create: ['admin'],
+          read: ['admin'],
+          update: ['admin'],
+          delete: ['admin']
+        }
+      });
+    });
+
+    it('should record changes with their actor and revert to a previous version', async () => {
+      const created = await request(app)
+        .post('/api/HistoryItem')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'First draft' });
+      const id = created.body.data.id;
+
+      await request(app)
+        .patch(`/api/HistoryItem/${id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Second draft' });
+
+      const history = await request(app)
+        .get(`/api/HistoryItem/${id}/history`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(history.statusCode).toEqual(200);
+      expect(history.body.meta.total).toEqual(2);
+      const [update, creation] = history.body.data;
+      expect(update.operation).toEqual('update');
+      expect(update.changed_fields).toEqual(['title']);
+      expect(update.before.title).toEqual('First draft');
+      expect(update.after.title).toEqual('Second draft');
+      expect(update.actor_id).toEqual('admin-test');
+      expect(creation.operation).toEqual('create');
+
+      const reverted = await request(app)
+        .post(`/api/HistoryItem/${id}/history/${creation.id}/revert`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(reverted.statusCode).toEqual(200);
+      expect(reverted.body.data.title).toEqual('First draft');
+      expect(reverted.body.data.version).toEqual(3);
+    });
+
+    it('should only show history to users who may update, and redact the fields of the schema', async () => {
+      await tableManager.createTableFromSchema('HistoryNote', {
+        history: { redact: ['secret'] },
+        fields: { title: { type: 'string' }, secret: { type: 'string' } },
+        permissions: {
+          create: ['admin'],
+          read: ['admin', 'user'],
+          update: ['admin', 'user'],
+          delete: ['admin']
+        }
+      });
+      const note = await tableManager.create('HistoryNote', { title: 'Note', secret: 'hunter2' });
+
+      // Users may only read the notes by default
+      const refused = await request(app)
+        .get(`/api/HistoryNote/${note.id}/history`)
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(refused.statusCode).toEqual(403);
+
+      await tableManager.create('Policy', {
+        id: 'policy_history_note_update',
+        name: 'History note editors',
+        type: 'ROLE_BASED',
+        rules: JSON.stringify([
+          { id: 'rule_history_note_update', resource: 'HistoryNote', action: 'update', effect: 'ALLOW', priority: 100, isActive: true, conditions: [] }
+        ]),
+        isActive: true,
+        priority: 60,
+        createdBy: 'admin-test'
+      });
+      await tableManager.create('UserPolicy', { userId: 'user-test', policyId: 'policy_history_note_update', assignedBy: 'admin-test', isActive: true });
+
+      const asUser = await request(app)
+        .get(`/api/HistoryNote/${note.id}/history`)
+        .set('Authorization', `Bearer ${userToken}`);
+      expect(asUser.statusCode).toEqual(200);
+      expect(asUser.body.data[0].after).toMatchObject({ title: 'Note', secret: '[redacted]' });
+      expect(asUser.body.data[0]).not.toHaveProperty('ip_address');
+
+      const asAdmin = await request(app)
+        .get(`/api/HistoryNote/${note.id}/history`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(asAdmin.body.data[0]).toHaveProperty('ip_address');
+    });
+
+    it('should reject history entries of another record', async () => {
+      const first = await tableManager.create('HistoryItem', { title: 'a' });
+      const second = await tableManager.create('HistoryItem', { title: 'b' });
+      const { data } = await request(app)
+        .get(`/api/HistoryItem/${first.id}/history`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .then((res) => res.body);
+
+      const res = await request(app)
+        .post(`/api/HistoryItem/${second.id}/history/${data[0].id}/revert`)
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.statusCode).toEqual(404);
+    });
+
+    it('should record bulk creates and upserts', async () => {
+      await tableManager.createTableFromSchema('HistorySku', {
+        fields: { sku: { type: 'string', unique: true }, stock: { type: 'integer' } },
+        permissions: {
+          create: ['admin'],
+          read: ['admin'],
+          update: ['admin'],
+          delete: ['admin']
+        }
+      });
+      const historyOf = async (id: string) => (await request(app)
+        .get(`/api/HistorySku/${id}/history`)
+        .set('Authorization', `Bearer ${adminToken}`)).body.data;
+
+      const created = await request(app)
+        .post('/api/HistorySku/bulk')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ records: [{ sku: 'a', stock: 1 }, { sku: 'b', stock: 2 }] });
+      const [first, second] = created.body.data.ids;
+
+      const [creation] = await historyOf(second);
+      expect(creation.operation).toEqual('create');
+      expect(creation.after.stock).toEqual(2);
+
+      const upserted = await request(app)
+        .put('/api/HistorySku/upsert')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ conflictOn: ['sku'], data: [{ sku: 'a', stock: 5 }, { sku: 'c', stock: 3 }] });
+
+      const [update] = await historyOf(first);
+      expect(update.operation).toEqual('update');
+      expect(update.before.stock).toEqual(1);
+      expect(update.after.stock).toEqual(5);
+      expect(update.actor_id).toEqual('admin-test');
+      expect((await historyOf(upserted.body.data[1].id)).map((entry: any) => entry.operation)).toEqual(['create']);
+    });
+
+    it('should record purges as hard deletes', async () => {
+      await tableManager.createTableFromSchema('HistoryTrash', {
+        fields: { title: { type: 'string' } },
+        softDelete: true,
+        permissions: {
+          create: ['admin'],
+          read: ['admin'],
+          update: ['admin'],
+          delete: ['admin']
+        }
+      });
+      const { id } = await tableManager.create('HistoryTrash', { title: 'Doomed' });
+      await tableManager.delete('HistoryTrash', id);
+
+      const purged = await request(app)
+        .post('/admin/api/tables/HistoryTrash/trash/purge')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ ids: [id] });
+      expect(purged.statusCode).toEqual(200);
+
+      const history = await request(app)
+        .get(`/api/HistoryTrash/${id}/history`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      const [purge, trash] = history.body.data;
+      expect(trash.operation).toEqual('delete');
+      expect(purge.operation).toEqual('delete');
+      expect(purge.before.title).toEqual('Doomed');
+      expect(purge.after).toBeNull();
+    });
+  });
+
+  describe('Lifecycle hooks', () => {
+    it('should run hooks with the acting user and let them change, filter and veto operations', async () => {
+      await tableManager.createTableFromSchema('HookItem', {
+        fields: {
+          title: { type: 'string' },
+          owner: { type: 'string' },
+          secret: { type: 'string' }
+        },
+        permissions: {
+          create: ['admin'],
+          read: ['admin'],
+          update: ['admin'],
+          delete: ['admin']
+        }
+      });
+      tableManager.onBeforeCreate('HookItem', async (data, context) => {
+        data.owner = context.user?.id ?? 'system';
+      });
+      tableManager.onBeforeUpdate('HookItem', async (_id, data) => {
+        if (data.title === 'Forbidden') {
+          throw new AppError('Forbidden title', 422);
+        }
+      });
+      tableManager.onBeforeRead('HookItem', async (query, context) => {
+        if (context.user) {
+          query.where.owner = context.user.id;
+        }
+      });
+      tableManager.onAfterRead('HookItem', async (records) => {
+        records.forEach((record) => delete record.secret);
+      });
+
+      await tableManager.create('HookItem', { title: 'Not mine' });
+      const created = await request(app)
+        .post('/api/HookItem')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Mine', secret: 'hidden' });
+
+      expect(created.statusCode).toEqual(201);
+      expect(created.body.data.owner).toEqual('admin-test');
+      expect(created.body.data.secret).toBeUndefined();
+
+      const list = await request(app)
+        .get('/api/HookItem')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(list.body.data.map((item: any) => item.title)).toEqual(['Mine']);
+
+      const vetoed = await request(app)
+        .patch(`/api/HookItem/${created.body.data.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Forbidden' });
+
+      expect(vetoed.statusCode).toEqual(422);
+      expect((await tableManager.findById('HookItem', created.body.data.id)).title).toEqual('Mine');
+    });
+
+    it('should roll back the open transaction when a hook vetoes', async () => {
+      await tableManager.createTableFromSchema('HookLedger', {
+        fields: { amount: { type: 'integer' } }
+      });
+      tableManager.onBeforeCreate('HookLedger', async (data) => {
+        if (data.amount < 0) {
+          throw new AppError('Negative amounts are not allowed', 400);
+        }
+      });
+
+      await expect(tableManager.transaction(async () => {
+        await tableManager.create('HookLedger', { amount: 10 });
+        await tableManager.create('HookLedger', { amount: -5 });
+      })).rejects.toThrow('Negative amounts are not allowed');
+
+      expect(await tableManager.count('HookLedger')).toEqual(0);
+    });
+
+    it('should run the update hooks of a bulk update on separate values for each record', async () => {
+      await setUpAuthTables();
+      const first = await tableManager.create('User', { email: `bulk-a-${Date.now()}@example.com`, password: 'old-password' });
+      const second = await tableManager.create('User', { email: `bulk-b-${Date.now()}@example.com`, password: 'old-password' });
+
+      const res = await request(app)
+        .patch('/api/User/bulk')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ where: { id: { in: [first.id, second.id] } }, data: { password: 'new-password' } });
+
+      expect(res.statusCode).toEqual(200);
+      expect(res.body.data.ids).toHaveLength(2);
+      for (const id of [first.id, second.id]) {
+        expect(await comparePassword('new-password', (await tableManager.findById('User', id)).password)).toBe(true);
+      }
+    });
+
+    it('should run the create or update hooks of each upserted record, inside the transaction', async () => {
+      await tableManager.createTableFromSchema('HookSku', {
+        fields: { sku: { type: 'string', unique: true }, stock: { type: 'integer' } }
+      });
+      const calls: string[] = [];
+      tableManager.onBeforeCreate('HookSku', async (data) => { calls.push(`beforeCreate:${data.sku}`); });
+      tableManager.onAfterCreate('HookSku', async (record) => { calls.push(`afterCreate:${record.sku}`); });
+      tableManager.onBeforeUpdate('HookSku', async (_id, data) => {
+        calls.push(`beforeUpdate:${data.sku}`);
+        if (data.stock < 0) {
+          throw new AppError('Stock cannot be negative', 422);
+        }
+      });
+      tableManager.onAfterUpdate('HookSku', async (record) => { calls.push(`afterUpdate:${record.sku}`); });
+      await tableManager.create('HookSku', { sku: 'old', stock: 1 });
+      calls.length = 0;
+
+      await tableManager.upsert('HookSku', [{ sku: 'old', stock: 2 }, { sku: 'new', stock: 3 }], ['sku']);
+      expect(calls).toEqual(['beforeUpdate:old', 'beforeCreate:new', 'afterUpdate:old', 'afterCreate:new']);
+
+      await expect(tableManager.upsert('HookSku', [{ sku: 'other', stock: 4 }, { sku: 'old', stock: -1 }], ['sku']))
+        .rejects.toThrow('Stock cannot be negative');
+      expect(await tableManager.count('HookSku')).toEqual(2);
+      expect((await tableManager.findAll('HookSku', 10, 0, [], undefined, undefined, { sku: 'old' }))[0].stock).toEqual(2);
+    });
+  });
+
+  describe('Schema validation', () => {
+    beforeEach(async () => {
+      await tableManager.createTableFromSchema('Product', {
+        fields: {
+          name: { type: 'string', required: true, minLength: 2 },
+          sku: { type: 'string', pattern: '^[A-Z]{3}-\\d+$', unique: true },
+          price: { type: 'number', min: 0 },
+          status: { type: 'string', enum: ['draft', 'active'], default: 'draft', required: true },
+          contact: { type: 'string', format: 'email' }
+        },
+        permissions: {
+          create: ['admin'],
+          read: ['admin'],
+          update: ['admin'],
+          delete: ['admin']
+        }
+      });
+    });
+
+    it('should reject invalid payloads with per-field errors and apply defaults', async () => {
+      const invalid = await request(app)
+        .post('/api/Product')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'A', sku: 'abc', price: -1, status: 'archived', contact: 'nobody' });
+
+      expect(invalid.statusCode).toEqual(422);
+      expect(invalid.body.errors.map((error: any) => error.field)).toEqual(['name', 'sku', 'price', 'status', 'contact']);
+
+      const created = await request(app)
+        .post('/api/Product')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Widget', sku: 'WID-1', price: 10 });
+
+      expect(created.statusCode).toEqual(201);
+      expect(created.body.data.status).toEqual('draft');
+
+      const cleared = await request(app)
+        .patch(`/api/Product/${created.body.data.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: null });
+
+      expect(cleared.statusCode).toEqual(422);
+      expect(cleared.body.errors).toEqual([{ field: 'name', message: 'is required' }]);
+    });
+
+    it('should enforce constraints in the database', async () => {
+      const insert = sqliteRaw.prepare('INSERT INTO Product (id, name, price, status) VALUES (?, ?, ?, ?)');
+
+      expect(() => insert.run('p1', null, 1, 'draft')).toThrow(/NOT NULL/);
+      expect(() => insert.run('p2', 'Widget', -1, 'draft')).toThrow(/CHECK/);
+      expect(() => insert.run('p3', 'Widget', 1, 'archived')).toThrow(/CHECK/);
+    });
+  });
+
+  describe('Schema management', () => {
+    // Meta files outlive the test database, so the resources whose relations are renamed need fresh (alphabetic) names
+    const freshName = (prefix: string) => prefix + Date.now().toString(36).replace(/\d/g, (digit) => 'abcdefghij'[Number(digit)]);
+
+    it('should convert values when changing a field type, then rename and drop the field', async () => {
+      await tableManager.createTableFromSchema('Gadget', {
+        fields: { name: { type: 'string' }, stock: { type: 'string', maxLength: 10 } }
+      });
+      const counted = await tableManager.create('Gadget', { name: 'Counted', stock: '12' });
+      const unknown = await tableManager.create('Gadget', { name: 'Unknown', stock: 'many' });
+
+      const refused = await request(app)
+        .patch('/admin/api/tables/Gadget/fields/stock')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ type: 'integer' });
+
+      expect(refused.statusCode).toEqual(409);
+      expect((await tableManager.findById('Gadget', unknown.id)).stock).toEqual('many');
+
+      const forced = await request(app)
+        .patch('/admin/api/tables/Gadget/fields/stock')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ type: 'integer', force: true, name: 'quantity' });
+
+      expect(forced.statusCode).toEqual(200);
+      expect(forced.body).toMatchObject({ converted: 1, cleared: 1, data: { quantity: { type: 'integer' } } });
+      expect(forced.body.data.quantity.maxLength).toBeUndefined();
+      expect((await tableManager.findById('Gadget', counted.id)).quantity).toEqual(12);
+      expect((await tableManager.findById('Gadget', unknown.id)).quantity).toBeNull();
+
+      const dropped = await request(app)
+        .delete('/admin/api/tables/Gadget/fields/quantity')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(dropped.statusCode).toEqual(200);
+      expect(Object.keys(dropped.body.data)).toEqual(['name']);
+      expect(await tableManager.findById('Gadget', counted.id)).not.toHaveProperty('quantity');
+    });
+
+    it('should rename a resource and refuse to drop it while relations target it', async () => {
+      await tableManager.createTableFromSchema('Shelf', { fields: { label: { type: 'string' } } });
+      await tableManager.createTableFromSchema('Book', {
+        fields: { title: { type: 'string' }, shelf: { type: 'relation', target: 'Shelf' } }
+      });
+      const shelf = await tableManager.create('Shelf', { label: 'A' });
+
+      const renamed = await request(app)
+        .patch('/admin/api/tables/Shelf')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'Rack' });
+
+      expect(renamed.statusCode).toEqual(200);
+      expect((await tableManager.getTableSchema('Book')).fields.shelf.target).toEqual('Rack');
+      expect((await tableManager.findById('Rack', shelf.id)).label).toEqual('A');
+      await tableManager.create('Book', { title: 'Dune', shelfId: shelf.id });
+
+      const refused = await request(app)
+        .delete('/admin/api/tables/Rack')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(refused.statusCode).toEqual(409);
+
+      await tableManager.dropField('Book', 'shelf');
+      const dropped = await request(app)
+        .delete('/admin/api/tables/Rack')
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(dropped.statusCode).toEqual(200);
+      expect(await tableManager.getTableSchema('Rack')).toBeUndefined();
+      expect((await tableManager.findAll('Book')).map((book: any) => book.title)).toEqual(['Dune']);
+    });
+
+    it('should keep hasMany fields following a renamed relation field', async () => {
+      const writers = freshName('Writer');
+      const novels = freshName('Novel');
+      await tableManager.createTableFromSchema(writers, {
+        fields: { name: { type: 'string' }, novels: { type: 'hasMany', target: novels, foreignKey: 'author' } }
+      });
+      await tableManager.createTableFromSchema(novels, {
+        fields: {
+          title: { type: 'string' },
+          author: { type: 'relation', target: writers },
+          translator: { type: 'relation', target: writers }
+        }
+      });
+      const writer = await tableManager.create(writers, { name: 'Le Guin' });
+      await tableManager.create(novels, { title: 'Earthsea', author: writer.id });
+
+      const renamed = await request(app)
+        .patch(`/admin/api/tables/${novels}/fields/author`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'writer' });
+
+      expect(renamed.statusCode).toEqual(200);
+      expect((await tableManager.getTableSchema(writers)).fields.novels.foreignKey).toEqual('writer');
+      const populated = await request(app)
+        .get(`/api/${writers}/${writer.id}`)
+        .query({ populate: 'novels' })
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(populated.body.data.novels.map((novel: any) => novel.title)).toEqual(['Earthsea']);
+    });
+  });
+
+  describe('Schema modes', () => {
+    const permissions = { create: ['admin'], read: ['admin'], update: ['admin'], delete: ['admin'] };
+
+    it('should reject or strip unknown fields of a locked resource', async () => {
+      await tableManager.createTableFromSchema('Invoice', {
+        fields: { total: { type: 'number' } },
+        permissions
+      });
+
+      const locked = await request(app)
+        .put('/admin/api/tables/Invoice/schema-mode')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ mode: 'strict' });
+      expect(locked.body.schemaMode).toEqual('strict');
+
+      const rejected = await request(app)
+        .post('/api/Invoice')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ total: 10, totl: 12 });
+
+      expect(rejected.statusCode).toEqual(422);
+      expect(rejected.body.errors).toEqual([{ field: 'totl', message: 'is not a field of this resource' }]);
+
+      await request(app)
+        .put('/admin/api/tables/Invoice/schema-mode')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ mode: 'strip' });
+
+      const stripped = await request(app)
+        .post('/api/Invoice')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ total: 10, totl: 12 });
+
+      expect(stripped.statusCode).toEqual(201);
+      expect(stripped.body.data).not.toHaveProperty('totl');
+      expect(Object.keys((await tableManager.getTableSchema('Invoice')).fields)).toEqual(['total']);
+
+      const log = await request(app)
+        .get('/admin/api/schema-log?resource=Invoice')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(log.body.data.map((entry: any) => entry.details.mode)).toEqual(['strip', 'strict']);
+    });
+
+    it('should log auto-created resources and refuse to create them in strict mode', async () => {
+      // Meta files outlive the test database, so the resources need fresh (alphabetic) names
+      const suffix = Date.now().toString(36).replace(/\d/g, (digit) => 'abcdefghij'[Number(digit)]);
+      const visit = `Visit${suffix}`;
+      const created = await request(app)
+        .post(`/api/${visit}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ page: '/home' });
+      expect(created.statusCode).toEqual(201);
+
+      const log = await request(app)
+        .get(`/admin/api/schema-log?resource=${visit}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(log.body.data).toMatchObject([{ action: 'create_resource', details: { page: 'string' }, actor_id: 'admin-test' }]);
+
+      process.env.SCHEMA_MODE = 'strict';
+      try {
+        const refused = await request(app)
+          .post(`/api/Click${suffix}`)
+          .set('Authorization', `Bearer ${adminToken}`)
+          .send({ target: 'button' });
+        expect(refused.statusCode).toEqual(404);
+      } finally {
+        delete process.env.SCHEMA_MODE;
+      }
+    });
+  });
+
+
+  describe('Schema migrations', () => {
+    // Meta files outlive the test database, so the resources need fresh (alphabetic) names
+    const freshName = (prefix: string) => prefix + Date.now().toString(36).replace(/\d/g, (digit) => 'abcdefghij'[Number(digit)]);
+
+    it('should write a migration for each schema change and revert and reapply them', async () => {
+      const note = freshName('Note');
+      await tableManager.createTableFromSchema(note, { fields: { title: { type: 'string' } } });
+      const record = await tableManager.create(note, { title: 'Groceries' });
+
+      const renamed = await request(app)
+        .patch(`/admin/api/tables/${note}/fields/title`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ name: 'heading' });
+      expect(renamed.statusCode).toEqual(200);
+
+      const status = await request(app)
+        .get('/admin/api/migrations')
+        .set('Authorization', `Bearer ${adminToken}`);
+      const migrations = status.body.data.filter((migration: any) => migration.resource === note);
+      expect(migrations.map((migration: any) => migration.state)).toEqual(['applied', 'applied']);
+      expect(migrations[0].id).toMatch(new RegExp(`^\\d{17}_create_${note.toLowerCase()}$`));
+      expect(migrations[1].id).toMatch(/_update_/);
+
+      const reverted = await request(app)
+        .post('/admin/api/migrations/down')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({});
+      expect(reverted.body.data).toEqual([migrations[1].id]);
+      expect((await tableManager.findById(note, record.id)).title).toEqual('Groceries');
+
+      const pending = await request(app)
+        .get('/admin/api/migrations')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(pending.body.data.find((migration: any) => migration.id === migrations[1].id).state).toEqual('pending');
+
+      const applied = await request(app)
+        .post('/admin/api/migrations/up')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(applied.body.data).toEqual([migrations[1].id]);
+      expect((await tableManager.findById(note, record.id)).heading).toEqual('Groceries');
+
+      const unknown = await request(app)
+        .post('/admin/api/migrations/down')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ to: '20000101000000000_create_nothing' });
+      expect(unknown.statusCode).toEqual(404);
+    });
+
+    it('should report schemas without migrations and pull migrations for them', async () => {
+      const tag = freshName('Tag');
+      await tableManager.createTableFromSchema(tag, { fields: { label: { type: 'string' } } });
+
+      const migrationsDir = process.env.MIGRATIONS_DIR!;
+      for (const file of fs.readdirSync(migrationsDir)) {
+        fs.unlinkSync(path.join(migrationsDir, file));
+      }
+
+      const diff = await request(app)
+        .get('/admin/api/migrations/diff')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(diff.body.data).toContainEqual({ resource: tag, status: 'added' });
+
+      const status = await request(app)
+        .get('/admin/api/migrations')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(status.body.data.find((migration: any) => migration.resource === tag).state).toEqual('missing');
+
+      const pulled = await request(app)
+        .post('/admin/api/migrations/pull')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(pulled.statusCode).toEqual(200);
+
+      const matched = await request(app)
+        .get('/admin/api/migrations/diff')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(matched.body.data).toEqual([]);
+    });
+  });
+
+
+  describe('Relations', () => {
+    beforeEach(async () => {
+      await tableManager.createTableFromSchema('Studio', { fields: { name: { type: 'string' } } });
+      await tableManager.createTableFromSchema('Genre', { fields: { name: { type: 'string' } } });
+      await tableManager.createTableFromSchema('Artist', {
+        fields: {
+          name: { type: 'string' },
+          studio: { type: 'relation', target: 'Studio' },
+          albums: { type: 'hasMany', target: 'Album' }
+        }
+      });
+      await tableManager.createTableFromSchema('Album', {
+        fields: {
+          title: { type: 'string' },
+          artist: { type: 'relation', target: 'Artist' },
+          genres: { type: 'manyToMany', target: 'Genre' }
+        }
+      });
+    });
+
+    it('should connect and disconnect related records and populate nested paths', async () => {
+      const studio = await tableManager.create('Studio', { name: 'Abbey' });
+      const artist = await tableManager.create('Artist', { name: 'Nina', studio: studio.id });
+      const jazz = await tableManager.create('Genre', { name: 'jazz' });
+      const soul = await tableManager.create('Genre', { name: 'soul' });
+
+      const first = await request(app)
+        .post('/api/Album')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Pastel', artist: { connect: artist.id }, genres: [jazz.id, soul.id] });
+      expect(first.statusCode).toEqual(201);
+
+      const second = await request(app)
+        .post('/api/Album')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Silk', artist: artist.id, genres: { connect: [jazz.id] } });
+      expect(second.statusCode).toEqual(201);
+
+      const updated = await request(app)
+        .patch(`/api/Album/${second.body.data.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ genres: { disconnect: [jazz.id], connect: [soul.id] } });
+      expect(updated.statusCode).toEqual(200);
+
+      const populated = await request(app)
+        .get(`/api/Artist/${artist.id}`)
+        .query({ populate: 'studio,albums.genres' })
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(populated.body.data.studio.name).toEqual('Abbey');
+      const albums = populated.body.data.albums
+        .map((album: any) => ({ title: album.title, genres: album.genres.map((genre: any) => genre.name).sort() }))
+        .sort((a: any, b: any) => a.title.localeCompare(b.title));
+      expect(albums).toEqual([
+        { title: 'Pastel', genres: ['jazz', 'soul'] },
+        { title: 'Silk', genres: ['soul'] }
+      ]);
+
+      const filtered = await request(app)
+        .get(`/api/Artist/${artist.id}`)
+        .query({ populate: { albums: { select: 'title', where: { title: 'Silk' } } } })
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(filtered.body.data.albums).toHaveLength(1);
+      expect(filtered.body.data.albums[0].title).toEqual('Silk');
+      expect(filtered.body.data.albums[0]).not.toHaveProperty('createdAt');
+
+      const released = await request(app)
+        .patch(`/api/Artist/${artist.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ albums: { disconnect: [first.body.data.id] } });
+      expect(released.statusCode).toEqual(200);
+      expect((await tableManager.findById('Album', first.body.data.id)).artistId).toBeNull();
+    });
+
+    it('should reject connections to missing records', async () => {
+      const res = await request(app)
+        .post('/api/Album')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Ghost', genres: { connect: ['missing'] } });
+
+      expect(res.statusCode).toEqual(400);
+    });
+  });
+
+
+  describe('Delete behaviours', () => {
+    beforeEach(async () => {
+      await tableManager.createTableFromSchema('Region', { fields: { name: { type: 'string' } } });
+      await tableManager.createTableFromSchema('Office', {
+        fields: { name: { type: 'string' }, region: { type: 'relation', target: 'Region', onDelete: 'cascade' } }
+      });
+      await tableManager.createTableFromSchema('Desk', {
+        fields: { label: { type: 'string' }, office: { type: 'relation', target: 'Office', onDelete: 'setNull' } }
+      });
+      await tableManager.createTableFromSchema('Badge', {
+        fields: { code: { type: 'string' }, office: { type: 'relation', target: 'Office', onDelete: 'restrict' } }
+      });
+    });
+
+    it('should list dependents and cascade or unlink them on delete', async () => {
+      const region = await tableManager.create('Region', { name: 'North' });
+      const office = await tableManager.create('Office', { name: 'Oslo', region: region.id });
+      const desk = await tableManager.create('Desk', { label: 'D1', office: office.id });
+
+      const dryRun = await request(app)
+        .get(`/api/Region/${region.id}/dependents`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(dryRun.statusCode).toEqual(200);
+      expect(dryRun.body.data).toEqual({
+        blocked: false,
+        dependents: [
+          { resource: 'Office', field: 'region', onDelete: 'cascade', ids: [office.id] },
+          { resource: 'Desk', field: 'office', onDelete: 'setNull', ids: [desk.id] }
+        ]
+      });
+
+      const res = await request(app)
+        .delete(`/api/Region/${region.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(res.statusCode).toEqual(200);
+      expect(await tableManager.findById('Office', office.id)).toBeNull();
+      expect((await tableManager.findById('Desk', desk.id)).officeId).toBeNull();
+    });
+
+    it('should refuse to delete records referenced through a restrict relation', async () => {
+      const region = await tableManager.create('Region', { name: 'South' });
+      const office = await tableManager.create('Office', { name: 'Rome', region: region.id });
+      await tableManager.create('Badge', { code: 'B1', office: office.id });
+
+      const dryRun = await request(app)
+        .get(`/api/Region/${region.id}/dependents`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(dryRun.body.data.blocked).toBe(true);
+
+      const res = await request(app)
+        .delete(`/api/Region/${region.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(res.statusCode).toEqual(409);
+      expect(await tableManager.findById('Office', office.id)).not.toBeNull();
+      expect(await tableManager.findById('Region', region.id)).not.toBeNull();
+    });
+
+    it('should leave references alone when trashing and apply them when purging', async () => {
+      await tableManager.createTableFromSchema('Campus', { softDelete: true, fields: { name: { type: 'string' } } });
+      await tableManager.createTableFromSchema('Building', {
+        fields: { name: { type: 'string' }, campus: { type: 'relation', target: 'Campus', onDelete: 'cascade' } }
+      });
+      await tableManager.createTableFromSchema('Locker', {
+        fields: { label: { type: 'string' }, campus: { type: 'relation', target: 'Campus' } }
+      });
+      const campus = await tableManager.create('Campus', { name: 'Main' });
+      const building = await tableManager.create('Building', { name: 'B1', campus: campus.id });
+      const locker = await tableManager.create('Locker', { label: 'L1', campus: campus.id });
+
+      const trashed = await request(app)
+        .delete(`/api/Campus/${campus.id}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(trashed.statusCode).toEqual(200);
+      expect(await tableManager.findById('Building', building.id)).not.toBeNull();
+      expect((await tableManager.findById('Locker', locker.id)).campusId).toEqual(campus.id);
+
+      const restored = await request(app)
+        .post(`/api/Campus/${campus.id}/restore`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(restored.statusCode).toEqual(200);
+      expect((await tableManager.findById('Building', building.id)).campusId).toEqual(campus.id);
+      expect((await tableManager.findById('Locker', locker.id)).campusId).toEqual(campus.id);
+
+      await tableManager.delete('Campus', campus.id);
+      expect(await tableManager.purge('Campus', [campus.id])).toEqual([campus.id]);
+      expect(await tableManager.findById('Building', building.id)).toBeNull();
+      expect((await tableManager.findById('Locker', locker.id)).campusId).toBeNull();
+    });
+  });
+
+
+  describe('Aggregation', () => {
+    beforeEach(async () => {
+      await tableManager.createTableFromSchema('Sale', {
+        fields: {
+          region: { type: 'string' },
+          customer: { type: 'string' },
+          amount: { type: 'number' },
+          soldOn: { type: 'date' }
+        }
+      });
+      await tableManager.createMany('Sale', [
+        { region: 'north', customer: 'ann', amount: 10, soldOn: '2026-03-02' },
+        { region: 'north', customer: 'ann', amount: 30, soldOn: '2026-03-08' },
+        { region: 'north', customer: 'bob', amount: 20, soldOn: '2026-04-15' },
+        { region: 'south', customer: 'cid', amount: 5, soldOn: '2026-03-09' }
+      ]);
+    });
+
+    it('should compute aggregates by group with a filter on groups', async () => {
+      const res = await request(app)
+        .get('/api/Sale/aggregate')
+        .query({ count: '*', sum: 'amount', avg: 'amount', countDistinct: 'customer', groupBy: 'region', having: JSON.stringify({ count: { gt: 1 } }) })
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.statusCode).toEqual(200);
+      expect(res.body.data).toEqual([
+        { region: 'north', count: 3, sum_amount: 60, avg_amount: 20, countDistinct_customer: 2 }
+      ]);
+
+      const total = await request(app)
+        .get('/api/Sale/aggregate')
+        .query({ max: 'amount', where: JSON.stringify({ region: 'south' }) })
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(total.body.data).toEqual([{ max_amount: 5 }]);
+    });
+
+    it('should group by truncated dates', async () => {
+      const res = await request(app)
+        .get('/api/Sale/aggregate')
+        .query({ sum: 'amount', groupBy: 'soldOn:week', sort: '-sum_amount' })
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.statusCode).toEqual(200);
+      expect(res.body.data).toEqual([
+        { soldOn: '2026-03-02', sum_amount: 40 },
+        { soldOn: '2026-04-13', sum_amount: 20 },
+        { soldOn: '2026-03-09', sum_amount: 5 }
+      ]);
+
+      const invalid = await request(app)
+        .get('/api/Sale/aggregate')
+        .query({ groupBy: 'soldOn:year' })
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(invalid.statusCode).toEqual(400);
+    });
+  });
+
+
+  describe('Full-text search', () => {
+    beforeEach(async () => {
+      await tableManager.createTableFromSchema('Article', {
+        fields: {
+          title: { type: 'string' },
+          body: { type: 'text' },
+          status: { type: 'string' }
+        },
+        searchable: ['title', 'body']
+      });
+    });
+
+    it('should rank matches, highlight them and follow writes', async () => {
+      const [first, second] = await tableManager.createMany('Article', [
+        { title: 'Release notes', body: 'What changed in the release', status: 'published' },
+        { title: 'Roadmap', body: 'The next release is planned', status: 'draft' },
+        { title: 'Unrelated', body: 'Nothing to see', status: 'published' }
+      ]);
+
+      const res = await request(app)
+        .get('/api/Article')
+        .query({ q: 'releas' })
+        .set('Authorization', `Bearer ${adminToken}`);
+
+      expect(res.statusCode).toEqual(200);
+      expect(res.body.meta.total).toEqual(2);
+      expect(res.body.data.map((record: any) => record.id)).toEqual([first, second]);
+      expect(res.body.data[0]._search.rank).toBeGreaterThan(res.body.data[1]._search.rank);
+      expect(res.body.data[0]._search.snippet).toContain('<mark>Release</mark>');
+
+      const filtered = await request(app)
+        .get('/api/Article')
+        .query({ q: 'release', where: JSON.stringify({ status: 'draft' }) })
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(filtered.body.data.map((record: any) => record.id)).toEqual([second]);
+
+      await tableManager.update('Article', second, { body: 'The next version is planned' });
+      await tableManager.delete('Article', first);
+      const updated = await request(app)
+        .get('/api/Article')
+        .query({ q: 'version' })
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(updated.body.data.map((record: any) => record.id)).toEqual([second]);
+
+      const removed = await request(app)
+        .get('/api/Article')
+        .query({ q: 'release' })
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(removed.body.meta.total).toEqual(0);
+    });
+
+    it('should keep the index through field renames and reject invalid searches', async () => {
+      const [article] = await tableManager.createMany('Article', [{ title: 'Indexed title', body: 'Body', status: 'draft' }]);
+      await tableManager.renameField('Article', 'title', 'headline');
+
+      const res = await request(app)
+        .get('/api/Article')
+        .query({ q: 'indexed' })
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(res.body.data.map((record: any) => record.id)).toEqual([article]);
+      expect(res.body.data[0].headline).toEqual('Indexed title');
+
+      const cursor = await request(app)
+        .get('/api/Article')
+        .query({ q: 'indexed', paginate: 'cursor' })
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(cursor.statusCode).toEqual(400);
+
+      await tableManager.createTableFromSchema('Sale', { fields: { region: { type: 'string' } } });
+      const unsearchable = await request(app)
+        .get('/api/Sale')
+        .query({ q: 'north' })
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(unsearchable.statusCode).toEqual(400);
+
+      await expect(tableManager.createTableFromSchema('Sale', {
+        fields: { region: { type: 'string' }, amount: { type: 'number' } },
+        searchable: ['amount']
+      })).rejects.toThrow("Field 'amount' cannot be searchable");
+    });
+  });
+
+
+  describe('Indexes', () => {
+    beforeEach(async () => {
+      await tableManager.createTableFromSchema('Region', { fields: { name: { type: 'string' } } });
+      await tableManager.createTableFromSchema('Office', {
+        fields: {
+          name: { type: 'string' },
+          code: { type: 'string' },
+          active: { type: 'boolean' },
+          region: { type: 'relation', target: 'Region' }
+        },
+        indexes: [
+          { fields: ['code'], unique: true, where: { active: true } },
+          { fields: ['name', 'created_at'] }
+        ]
+      });
+    });
+
+    it('should create the declared indexes and index foreign keys', async () => {
+      const res = await request(app)
+        .get('/admin/api/tables/Office/indexes')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(res.statusCode).toEqual(200);
+      const byName = Object.fromEntries(res.body.data.map((index: any) => [index.name, index]));
+      expect(byName.Office_regionId_idx).toMatchObject({ columns: ['regionId'], unique: false });
+      expect(byName.Office_name_created_at_idx).toMatchObject({ columns: ['name', 'created_at'], unique: false });
+      expect(byName.Office_code_unique).toMatchObject({ columns: ['code'], unique: true });
+      expect(byName.Office_code_unique.where).toContain('active');
+
+      // The unique index only covers active offices
+      await tableManager.create('Office', { name: 'Oslo', code: 'OSL', active: false });
+      await tableManager.create('Office', { name: 'Oslo', code: 'OSL', active: true });
+      await expect(tableManager.create('Office', { name: 'Oslo', code: 'OSL', active: true })).rejects.toThrow();
+    });
+
+    it('should create and drop indexes from the admin API', async () => {
+      const created = await request(app)
+        .post('/admin/api/tables/Office/indexes')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ fields: ['region', 'name'] });
+      expect(created.statusCode).toEqual(200);
+      expect(created.body.data).toMatchObject({ name: 'Office_regionId_name_idx', columns: ['regionId', 'name'], unique: false });
+      expect((await tableManager.getTableSchema('Office')).indexes).toContainEqual({ name: 'Office_regionId_name_idx', fields: ['region', 'name'] });
+
+      const duplicate = await request(app)
+        .post('/admin/api/tables/Office/indexes')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ fields: ['region', 'name'] });
+      expect(duplicate.statusCode).toEqual(409);
+
+      const unknown = await request(app)
+        .post('/admin/api/tables/Office/indexes')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ fields: ['floor'] });
+      expect(unknown.statusCode).toEqual(400);
+
+      const dropped = await request(app)
+        .delete('/admin/api/tables/Office/indexes/Office_regionId_name_idx')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(dropped.statusCode).toEqual(200);
+      expect((await tableManager.listIndexes('Office')).map((index) => index.name)).not.toContain('Office_regionId_name_idx');
+      expect((await tableManager.getTableSchema('Office')).indexes).toHaveLength(2);
+
+      const missing = await request(app)
+        .delete('/admin/api/tables/Office/indexes/Office_regionId_name_idx')
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(missing.statusCode).toEqual(404);
+    });
+
+    it('should log slow queries and suggest missing indexes', async () => {
+      const threshold = slowQueryLog.thresholdMs;
+      slowQueryLog.thresholdMs = 0;
+      slowQueryLog.clear();
+      try {
+        await tableManager.findAll('Office', 10, 0, [], undefined, undefined, { active: true });
+
+        const res = await request(app)
+          .get('/admin/api/slow-queries')
+          .set('Authorization', `Bearer ${adminToken}`);
+        expect(res.statusCode).toEqual(200);
+        const officeQuery = res.body.data.find((query: any) => /FROM Office WHERE/i.test(query.sql));
+        expect(officeQuery).toMatchObject({ count: 1, suggestion: { resource: 'Office', fields: ['active'] } });
+
+        await tableManager.createIndex('Office', { fields: ['active'] });
+        const reports = await tableManager.slowQueries();
+        expect(reports.find((query) => query.sql === officeQuery.sql)?.suggestion).toBeNull();
+      } finally {
+        slowQueryLog.thresholdMs = threshold;
+        slowQueryLog.clear();
+      }
+    });
+  });
+
+
+  describe('Computed fields', () => {
+    // Fields are renamed and dropped, and the test database outlives the schemas, so the resource needs a fresh name
+    const freshName = (prefix: string) => prefix + Date.now().toString(36).replace(/\d/g, (digit) => 'abcdefghij'[Number(digit)]);
+    let resource: string;
+
+    beforeEach(async () => {
+      resource = freshName('Contact');
+      await tableManager.createTableFromSchema(resource, {
+        fields: {
+          firstName: { type: 'string' },
+          lastName: { type: 'string' },
+          quantity: { type: 'integer' },
+          unitPrice: { type: 'number' },
+          birthDate: { type: 'date' },
+          fullName: { type: 'string', computed: "concat(firstName, ' ', lastName)" },
+          total: { type: 'number', computed: 'quantity * unitPrice', virtual: true },
+          birthYear: { type: 'integer', computed: 'year(birthDate)' }
+        },
+        permissions: {
+          create: ['admin'],
+          read: ['admin'],
+          update: ['admin'],
+          delete: ['admin']
+        }
+      });
+    });
+
+    it('should compute stored and virtual fields, and refuse to write them', async () => {
+      const created = await request(app)
+        .post(`/api/${resource}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ firstName: 'Ada', lastName: 'Lovelace', quantity: 3, unitPrice: 2.5, birthDate: '1815-12-10' });
+      expect(created.statusCode).toEqual(201);
+      expect(created.body.data).toMatchObject({ fullName: 'Ada Lovelace', total: 7.5, birthYear: 1815 });
+
+      const written = await request(app)
+        .post(`/api/${resource}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ firstName: 'Alan', fullName: 'Alan Turing', total: 1 });
+      expect(written.statusCode).toEqual(422);
+      expect(written.body.errors).toEqual([
+        { field: 'fullName', message: 'is computed and cannot be written' },
+        { field: 'total', message: 'is computed and cannot be written' }
+      ]);
+
+      const updated = await request(app)
+        .put(`/api/${resource}/${created.body.data.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ lastName: 'King', quantity: 4 });
+      expect(updated.statusCode).toEqual(200);
+      expect(updated.body.data).toMatchObject({ fullName: 'Ada King', total: 10 });
+
+      const schema = await request(app)
+        .get(`/api/schema/${resource}`)
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(schema.body.schema.fields.fullName).toMatchObject({ readOnly: true, virtual: false });
+      expect(schema.body.schema.fields.total).toMatchObject({ readOnly: true, virtual: true });
+      expect(schema.body.schema.fields.firstName.readOnly).toBeUndefined();
+    });
+
+    it('should select and sort by computed fields', async () => {
+      await tableManager.createMany(resource, [
+        { firstName: 'Grace', lastName: 'Hopper', quantity: 2, unitPrice: 10 },
+        { firstName: 'Ada', lastName: 'Lovelace', quantity: 5, unitPrice: 1 },
+        { firstName: 'Alan', lastName: 'Turing', quantity: 1, unitPrice: 30 }
+      ]);
+
+      const res = await request(app)
+        .get(`/api/${resource}`)
+        .query({ sort: '-total', select: 'fullName,total' })
+        .set('Authorization', `Bearer ${adminToken}`);
+      expect(res.statusCode).toEqual(200);
+      expect(res.body.data.map((contact: any) => [contact.fullName, contact.total])).toEqual([
+        ['Alan Turing', 30],
+        ['Grace Hopper', 20],
+        ['Ada Lovelace', 5]
+      ]);
+
+      const pages = await tableManager.findPage(resource, { sort: 'total', limit: 2 });
+      const next = await tableManager.findPage(resource, { sort: 'total', limit: 2, cursor: pages.nextCursor! });
+      expect([...pages.data, ...next.data].map((contact: any) => contact.lastName)).toEqual(['Lovelace', 'Hopper', 'Turing']);
+    });
+
+    it('should keep expressions in step with schema changes', async () => {
+      const schema = await tableManager.renameField(resource, 'firstName', 'givenName');
+      expect(schema.fields.fullName.computed).toEqual("concat(givenName, ' ', lastName)");
+      const contact = await tableManager.create(resource, { givenName: 'Ada', lastName: 'Lovelace' });
+      expect(contact.fullName).toEqual('Ada Lovelace');
+
+      await expect(tableManager.dropField(resource, 'lastName')).rejects.toMatchObject({ statusCode: 409 });
+      await expect(tableManager.changeFieldType(resource, 'quantity', 'string')).rejects.toMatchObject({ statusCode: 409 });
+      await tableManager.dropField(resource, 'total');
+      expect((await tableManager.findById(resource, contact.id)).total).toBeUndefined();
+
+      await expect(tableManager.createTableFromSchema('Invalid', {
+        fields: { amount: { type: 'number' }, doubled: { type: 'number', computed: 'sqrt(amount)' } }
+      })).rejects.toMatchObject({ statusCode: 400 });
+      await expect(tableManager.createTableFromSchema('Invalid', {
+        fields: { amount: { type: 'number', computed: '2' }, doubled: { type: 'number', computed: 'amount * 2' } }
+      })).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+
+  // The database and the table manager are reset before each test, but the models only create their table once
+  const setUpAuthTables = async () => {
+    await tableManager.createTableFromSchema('User', {
+      fields: {
+        email: { type: 'string', unique: true },
+        password: { type: 'string' },
+        name: { type: 'string' },
+        role: { type: 'string' },
+        isActive: { type: 'boolean' }
+      }
+    });
+    registerUserHooks();
+    await tableManager.createTableFromSchema('jwt_tokens', JWT_TOKEN_SCHEMA);
+    await tableManager.createTableFromSchema('password_reset_tokens', PASSWORD_RESET_TOKEN_SCHEMA);
+    await tableManager.createTableFromSchema('email_verifications', EMAIL_VERIFICATION_SCHEMA);
+    await tableManager.createTableFromSchema('two_factor', TWO_FACTOR_SCHEMA);
+    await tableManager.createTableFromSchema('two_factor_policies', TWO_FACTOR_POLICY_SCHEMA);
+  };
+
+  describe('Password reset', () => {
+    const mailDir = path.join(__dirname, '../../../data/test-mail');
+    const readMails = () => fs.existsSync(mailDir)
+      ? fs.readdirSync(mailDir).sort().map((file) => fs.readFileSync(path.join(mailDir, file), 'utf8'))
+      : [];
+
+    beforeEach(async () => {
+      fs.rmSync(mailDir, { recursive: true, force: true });
+      mailer.setTransport(new FileTransport(mailDir));
+      await setUpAuthTables();
+    });
+
+    it('emails a single-use token that changes the password and signs out every session', async () => {
+      const email = `reset-${Date.now()}@example.com`;
+      await request(app).post('/auth/register').send({ email, password: 'old-password' }).expect(200);
+      const login = await request(app).post('/auth/login').send({ email, password: 'old-password' }).expect(200);
+      const session = login.body.token;
+      await request(app).get('/api/schema/User').set('Authorization', `Bearer ${session}`).expect(200);
+
+      const unknown = await request(app).post('/auth/forgot-password').send({ email: `nobody-${Date.now()}@example.com` }).expect(200);
+      expect(readMails()).toHaveLength(0);
+
+      const requested = await request(app).post('/auth/forgot-password').send({ email }).expect(200);
+      expect(requested.body).toEqual(unknown.body);
+      const [mail] = readMails();
+      expect(mail).toContain(`To: ${email}`);
+      expect(mail).toContain('Subject: Reset your Phantom API password');
+      const token = /token=([\w-]+)/.exec(mail)![1];
+
+      await request(app).post('/auth/reset-password').send({ token: 'not-a-token', password: 'new-password' }).expect(400);
+      await request(app).post('/auth/reset-password').send({ token, password: 'new-password' }).expect(200);
+      const reused = await request(app).post('/auth/reset-password').send({ token, password: 'other-password' }).expect(400);
+      expect(reused.body.error).toBe('Invalid or expired reset token');
+      expect(readMails()[1]).toContain('Subject: Your Phantom API password was changed');
+
+      await request(app).get('/api/schema/User').set('Authorization', `Bearer ${session}`).expect(403);
+      await request(app).post('/auth/login').send({ email, password: 'old-password' }).expect(401);
+      await request(app).post('/auth/login').send({ email, password: 'new-password' }).expect(200);
+    });
+
+    it('limits reset requests per email', async () => {
+      const email = `flood-${Date.now()}@example.com`;
+      for (let attempt = 0; attempt < 3; attempt++) {
+        await request(app).post('/auth/forgot-password').send({ email }).expect(200);
+      }
+      await request(app).post('/auth/forgot-password').send({ email }).expect(429);
+      await request(app).post('/auth/forgot-password').send({ email: `other-${email}` }).expect(200);
+    });
+  });
+
+
+  describe('Sessions', () => {
+    // A separate app, so that these requests have their own auth rate limit
+    let sessionApp: any;
+    const refreshCookie = (response: request.Response) =>
+      ([] as string[]).concat(response.headers['set-cookie'] ?? []).find((cookie) => cookie.startsWith('refresh_token='));
+
+    beforeAll(async () => {
+      sessionApp = await createApp();
+    });
+
+    beforeEach(async () => {
+      await setUpAuthTables();
+    });
+
+    it('rotates refresh tokens and revokes the session when an old one is reused', async () => {
+      const agent = request.agent(sessionApp);
+      const registered = await agent.post('/auth/register').send({ email: `session-${Date.now()}@example.com`, password: 'session-password' }).expect(200);
+      expect(registered.body.expiresIn).toBe(900);
+      expect(registered.body.session).toBeUndefined();
+      const firstCookie = refreshCookie(registered)!;
+      expect(firstCookie).toMatch(/HttpOnly/);
+      expect(firstCookie).toMatch(/Path=\/auth/);
+
+      const refreshed = await agent.post('/auth/refresh').expect(200);
+      expect(refreshed.body.token).not.toBe(registered.body.token);
+      expect(refreshCookie(refreshed)).not.toBe(firstCookie);
+      await request(sessionApp).get('/api/schema/User').set('Authorization', `Bearer ${refreshed.body.token}`).expect(200);
+
+      const reused = await request(sessionApp).post('/auth/refresh').set('Cookie', firstCookie.split(';')[0]).expect(401);
+      expect(reused.body.error).toBe('Invalid refresh token');
+      await agent.post('/auth/refresh').expect(401);
+      await request(sessionApp).get('/api/schema/User').set('Authorization', `Bearer ${refreshed.body.token}`).expect(403);
+    });
+
+    it('ends the session on logout', async () => {
+      const agent = request.agent(sessionApp);
+      const registered = await agent.post('/auth/register').send({ email: `logout-${Date.now()}@example.com`, password: 'session-password' }).expect(200);
+      await agent.post('/auth/logout').expect(200);
+      await request(sessionApp).post('/auth/refresh').set('Cookie', refreshCookie(registered)!.split(';')[0]).expect(401);
+      await request(sessionApp).get('/api/schema/User').set('Authorization', `Bearer ${registered.body.token}`).expect(403);
+    });
+
+    it('ends the sessions of users who have not enrolled once their role requires it', async () => {
+      const agent = request.agent(sessionApp);
+      const registered = await agent.post('/auth/register').send({ email: `unenrolled-${Date.now()}@example.com`, password: 'enrol-password' }).expect(200);
+      await agent.post('/auth/refresh').expect(200);
+
+      await request(sessionApp).put('/admin/api/2fa/policies/user').set('Authorization', `Bearer ${adminToken}`).send({ required: true }).expect(200);
+      const refused = await agent.post('/auth/refresh').expect(401);
+      expect(refused.body.error).toBe('Two-factor authentication required, please log in again');
+      await request(sessionApp).get('/api/schema/User').set('Authorization', `Bearer ${registered.body.token}`).expect(403);
+    });
+
+    it('answers 401 to expired access tokens so that clients refresh them', async () => {
+      const expired = generateToken({ id: 'user-test', role: 'user' }, '-1s');
+      const response = await request(sessionApp).get('/api/schema/User').set('Authorization', `Bearer ${expired}`).expect(401);
+      expect(response.body.code).toBe('TOKEN_EXPIRED');
+    });
+  });
+
+  describe('Token revocation', () => {
+    beforeEach(async () => {
+      await setUpAuthTables();
+    });
+
+    it('keeps revoked tokens rejected when the revocation cache is lost', async () => {
+      const registered = await request(app).post('/auth/register').send({ email: `revoked-${Date.now()}@example.com`, password: 'revoked-password' }).expect(200);
+      const token = registered.body.token;
+      await request(app).get('/api/schema/User').set('Authorization', `Bearer ${token}`).expect(200);
+
+      await request(app).post('/auth/logout').set('Authorization', `Bearer ${token}`).expect(200);
+      await request(app).get('/api/schema/User').set('Authorization', `Bearer ${token}`).expect(403);
+
+      // As after a restart, or on a node that missed the revocation message
+      tokenRevocations.clear();
+      await request(app).get('/api/schema/User').set('Authorization', `Bearer ${token}`).expect(403);
+    });
+
+    it('records tokens that were never stored as revoked until they expire', async () => {
+      const token = generateToken({ id: 'user-untracked', role: 'user' }, '1h');
+      await request(app).get('/api/schema/User').set('Authorization', `Bearer ${token}`).expect(200);
+
+      await request(app).post('/auth/logout').set('Authorization', `Bearer ${token}`).expect(200);
+      tokenRevocations.clear();
+      await request(app).get('/api/schema/User').set('Authorization', `Bearer ${token}`).expect(403);
+    });
+
+    it('refuses tokens whose revocation status cannot be determined', async () => {
+      const token = generateToken({ id: 'user-unknown-status', role: 'user' }, '1h');
+      const isRevoked = vi.spyOn(JwtToken, 'isRevoked').mockRejectedValue(new Error('database unavailable'));
+      try {
+        const res = await request(app).get('/api/schema/User').set('Authorization', `Bearer ${token}`);
+        expect(res.statusCode).toEqual(503);
+        expect(res.body.success).toBe(false);
+      } finally {
+        isRevoked.mockRestore();
+      }
+      await request(app).get('/api/schema/User').set('Authorization', `Bearer ${token}`).expect(200);
+    });
+  });
+
+  describe('Email verification', () => {
+    // A separate app, so that these requests have their own auth rate limit
+    let verificationApp: any;
+    const mailDir = path.join(__dirname, '../../../data/test-mail');
+    const linkTokens = () => (fs.existsSync(mailDir) ? fs.readdirSync(mailDir).sort() : [])
+      .map((file) => /verify-email\?token=([\w.-]+)/.exec(fs.readFileSync(path.join(mailDir, file), 'utf8'))?.[1])
+      .filter((token): token is string => token !== undefined);
+
+    beforeAll(async () => {
+      verificationApp = await createApp();
+    });
+
+    beforeEach(async () => {
+      fs.rmSync(mailDir, { recursive: true, force: true });
+      mailer.setTransport(new FileTransport(mailDir));
+      await setUpAuthTables();
+    });
+
+    afterEach(() => {
+      delete process.env.EMAIL_VERIFICATION;
+      delete process.env.EMAIL_VERIFICATION_TTL_HOURS;
+    });
+
+    it('keeps new users pending until they open the emailed link', async () => {
+      process.env.EMAIL_VERIFICATION = 'required';
+      const email = `pending-${Date.now()}@example.com`;
+      const registered = await request(verificationApp).post('/auth/register').send({ email, password: 'pending-password' }).expect(200);
+      expect(registered.body.verificationRequired).toBe(true);
+      expect(registered.body.token).toBeUndefined();
+      expect(registered.headers['set-cookie']).toBeUndefined();
+
+      const refused = await request(verificationApp).post('/auth/login').send({ email, password: 'pending-password' }).expect(403);
+      expect(refused.body.error).toBe('Email address not verified');
+
+      const [token] = linkTokens();
+      await request(verificationApp).post('/auth/verify-email').send({ token: `${token}x` }).expect(400);
+      await request(verificationApp).post('/auth/verify-email').send({ token }).expect(200);
+      await request(verificationApp).post('/auth/verify-email').send({ token }).expect(400);
+      await request(verificationApp).post('/auth/login').send({ email, password: 'pending-password' }).expect(200);
+    });
+
+    it('replaces links on resend and tells expired links apart', async () => {
+      process.env.EMAIL_VERIFICATION = 'required';
+      process.env.EMAIL_VERIFICATION_TTL_HOURS = '-1';
+      const email = `resend-${Date.now()}@example.com`;
+      await request(verificationApp).post('/auth/register').send({ email, password: 'resend-password' }).expect(200);
+      const [expired] = linkTokens();
+      const response = await request(verificationApp).post('/auth/verify-email').send({ token: expired }).expect(410);
+      expect(response.body.error).toBe('Verification link expired, please request a new one');
+
+      delete process.env.EMAIL_VERIFICATION_TTL_HOURS;
+      await request(verificationApp).post('/auth/resend-verification').send({ email }).expect(200);
+      const [, first] = linkTokens();
+      await request(verificationApp).post('/auth/resend-verification').send({ email }).expect(200);
+      const [, , latest] = linkTokens();
+
+      await request(verificationApp).post('/auth/verify-email').send({ token: first }).expect(400);
+      await request(verificationApp).post('/auth/verify-email').send({ token: latest }).expect(200);
+      await request(verificationApp).post('/auth/resend-verification').send({ email }).expect(200);
+      expect(linkTokens()).toHaveLength(3);
+    });
+
+    it('gives pending users a restricted role until an admin verifies them', async () => {
+      process.env.EMAIL_VERIFICATION = 'restricted';
+      const email = `restricted-${Date.now()}@example.com`;
+      const agent = request.agent(verificationApp);
+      const registered = await agent.post('/auth/register').send({ email, password: 'restricted-password' }).expect(200);
+      expect(registered.body.verificationRequired).toBe(true);
+      expect(JSON.parse(Buffer.from(registered.body.token.split('.')[1], 'base64url').toString()).role).toBe('anon');
+
+      const pending = await request(verificationApp).get('/admin/api/verifications').set('Authorization', `Bearer ${adminToken}`).expect(200);
+      expect(pending.body.data).toEqual([expect.objectContaining({ userId: registered.body.user.id, email, expired: false })]);
+
+      await request(verificationApp).post(`/admin/api/verifications/${registered.body.user.id}/verify`).set('Authorization', `Bearer ${adminToken}`).expect(200);
+      await request(verificationApp).post(`/admin/api/verifications/${registered.body.user.id}/verify`).set('Authorization', `Bearer ${adminToken}`).expect(404);
+
+      const refreshed = await agent.post('/auth/refresh').expect(200);
+      expect(JSON.parse(Buffer.from(refreshed.body.token.split('.')[1], 'base64url').toString()).role).toBe('user');
+      const list = await request(verificationApp).get('/admin/api/verifications').set('Authorization', `Bearer ${adminToken}`).expect(200);
+      expect(list.body.data).toEqual([]);
+    });
+  });
+
+  describe('Two-factor authentication', () => {
+    // A separate app, so that these requests have their own auth rate limit
+    let twoFactorApp: any;
+
+    beforeAll(async () => {
+      twoFactorApp = await createApp();
+    });
+
+    beforeEach(async () => {
+      await setUpAuthTables();
+    });
+
+    it('asks for a code after the password once enabled, and accepts each code once', async () => {
+      const email = `totp-${Date.now()}@example.com`;
+      const registered = await request(twoFactorApp).post('/auth/register').send({ email, password: 'totp-password' }).expect(200);
+      const auth = `Bearer ${registered.body.token}`;
+
+      const setup = await request(twoFactorApp).post('/auth/2fa/setup').set('Authorization', auth).expect(200);
+      expect(setup.body.otpauthUrl).toContain(`otpauth://totp/Phantom%20API:${encodeURIComponent(email)}?secret=${setup.body.secret}`);
+      await request(twoFactorApp).post('/auth/2fa/enable').set('Authorization', auth).send({ code: '000000' }).expect(400);
+      const step = timeStep();
+      const enabled = await request(twoFactorApp).post('/auth/2fa/enable').set('Authorization', auth)
+        .send({ code: generateCode(setup.body.secret, step) }).expect(200);
+      expect(enabled.body.recoveryCodes).toHaveLength(10);
+
+      const login = await request(twoFactorApp).post('/auth/login').send({ email, password: 'totp-password' }).expect(200);
+      expect(login.body).toMatchObject({ twoFactorRequired: true, twoFactorStep: 'verify', challengeExpiresIn: 300 });
+      expect(login.body.token).toBeUndefined();
+      expect(login.headers['set-cookie']).toBeUndefined();
+
+      const { challengeToken } = login.body;
+      await request(twoFactorApp).post('/auth/2fa/verify').send({ challengeToken: `${challengeToken}x`, code: '123456' }).expect(401);
+      // The code that confirmed the enrolment was already used
+      await request(twoFactorApp).post('/auth/2fa/verify').send({ challengeToken, code: generateCode(setup.body.secret, step) }).expect(401);
+      const verified = await request(twoFactorApp).post('/auth/2fa/verify')
+        .send({ challengeToken, code: generateCode(setup.body.secret, step + 1) }).expect(200);
+      await request(twoFactorApp).get('/api/schema/User').set('Authorization', `Bearer ${verified.body.token}`).expect(200);
+
+      const recoveryCode = enabled.body.recoveryCodes[0];
+      await request(twoFactorApp).post('/auth/2fa/verify').send({ challengeToken, recoveryCode }).expect(200);
+      await request(twoFactorApp).post('/auth/2fa/verify').send({ challengeToken, recoveryCode }).expect(401);
+      const status = await request(twoFactorApp).get('/auth/2fa').set('Authorization', auth).expect(200);
+      expect(status.body.data).toMatchObject({ enabled: true, required: false, recoveryCodesLeft: 9 });
+    });
+
+    it('makes users of a role enrol at login, and lets admins reset their second factor', async () => {
+      const admin = `Bearer ${adminToken}`;
+      await request(twoFactorApp).put('/admin/api/2fa/policies/user').set('Authorization', admin).send({ required: true }).expect(200);
+
+      const email = `enrol-${Date.now()}@example.com`;
+      const registered = await request(twoFactorApp).post('/auth/register').send({ email, password: 'enrol-password' }).expect(200);
+      expect(registered.body).toMatchObject({ twoFactorRequired: true, twoFactorStep: 'setup' });
+      expect(registered.body.token).toBeUndefined();
+      expect(registered.headers['set-cookie']).toBeUndefined();
+      const login = await request(twoFactorApp).post('/auth/login').send({ email, password: 'enrol-password' }).expect(200);
+      expect(login.body.twoFactorStep).toBe('setup');
+      const { challengeToken } = login.body;
+      await request(twoFactorApp).post('/auth/2fa/verify').send({ challengeToken, code: '123456' }).expect(401);
+
+      const setup = await request(twoFactorApp).post('/auth/2fa/setup').send({ challengeToken }).expect(200);
+      const enabled = await request(twoFactorApp).post('/auth/2fa/enable')
+        .send({ challengeToken, code: generateCode(setup.body.secret, timeStep()) }).expect(200);
+      expect(enabled.body.recoveryCodes).toHaveLength(10);
+      const session = `Bearer ${enabled.body.token}`;
+      await request(twoFactorApp).get('/api/schema/User').set('Authorization', session).expect(200);
+      await request(twoFactorApp).post('/auth/2fa/disable').set('Authorization', session).send({ code: enabled.body.recoveryCodes[0] }).expect(403);
+
+      const listed = await request(twoFactorApp).get('/admin/api/2fa').set('Authorization', admin).expect(200);
+      expect(listed.body.data.users).toEqual([expect.objectContaining({ userId: registered.body.user.id, email, recoveryCodesLeft: 10 })]);
+      expect(listed.body.data.policies).toEqual([expect.objectContaining({ role: 'user', required: true })]);
+
+      await request(twoFactorApp).post(`/admin/api/2fa/users/${registered.body.user.id}/reset`).set('Authorization', admin).expect(200);
+      await request(twoFactorApp).post(`/admin/api/2fa/users/${registered.body.user.id}/reset`).set('Authorization', admin).expect(404);
+      const status = await request(twoFactorApp).get('/auth/2fa').set('Authorization', session).expect(200);
+      expect(status.body.data).toMatchObject({ enabled: false, required: true });
+    });
+  });
 });
\ No newline at end of file
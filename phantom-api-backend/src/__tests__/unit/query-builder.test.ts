@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { SqliteAdapter } from '../../database/adapters/sqlite';
+import { convertPlaceholders } from '../../database/adapters/postgresql';
+import { computedField, compileExpression } from '../../database/computed';
+import { buildKeysetCondition, buildWhereClause, parseSort } from '../../database/query-builder';
+import { AppError } from '../../middleware/errorHandler';
+
+describe('Filter query builder', () => {
+  describe('SQL generation', () => {
+    it('should treat plain values as equality', () => {
+      const clause = buildWhereClause({ name: 'John', age: 30 }, 'sqlite');
+      expect(clause.sql).toBe('(name = ?) AND (age = ?)');
+      expect(clause.params).toEqual(['John', 30]);
+    });
+
+    it('should combine several operators on one field with AND', () => {
+      const clause = buildWhereClause({ age: { gte: 18, lt: 65 } }, 'sqlite');
+      expect(clause.sql).toBe('(age >= ?) AND (age < ?)');
+      expect(clause.params).toEqual([18, 65]);
+    });
+
+    it('should build nested logical groups', () => {
+      const clause = buildWhereClause({
+        status: 'published',
+        $or: [{ views: { gt: 100 } }, { $not: { featured: false } }]
+      }, 'sqlite');
+      expect(clause.sql).toBe('(status = ?) AND ((views > ?) OR (NOT (featured = ?)))');
+      expect(clause.params).toEqual(['published', 100, 0]);
+    });
+
+    it('should use ILIKE on PostgreSQL only', () => {
+      expect(buildWhereClause({ name: { ilike: 'jo%' } }, 'postgresql').sql).toBe('name ILIKE ?');
+      expect(buildWhereClause({ name: { ilike: 'jo%' } }, 'sqlite').sql).toBe('LOWER(name) LIKE LOWER(?)');
+    });
+
+    it('should escape wildcards in contains and startsWith', () => {
+      expect(buildWhereClause({ code: { contains: '10%' } }, 'postgresql').params).toEqual(['%10\\%%']);
+      expect(buildWhereClause({ code: { startsWith: 'a_' } }, 'postgresql').params).toEqual(['a\\_%']);
+      expect(buildWhereClause({ code: { contains: '10%' } }, 'sqlite')).toEqual({ sql: 'instr(code, ?) > 0', params: ['10%'] });
+    });
+
+    it('should translate like patterns to GLOB on SQLite', () => {
+      expect(buildWhereClause({ name: { like: 'a%b_[*?' } }, 'sqlite')).toEqual({ sql: 'name GLOB ?', params: ['a*b?[[][*][?]'] });
+      expect(buildWhereClause({ name: { like: 'a%' } }, 'postgresql').sql).toBe('name LIKE ?');
+    });
+
+    it('should return an empty clause for an empty filter', () => {
+      expect(buildWhereClause(undefined, 'sqlite')).toEqual({ sql: '', params: [] });
+      expect(buildWhereClause({}, 'sqlite')).toEqual({ sql: '', params: [] });
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject unknown operators with a 400', () => {
+      expect(() => buildWhereClause({ age: { greaterThan: 5 } }, 'sqlite')).toThrow(AppError);
+      try {
+        buildWhereClause({ age: { greaterThan: 5 } }, 'sqlite');
+      } catch (error) {
+        expect((error as AppError).statusCode).toBe(400);
+        expect((error as AppError).message).toContain('greaterThan');
+      }
+    });
+
+    it('should reject unknown logical operators', () => {
+      expect(() => buildWhereClause({ $xor: [{ a: 1 }] }, 'sqlite')).toThrow(/Unknown logical operator/);
+    });
+
+    it('should reject field names that are not identifiers', () => {
+      expect(() => buildWhereClause({ 'name; DROP TABLE x': 1 }, 'sqlite')).toThrow(/Invalid field name/);
+    });
+
+    it('should reject malformed operands', () => {
+      expect(() => buildWhereClause({ age: { between: [1] } }, 'sqlite')).toThrow(/between/);
+      expect(() => buildWhereClause({ age: { in: 3 } }, 'sqlite')).toThrow(/expects an array/);
+      expect(() => buildWhereClause({ age: { isNull: 'yes' } }, 'sqlite')).toThrow(/boolean/);
+      expect(() => buildWhereClause({ $or: [] }, 'sqlite')).toThrow(/non-empty array/);
+    });
+  });
+
+  describe('Sorting and keysets', () => {
+    it('should parse every supported sort syntax', () => {
+      expect(parseSort(['-created_at', 'name:asc', 'price DESC', 'id'])).toEqual([
+        { column: 'created_at', direction: 'DESC' },
+        { column: 'name', direction: 'ASC' },
+        { column: 'price', direction: 'DESC' },
+        { column: 'id', direction: 'ASC' }
+      ]);
+      expect(parseSort('a,-b')).toEqual([{ column: 'a', direction: 'ASC' }, { column: 'b', direction: 'DESC' }]);
+      expect(parseSort('')).toEqual([]);
+    });
+
+    it('should reject sort expressions that are not plain columns', () => {
+      expect(() => parseSort('name; DROP TABLE x')).toThrow(AppError);
+      expect(() => parseSort('name sideways')).toThrow(/Invalid sort expression/);
+    });
+
+    it('should build a lexicographic keyset condition', () => {
+      const clause = buildKeysetCondition(
+        [{ column: 'price', direction: 'DESC' }, { column: 'id', direction: 'ASC' }],
+        [10, 'b']
+      );
+      expect(clause.sql).toBe('(price < ?) OR (price = ? AND id > ?)');
+      expect(clause.params).toEqual([10, 10, 'b']);
+    });
+  });
+
+  describe('Execution on SQLite', () => {
+    const adapter = new SqliteAdapter(':memory:');
+
+    const ids = async (where: Record<string, any>) => {
+      const clause = buildWhereClause(where, 'sqlite');
+      const rows = await adapter.query(`SELECT id FROM Item WHERE ${clause.sql} ORDER BY id`, clause.params);
+      return rows.map((row: any) => row.id);
+    };
+
+    beforeAll(async () => {
+      await adapter.connect();
+      await adapter.createTable('Item', { id: 'TEXT PRIMARY KEY', name: 'TEXT', price: 'REAL', category: 'TEXT' });
+      await adapter.execute(
+        `INSERT INTO Item (id, name, price, category) VALUES
+          ('a', 'Apple', 1.5, 'fruit'), ('b', 'apricot', 3, 'fruit'),
+          ('c', 'Carrot', 0.5, 'vegetable'), ('d', 'Mystery', 10, NULL)`
+      );
+    });
+
+    afterAll(async () => {
+      await adapter.disconnect();
+    });
+
+    it('should apply comparison and range operators', async () => {
+      expect(await ids({ price: { gte: 1.5, lte: 3 } })).toEqual(['a', 'b']);
+      expect(await ids({ price: { between: [0, 1.5] } })).toEqual(['a', 'c']);
+    });
+
+    it('should keep like case-sensitive and ilike case-insensitive', async () => {
+      expect(await ids({ name: { like: 'A%' } })).toEqual(['a']);
+      expect(await ids({ name: { like: '_pp%' } })).toEqual(['a']);
+      expect(await ids({ name: { ilike: 'a%' } })).toEqual(['a', 'b']);
+    });
+
+    it('should match contains and startsWith case-sensitively and literally', async () => {
+      expect(await ids({ name: { contains: 'rr' } })).toEqual(['c']);
+      expect(await ids({ name: { contains: 'R' } })).toEqual([]);
+      expect(await ids({ name: { startsWith: 'a' } })).toEqual(['b']);
+      expect(await ids({ name: { contains: '%' } })).toEqual([]);
+    });
+
+    it('should leave the LIKE of other queries case-insensitive', async () => {
+      const rows = await adapter.query(`SELECT id FROM Item WHERE name LIKE 'a%' ORDER BY id`);
+      expect(rows.map((row: any) => row.id)).toEqual(['a', 'b']);
+    });
+
+    it('should include null values in negative matches', async () => {
+      expect(await ids({ category: { neq: 'fruit' } })).toEqual(['c', 'd']);
+      expect(await ids({ category: { nin: ['fruit'] } })).toEqual(['c', 'd']);
+      expect(await ids({ category: { isNull: true } })).toEqual(['d']);
+    });
+
+    it('should evaluate nested groups', async () => {
+      expect(await ids({ $or: [{ category: 'vegetable' }, { $and: [{ category: 'fruit' }, { price: { gt: 2 } }] }] })).toEqual(['b', 'c']);
+      expect(await ids({ $not: { category: { in: ['fruit', 'vegetable'] } } })).toEqual([]);
+    });
+  });
+
+  describe('PostgreSQL placeholders', () => {
+    it('should number placeholders outside quoted strings only', () => {
+      expect(convertPlaceholders(`SELECT * FROM t WHERE a = ? AND b = 'what?' AND "c?" = ?`))
+        .toBe(`SELECT * FROM t WHERE a = $1 AND b = 'what?' AND "c?" = $2`);
+      expect(convertPlaceholders(`UPDATE t SET a = 'it''s ?', b = ?`)).toBe(`UPDATE t SET a = 'it''s ?', b = $1`);
+    });
+
+    it('should keep question marks in the literals of computed expressions', () => {
+      const { expression } = computedField('label', { type: 'string', computed: "concat(name, '?')" });
+      const sql = compileExpression(expression, (field) => field, 'postgresql');
+      expect(convertPlaceholders(sql)).toBe(sql);
+      expect(sql).toContain("'?'");
+    });
+  });
+});
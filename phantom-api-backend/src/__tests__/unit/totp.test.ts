@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { base32Decode, base32Encode, generateCode, generateSecret, provisioningUri, timeStep, verifyCode } from '../../auth/totp';
+
+// The SHA-1 secret of the RFC 6238 test vectors, "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP', () => {
+  it('should encode and decode base32', () => {
+    expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET);
+    expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq').toString()).toBe('12345678901234567890');
+    expect(base32Decode(base32Encode(Buffer.from('f')))).toEqual(Buffer.from('f'));
+    expect(() => base32Decode('not base32!')).toThrow('Invalid base32 character');
+  });
+
+  it('should generate the codes of the RFC 6238 test vectors', () => {
+    const codeAt = (seconds: number) => generateCode(RFC_SECRET, timeStep(seconds * 1000), 8);
+    expect(codeAt(59)).toBe('94287082');
+    expect(codeAt(1111111109)).toBe('07081804');
+    expect(codeAt(1234567890)).toBe('89005924');
+    expect(codeAt(2000000000)).toBe('69279037');
+  });
+
+  it('should accept codes of neighbouring steps only', () => {
+    const secret = generateSecret();
+    const now = Date.now();
+    const step = timeStep(now);
+
+    expect(verifyCode(secret, generateCode(secret, step), 1, now)).toBe(step);
+    expect(verifyCode(secret, generateCode(secret, step - 1), 1, now)).toBe(step - 1);
+    expect(verifyCode(secret, generateCode(secret, step + 2), 1, now)).toBeNull();
+    expect(verifyCode(secret, '12 34', 1, now)).toBeNull();
+    expect(verifyCode(secret, 'abcdef', 1, now)).toBeNull();
+  });
+
+  it('should build provisioning URIs for authenticator apps', () => {
+    expect(provisioningUri(RFC_SECRET, 'jane@example.com', 'Phantom API')).toBe(
+      `otpauth://totp/Phantom%20API:jane%40example.com?secret=${RFC_SECRET}&issuer=Phantom+API&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+});
@@ -30,6 +30,7 @@ import {
   policyAudit,
   requireRole
 } from './middleware/policyAuth';
+import { requestContext } from './middleware/requestContext';
 
 // Route imports
 import { createApiRoutes } from './routes/api';
@@ -42,6 +43,10 @@ import { initializePolicyTables } from './init-policies';
 import { initializeSystemTables } from './init-system-tables';
 import { tableManager } from './database';
 import { JwtToken } from './models/JwtToken';
+import { RecordHistory } from './models/RecordHistory';
+import { SchemaLog } from './models/SchemaLog';
+import { migrationManager } from './migration';
+import { loadPlugins } from './plugins';
 import { cacheService } from './cache/cache-service';
 import { databaseFactory } from './database/factory';
 
@@ -62,10 +67,17 @@ export async function createApp() {
     await initializePolicyTables();
     await initializeSystemTables();
     await JwtToken.initialize();
+    await RecordHistory.initialize();
+    await SchemaLog.initialize();
+    // Last, so that creating the system tables does not write migrations
+    await migrationManager.initialize();
   } catch (error) {
     console.warn('Warning: Failed to initialize policy tables and JWT model:', error);
   }
 
+  // Register lifecycle hooks from the plugins directory; a broken plugin stops startup
+  await loadPlugins();
+
   // Trust proxy for rate limiting and IP detection
   app.set('trust proxy', 1);
 
@@ -87,8 +99,9 @@ export async function createApp() {
       'http://localhost:5176'
     ],
     credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'CSRF-Token', 'X-CSRF-Token']
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'CSRF-Token', 'X-CSRF-Token', 'If-Match', 'If-None-Match'],
+    exposedHeaders: ['ETag']
   }));
 
   // Request logging
@@ -99,6 +112,9 @@ export async function createApp() {
   app.use(express.urlencoded({ extended: true, limit: '10mb' }));
   app.use(cookieParser());
 
+  // Request context for audit records (after body parsing)
+  app.use(requestContext);
+
   // Input sanitization
   app.use(sanitizeInput);
   app.use(sanitizeXSS);
@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+
+/**
+ * Derives a key for one purpose from `JWT_SECRET`, so that what is signed or encrypted for one purpose
+ * (e.g. an email verification link) cannot be used for another (e.g. as an access token).
+ * @param purpose The purpose of the key.
+ * @throws {Error} If JWT_SECRET is not set.
+ */
+export function deriveKey(purpose: string): Buffer {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET environment variable is required');
+  }
+  return crypto.createHmac('sha256', process.env.JWT_SECRET).update(purpose).digest();
+}
+
+const signature = (purpose: string, payload: string) =>
+  crypto.createHmac('sha256', deriveKey(purpose)).update(payload).digest('base64url');
+
+/**
+ * Signs claims into a compact token: `<base64url JSON payload>.<base64url HMAC-SHA256>`.
+ * @param purpose The purpose of the token; a token only reads back with the same purpose.
+ * @param claims The claims the token carries.
+ * @param expiresAt When the token expires, in milliseconds since the epoch.
+ * @returns The token.
+ */
+export function signToken(purpose: string, claims: Record<string, unknown>, expiresAt: number): string {
+  const payload = Buffer.from(JSON.stringify({ ...claims, exp: expiresAt })).toString('base64url');
+  return `${payload}.${signature(purpose, payload)}`;
+}
+
+/**
+ * Reads a token signed by `signToken`. Expired tokens are read too, so that callers can tell them apart.
+ * @param purpose The purpose the token was signed for.
+ * @param token The token.
+ * @returns The claims and whether the token expired, or null if the token is malformed or its signature is wrong.
+ */
+export function readToken<T extends Record<string, unknown>>(purpose: string, token: string): { claims: T; expired: boolean } | null {
+  const [payload, actual, ...rest] = String(token).split('.');
+  if (!payload || !actual || rest.length > 0) {
+    return null;
+  }
+
+  const expected = signature(purpose, payload);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(actual), Buffer.from(expected))) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return { claims, expired: !(claims.exp > Date.now()) };
+  } catch {
+    return null;
+  }
+}
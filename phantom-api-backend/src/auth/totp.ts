@@ -0,0 +1,128 @@
+import crypto from 'crypto';
+
+/**
+ * Time-based one-time passwords (RFC 6238) as generated by authenticator apps:
+ * HMAC-SHA1, 6 digits, 30-second steps.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+/**
+ * Encodes bytes in base32 (RFC 4648) without padding, the format authenticator apps expect secrets in.
+ */
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Decodes base32 (RFC 4648); case, spaces and padding are ignored, as users type secrets by hand.
+ * @throws {Error} If the input contains characters outside of the base32 alphabet.
+ */
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generates a new secret: 20 random bytes, base32-encoded.
+ */
+export function generateSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * The time step a moment falls in.
+ * @param time The moment, in milliseconds since the epoch (default: now).
+ */
+export function timeStep(time: number = Date.now()): number {
+  return Math.floor(time / 1000 / STEP_SECONDS);
+}
+
+/**
+ * Computes the code of a time step (HOTP, RFC 4226, with the step as counter).
+ * @param secret The base32-encoded secret.
+ * @param step The time step.
+ * @param digits The number of digits (default: 6).
+ */
+export function generateCode(secret: string, step: number, digits: number = DIGITS): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/**
+ * Checks a code against the current time step and its neighbours, to allow for clock drift.
+ * @param secret The base32-encoded secret.
+ * @param code The code typed by the user; spaces are ignored.
+ * @param window The number of steps accepted before and after the current one (default: 1).
+ * @param time The moment to check at, in milliseconds since the epoch (default: now).
+ * @returns The time step the code matched, so that callers can refuse reusing it, or null if it does not match.
+ */
+export function verifyCode(secret: string, code: string, window: number = 1, time: number = Date.now()): number | null {
+  const normalized = String(code).replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== DIGITS) {
+    return null;
+  }
+
+  const current = timeStep(time);
+  for (let step = current - window; step <= current + window; step++) {
+    const expected = generateCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Builds the `otpauth://` URI that authenticator apps read from a QR code to add an account.
+ * @param secret The base32-encoded secret.
+ * @param account The name of the account, usually the email of the user.
+ * @param issuer The name of the service, shown by the app.
+ */
+export function provisioningUri(secret: string, account: string, issuer: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
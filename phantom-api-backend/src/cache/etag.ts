@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+
+/**
+ * Computes the entity tag of a record.
+ * Records carry a `version` column that is incremented on every update; rows without one
+ * (tables created before versioning) fall back to their `updated_at` timestamp.
+ * @param record The record to tag.
+ * @returns A strong entity tag, quotes included.
+ */
+export function recordEtag(record: Record<string, any>): string {
+  if (record.version !== undefined && record.version !== null) {
+    return `"v${record.version}"`;
+  }
+
+  const hash = crypto.createHash('sha1').update(`${record.id}:${record.updated_at ?? ''}`).digest('base64url');
+  return `"u${hash.slice(0, 16)}"`;
+}
+
+/**
+ * Checks an `If-Match` or `If-None-Match` header against an entity tag.
+ * @param header The header value: `*` or a comma-separated list of entity tags.
+ * @param etag The current entity tag of the record.
+ * @param weak Whether weak tags (`W/"..."`) may match, as for `If-None-Match`. `If-Match` requires strong comparison.
+ * @returns True if the header matches the entity tag.
+ */
+export function etagMatches(header: string | undefined, etag: string, weak: boolean = false): boolean {
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+
+  return header.split(',').some((candidate) => {
+    const tag = candidate.trim();
+    if (tag.startsWith('W/')) {
+      return weak && tag.slice(2) === etag;
+    }
+    return tag === etag;
+  });
+}
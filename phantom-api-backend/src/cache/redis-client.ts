@@ -12,6 +12,8 @@ export class RedisManager {
   private connectionRetryCount: number = 0;
   private maxRetryCount: number = 5;
   private retryDelay: number = 5000; // 5 seconds
+  private subscriber: RedisClientType | null = null;
+  private channelListeners = new Map<string, Array<(message: string) => void>>();
 
   private constructor() {
     this.isEnabled = process.env.REDIS_ENABLED === 'true';
@@ -66,6 +68,7 @@ export class RedisManager {
     try {
       await this.client.connect();
       logger.info('Redis connection established');
+      await this.startSubscriber();
     } catch (error) {
       logger.error('Failed to connect to Redis:', error);
       this.handleConnectionError();
@@ -73,6 +76,14 @@ export class RedisManager {
   }
 
   async disconnect(): Promise<void> {
+    if (this.subscriber) {
+      try {
+        await this.subscriber.disconnect();
+      } catch (error) {
+        logger.error({ error }, 'Error disconnecting Redis subscriber');
+      }
+      this.subscriber = null;
+    }
     if (this.client && this.isConnected) {
       try {
         await this.client.disconnect();
@@ -194,6 +205,66 @@ export class RedisManager {
     }
   }
 
+  /**
+   * Publish a message to the nodes subscribed to a channel, this one included
+   * @returns Whether the message was published; it is not while Redis is unavailable
+   */
+  async publish(channel: string, message: string): Promise<boolean> {
+    if (!this.isAvailable()) return false;
+
+    try {
+      await this.client!.publish(this.prefixKey(channel), message);
+      return true;
+    } catch (error) {
+      logger.error({ channel, error }, 'Redis PUBLISH error');
+      return false;
+    }
+  }
+
+  /**
+   * Listen to the messages published to a channel by any node
+   * Listeners registered before Redis is connected receive messages once it is
+   */
+  async subscribe(channel: string, listener: (message: string) => void): Promise<void> {
+    const listeners = this.channelListeners.get(channel) ?? [];
+    listeners.push(listener);
+    this.channelListeners.set(channel, listeners);
+
+    if (this.subscriber && listeners.length === 1) {
+      await this.listen(channel);
+    }
+  }
+
+  /**
+   * Open the connection used for subscriptions, since a subscribed connection cannot run other commands
+   */
+  private async startSubscriber(): Promise<void> {
+    if (!this.client || this.subscriber) return;
+
+    try {
+      const subscriber = this.client.duplicate() as RedisClientType;
+      subscriber.on('error', (error) => {
+        logger.error({ error }, 'Redis subscriber error');
+      });
+      await subscriber.connect();
+      this.subscriber = subscriber;
+
+      for (const channel of this.channelListeners.keys()) {
+        await this.listen(channel);
+      }
+    } catch (error) {
+      logger.error({ error }, 'Failed to start Redis subscriber');
+    }
+  }
+
+  private async listen(channel: string): Promise<void> {
+    await this.subscriber!.subscribe(this.prefixKey(channel), (message) => {
+      for (const listener of this.channelListeners.get(channel) ?? []) {
+        listener(message);
+      }
+    });
+  }
+
   private prefixKey(key: string): string {
     return `phantom:${key}`;
   }
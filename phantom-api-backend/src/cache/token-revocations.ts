@@ -0,0 +1,154 @@
+import { logger } from '../logger';
+import { redisManager } from './redis-client';
+
+/**
+ * A revoked token, by the SHA-256 hash of the token.
+ */
+export interface RevokedToken {
+  hash: string;
+  /** When the token expires, as an ISO datetime; its revocation does not need to be remembered after that. */
+  expiresAt: string;
+}
+
+const CHANNEL = 'token-revocations';
+
+/** The number of tokens remembered in memory, as revoked and as valid; the oldest are forgotten first. */
+const MAX_ENTRIES = 10000;
+
+/**
+ * Answers whether a token is revoked without querying the `jwt_tokens` table on every request.
+ *
+ * Each node remembers in memory the tokens it knows are revoked until they expire, and the tokens it found valid
+ * for a few seconds. Revocations are written to Redis under `revoked:<hash>` with a TTL equal to the remaining
+ * lifetime of the token, and published on a channel so that every node forgets the token was valid right away.
+ * Without Redis, revocations are only shared through the database, which is the source of truth.
+ */
+class TokenRevocationCache {
+  private revoked = new Map<string, number>();
+  private valid = new Map<string, number>();
+  private listening = false;
+
+  /**
+   * How long a token found valid is trusted without checking again, in seconds (`TOKEN_REVOCATION_CACHE_SECONDS`, default: 30).
+   * It bounds how late a node sees a revocation whose message it missed.
+   */
+  get validitySeconds(): number {
+    return Number(process.env.TOKEN_REVOCATION_CACHE_SECONDS ?? 30);
+  }
+
+  /**
+   * Subscribes to the revocations published by the other nodes. Called once, on first use.
+   */
+  private listen() {
+    if (this.listening) return;
+    this.listening = true;
+
+    redisManager.subscribe(CHANNEL, (message) => {
+      try {
+        for (const token of JSON.parse(message) as RevokedToken[]) {
+          this.remember(token);
+        }
+      } catch (error) {
+        logger.warn({ error }, 'Ignored malformed token revocation message');
+      }
+    }).catch((error) => logger.error({ error }, 'Failed to subscribe to token revocations'));
+  }
+
+  private remember(token: RevokedToken) {
+    const expiresAt = new Date(token.expiresAt).getTime();
+    this.valid.delete(token.hash);
+    if (expiresAt > Date.now()) {
+      this.store(this.revoked, token.hash, expiresAt);
+    }
+  }
+
+  private store(entries: Map<string, number>, hash: string, until: number) {
+    entries.delete(hash);
+    entries.set(hash, until);
+    if (entries.size > MAX_ENTRIES) {
+      entries.delete(entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Looks a token up in memory, then in Redis.
+   * @param hash The SHA-256 hash of the token.
+   * @returns True if the token is known to be revoked, false if it was recently found valid,
+   * or undefined if the database must be checked.
+   */
+  async lookup(hash: string): Promise<boolean | undefined> {
+    this.listen();
+    const now = Date.now();
+
+    const revokedUntil = this.revoked.get(hash);
+    if (revokedUntil !== undefined) {
+      if (revokedUntil > now) return true;
+      this.revoked.delete(hash);
+    }
+
+    const validUntil = this.valid.get(hash);
+    if (validUntil !== undefined) {
+      if (validUntil > now) return false;
+      this.valid.delete(hash);
+    }
+
+    const expiresAt = await redisManager.get(`revoked:${hash}`);
+    if (expiresAt !== null) {
+      this.store(this.revoked, hash, Number(expiresAt));
+      return true;
+    }
+    return undefined;
+  }
+
+  /**
+   * Remembers that a token was found valid in the database.
+   * @param hash The SHA-256 hash of the token.
+   */
+  markValid(hash: string) {
+    this.store(this.valid, hash, Date.now() + this.validitySeconds * 1000);
+  }
+
+  /**
+   * Remembers that a token was found revoked in the database, on this node and in Redis.
+   * @param token The revoked token.
+   */
+  async markRevoked(token: RevokedToken): Promise<void> {
+    this.remember(token);
+    await this.write(token);
+  }
+
+  /**
+   * Shares revocations with every node: they are remembered here, written to Redis and published.
+   * Call it after the tokens are revoked in the database.
+   * @param tokens The revoked tokens.
+   */
+  async publish(tokens: RevokedToken[]): Promise<void> {
+    if (tokens.length === 0) return;
+
+    this.listen();
+    for (const token of tokens) {
+      this.remember(token);
+      await this.write(token);
+    }
+    await redisManager.publish(CHANNEL, JSON.stringify(tokens));
+  }
+
+  private async write(token: RevokedToken) {
+    const expiresAt = new Date(token.expiresAt).getTime();
+    const ttlSeconds = Math.ceil((expiresAt - Date.now()) / 1000);
+    if (ttlSeconds > 0) {
+      // The value is the expiry, so that nodes reading it remember the revocation for as long as it matters
+      await redisManager.set(`revoked:${token.hash}`, String(expiresAt), ttlSeconds);
+    }
+  }
+
+  /**
+   * Forgets everything remembered in memory (for testing purposes).
+   */
+  clear() {
+    this.revoked.clear();
+    this.valid.clear();
+  }
+}
+
+export const tokenRevocations = new TokenRevocationCache();
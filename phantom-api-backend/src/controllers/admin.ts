@@ -1,13 +1,15 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { tableManager } from '../database';
+import { tableManager, FieldTypeChangeOptions, IndexSpec } from '../database';
 import { generateToken } from '../middleware/auth';
 import { AppError } from '../middleware/errorHandler';
 import { logger } from '../logger';
-import { pullMigrations, applyMigration } from '../migration';
+import { migrationManager } from '../migration';
 import { generateSeedData } from '../seed';
-import { loadResourceMeta } from '../services/metaService';
+import { loadResourceMeta, saveResourceMeta, getSchemaMode, SchemaMode, SCHEMA_MODES } from '../services/metaService';
+import { RecordHistory, RecordHistoryFilters } from '../models/RecordHistory';
+import { SchemaLog } from '../models/SchemaLog';
 import { pathManager } from '../storage/path-manager';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -52,18 +54,21 @@ export class AdminController {
    * @param page The page number for pagination (default: 1).
    * @param limit The maximum number of records per page (default: 10).
    * @param populate An array of relation fields to populate.
-   * @returns A Promise that resolves to an object containing the data, pagination info, and success status.
+   * @param trash Whether to list the soft-deleted records instead of the live ones (default: false).
+   * @returns A Promise that resolves to an object containing the data, pagination info, soft delete support and success status.
    * @throws {AppError} If there is an error retrieving table data.
    */
-  async getTableData(tableName: string, page: number = 1, limit: number = 10, populate: string[] = []) {
+  async getTableData(tableName: string, page: number = 1, limit: number = 10, populate: string[] = [], trash: boolean = false) {
     try {
       const offset = (page - 1) * limit;
-      const data = await tableManager.findAll(tableName, limit, offset, populate);
-      const total = (await tableManager.findAll(tableName, 9999, 0)).length;
+      const deleted = trash ? 'only' : 'exclude';
+      const data = await tableManager.findAll(tableName, limit, offset, populate, undefined, undefined, undefined, deleted);
+      const total = await tableManager.count(tableName, undefined, deleted);
 
       return {
         success: true,
         data,
+        softDelete: tableManager.isSoftDelete(tableName),
         pagination: {
           page,
           limit,
@@ -81,7 +86,7 @@ export class AdminController {
   /**
    * Retrieves the schema (field definitions) for a specified table.
    * @param tableName The name of the table to retrieve the schema for.
-   * @returns A Promise that resolves to an object containing the schema data and success status.
+   * @returns A Promise that resolves to an object containing the schema data, schema mode, searchable fields and success status.
    * @throws {AppError} If the schema is not found or an error occurs.
    */
   async getTableSchema(tableName: string) {
@@ -93,7 +98,9 @@ export class AdminController {
 
       return {
         success: true,
-        data: meta.fields
+        data: meta.fields,
+        schemaMode: getSchemaMode(meta),
+        searchable: meta.searchable ?? []
       };
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
@@ -102,6 +109,268 @@ export class AdminController {
     }
   }
 
+  /**
+   * Changes a field of a table: its type, its name, or both. The type is changed first.
+   * @param tableName The name of the table.
+   * @param field The name of the field.
+   * @param changes The new `type`, with the conversion `strategy` and `force` flag, and the new `name`.
+   * @returns A Promise that resolves to an object containing the updated fields, the conversion counts and success status.
+   * @throws {AppError} If neither a type nor a name is given, the change is refused, or it fails.
+   */
+  async changeField(tableName: string, field: string, changes: { name?: string; type?: string } & FieldTypeChangeOptions) {
+    try {
+      if (!changes.type && !changes.name) {
+        throw new AppError('A new type or name is required', 400);
+      }
+
+      let schema: Record<string, any> | undefined;
+      let conversion: { converted: number; cleared: number } | undefined;
+      if (changes.type) {
+        const { schema: retyped, converted, cleared } = await tableManager.changeFieldType(tableName, field, changes.type, {
+          strategy: changes.strategy,
+          force: changes.force === true
+        });
+        schema = retyped;
+        conversion = { converted, cleared };
+      }
+      if (changes.name && changes.name !== field) {
+        schema = await tableManager.renameField(tableName, field, changes.name);
+      }
+
+      return {
+        success: true,
+        data: schema?.fields ?? (await tableManager.getTableSchema(tableName))?.fields,
+        ...conversion
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message, tableName, field }, 'Failed to change field');
+      throw new AppError('Failed to change field', 500);
+    }
+  }
+
+  /**
+   * Drops a field of a table with its values.
+   * @param tableName The name of the table.
+   * @param field The name of the field to drop.
+   * @returns A Promise that resolves to an object containing the remaining fields and success status.
+   * @throws {AppError} If the field does not exist, is a system field, or the drop fails.
+   */
+  async dropField(tableName: string, field: string) {
+    try {
+      const schema = await tableManager.dropField(tableName, field);
+      return {
+        success: true,
+        data: schema.fields
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message, tableName, field }, 'Failed to drop field');
+      throw new AppError('Failed to drop field', 500);
+    }
+  }
+
+  /**
+   * Renames a table (resource).
+   * @param tableName The current name of the table.
+   * @param newName The new name of the table.
+   * @returns A Promise that resolves to an object containing the new name and success status.
+   * @throws {AppError} If the table does not exist, the new name is invalid or taken, or the rename fails.
+   */
+  async renameTable(tableName: string, newName: string) {
+    try {
+      await tableManager.renameTable(tableName, newName);
+      return {
+        success: true,
+        data: { name: newName }
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message, tableName, newName }, 'Failed to rename table');
+      throw new AppError('Failed to rename table', 500);
+    }
+  }
+
+  /**
+   * Drops a table (resource) with all of its records.
+   * @param tableName The name of the table to drop.
+   * @returns A Promise that resolves to an object indicating success.
+   * @throws {AppError} If the table does not exist, is the target of relations, or the drop fails.
+   */
+  async dropTable(tableName: string) {
+    try {
+      await tableManager.dropTable(tableName);
+      return {
+        success: true,
+        message: `Table ${tableName} dropped`
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message, tableName }, 'Failed to drop table');
+      throw new AppError('Failed to drop table', 500);
+    }
+  }
+
+  /**
+   * Lists the indexes of a table, other than its primary key.
+   * @param tableName The name of the table.
+   * @returns A Promise that resolves to an object containing the indexes and success status.
+   * @throws {AppError} If the table does not exist or the lookup fails.
+   */
+  async listIndexes(tableName: string) {
+    try {
+      const indexes = await tableManager.listIndexes(tableName);
+      return {
+        success: true,
+        data: indexes
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message, tableName }, 'Failed to list indexes');
+      throw new AppError('Failed to list indexes', 500);
+    }
+  }
+
+  /**
+   * Creates an index on fields of a table, and adds it to the `indexes` section of its schema.
+   * @param tableName The name of the table.
+   * @param spec The `fields` to index, in order, with an optional `name`, `unique` flag and `where` filter.
+   * @returns A Promise that resolves to an object containing the created index and success status.
+   * @throws {AppError} If the index is malformed, its name is taken, existing values prevent it, or the creation fails.
+   */
+  async createIndex(tableName: string, spec: IndexSpec) {
+    try {
+      if (!Array.isArray(spec?.fields) || spec.fields.length === 0 || spec.fields.some((field) => typeof field !== 'string')) {
+        throw new AppError('fields must be a non-empty list of field names', 400);
+      }
+      const index = await tableManager.createIndex(tableName, spec);
+      return {
+        success: true,
+        data: index
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message, tableName }, 'Failed to create index');
+      throw new AppError('Failed to create index', 500);
+    }
+  }
+
+  /**
+   * Drops an index of a table, and removes it from the `indexes` section of its schema.
+   * @param tableName The name of the table.
+   * @param indexName The name of the index.
+   * @returns A Promise that resolves to an object containing a message and success status.
+   * @throws {AppError} If the index does not exist, cannot be dropped, or the drop fails.
+   */
+  async dropIndex(tableName: string, indexName: string) {
+    try {
+      await tableManager.dropIndex(tableName, indexName);
+      return {
+        success: true,
+        message: `Index ${indexName} dropped`
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message, tableName, indexName }, 'Failed to drop index');
+      throw new AppError('Failed to drop index', 500);
+    }
+  }
+
+  /**
+   * Lists the queries that ran slower than `SLOW_QUERY_MS`, with the index suggested for each.
+   * @returns A Promise that resolves to an object containing the slow queries and success status.
+   * @throws {AppError} If the lookup fails.
+   */
+  async getSlowQueries() {
+    try {
+      const queries = await tableManager.slowQueries();
+      return {
+        success: true,
+        data: queries
+      };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message }, 'Failed to list slow queries');
+      throw new AppError('Failed to list slow queries', 500);
+    }
+  }
+
+  /**
+   * Sets the schema mode of a table, deciding how writes handle fields missing from its schema.
+   * Locking a resource whose design is final (`strict`) keeps client typos from changing the schema.
+   * The change is written to the schema log.
+   * @param tableName The name of the table.
+   * @param mode The new schema mode, or null to follow the global `SCHEMA_MODE`.
+   * @returns A Promise that resolves to an object containing the effective schema mode and success status.
+   * @throws {AppError} If the mode is invalid, the table does not exist, or the update fails.
+   */
+  async setSchemaMode(tableName: string, mode: SchemaMode | null) {
+    try {
+      if (mode !== null && !SCHEMA_MODES.includes(mode)) {
+        throw new AppError(`Schema mode must be one of: ${SCHEMA_MODES.join(', ')}, or null`, 400);
+      }
+
+      const meta = await loadResourceMeta(tableName);
+      if (!meta) {
+        throw new AppError('Schema not found', 404);
+      }
+
+      const updated = { ...meta, schemaMode: mode };
+      if (mode === null) {
+        delete updated.schemaMode;
+      }
+      await saveResourceMeta(tableName, updated);
+      await tableManager.createTableFromSchema(tableName, updated);
+      await SchemaLog.record(tableName, 'set_mode', { mode });
+
+      return {
+        success: true,
+        schemaMode: getSchemaMode(updated)
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message, tableName, mode }, 'Failed to set schema mode');
+      throw new AppError('Failed to set schema mode', 500);
+    }
+  }
+
+  /**
+   * Lists the schema changes made by writes (auto-created resources and fields) and schema mode changes, most recent first.
+   * @param resource Optional: Only changes to this resource.
+   * @param page The page number for pagination (default: 1).
+   * @param limit The maximum number of entries per page (default: 50).
+   * @returns A Promise that resolves to an object containing the entries, pagination info, and success status.
+   * @throws {AppError} If the search fails.
+   */
+  async searchSchemaLog(resource?: string, page: number = 1, limit: number = 50) {
+    try {
+      const { data, total } = await SchemaLog.search(resource, limit, (page - 1) * limit);
+      return {
+        success: true,
+        data,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message, resource }, 'Failed to search schema log');
+      throw new AppError('Failed to search schema log', 500);
+    }
+  }
+
   /**
    * Updates a record in the specified table.
    * @param tableName The name of the table where the record is located.
@@ -118,6 +387,7 @@ export class AdminController {
         data: result
       };
     } catch (error) {
+      if (error instanceof AppError) throw error;
       const err = error instanceof Error ? error : new Error(String(error));
       logger.error({ error: err.message, tableName, id }, 'Failed to update record');
       throw new AppError('Failed to update record', 500);
@@ -129,7 +399,7 @@ export class AdminController {
    * @param tableName The name of the table from which to delete the record.
    * @param id The ID of the record to delete.
    * @returns A Promise that resolves to an object indicating success or failure of the deletion.
-   * @throws {AppError} If the record deletion fails.
+   * @throws {AppError} If a `restrict` or `noAction` relation references the record, or the record deletion fails.
    */
   async deleteRecord(tableName: string, id: string) {
     try {
@@ -139,12 +409,140 @@ export class AdminController {
         data: deleted
       };
     } catch (error) {
+      if (error instanceof AppError) throw error;
       const err = error instanceof Error ? error : new Error(String(error));
       logger.error({ error: err.message, tableName, id }, 'Failed to delete record');
       throw new AppError('Failed to delete record', 500);
     }
   }
 
+  /**
+   * Lists the records that deleting a record would delete, unlink or be blocked by, following cascades.
+   * @param tableName The name of the table where the record is located.
+   * @param id The ID of the record.
+   * @returns A Promise that resolves to an object containing the affected records and whether the delete is blocked.
+   * @throws {AppError} If the record does not exist or the lookup fails.
+   */
+  async getRecordDependents(tableName: string, id: string) {
+    try {
+      if (!await tableManager.findById(tableName, id)) {
+        throw new AppError('Record not found', 404);
+      }
+      const dependents = await tableManager.findDependents(tableName, id);
+      return {
+        success: true,
+        data: {
+          blocked: dependents.some((group) => group.onDelete === 'restrict' || group.onDelete === 'noAction'),
+          dependents
+        }
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message, tableName, id }, 'Failed to list record dependents');
+      throw new AppError('Failed to list record dependents', 500);
+    }
+  }
+
+  /**
+   * Restores a soft-deleted record from the trash.
+   * @param tableName The name of the table where the record is located.
+   * @param id The ID of the record to restore.
+   * @returns A Promise that resolves to an object containing the restored record and success status.
+   * @throws {AppError} If the table does not use soft delete, the record is not in the trash, or the restore fails.
+   */
+  async restoreRecord(tableName: string, id: string) {
+    try {
+      const result = await tableManager.restore(tableName, id);
+      return {
+        success: true,
+        data: result
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message, tableName, id }, 'Failed to restore record');
+      throw new AppError('Failed to restore record', 500);
+    }
+  }
+
+  /**
+   * Permanently deletes soft-deleted records from the trash.
+   * @param tableName The name of the table to purge.
+   * @param ids Optional: the IDs of the records to purge. The whole trash is emptied when omitted.
+   * @returns A Promise that resolves to an object indicating success and the number of purged records.
+   * @throws {AppError} If the table does not use soft delete or the purge fails.
+   */
+  async purgeRecords(tableName: string, ids?: string[]) {
+    try {
+      if (ids !== undefined && (!Array.isArray(ids) || ids.length === 0)) {
+        throw new AppError('No IDs provided', 400);
+      }
+      const purged = await tableManager.purge(tableName, ids);
+      return {
+        success: true,
+        data: { purged: purged.length }
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message, tableName, ids }, 'Failed to purge records');
+      throw new AppError('Failed to purge records', 500);
+    }
+  }
+
+  /**
+   * Searches the audit log of record changes, most recent first.
+   * @param filters Filters on resource, record, actor, operation and date range.
+   * @param page The page number for pagination (default: 1).
+   * @param limit The maximum number of entries per page (default: 50).
+   * @returns A Promise that resolves to an object containing the entries, pagination info, and success status.
+   * @throws {AppError} If a filter is invalid or the search fails.
+   */
+  async searchAuditLog(filters: RecordHistoryFilters, page: number = 1, limit: number = 50) {
+    try {
+      const { data, total } = await RecordHistory.search(filters, limit, (page - 1) * limit);
+      return {
+        success: true,
+        data,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message, filters }, 'Failed to search audit log');
+      throw new AppError('Failed to search audit log', 500);
+    }
+  }
+
+  /**
+   * Reverts a record to the state it had after one of its history entries.
+   * @param tableName The name of the table where the record is located.
+   * @param id The ID of the record to revert.
+   * @param entryId The ID of the history entry to revert to.
+   * @returns A Promise that resolves to an object containing the reverted record and success status.
+   * @throws {AppError} If the entry does not belong to the record, is a hard delete, or the revert fails.
+   */
+  async revertRecord(tableName: string, id: string, entryId: string) {
+    try {
+      const result = await RecordHistory.revert(tableName, id, entryId);
+      return {
+        success: true,
+        data: result
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message, tableName, id, entryId }, 'Failed to revert record');
+      throw new AppError('Failed to revert record', 500);
+    }
+  }
+
   /**
    * Retrieves log entries from the application or error log files.
    * @param type The type of log to retrieve ('app' or 'error', default: 'app').
@@ -196,19 +594,106 @@ export class AdminController {
   }
 
   /**
-   * Initiates the process of pulling new database migrations from the backend.
-   * @returns A Promise that resolves to an object indicating success and any data from the migration pull.
+   * Lists the schema migrations with their state: applied, pending, modified or missing.
+   * @returns A Promise that resolves to an object containing the migrations and success status.
+   * @throws {AppError} If a migration file is invalid or the migrations cannot be read.
+   */
+  async getMigrationStatus() {
+    try {
+      return {
+        success: true,
+        data: await migrationManager.status()
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message }, 'Failed to read migration status');
+      throw new AppError('Failed to read migration status', 500);
+    }
+  }
+
+  /**
+   * Applies the pending schema migrations, in order.
+   * @returns A Promise that resolves to an object containing the IDs of the applied migrations.
+   * @throws {AppError} If a migration fails; the migrations before it stay applied.
+   */
+  async migrateUp() {
+    try {
+      const migrations = await migrationManager.up();
+      return {
+        success: true,
+        message: `${migrations.length} migration(s) applied`,
+        data: migrations
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message }, 'Failed to apply migrations');
+      throw new AppError('Failed to apply migrations', 500);
+    }
+  }
+
+  /**
+   * Reverts applied schema migrations, most recent first.
+   * @param to The ID of the migration to go back to; without it, only the most recent migration is reverted.
+   * @returns A Promise that resolves to an object containing the IDs of the reverted migrations.
+   * @throws {AppError} With status 400 if `to` is not a string, 404 if it is not applied, 409 if a migration file
+   * is missing or modified, or if a migration fails.
+   */
+  async migrateDown(to?: string) {
+    if (to !== undefined && typeof to !== 'string') {
+      throw new AppError('to must be a migration ID', 400);
+    }
+
+    try {
+      const migrations = await migrationManager.down(to);
+      return {
+        success: true,
+        message: `${migrations.length} migration(s) reverted`,
+        data: migrations
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message, to }, 'Failed to revert migrations');
+      throw new AppError('Failed to revert migrations', 500);
+    }
+  }
+
+  /**
+   * Compares the schemas described by the migration files with the current schemas.
+   * @returns A Promise that resolves to an object containing the differing resources.
+   * @throws {AppError} If a migration file is invalid or the migrations cannot be read.
+   */
+  async getMigrationDiff() {
+    try {
+      return {
+        success: true,
+        data: await migrationManager.diff()
+      };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger.error({ error: err.message }, 'Failed to compare schemas with migrations');
+      throw new AppError('Failed to compare schemas with migrations', 500);
+    }
+  }
+
+  /**
+   * Writes migrations for the schema changes that have none, such as resources created before migrations existed.
+   * @returns A Promise that resolves to an object containing the IDs of the written migrations.
    * @throws {AppError} If the migration pull fails.
    */
   async pullMigrations() {
     try {
-      const migrations = await pullMigrations();
+      const migrations = await migrationManager.pull();
       return {
         success: true,
         message: 'Migrations pulled successfully',
         data: migrations
       };
     } catch (error) {
+      if (error instanceof AppError) throw error;
       const err = error instanceof Error ? error : new Error(String(error));
       logger.error({ error: err.message }, 'Failed to pull migrations');
       throw new AppError('Failed to pull migrations', 500);
@@ -216,19 +701,20 @@ export class AdminController {
   }
 
   /**
-   * Applies a specific database migration by its ID (filename).
-   * @param migrationId The ID (filename) of the migration to apply.
+   * Applies a single pending migration by its ID.
+   * @param migrationId The ID (file name without extension) of the migration to apply.
    * @returns A Promise that resolves to an object indicating success of the migration application.
-   * @throws {AppError} If the migration application fails.
+   * @throws {AppError} With status 404 if the migration does not exist, 409 if it is already applied, or if it fails.
    */
   async applyMigration(migrationId: string) {
     try {
-      await applyMigration(migrationId);
+      await migrationManager.apply(migrationId);
       return {
         success: true,
         message: `Migration ${migrationId} applied successfully`
       };
     } catch (error) {
+      if (error instanceof AppError) throw error;
       const err = error instanceof Error ? error : new Error(String(error));
       logger.error({ error: err.message, migrationId }, 'Failed to apply migration');
       throw new AppError('Failed to apply migration', 500);
@@ -326,9 +812,8 @@ export class AdminController {
       // Get record counts for each table
       for (const table of tables) {
         try {
-          const records = await tableManager.findAll(table, 9999, 0);
           stats.tableStats[table] = {
-            records: records.length,
+            records: await tableManager.count(table),
             lastModified: new Date().toISOString()
           };
         } catch {
@@ -359,14 +844,10 @@ export class AdminController {
       if (!Array.isArray(ids) || ids.length === 0) {
         throw new AppError('No IDs provided', 400);
       }
-      let deletedCount = 0;
-      for (const id of ids) {
-        const deleted = await tableManager.delete(tableName, id);
-        if (deleted) deletedCount++;
-      }
+      const deleted = await tableManager.deleteMany(tableName, { id: { in: ids } });
       return {
         success: true,
-        data: { deleted: deletedCount }
+        data: { deleted: deleted.length }
       };
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
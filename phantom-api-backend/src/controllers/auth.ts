@@ -8,34 +8,110 @@ import {
 import { AppError } from '../middleware/errorHandler';
 import { logger } from '../logger';
 import { JwtToken } from '../models/JwtToken';
+import { PasswordResetToken } from '../models/PasswordResetToken';
+import { EmailVerification } from '../models/EmailVerification';
+import { TwoFactor } from '../models/TwoFactor';
+import { TwoFactorPolicy } from '../models/TwoFactorPolicy';
+import { readToken, signToken } from '../auth/signed-tokens';
+import { provisioningUri } from '../auth/totp';
+import { mailer } from '../mail/mailer';
 import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 
-// Register a hook to hash passwords before creating a user
-tableManager.onBeforeCreate('User', async (data) => {
-  if (data.password) {
-    data.password = await hashPassword(data.password);
-  }
-});
+/**
+ * Registers the User hooks: passwords are hashed when users are created or change theirs,
+ * and deletions are logged and remove the email verification and the second factor of the user.
+ * Called when this module loads; tests call it again after resetting the table manager, which drops hooks.
+ */
+export function registerUserHooks() {
+  // Register a hook to hash passwords before creating a user
+  tableManager.onBeforeCreate('User', async (data) => {
+    if (data.password) {
+      data.password = await hashPassword(data.password);
+    }
+  });
+
+  // Register a hook to hash passwords when a user changes theirs
+  tableManager.onBeforeUpdate('User', async (_id, data) => {
+    if (data.password) {
+      data.password = await hashPassword(data.password);
+    }
+  });
+
+  // Register a hook to log user deletion
+  tableManager.onAfterDelete('User', async (id) => {
+    logger.info({ userId: id }, 'User deleted');
+    try {
+      await EmailVerification.removeForUser(id);
+      await TwoFactor.remove(id);
+    } catch (error) {
+      logger.warn({ userId: id, error: error instanceof Error ? error.message : String(error) }, 'Failed to remove email verification or second factor of deleted user');
+    }
+  });
+}
+
+registerUserHooks();
+
+/**
+ * How long access tokens last, in seconds (`ACCESS_TOKEN_TTL_SECONDS`, default: 900).
+ */
+const accessTokenTtlSeconds = () => Number(process.env.ACCESS_TOKEN_TTL_SECONDS || 15 * 60);
+
+/**
+ * How long refresh tokens last, in days (`REFRESH_TOKEN_TTL_DAYS`, default: 30).
+ */
+const refreshTokenTtlDays = () => Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30);
+
+/**
+ * Whether new users verify their email (`EMAIL_VERIFICATION`, default: off). Until they do, `required` users cannot
+ * log in, and `restricted` users get sessions with the `anon` role.
+ */
+const emailVerificationMode = (): 'off' | 'required' | 'restricted' => {
+  const mode = process.env.EMAIL_VERIFICATION;
+  return mode === 'required' || mode === 'restricted' ? mode : 'off';
+};
 
-// Register a hook to log user deletion
-tableManager.onAfterDelete('User', async (id) => {
-  logger.info({ userId: id }, 'User deleted');
-});
+/**
+ * How long the challenge returned by a login lasts when a second factor is needed, in seconds.
+ */
+const TWO_FACTOR_CHALLENGE_SECONDS = 5 * 60;
+
+/**
+ * The purpose two-factor challenge tokens are signed for.
+ */
+export const TWO_FACTOR_CHALLENGE_PURPOSE = 'two-factor-challenge';
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * The tokens of a session: a short-lived access token and the refresh token that replaces it.
+ * The refresh token is meant for an httpOnly cookie, never for the response body.
+ */
+export interface AuthSession {
+  token: string;
+  /** Seconds until the access token expires. */
+  expiresIn: number;
+  refreshToken: string;
+  /** When the refresh token expires, as an ISO datetime. */
+  refreshExpiresAt: string;
+}
 
 /**
  * Controller for handling user authentication and authorization.
- * Includes methods for login, registration, token management, and password reset.
+ * Includes methods for login, registration, two-factor authentication, token management, and password reset.
  */
 export class AuthController {
   /**
    * Handles user login, authenticating against database users.
-   * Generates a JWT token upon successful authentication and stores it in the database.
+   * Starts a session upon successful authentication: an access token and a refresh token, both tracked in the database.
+   * Users with two-factor authentication, or whose role requires it, get a challenge token instead of a session:
+   * it is completed with a code at `/auth/2fa/verify`, or by enrolling at `/auth/2fa/setup` and `/auth/2fa/enable`.
    * @param email The user's email address.
    * @param password The user's password.
    * @param req Optional request object for device/IP info.
-   * @returns A Promise that resolves to an object containing success status, JWT token, and user information.
-   * @throws {AppError} If authentication fails (e.g., invalid credentials).
+   * @returns A Promise that resolves to an object containing success status, the access token, the session and user information,
+   * or the two-factor challenge.
+   * @throws {AppError} If authentication fails (e.g., invalid credentials), with status 403 if the email must be verified first.
    */
   async login(email: string, password: string, req?: any) {
     try {
@@ -66,52 +142,16 @@ export class AuthController {
         throw new AppError('Account is disabled', 401);
       }
 
-      const token = generateToken({
-        id: user.id,
-        role: user.role || 'user',
-        email: user.email
-      });
+      // Refuses pending users before asking for a second factor
+      await this.sessionRole(user);
 
-      // Store token in database for tracking
-      try {
-        const decoded = jwt.decode(token) as any;
-        const tokenHash = crypto.createHash('sha256').update(token).digest('hex');
-        
-        await JwtToken.create({
-          token_hash: tokenHash,
-          user_id: user.id,
-          token_type: 'access',
-          is_revoked: false,
-          expires_at: new Date(decoded.exp * 1000).toISOString(),
-          issued_at: new Date(decoded.iat * 1000).toISOString(),
-          ip_address: req?.ip || req?.connection?.remoteAddress,
-          user_agent: req?.get?.('User-Agent'),
-          device_info: req ? JSON.stringify({
-            userAgent: req.get?.('User-Agent'),
-            ip: req.ip || req.connection?.remoteAddress,
-            timestamp: new Date().toISOString()
-          }) : undefined
-        });
-      } catch (error) {
-        // Log error but don't fail login if token storage fails
-        logger.warn('Failed to store login token in database', { 
-          userId: user.id, 
-          error: error instanceof Error ? error.message : String(error) 
-        });
+      const challenge = await this.twoFactorChallenge(user);
+      if (challenge) {
+        logger.info({ userId: user.id, step: challenge.twoFactorStep }, 'Password accepted, second factor required');
+        return { success: true, ...challenge, session: undefined };
       }
 
-      logger.info({ userId: user.id, email: user.email }, 'User logged in');
-
-      return {
-        success: true,
-        token,
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          role: user.role || 'user'
-        }
-      };
+      return await this.completeLogin(user, req);
     } catch (error) {
       logger.warn({ email, error: error instanceof Error ? error.message : String(error) }, 'Login attempt failed');
       throw error;
@@ -192,14 +232,20 @@ export class AuthController {
 
   /**
    * Registers a new user in the system.
-   * Hashes the password before storing it and generates a JWT token for the new user.
+   * Hashes the password before storing it and starts a session for the new user.
+   * When email verification is on, the user is pending and gets a verification link by email; with `required`
+   * verification, no session is started until the user verifies their email.
+   * When the role of new users requires two-factor authentication, the setup challenge is returned instead of a session,
+   * as for a login.
    * @param email The email address for the new user.
    * @param password The password for the new user.
    * @param name Optional: The name of the new user.
-   * @returns A Promise that resolves to an object containing success status, JWT token, and new user information.
+   * @param req Optional request object for device/IP info.
+   * @returns A Promise that resolves to an object containing success status, the access token, the session and new user information,
+   * or the two-factor challenge.
    * @throws {AppError} If the user already exists or registration fails.
    */
-  async register(email: string, password: string, name?: string) {
+  async register(email: string, password: string, name?: string, req?: any) {
     try {
       // Check if user already exists
       const existingUsers = await tableManager.findAll('User', 1, 0, [], undefined, undefined, {
@@ -219,17 +265,27 @@ export class AuthController {
         isActive: true
       });
 
-      const token = generateToken({
-        id: newUser.id,
-        role: 'user',
-        email: newUser.email
-      });
+      const mode = emailVerificationMode();
+      if (mode !== 'off') {
+        await this.sendVerificationEmail(newUser);
+      }
+      const challenge = mode === 'required' ? null : await this.twoFactorChallenge(newUser);
+      const session = mode === 'required' || challenge
+        ? undefined
+        : await this.startSession(newUser, mode === 'off' ? 'user' : 'anon', req);
 
-      logger.info({ userId: newUser.id, email }, 'New user registered');
+      logger.info({ userId: newUser.id, email, verification: mode, twoFactorStep: challenge?.twoFactorStep }, 'New user registered');
 
       return {
         success: true,
-        token,
+        token: session?.token,
+        expiresIn: session?.expiresIn,
+        session,
+        ...challenge,
+        ...(mode !== 'off' && {
+          verificationRequired: true,
+          message: 'Check your email to verify your account'
+        }),
         user: {
           id: newUser.id,
           email: newUser.email,
@@ -244,14 +300,23 @@ export class AuthController {
   }
 
   /**
-   * Logs out a user by revoking their JWT token.
-   * @param token The JWT token to revoke.
+   * Logs out a user by revoking their JWT token, and the whole session of their refresh token.
+   * @param token Optional: The access token to revoke.
+   * @param refreshToken Optional: The refresh token of the session to end.
    * @returns A Promise that resolves to an object indicating successful logout.
    * @throws {AppError} If logout fails.
    */
-  async logout(token: string) {
+  async logout(token?: string, refreshToken?: string) {
     try {
-      revokeToken(token);
+      if (token) {
+        await revokeToken(token);
+      }
+      if (refreshToken) {
+        const stored = await JwtToken.findByTokenHash(hashToken(refreshToken));
+        if (stored?.token_type === 'refresh' && stored.family_id) {
+          await JwtToken.revokeFamily(stored.family_id);
+        }
+      }
       logger.info('User logged out');
 
       return {
@@ -265,94 +330,637 @@ export class AuthController {
   }
 
   /**
-   * Refreshes an existing JWT token. (Simplified implementation for demonstration).
-   * In a production environment, this would involve more robust token verification.
-   * @param oldToken The old JWT token to be refreshed.
-   * @returns A Promise that resolves to an object containing success status and a new JWT token.
-   * @throws {AppError} If token refresh fails.
+   * Rotates a refresh token: the token is used up and replaced by a new access token and refresh token of the same session.
+   * Presenting a refresh token that was already used means it leaked, so the whole session is revoked. So is the session
+   * of a user whose role requires two-factor authentication when they have not enrolled: they must log in again to enrol.
+   * @param refreshToken The refresh token.
+   * @param req Optional request object for device/IP info.
+   * @returns A Promise that resolves to an object containing success status, the new access token and the session.
+   * @throws {AppError} With status 401 if the refresh token is missing, unknown, expired or already used,
+   * or if its user no longer exists, is disabled or must enrol in two-factor authentication; with status 403 if the email
+   * of its user must be verified first.
    */
-  async refreshToken(oldToken: string) {
+  async refreshToken(refreshToken: string | undefined, req?: any) {
+    if (!refreshToken) {
+      throw new AppError('No refresh token provided', 401);
+    }
+
     try {
-      // In a production app, you'd verify the old token and issue a new one
-      // For now, we'll just revoke the old token and generate a new one
-      // This is a simplified implementation
+      const tokenHash = hashToken(refreshToken);
+      const stored = await JwtToken.findByTokenHash(tokenHash);
+      if (!stored || stored.token_type !== 'refresh') {
+        throw new AppError('Invalid refresh token', 401);
+      }
 
-      revokeToken(oldToken);
+      // A concurrent refresh with the same token counts as a reuse too, since only one of them can revoke it
+      if (stored.is_revoked || !(await JwtToken.revokeIfActive(tokenHash))) {
+        if (stored.family_id) {
+          await JwtToken.revokeFamily(stored.family_id);
+        }
+        logger.warn({ userId: stored.user_id, familyId: stored.family_id }, 'Refresh token reused, session revoked');
+        throw new AppError('Invalid refresh token', 401);
+      }
 
-      // Generate new token with same payload
-      // In production, you'd decode the old token to get the payload
-      const newToken = generateToken({
-        id: 'refreshed-user',
-        role: 'user'
-      });
+      if (new Date(stored.expires_at) <= new Date()) {
+        throw new AppError('Refresh token expired', 401);
+      }
+
+      const user = stored.user_id ? await tableManager.findById('User', stored.user_id) : null;
+      if (!user || user.isActive === false) {
+        if (stored.family_id) {
+          await JwtToken.revokeFamily(stored.family_id);
+        }
+        throw new AppError('Account is disabled', 401);
+      }
+
+      const { role } = await this.sessionRole(user);
+      if (!(await TwoFactor.isEnabled(user.id)) && await TwoFactorPolicy.isRequired(user.role || 'user')) {
+        if (stored.family_id) {
+          await JwtToken.revokeFamily(stored.family_id);
+        }
+        logger.warn({ userId: user.id }, 'Session of a user without required two-factor authentication revoked');
+        throw new AppError('Two-factor authentication required, please log in again', 401);
+      }
+      const session = await this.startSession(user, role, req, stored.family_id);
+      logger.info({ userId: user.id }, 'Session refreshed');
 
       return {
         success: true,
-        token: newToken
+        token: session.token,
+        expiresIn: session.expiresIn,
+        session
       };
     } catch (error) {
+      if (error instanceof AppError) throw error;
       logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Token refresh failed');
       throw new AppError('Token refresh failed', 401);
     }
   }
 
   /**
-   * Initiates the password reset process for a given email.
-   * (Simplified implementation - in production, this would send an email with a reset link).
-   * @param email The email address for which to request a password reset.
+   * Issues the tokens of a session and stores their hashes: an access token, and a refresh token to rotate it.
+   * @param user The user the session belongs to.
+   * @param role The role the access token carries.
+   * @param req Optional request object for device/IP info.
+   * @param familyId Optional: The session to continue, when rotating a refresh token; a new session is started otherwise.
+   * @returns The tokens.
+   * @throws An error if the tokens cannot be stored.
+   */
+  private async startSession(user: Record<string, any>, role: string, req?: any, familyId: string = crypto.randomUUID()): Promise<AuthSession> {
+    const expiresIn = accessTokenTtlSeconds();
+    const token = generateToken({
+      id: user.id,
+      role,
+      email: user.email,
+      // Tokens issued in the same second must differ, since they are stored by hash
+      jti: crypto.randomUUID()
+    }, `${expiresIn}s`);
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+
+    const now = new Date();
+    const refreshExpiresAt = new Date(now.getTime() + refreshTokenTtlDays() * 24 * 60 * 60 * 1000).toISOString();
+    const decoded = jwt.decode(token) as any;
+    const client = {
+      user_id: user.id,
+      is_revoked: false,
+      issued_at: now.toISOString(),
+      family_id: familyId,
+      ip_address: req?.ip || req?.connection?.remoteAddress,
+      user_agent: req?.get?.('User-Agent'),
+      device_info: req ? JSON.stringify({
+        userAgent: req.get?.('User-Agent'),
+        ip: req.ip || req.connection?.remoteAddress,
+        timestamp: now.toISOString()
+      }) : undefined
+    };
+
+    await JwtToken.create({
+      ...client,
+      token_hash: hashToken(token),
+      token_type: 'access',
+      expires_at: new Date(decoded.exp * 1000).toISOString()
+    });
+    await JwtToken.create({
+      ...client,
+      token_hash: hashToken(refreshToken),
+      token_type: 'refresh',
+      expires_at: refreshExpiresAt
+    });
+
+    return { token, expiresIn, refreshToken, refreshExpiresAt };
+  }
+
+  /**
+   * Starts the session of a user who proved who they are, and builds the response of a successful login.
+   * @param user The user.
+   * @param req Optional request object for device/IP info.
+   * @returns An object containing success status, the access token, the session and user information.
+   * @throws {AppError} With status 403 if the user must verify their email before logging in.
+   */
+  private async completeLogin(user: Record<string, any>, req?: any) {
+    const { role, pending } = await this.sessionRole(user);
+    const session = await this.startSession(user, role, req);
+
+    logger.info({ userId: user.id, email: user.email }, 'User logged in');
+
+    return {
+      success: true,
+      token: session.token,
+      expiresIn: session.expiresIn,
+      session,
+      ...(pending && { verificationRequired: true }),
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role || 'user'
+      }
+    };
+  }
+
+  /**
+   * Issues the challenge of a user who must complete their login with a second factor.
+   * @param user The user whose password was accepted.
+   * @returns The challenge: `verify` when the user has two-factor authentication, `setup` when their role requires it
+   * and they must enrol first; or null if the user logs in with their password only.
+   */
+  private async twoFactorChallenge(user: Record<string, any>) {
+    const enabled = await TwoFactor.isEnabled(user.id);
+    if (!enabled && !(await TwoFactorPolicy.isRequired(user.role || 'user'))) {
+      return null;
+    }
+
+    const twoFactorStep: 'verify' | 'setup' = enabled ? 'verify' : 'setup';
+    const challengeToken = signToken(TWO_FACTOR_CHALLENGE_PURPOSE, {
+      uid: user.id,
+      step: twoFactorStep,
+      nonce: crypto.randomBytes(8).toString('base64url')
+    }, Date.now() + TWO_FACTOR_CHALLENGE_SECONDS * 1000);
+
+    return { twoFactorRequired: true, twoFactorStep, challengeToken, challengeExpiresIn: TWO_FACTOR_CHALLENGE_SECONDS };
+  }
+
+  /**
+   * Resolves the user of a two-factor challenge.
+   * @param challengeToken The challenge token returned by the login.
+   * @param step The step the challenge must be for.
+   * @returns The user.
+   * @throws {AppError} With status 401 if the challenge is invalid, for another step or expired, or its user is disabled.
+   */
+  private async challengeUser(challengeToken: string | undefined, step: 'verify' | 'setup') {
+    const signed = challengeToken ? readToken<{ uid: string; step: string }>(TWO_FACTOR_CHALLENGE_PURPOSE, challengeToken) : null;
+    if (!signed || signed.claims.step !== step) {
+      throw new AppError('Invalid two-factor challenge', 401);
+    }
+    if (signed.expired) {
+      throw new AppError('Two-factor challenge expired, please log in again', 401);
+    }
+
+    const user = await tableManager.findById('User', signed.claims.uid);
+    if (!user || user.isActive === false) {
+      throw new AppError('Invalid two-factor challenge', 401);
+    }
+    return user;
+  }
+
+  /**
+   * Resolves the user enrolling in two-factor authentication: the authenticated user, or the user of a `setup` challenge.
+   * @param userId The ID of the authenticated user, if any.
+   * @param challengeToken The challenge token, when enrolling during a login.
+   * @throws {AppError} With status 401 if neither identifies an active user.
+   */
+  private async enrollingUser(userId?: string, challengeToken?: string) {
+    if (challengeToken) {
+      return await this.challengeUser(challengeToken, 'setup');
+    }
+
+    const user = userId ? await tableManager.findById('User', userId) : null;
+    if (!user) {
+      throw new AppError('Authentication required', 401);
+    }
+    return user;
+  }
+
+  /**
+   * Completes a login with a code of the authenticator app, or with one of the recovery codes.
+   * @param challengeToken The challenge token returned by the login.
+   * @param code Optional: A code of the authenticator app.
+   * @param recoveryCode Optional: A recovery code, used up by this login.
+   * @param req Optional request object for device/IP info.
+   * @returns A Promise that resolves to the same object as a successful login.
+   * @throws {AppError} With status 401 if the challenge is invalid or expired, or the code is wrong or was already used.
+   */
+  async verifyTwoFactor(challengeToken: string, code?: string, recoveryCode?: string, req?: any) {
+    try {
+      const user = await this.challengeUser(challengeToken, 'verify');
+
+      const accepted = code
+        ? await TwoFactor.verifyCode(user.id, String(code))
+        : recoveryCode ? await TwoFactor.useRecoveryCode(user.id, String(recoveryCode)) : false;
+      if (!accepted) {
+        logger.warn({ userId: user.id }, 'Invalid two-factor code');
+        throw new AppError('Invalid two-factor code', 401);
+      }
+      if (!code) {
+        logger.info({ userId: user.id }, 'Recovery code used');
+      }
+
+      return await this.completeLogin(user, req);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Two-factor verification failed');
+      throw new AppError('Two-factor verification failed', 500);
+    }
+  }
+
+  /**
+   * Starts enrolling a user in two-factor authentication with a new secret, replacing an unconfirmed enrolment.
+   * @param userId The ID of the authenticated user, if any.
+   * @param challengeToken The `setup` challenge token, when enrolling during a login.
+   * @returns A Promise that resolves to the secret and the `otpauth://` URI to show as a QR code.
+   * @throws {AppError} With status 400 if two-factor authentication is already enabled.
+   */
+  async setupTwoFactor(userId?: string, challengeToken?: string) {
+    const user = await this.enrollingUser(userId, challengeToken);
+    if (await TwoFactor.isEnabled(user.id)) {
+      throw new AppError('Two-factor authentication is already enabled', 400);
+    }
+
+    const secret = await TwoFactor.startEnrolment(user.id);
+    logger.info({ userId: user.id }, 'Two-factor enrolment started');
+
+    return {
+      success: true,
+      secret,
+      otpauthUrl: provisioningUri(secret, user.email, process.env.APP_NAME || 'Phantom API')
+    };
+  }
+
+  /**
+   * Confirms an enrolment with a first code, which enables two-factor authentication.
+   * When enrolling during a login, the login completes too.
+   * @param userId The ID of the authenticated user, if any.
+   * @param challengeToken The `setup` challenge token, when enrolling during a login.
+   * @param code A code of the authenticator app.
+   * @param req Optional request object for device/IP info.
+   * @returns A Promise that resolves to the recovery codes, to show once, and the session when enrolling during a login.
+   * @throws {AppError} With status 400 if there is no enrolment to confirm or the code is wrong.
+   */
+  async enableTwoFactor(userId: string | undefined, challengeToken: string | undefined, code: string, req?: any) {
+    const user = await this.enrollingUser(userId, challengeToken);
+    const recoveryCodes = await TwoFactor.confirmEnrolment(user.id, String(code ?? ''));
+    if (!recoveryCodes) {
+      throw new AppError('Invalid two-factor code', 400);
+    }
+    logger.info({ userId: user.id }, 'Two-factor authentication enabled');
+
+    if (challengeToken) {
+      return { ...(await this.completeLogin(user, req)), recoveryCodes };
+    }
+    return { success: true, recoveryCodes, session: undefined };
+  }
+
+  /**
+   * Describes the two-factor authentication of a user.
+   * @param userId The ID of the user.
+   * @returns A Promise that resolves to whether it is enabled and required, and how many recovery codes are left.
+   */
+  async getTwoFactorStatus(userId: string) {
+    const user = await this.enrollingUser(userId);
+    const status = await TwoFactor.getStatus(user.id);
+    return {
+      success: true,
+      data: { ...status, required: await TwoFactorPolicy.isRequired(user.role || 'user') }
+    };
+  }
+
+  /**
+   * Disables the two-factor authentication of a user, who confirms with a code or a recovery code.
+   * @param userId The ID of the user.
+   * @param code A code of the authenticator app, or a recovery code.
+   * @returns A Promise that resolves to an object indicating success.
+   * @throws {AppError} With status 403 if the role of the user requires two-factor authentication, and 400 if the code is wrong.
+   */
+  async disableTwoFactor(userId: string, code: string) {
+    const user = await this.enrollingUser(userId);
+    if (await TwoFactorPolicy.isRequired(user.role || 'user')) {
+      throw new AppError('Two-factor authentication is required for your role', 403);
+    }
+    if (!(await TwoFactor.verifyCode(user.id, String(code ?? ''))) && !(await TwoFactor.useRecoveryCode(user.id, String(code ?? '')))) {
+      throw new AppError('Invalid two-factor code', 400);
+    }
+
+    await TwoFactor.remove(user.id);
+    logger.info({ userId: user.id }, 'Two-factor authentication disabled');
+    return {
+      success: true,
+      message: 'Two-factor authentication disabled'
+    };
+  }
+
+  /**
+   * Replaces the recovery codes of a user, who confirms with a code of the authenticator app.
+   * @param userId The ID of the user.
+   * @param code A code of the authenticator app.
+   * @returns A Promise that resolves to the new recovery codes, to show once.
+   * @throws {AppError} With status 400 if the code is wrong.
+   */
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    if (!(await TwoFactor.verifyCode(userId, String(code ?? '')))) {
+      throw new AppError('Invalid two-factor code', 400);
+    }
+
+    const recoveryCodes = await TwoFactor.regenerateRecoveryCodes(userId);
+    logger.info({ userId }, 'Recovery codes regenerated');
+    return { success: true, recoveryCodes };
+  }
+
+  /**
+   * Lists the users with two-factor authentication enabled, and the roles that require it.
+   * @returns A Promise that resolves to the users, with their email, and the policies.
+   */
+  async listTwoFactor() {
+    const enabled = await TwoFactor.findEnabled();
+    const users = enabled.length > 0
+      ? await tableManager.findAll('User', enabled.length, 0, [], undefined, undefined, { id: { in: enabled.map((entry) => entry.userId) } })
+      : [];
+    const emails = new Map(users.map((user: any) => [user.id, user.email]));
+
+    return {
+      users: enabled.map((entry) => ({ ...entry, email: emails.get(entry.userId) ?? null })),
+      policies: await TwoFactorPolicy.findAll()
+    };
+  }
+
+  /**
+   * Removes the second factor of a user who lost it; they enrol again at their next login if their role requires it.
+   * @param userId The ID of the user.
+   * @param adminId The ID of the admin resetting it.
+   * @returns A Promise that resolves to an object indicating success.
+   * @throws {AppError} With status 404 if the user has no second factor.
+   */
+  async resetTwoFactor(userId: string, adminId: string) {
+    if (!(await TwoFactor.remove(userId))) {
+      throw new AppError('User has no two-factor authentication', 404);
+    }
+
+    logger.info({ userId, adminId }, 'Two-factor authentication reset by an admin');
+    return {
+      success: true,
+      message: 'Two-factor authentication reset'
+    };
+  }
+
+  /**
+   * Sets whether the users of a role must use two-factor authentication.
+   * @param role The role.
+   * @param required Whether two-factor authentication is required.
+   * @returns A Promise that resolves to the policy.
+   * @throws {AppError} With status 400 if the role or the flag is missing.
+   */
+  async setTwoFactorPolicy(role: string, required: boolean) {
+    if (!role || typeof role !== 'string' || typeof required !== 'boolean') {
+      throw new AppError('A role and a boolean required flag are expected', 400);
+    }
+    return await TwoFactorPolicy.setRequired(role, required);
+  }
+
+  /**
+   * Resolves the role of a new session of a user, which depends on whether the user verified their email.
+   * @param user The user the session belongs to.
+   * @returns The role, and whether the user has yet to verify their email.
+   * @throws {AppError} With status 403 if the user must verify their email before logging in.
+   */
+  private async sessionRole(user: Record<string, any>): Promise<{ role: string; pending: boolean }> {
+    const mode = emailVerificationMode();
+    if (mode === 'off' || !(await EmailVerification.isPending(user.id))) {
+      return { role: user.role || 'user', pending: false };
+    }
+    if (mode === 'required') {
+      throw new AppError('Email address not verified', 403);
+    }
+    return { role: 'anon', pending: true };
+  }
+
+  /**
+   * Issues a verification link for a user and emails it. Failures are logged, since the user can ask for another link.
+   * @param user The user to verify.
+   */
+  private async sendVerificationEmail(user: Record<string, any>) {
+    try {
+      const { token } = await EmailVerification.issue(user.id, user.email);
+      const verifyUrl = new URL(process.env.EMAIL_VERIFICATION_URL || 'http://localhost:3000/verify-email');
+      verifyUrl.searchParams.set('token', token);
+
+      await mailer.sendTemplate(user.email, 'email-verification', {
+        name: user.name || user.email,
+        verifyUrl: verifyUrl.toString(),
+        expiresInHours: String(EmailVerification.ttlHours)
+      });
+      logger.info({ userId: user.id }, 'Verification email sent');
+    } catch (error) {
+      logger.error({ userId: user.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to send verification email');
+    }
+  }
+
+  /**
+   * Verifies the email of a user with the token of a verification link.
+   * In `restricted` mode, the user gets their role back with their next login or session refresh.
+   * @param token The verification token.
+   * @returns A Promise that resolves to an object indicating successful verification.
+   * @throws {AppError} With status 400 if the token is missing, invalid or already used, and 410 if the link expired.
+   */
+  async verifyEmail(token: string) {
+    if (!token || typeof token !== 'string') {
+      throw new AppError('Verification token is required', 400);
+    }
+
+    let result;
+    try {
+      result = await EmailVerification.verify(token);
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Email verification failed');
+      throw new AppError('Email verification failed', 500);
+    }
+
+    if (result.status === 'expired') {
+      throw new AppError('Verification link expired, please request a new one', 410);
+    }
+    if (result.status === 'invalid') {
+      throw new AppError('Invalid verification link', 400);
+    }
+
+    logger.info({ userId: result.userId }, 'Email verified');
+    return {
+      success: true,
+      message: 'Email verified successfully'
+    };
+  }
+
+  /**
+   * Sends a new verification link to a pending user with the given email; links sent before stop working.
+   * The response is the same whether or not the email belongs to a pending user, so it cannot be used to find accounts.
+   * @param email The email address of the user.
    * @returns A Promise that resolves to an object indicating success and a message.
-   * @throws {AppError} If the password reset request fails.
+   * @throws {AppError} If the request fails.
    */
-  async requestPasswordReset(email: string) {
+  async resendVerification(email: string) {
+    const result = {
+      success: true,
+      message: 'If the account is pending verification, a new verification link has been sent'
+    };
+
+    let user: any;
     try {
-      // Check if user exists
       const users = await tableManager.findAll('User', 1, 0, [], undefined, undefined, {
         email: { eq: email }
       });
-
-      if (users.length === 0) {
-        // Don't reveal if email exists or not
-        return {
-          success: true,
-          message: 'If the email exists, a password reset link has been sent'
-        };
+      user = users[0];
+      if (!user || user.isActive === false || !(await EmailVerification.isPending(user.id))) {
+        logger.info({ email }, 'Verification resend requested for an unknown, disabled or verified account');
+        return result;
       }
+    } catch (error) {
+      logger.error({ email, error: error instanceof Error ? error.message : String(error) }, 'Verification resend failed');
+      throw new AppError('Verification resend failed', 500);
+    }
 
-      // In production, you'd generate a reset token and send an email
-      logger.info({ email }, 'Password reset requested');
+    await this.sendVerificationEmail(user);
+    return result;
+  }
 
-      return {
-        success: true,
-        message: 'If the email exists, a password reset link has been sent'
-      };
+  /**
+   * Lists the users who have not verified their email yet, most recently sent a link first.
+   * @returns A Promise that resolves to the pending users, with when their latest link was sent and whether it expired.
+   */
+  async listPendingVerifications() {
+    const pending = await EmailVerification.findPending();
+    const now = Date.now();
+    return pending.map((verification) => ({
+      userId: verification.user_id,
+      email: verification.email,
+      sentAt: verification.sent_at,
+      expiresAt: verification.expires_at,
+      expired: new Date(verification.expires_at).getTime() <= now
+    }));
+  }
+
+  /**
+   * Verifies a pending user manually, without a link.
+   * @param userId The ID of the user.
+   * @param adminId The ID of the admin verifying the user.
+   * @returns A Promise that resolves to an object indicating successful verification.
+   * @throws {AppError} With status 404 if the user is not pending verification.
+   */
+  async verifyUser(userId: string, adminId: string) {
+    if (!(await EmailVerification.markVerified(userId, adminId))) {
+      throw new AppError('User is not pending verification', 404);
+    }
+
+    logger.info({ userId, adminId }, 'Email verified by an admin');
+    return {
+      success: true,
+      message: 'User verified successfully'
+    };
+  }
+
+  /**
+   * Initiates the password reset process for a given email.
+   * Issues a single-use reset token and emails a link containing it to an active user with that email.
+   * The response is the same whether or not the email belongs to a user, so it cannot be used to find accounts.
+   * @param email The email address for which to request a password reset.
+   * @param req Optional request object for the IP address.
+   * @returns A Promise that resolves to an object indicating success and a message.
+   * @throws {AppError} If the password reset request fails.
+   */
+  async requestPasswordReset(email: string, req?: any) {
+    const result = {
+      success: true,
+      message: 'If the email exists, a password reset link has been sent'
+    };
+
+    let user: any;
+    try {
+      const users = await tableManager.findAll('User', 1, 0, [], undefined, undefined, {
+        email: { eq: email }
+      });
+      user = users[0];
     } catch (error) {
       logger.error({ email, error: error instanceof Error ? error.message : String(error) }, 'Password reset request failed');
       throw new AppError('Password reset request failed', 500);
     }
+
+    // Don't reveal if email exists or not
+    if (!user || user.isActive === false) {
+      logger.info({ email }, 'Password reset requested for an unknown or disabled account');
+      return result;
+    }
+
+    try {
+      const { token } = await PasswordResetToken.issue(user.id, req?.ip || req?.connection?.remoteAddress);
+      const resetUrl = new URL(process.env.PASSWORD_RESET_URL || 'http://localhost:3000/reset-password');
+      resetUrl.searchParams.set('token', token);
+
+      await mailer.sendTemplate(user.email, 'password-reset', {
+        name: user.name || user.email,
+        resetUrl: resetUrl.toString(),
+        expiresInMinutes: String(PasswordResetToken.ttlMinutes)
+      });
+      logger.info({ userId: user.id }, 'Password reset requested');
+    } catch (error) {
+      // Failing here would reveal that the email exists
+      logger.error({ userId: user.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to send password reset email');
+    }
+
+    return result;
   }
 
   /**
    * Resets a user's password using a reset token.
-   * (Simplified implementation - in production, this would verify the token and update the password).
-   * @param _resetToken The password reset token.
-   * @param _newPassword The new password.
+   * The token is used up, and every session of the user is revoked so that the new password is required everywhere.
+   * @param resetToken The password reset token.
+   * @param newPassword The new password.
    * @returns A Promise that resolves to an object indicating successful password reset.
-   * @throws {AppError} If password reset fails.
+   * @throws {AppError} With status 400 if the token is missing, unknown, used or expired.
    */
-  async resetPassword(_resetToken: string, _newPassword: string) {
+  async resetPassword(resetToken: string, newPassword: string) {
+    if (!resetToken || typeof resetToken !== 'string') {
+      throw new AppError('Reset token is required', 400);
+    }
+
+    let userId: string | null;
     try {
-      // In production, you'd verify the reset token and update the password
-      // This is a simplified implementation
+      userId = await PasswordResetToken.consume(resetToken);
+    } catch (error) {
+      logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Password reset failed');
+      throw new AppError('Password reset failed', 500);
+    }
 
-      logger.info('Password reset completed');
+    const user = userId ? await tableManager.findById('User', userId) : null;
+    if (!user) {
+      throw new AppError('Invalid or expired reset token', 400);
+    }
 
-      return {
-        success: true,
-        message: 'Password reset successfully'
-      };
+    try {
+      // The password is hashed by the User update hook
+      await tableManager.update('User', user.id, { password: newPassword });
+      await PasswordResetToken.invalidateForUser(user.id);
+      const revoked = await JwtToken.revokeAllUserTokens(user.id);
+      logger.info({ userId: user.id, revokedSessions: revoked }, 'Password reset completed');
     } catch (error) {
-      logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Password reset failed');
-      throw new AppError('Password reset failed', 400);
+      logger.error({ userId: user.id, error: error instanceof Error ? error.message : String(error) }, 'Password reset failed');
+      throw new AppError('Password reset failed', 500);
     }
+
+    try {
+      await mailer.sendTemplate(user.email, 'password-changed', { name: user.name || user.email });
+    } catch (error) {
+      logger.warn({ userId: user.id, error: error instanceof Error ? error.message : String(error) }, 'Failed to send password changed email');
+    }
+
+    return {
+      success: true,
+      message: 'Password reset successfully'
+    };
   }
-}
\ No newline at end of file
+}
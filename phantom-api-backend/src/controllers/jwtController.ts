@@ -255,10 +255,6 @@ export class JwtController {
       const success = await JwtToken.revokeToken(token.token_hash);
       
       if (success) {
-        // Add to blacklist
-        const jwtManager = JWTManager.getInstance();
-        jwtManager.addToBlacklist(token.token_hash);
-
         logger.info('Token revoked', { 
           tokenId,
           userId: token.user_id,
@@ -293,15 +289,6 @@ export class JwtController {
       const { userId } = req.params;
       
       const revokedCount = await JwtToken.revokeAllUserTokens(userId);
-      
-      // Add all user tokens to blacklist
-      const jwtManager = JWTManager.getInstance();
-      const userTokens = await JwtToken.findByUserId(userId);
-      for (const token of userTokens) {
-        if (token.is_revoked) {
-          jwtManager.addToBlacklist(token.token_hash);
-        }
-      }
 
       logger.info('All user tokens revoked', { userId, revokedCount });
 
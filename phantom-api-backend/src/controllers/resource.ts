@@ -1,8 +1,26 @@
-import { tableManager } from '../database';
-import { AppError } from '../middleware/errorHandler';
+import { tableManager, DeletedScope, parseRelationValue, RELATION_TYPES } from '../database';
+import { parseAggregates, parseGroupBy, parsePopulate } from '../database/query-builder';
+import { isComputedField } from '../database/computed';
+import { AppError, FieldError, ValidationError } from '../middleware/errorHandler';
 import { logger } from '../logger';
-import { loadResourceMeta, saveResourceMeta } from '../services/metaService';
+import { loadResourceMeta, saveResourceMeta, getSchemaMode } from '../services/metaService';
 import { policyFilter, fieldPolicyFilter, PolicyRequest } from '../middleware/policyAuth';
+import { etagMatches, recordEtag } from '../cache/etag';
+import { RecordHistory } from '../models/RecordHistory';
+import { SchemaLog } from '../models/SchemaLog';
+import { validationManager } from '../validation';
+
+/** Page size used by list endpoints when no limit is given. */
+const DEFAULT_LIMIT = 100;
+
+/** Maximum number of records a single bulk request may create, update or delete. */
+const MAX_BULK_RECORDS = 1000;
+
+/** Maximum number of records an aggregate may cover, since row-level policies are checked on each of them. */
+const MAX_AGGREGATE_RECORDS = 10000;
+
+/** Fields managed by the database, accepted in written data whatever the schema mode. */
+const SYSTEM_FIELDS = ['id', 'created_at', 'updated_at', 'version', 'deleted_at'];
 
 /**
  * Controller for handling resource-related operations, including CRUD, schema management, and batch requests.
@@ -10,48 +28,293 @@ import { policyFilter, fieldPolicyFilter, PolicyRequest } from '../middleware/po
 export class ResourceController {
   /**
    * Finds resources based on query parameters.
-   * Applies policy filters to the results.
+   * Applies policy filters to the results. Soft-deleted records are only included with `withDeleted=true`.
+   * With `q`, only the records whose searchable fields match are returned, most relevant first.
    * @param req The Express request object, extended with PolicyRequest properties.
    * @param res The Express response object.
+   * @throws {AppError} With status 400 if `q` is combined with cursor pagination or the resource has no searchable fields.
    */
   async find(req: PolicyRequest, res: any) {
     const { resource } = req.params;
-    const { limit, offset, page, sort, select, where, populate } = req.query;
-    const actualLimit = limit ? Number(limit) : undefined;
-    const actualOffset = offset ? Number(offset) : (page ? (Number(page) - 1) * (actualLimit || 10) : undefined);
-    const actualPopulate = populate ? (populate as string).split(',') : [];
+    const { limit, offset, page, sort, select, where, populate, cursor, paginate, q } = req.query;
+    const actualLimit = limit ? Number(limit) : DEFAULT_LIMIT;
+    const actualOffset = offset ? Number(offset) : (page ? (Number(page) - 1) * actualLimit : 0);
+    const actualPopulate = parsePopulate(populate);
+    const actualWhere = this.parseWhere(where);
+    const deleted = await this.resolveDeletedScope(req, resource);
+
+    if (q !== undefined) {
+      if (cursor !== undefined || paginate === 'cursor') {
+        throw new AppError('Search cannot be combined with cursor pagination', 400);
+      }
+
+      const result = await tableManager.search(resource, {
+        query: String(q),
+        limit: actualLimit,
+        offset: actualOffset,
+        sort: sort as string | string[],
+        select: select as string | string[],
+        where: actualWhere,
+        populate: actualPopulate,
+        deleted
+      });
+      const filteredResults = await policyFilter(req, result.data, resource);
+
+      return res.json({
+        success: true,
+        data: filteredResults,
+        meta: this.buildPaginationMeta(result.total, actualLimit, actualOffset)
+      });
+    }
+
+    if (cursor !== undefined || paginate === 'cursor') {
+      if (offset !== undefined || page !== undefined) {
+        throw new AppError('Cursor pagination cannot be combined with offset or page', 400);
+      }
+
+      const result = await tableManager.findPage(resource, {
+        limit: actualLimit,
+        cursor: cursor as string | undefined,
+        sort: sort as string | string[],
+        select: select as string | string[],
+        where: actualWhere,
+        populate: actualPopulate,
+        deleted
+      });
+      const filteredResults = await policyFilter(req, result.data, resource);
+
+      return res.json({
+        success: true,
+        data: filteredResults,
+        meta: {
+          limit: actualLimit,
+          nextCursor: result.nextCursor,
+          prevCursor: result.prevCursor,
+          hasMore: result.nextCursor !== null
+        }
+      });
+    }
+
+    const [results, total] = await Promise.all([
+      tableManager.findAll(
+        resource,
+        actualLimit,
+        actualOffset,
+        actualPopulate,
+        sort as string | string[],
+        select as string | string[],
+        actualWhere,
+        deleted
+      ),
+      tableManager.count(resource, actualWhere, deleted)
+    ]);
+
+    const filteredResults = await policyFilter(req, results, resource);
+
+    res.json({
+      success: true,
+      data: filteredResults,
+      meta: this.buildPaginationMeta(total, actualLimit, actualOffset)
+    });
+  }
+
+  /**
+   * Counts resources matching the `where` query parameter.
+   * @param req The Express request object, extended with PolicyRequest properties.
+   * @param res The Express response object.
+   */
+  async count(req: PolicyRequest, res: any) {
+    const { resource } = req.params;
+    const deleted = await this.resolveDeletedScope(req, resource);
+    const total = await tableManager.count(resource, this.parseWhere(req.query.where), deleted);
+
+    res.json({ success: true, data: { total } });
+  }
+
+  /**
+   * Computes aggregates (`count`, `sum`, `avg`, `min`, `max`, `countDistinct`) over the resources matching `where`,
+   * optionally grouped by fields (`groupBy`, with date truncation) and filtered by group (`having`).
+   * Only the records the user may read under row-level policies are aggregated.
+   * @param req The Express request object, extended with PolicyRequest properties.
+   * @param res The Express response object.
+   * @throws {AppError} With status 400 if a parameter is invalid or the filter matches too many records.
+   */
+  async aggregate(req: PolicyRequest, res: any) {
+    const { resource } = req.params;
+    const { groupBy, having, sort, limit } = req.query;
+    const aggregates = parseAggregates(req.query);
+    const deleted = await this.resolveDeletedScope(req, resource);
+    const where = await this.readableWhere(req, resource, this.parseWhere(req.query.where), deleted);
+
+    const data = await tableManager.aggregate(resource, {
+      aggregates,
+      groupBy: parseGroupBy(groupBy),
+      where,
+      having: this.parseWhere(having, 'having'),
+      sort: sort as string | string[],
+      limit: limit ? Number(limit) : undefined,
+      deleted
+    });
+
+    res.json({ success: true, data });
+  }
+
+  /**
+   * Restricts a filter to the records the user may read under row-level policies, which are evaluated on each record.
+   * @param req The Express request object, extended with PolicyRequest properties.
+   * @param resource The name of the resource.
+   * @param where The filter.
+   * @param deleted Which soft-deleted records the filter covers.
+   * @returns The filter, limited to the readable records.
+   * @throws {AppError} If the filter matches more records than can be checked.
+   */
+  private async readableWhere(req: PolicyRequest, resource: string, where: Record<string, any> | undefined, deleted: DeletedScope) {
+    const total = await tableManager.count(resource, where, deleted);
+    if (total > MAX_AGGREGATE_RECORDS) {
+      throw new AppError(`Filter matches ${total} records; aggregates are limited to ${MAX_AGGREGATE_RECORDS}`, 400);
+    }
+
+    const records = await tableManager.findAll(resource, MAX_AGGREGATE_RECORDS, 0, [], undefined, undefined, where, deleted);
+    const readable = await policyFilter(req, records, resource);
+    const condition = { id: { in: readable.map((record) => record.id) } };
+    return where ? { $and: [where, condition] } : condition;
+  }
+
+  /**
+   * Lists the history of a resource, most recent change first.
+   * The IP addresses the changes came from are only shown to admins.
+   * @param req The Express request object, extended with PolicyRequest properties, containing resource ID in params.
+   * @param res The Express response object.
+   */
+  async history(req: PolicyRequest, res: any) {
+    const { resource, id } = req.params;
+    const { limit, offset } = req.query;
+    const actualLimit = limit ? Number(limit) : DEFAULT_LIMIT;
+    const actualOffset = offset ? Number(offset) : 0;
+
+    const { data, total } = await RecordHistory.findByRecord(resource, id, actualLimit, actualOffset);
+    const entries = req.user?.role === 'admin' ? data : data.map((entry) => ({ ...entry, ip_address: undefined }));
+
+    res.json({ success: true, data: entries, meta: this.buildPaginationMeta(total, actualLimit, actualOffset) });
+  }
+
+  /**
+   * Reverts a resource to the state it had after one of its history entries.
+   * @param req The Express request object, extended with PolicyRequest properties, containing resource ID and history entry ID in params.
+   * @param res The Express response object.
+   * @throws {AppError} If the history entry does not belong to the resource or is a hard delete.
+   */
+  async revert(req: PolicyRequest, res: any) {
+    const { resource, id, entryId } = req.params;
+
+    const result = await RecordHistory.revert(resource, id, entryId);
+
+    res.set('ETag', recordEtag(result));
+    res.json({ success: true, data: result });
+  }
+
+  /**
+   * Determines which soft-deleted records a read may return.
+   * `withDeleted=true` includes them, for roles allowed to delete the resource only.
+   * @param req The Express request object.
+   * @param resource The name of the resource.
+   * @returns The deleted scope of the read.
+   * @throws {AppError} With status 403 if the user may not see deleted records.
+   */
+  private async resolveDeletedScope(req: PolicyRequest, resource: string): Promise<DeletedScope> {
+    if (req.query.withDeleted !== 'true') {
+      return 'exclude';
+    }
+
+    const meta = await loadResourceMeta(resource);
+    if (meta) {
+      this.checkPermissions(meta, 'delete', req.user?.role || 'anon', req.user?.resourceAccess, resource);
+    }
+    return 'include';
+  }
+
+  /**
+   * Evaluates the `If-Match` precondition of a write request.
+   * @param req The Express request object.
+   * @param resource The name of the resource.
+   * @param id The ID of the record being written.
+   * @returns The version the record must still have when written, or undefined if the write is unconditional.
+   * @throws {AppError} With status 404 if the record does not exist, or 412 if its `ETag` does not match
+   * or it has no version to make the write conditional on.
+   */
+  private async checkIfMatch(req: PolicyRequest, resource: string, id: string): Promise<number | undefined> {
+    const ifMatch = req.get('If-Match');
+    if (!ifMatch) {
+      return undefined;
+    }
+
+    const current = await tableManager.findById(resource, id);
+    if (!current) {
+      throw new AppError('Not found', 404);
+    }
+    if (!etagMatches(ifMatch, recordEtag(current))) {
+      throw new AppError('Precondition failed: the record has been modified', 412);
+    }
 
-    let actualWhere: Record<string, any> | undefined;
+    // `*` only requires the record to exist; a specific tag must still hold when the write happens
+    if (ifMatch.trim() === '*') {
+      return undefined;
+    }
+    if (current.version === undefined || current.version === null) {
+      throw new AppError('Precondition failed: the record has no version to check against', 412);
+    }
+    return current.version;
+  }
+
+  /**
+   * Builds the pagination metadata returned alongside list results.
+   * Totals are computed before row-level policy filtering.
+   * @param total The number of records matching the filter.
+   * @param limit The page size used for the query.
+   * @param offset The number of records skipped.
+   * @returns The pagination metadata.
+   */
+  private buildPaginationMeta(total: number, limit: number, offset: number) {
+    return {
+      total,
+      limit,
+      offset,
+      page: Math.floor(offset / limit) + 1,
+      hasMore: offset + limit < total
+    };
+  }
+
+  /**
+   * Parses the `where` query parameter, given either as a JSON string or as a nested query object.
+   * @param where The raw `where` query parameter.
+   * @param parameter The name of the parameter, for error messages (default: 'where').
+   * @returns The filter object, or undefined if no filter was given.
+   * @throws {AppError} If the parameter is not valid JSON or not an object.
+   */
+  private parseWhere(where: unknown, parameter = 'where'): Record<string, any> | undefined {
+    if (where === undefined || where === '') {
+      return undefined;
+    }
+
+    let parsed: unknown = where;
     if (typeof where === 'string') {
       try {
-        actualWhere = JSON.parse(where);
+        parsed = JSON.parse(where);
       } catch {
-        actualWhere = undefined;
+        throw new AppError(`Invalid ${parameter} parameter: must be valid JSON`, 400);
       }
-    } else if (where && typeof where === 'object' && !Array.isArray(where)) {
-      actualWhere = where as Record<string, any>;
-    } else {
-      actualWhere = undefined;
     }
 
-    const results = await tableManager.findAll(
-      resource,
-      actualLimit,
-      actualOffset,
-      actualPopulate,
-      sort as string | string[],
-      select as string | string[],
-      actualWhere
-    );
-
-    const filteredResults = await policyFilter(req, results, resource);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new AppError(`Invalid ${parameter} parameter: must be an object`, 400);
+    }
 
-    res.json({ success: true, data: filteredResults });
+    return parsed as Record<string, any>;
   }
 
   /**
    * Finds a single resource by its ID.
-   * Applies field-level policy filters to the result.
+   * Applies field-level policy filters to the result, sets its `ETag` and answers 304 when `If-None-Match` matches.
    * @param req The Express request object, extended with PolicyRequest properties.
    * @param res The Express response object.
    * @throws {AppError} If the resource is not found.
@@ -59,14 +322,21 @@ export class ResourceController {
   async findById(req: PolicyRequest, res: any) {
     const { resource, id } = req.params;
     const { populate } = req.query;
-    const actualPopulate = populate ? (populate as string).split(',') : [];
+    const actualPopulate = parsePopulate(populate);
+    const deleted = await this.resolveDeletedScope(req, resource);
 
-    const result = await tableManager.findById(resource, id, actualPopulate);
+    const result = await tableManager.findById(resource, id, actualPopulate, deleted);
 
     if (!result) {
       throw new AppError('Not found', 404);
     }
 
+    const etag = recordEtag(result);
+    res.set('ETag', etag);
+    if (etagMatches(req.get('If-None-Match'), etag, true)) {
+      return res.status(304).end();
+    }
+
     const filteredResult = await fieldPolicyFilter(req, result);
 
     res.json({ success: true, data: filteredResult });
@@ -74,8 +344,8 @@ export class ResourceController {
 
   /**
    * Creates a new resource.
-   * If the resource schema does not exist, it will be auto-generated from the provided data.
-   * If new fields are detected, they will be automatically added to the schema and database.
+   * If the resource schema does not exist, it will be auto-generated from the provided data, unless the global schema mode is not `auto`.
+   * Fields missing from the schema are added, rejected or stripped according to the schema mode.
    * @param req The Express request object, extended with PolicyRequest properties, containing resource data in the body.
    * @param res The Express response object.
    */
@@ -90,8 +360,9 @@ export class ResourceController {
       // Auto-generate resource schema from the provided data
       meta = await this.autoGenerateResource(resource, data, req.user?.role || 'user');
     } else {
-      // Check for new fields and add them if needed
-      await this.ensureFieldsExist(resource, meta, data);
+      // Handle fields missing from the schema according to its schema mode
+      await this.handleUnknownFields(resource, meta, data);
+      await this.validateForeignKeys(meta, data);
     }
 
     const result = await tableManager.create(resource, data);
@@ -100,39 +371,311 @@ export class ResourceController {
   }
 
   /**
-   * Updates an existing resource.
-   * If new fields are detected, they will be automatically added to the schema and database.
+   * Updates an existing resource with the fields present in the body (partial update).
+   * Fields missing from the schema are added, rejected or stripped according to the schema mode.
+   * An `If-Match` header makes the update conditional on the record's current `ETag`.
    * @param req The Express request object, extended with PolicyRequest properties, containing resource ID in params and update data in body.
    * @param res The Express response object.
+   * @throws {AppError} With status 412 if `If-Match` does not match the current record.
    */
   async update(req: PolicyRequest, res: any) {
     const { resource, id } = req.params;
     const data = req.body;
+    const expectedVersion = await this.checkIfMatch(req, resource, id);
 
-    // Check for new fields and add them if needed
+    // Handle fields missing from the schema according to its schema mode
     const meta = await loadResourceMeta(resource);
     if (meta) {
-      await this.ensureFieldsExist(resource, meta, data);
+      await this.handleUnknownFields(resource, meta, data);
+      await this.validateForeignKeys(meta, data);
     }
 
-    const result = await tableManager.update(resource, id, data);
+    const result = await tableManager.update(resource, id, data, { expectedVersion });
 
+    res.set('ETag', recordEtag(result));
     res.json({ success: true, data: result });
   }
 
   /**
    * Deletes a resource by its ID.
+   * An `If-Match` header makes the delete conditional on the record's current `ETag`.
    * @param req The Express request object, extended with PolicyRequest properties, containing resource ID in params.
    * @param res The Express response object.
+   * @throws {AppError} With status 412 if `If-Match` does not match the current record,
+   * or 409 if a `restrict` or `noAction` relation references it.
    */
   async delete(req: PolicyRequest, res: any) {
     const { resource, id } = req.params;
+    const expectedVersion = await this.checkIfMatch(req, resource, id);
 
-    await tableManager.delete(resource, id);
+    await tableManager.delete(resource, id, { expectedVersion });
 
     res.json({ success: true, message: 'Deleted successfully' });
   }
 
+  /**
+   * Lists the resources that deleting a resource would delete (`cascade`), unlink (`setNull`)
+   * or be blocked by (`restrict` and `noAction`), following cascades. Nothing is deleted.
+   * @param req The Express request object, extended with PolicyRequest properties, containing resource ID in params.
+   * @param res The Express response object.
+   * @throws {AppError} With status 404 if the resource does not exist.
+   */
+  async dependents(req: PolicyRequest, res: any) {
+    const { resource, id } = req.params;
+
+    if (!await tableManager.findById(resource, id)) {
+      throw new AppError('Not found', 404);
+    }
+    const dependents = await tableManager.findDependents(resource, id);
+
+    res.json({
+      success: true,
+      data: {
+        blocked: dependents.some((group) => group.onDelete === 'restrict' || group.onDelete === 'noAction'),
+        dependents
+      }
+    });
+  }
+
+  /**
+   * Restores a soft-deleted resource from the trash.
+   * @param req The Express request object, extended with PolicyRequest properties, containing resource ID in params.
+   * @param res The Express response object.
+   * @throws {AppError} If the resource does not use soft delete or the record is not in the trash.
+   */
+  async restore(req: PolicyRequest, res: any) {
+    const { resource, id } = req.params;
+
+    const result = await tableManager.restore(resource, id);
+
+    res.set('ETag', recordEtag(result));
+    res.json({ success: true, data: result });
+  }
+
+  /**
+   * Creates several resources in one request.
+   * Records that are not objects, do not satisfy the schema, reference missing related records or are denied by policy
+   * are reported in `errors` with their index; the other records are inserted together.
+   * If the resource schema does not exist, it will be auto-generated from the records, unless the global schema mode is not `auto`.
+   * @param req The Express request object, extended with PolicyRequest properties, containing `records` in the body.
+   * @param res The Express response object.
+   * @throws {AppError} If `records` is not a non-empty array within the bulk limit.
+   */
+  async createMany(req: PolicyRequest, res: any) {
+    const { resource } = req.params;
+    const records = req.body?.records;
+
+    if (!Array.isArray(records) || records.length === 0) {
+      throw new AppError('Records are required and must be a non-empty array', 400);
+    }
+    if (records.length > MAX_BULK_RECORDS) {
+      throw new AppError(`Maximum ${MAX_BULK_RECORDS} records per bulk request`, 400);
+    }
+
+    const errors: Array<{ index: number; error: string }> = [];
+    const indexes = new Map<Record<string, any>, number>();
+    records.forEach((record: any, index: number) => {
+      if (!record || typeof record !== 'object' || Array.isArray(record) || Object.keys(record).length === 0) {
+        errors.push({ index, error: 'Record must be a non-empty object' });
+      } else {
+        indexes.set(record, index);
+      }
+    });
+
+    const candidates = [...indexes.keys()];
+    const toCreate: Record<string, any>[] = [];
+
+    if (candidates.length > 0) {
+      let meta = await loadResourceMeta(resource);
+      if (!meta) {
+        meta = await this.autoGenerateResource(resource, candidates[0], req.user?.role || 'user');
+      }
+      await this.handleUnknownFields(resource, meta, candidates);
+
+      const allowed = new Set(await policyFilter(req, candidates, resource, 'create'));
+      for (const record of candidates) {
+        if (!allowed.has(record)) {
+          errors.push({ index: indexes.get(record)!, error: 'Access denied by policy' });
+          continue;
+        }
+        const invalid = validationManager.validateRecord(meta, record);
+        if (invalid.length > 0) {
+          errors.push({ index: indexes.get(record)!, error: invalid.map((error) => `${error.field} ${error.message}`).join('; ') });
+          continue;
+        }
+        try {
+          await this.validateForeignKeys(meta, record);
+          toCreate.push(record);
+        } catch (error) {
+          errors.push({ index: indexes.get(record)!, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+    }
+
+    const ids = toCreate.length > 0 ? await tableManager.createMany(resource, toCreate) : [];
+    errors.sort((a, b) => a.index - b.index);
+
+    res.status(ids.length > 0 ? 201 : 200).json({ success: true, data: { ids, errors } });
+  }
+
+  /**
+   * Inserts resources, or updates the existing resources they conflict with, in a single atomic statement per record.
+   * The `conflictOn` fields must be covered by a unique constraint (fields declared with `unique: true`).
+   * @param req The Express request object, extended with PolicyRequest properties, containing `conflictOn` and `data` (an object or an array of objects) in the body.
+   * @param res The Express response object.
+   * @throws {AppError} If the payload is invalid, the resource is not found, or the conflict fields have no unique constraint.
+   */
+  async upsert(req: PolicyRequest, res: any) {
+    const { resource } = req.params;
+    const { conflictOn, data } = req.body;
+
+    if (!Array.isArray(conflictOn) || conflictOn.length === 0 || !conflictOn.every((field) => typeof field === 'string')) {
+      throw new AppError('conflictOn is required and must be a non-empty array of field names', 400);
+    }
+
+    const records = Array.isArray(data) ? data : [data];
+    const isRecord = (record: any) => record && typeof record === 'object' && !Array.isArray(record) && Object.keys(record).length > 0;
+    if (records.length === 0 || !records.every(isRecord)) {
+      throw new AppError('Data is required and must be a non-empty object or an array of objects', 400);
+    }
+    if (records.length > MAX_BULK_RECORDS) {
+      throw new AppError(`Maximum ${MAX_BULK_RECORDS} records per bulk request`, 400);
+    }
+
+    const meta = await loadResourceMeta(resource);
+    if (!meta) {
+      throw new AppError(`Resource '${resource}' not found`, 404);
+    }
+
+    await this.handleUnknownFields(resource, meta, records);
+    for (const record of records) {
+      await this.validateForeignKeys(meta, record);
+    }
+
+    const written = await tableManager.upsert(resource, records, conflictOn);
+    const saved = await tableManager.findAll(
+      resource, written.length, 0, [], undefined, undefined, { id: { in: written.map((row) => row.id) } }
+    );
+    const savedById = new Map(saved.map((record) => [record.id, record]));
+
+    res.json({
+      success: true,
+      data: written.map((row) => ({
+        id: row.id,
+        operation: row.inserted ? 'inserted' : 'updated',
+        record: savedById.get(row.id) ?? null
+      }))
+    });
+  }
+
+  /**
+   * Updates every resource matching a filter.
+   * Matching records denied by policy are left unchanged and reported in `errors` with their ID.
+   * Fields missing from the schema are added, rejected or stripped according to the schema mode.
+   * @param req The Express request object, extended with PolicyRequest properties, containing `where` and `data` in the body.
+   * @param res The Express response object.
+   * @throws {AppError} If the filter or data are missing or invalid, the resource is not found, or the filter matches too many records.
+   */
+  async updateMany(req: PolicyRequest, res: any) {
+    const { resource } = req.params;
+    const { data } = req.body;
+    const where = this.parseWhere(req.body?.where);
+
+    if (!where || Object.keys(where).length === 0) {
+      throw new AppError('Where is required and must be a non-empty object', 400);
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data) || Object.keys(data).length === 0) {
+      throw new AppError('Data is required and must be a non-empty object', 400);
+    }
+
+    const meta = await loadResourceMeta(resource);
+    if (!meta) {
+      throw new AppError(`Resource '${resource}' not found`, 404);
+    }
+
+    await this.handleUnknownFields(resource, meta, data);
+    await this.validateForeignKeys(meta, data);
+
+    const { ids: allowedIds, errors } = await this.selectBulkTargets(req, resource, where, 'update');
+    const ids = allowedIds.length > 0
+      ? await tableManager.updateMany(resource, { $and: [where, { id: { in: allowedIds } }] }, data)
+      : [];
+
+    res.json({ success: true, data: { ids, errors } });
+  }
+
+  /**
+   * Deletes every resource matching the `where` query parameter.
+   * Matching records denied by policy are kept and reported in `errors` with their ID.
+   * @param req The Express request object, extended with PolicyRequest properties.
+   * @param res The Express response object.
+   * @throws {AppError} If the filter is missing or invalid, or matches too many records.
+   */
+  async deleteMany(req: PolicyRequest, res: any) {
+    const { resource } = req.params;
+    const where = this.parseWhere(req.query.where);
+
+    if (!where || Object.keys(where).length === 0) {
+      throw new AppError('Where is required and must be a non-empty object', 400);
+    }
+
+    const { ids: allowedIds, errors } = await this.selectBulkTargets(req, resource, where, 'delete');
+    const ids = allowedIds.length > 0
+      ? await tableManager.deleteMany(resource, { $and: [where, { id: { in: allowedIds } }] })
+      : [];
+
+    res.json({ success: true, data: { ids, errors } });
+  }
+
+  /**
+   * Collects the fields used across several records, keeping the first non-null value of each
+   * so that the schema covers every record and not only the first one.
+   * @param records The records to inspect.
+   * @returns An object with one sample value per field.
+   */
+  private collectFields(records: Record<string, any>[]): Record<string, any> {
+    const fields: Record<string, any> = {};
+    for (const record of records) {
+      for (const [key, value] of Object.entries(record)) {
+        if (fields[key] === undefined || fields[key] === null) {
+          fields[key] = value;
+        }
+      }
+    }
+    return fields;
+  }
+
+  /**
+   * Finds the records targeted by a bulk update or delete and checks row-level policies on each of them.
+   * @param req The Express request object, extended with PolicyRequest properties.
+   * @param resource The name of the resource.
+   * @param where The filter selecting the records.
+   * @param action The action to evaluate ('update' or 'delete').
+   * @returns The IDs of the records the user may act on, and an error entry for every other record.
+   * @throws {AppError} If the filter matches more records than a bulk request may process.
+   */
+  private async selectBulkTargets(req: PolicyRequest, resource: string, where: Record<string, any>, action: string) {
+    const total = await tableManager.count(resource, where);
+    if (total > MAX_BULK_RECORDS) {
+      throw new AppError(`Filter matches ${total} records; bulk requests are limited to ${MAX_BULK_RECORDS}`, 400);
+    }
+
+    const records = await tableManager.findAll(resource, MAX_BULK_RECORDS, 0, [], undefined, undefined, where);
+    const allowed = new Set(await policyFilter(req, records, resource, action));
+
+    const ids: string[] = [];
+    const errors: Array<{ id: string; error: string }> = [];
+    for (const record of records) {
+      if (allowed.has(record)) {
+        ids.push(record.id);
+      } else {
+        errors.push({ id: record.id, error: 'Access denied by policy' });
+      }
+    }
+
+    return { ids, errors };
+  }
+
   /**
    * Creates a resource if it does not already exist based on a filter.
    * @param req The Express request object, extended with PolicyRequest properties, containing filter and data in the body.
@@ -155,8 +698,8 @@ export class ResourceController {
     if (!meta) {
       meta = await this.autoGenerateResource(resource, data, req.user?.role || 'user');
     } else {
-      // Check for new fields and add them if needed
-      await this.ensureFieldsExist(resource, meta, data);
+      // Handle fields missing from the schema according to its schema mode
+      await this.handleUnknownFields(resource, meta, data);
     }
 
     // Check permissions for 'create' action
@@ -198,8 +741,8 @@ export class ResourceController {
       throw new AppError(`Resource '${resource}' not found`, 404);
     }
 
-    // Check for new fields and add them if needed
-    await this.ensureFieldsExist(resource, meta, data);
+    // Handle fields missing from the schema according to its schema mode
+    await this.handleUnknownFields(resource, meta, data);
 
     // Check permissions for 'update' action
     this.checkPermissions(meta, 'update', req.user?.role || 'anon', req.user?.resourceAccess, resource);
@@ -237,6 +780,34 @@ export class ResourceController {
     userRole: string,
     resourceAccess?: string,
     query?: any
+  ) {
+    const meta = await this.prepareRequest(resource, action, data, userRole, resourceAccess);
+
+    // Validate foreign keys for create/update
+    if (action === 'create' || action === 'update') {
+      await this.validateForeignKeys(meta, data);
+    }
+
+    // Execute action
+    return await this.executeAction(resource, action, data, query);
+  }
+
+  /**
+   * Loads the metadata for a request, evolving the schema when needed, and checks permissions.
+   * @param resource The name of the resource.
+   * @param action The action to perform.
+   * @param data The data payload for the action.
+   * @param userRole The role of the authenticated user.
+   * @param resourceAccess Optional: Specific resource access granted to the user.
+   * @returns A Promise that resolves to the resource metadata.
+   * @throws {AppError} If the resource is not found or permissions are insufficient.
+   */
+  private async prepareRequest(
+    resource: string,
+    action: string,
+    data: any,
+    userRole: string,
+    resourceAccess?: string
   ) {
     // Load and validate metadata
     let meta = await loadResourceMeta(resource);
@@ -247,39 +818,42 @@ export class ResourceController {
     } else if (!meta) {
       throw new AppError(`Resource '${resource}' not found`, 404);
     } else if ((action === 'create' || action === 'update') && data) {
-      // Check for new fields and add them if needed
-      await this.ensureFieldsExist(resource, meta, data);
+      // Handle fields missing from the schema according to its schema mode
+      await this.handleUnknownFields(resource, meta, data);
     }
 
     // Check permissions
     this.checkPermissions(meta, action, userRole, resourceAccess, resource);
 
-    // Validate foreign keys for create/update
-    if (action === 'create' || action === 'update') {
-      await this.validateForeignKeys(meta, data);
-    }
-
-    // Execute action
-    return await this.executeAction(resource, action, data, query);
+    return meta;
   }
 
   /**
    * Handles a batch of resource requests.
+   * String values such as `"$0.id"` are replaced with fields of earlier results in the batch.
    * @param requests An array of request objects, each containing resource, action, and data.
    * @param userRole The role of the authenticated user.
    * @param resourceAccess Optional: Specific resource access granted to the user.
+   * @param options Optional: `atomic` runs every request in one transaction and fails the whole batch on the first error.
    * @returns A Promise that resolves to an array of results for each batch request.
+   * @throws {AppError} In atomic mode, if any request fails; no changes are kept.
    */
   async handleBatchRequests(
     requests: any[],
     userRole: string,
-    resourceAccess?: string
+    resourceAccess?: string,
+    options: { atomic?: boolean } = {}
   ) {
+    if (options.atomic) {
+      return this.handleAtomicBatchRequests(requests, userRole, resourceAccess);
+    }
+
     const results: any[] = [];
 
-    for (const request of requests) {
+    for (const [index, request] of requests.entries()) {
       try {
-        const { resource, action, data } = request;
+        const { resource, action } = request;
+        const data = this.resolveBatchReferences(request.data, results, index);
         const result = await this.handleRequest(
           resource,
           action,
@@ -299,13 +873,118 @@ export class ResourceController {
     return results;
   }
 
+  /**
+   * Handles a batch of resource requests inside a single database transaction.
+   * Schema changes and permission checks run before the transaction starts,
+   * so a rollback never leaves the metadata out of sync with the tables.
+   * @param requests An array of request objects, each containing resource, action, and data.
+   * @param userRole The role of the authenticated user.
+   * @param resourceAccess Optional: Specific resource access granted to the user.
+   * @returns A Promise that resolves to an array of results for each batch request.
+   * @throws {AppError} If any request fails, after rolling back the whole batch.
+   */
+  private async handleAtomicBatchRequests(
+    requests: any[],
+    userRole: string,
+    resourceAccess?: string
+  ) {
+    const metas: any[] = [];
+    for (const [index, request] of requests.entries()) {
+      try {
+        metas.push(await this.prepareRequest(request.resource, request.action, request.data, userRole, resourceAccess));
+      } catch (error) {
+        throw this.batchError(error, index);
+      }
+    }
+
+    const results: any[] = [];
+    await tableManager.transaction(async () => {
+      for (const [index, request] of requests.entries()) {
+        try {
+          const data = this.resolveBatchReferences(request.data, results, index);
+          if (request.action === 'create' || request.action === 'update') {
+            await this.validateForeignKeys(metas[index], data);
+          }
+          const result = await this.executeAction(request.resource, request.action, data);
+          results.push({ success: true, data: result });
+        } catch (error) {
+          throw this.batchError(error, index);
+        }
+      }
+    });
+
+    logger.info({ operations: requests.length }, 'Atomic batch committed');
+    return results;
+  }
+
+  /**
+   * Replaces batch references (e.g. `"$0.id"`) in a payload with values from earlier results.
+   * @param value The payload, or a nested value of it.
+   * @param results The results of the requests already executed in the batch.
+   * @param index The position of the current request in the batch.
+   * @returns A copy of the payload with every reference resolved.
+   * @throws {AppError} If a reference points to the current or a later request, or to a failed one.
+   */
+  private resolveBatchReferences(value: any, results: any[], index: number): any {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.resolveBatchReferences(item, results, index));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.resolveBatchReferences(item, results, index)])
+      );
+    }
+    if (typeof value !== 'string') {
+      return value;
+    }
+
+    const match = value.match(/^\$(\d+)\.([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*)$/);
+    if (!match) {
+      return value;
+    }
+
+    const target = Number(match[1]);
+    if (target >= index) {
+      throw new AppError(`Batch reference '${value}' must point to an earlier operation`, 400);
+    }
+    if (!results[target]?.success) {
+      throw new AppError(`Batch reference '${value}' points to an operation that failed`, 400);
+    }
+
+    const resolved = match[2].split('.').reduce((current: any, key) => current?.[key], results[target].data);
+    if (resolved === undefined) {
+      throw new AppError(`Batch reference '${value}' did not resolve to a value`, 400);
+    }
+    return resolved;
+  }
+
+  /**
+   * Wraps an error raised by a batch request with its position in the batch.
+   * @param error The original error.
+   * @param index The position of the failed request.
+   * @returns An AppError keeping the original status code (400 for unexpected errors).
+   */
+  private batchError(error: unknown, index: number): AppError {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const statusCode = error instanceof AppError ? error.statusCode : 400;
+    return new AppError(`Batch operation ${index} failed, no changes were applied: ${message}`, statusCode);
+  }
+
   /**
    * Retrieves the schema (metadata) for a specific resource.
+   * Computed fields are marked `readOnly`, and `virtual` tells whether they are computed on read or stored.
    * @param resource The name of the resource.
    * @returns A Promise that resolves to the resource's metadata.
    */
   async getResourceSchema(resource: string) {
-    return await loadResourceMeta(resource);
+    const meta = await loadResourceMeta(resource);
+    if (!meta?.fields) return meta;
+
+    const fields = Object.fromEntries(Object.entries<any>(meta.fields).map(([name, field]) => [
+      name,
+      isComputedField(field) ? { ...field, readOnly: true, virtual: field.virtual === true } : field
+    ]));
+    return { ...meta, fields };
   }
 
   /**
@@ -344,23 +1023,27 @@ export class ResourceController {
 
   /**
    * Validates foreign key relationships for data being created or updated.
-   * Ensures that related records exist in their respective tables.
+   * Ensures that the records a relation field links or connects exist in their respective tables;
+   * disconnected records are not checked.
    * @param meta The resource metadata containing field definitions.
    * @param data The data payload to validate.
    * @throws {AppError} If a foreign key validation fails.
+   * @throws {ValidationError} With status 422 if a relation value is invalid.
    */
   private async validateForeignKeys(meta: any, data: any) {
     for (const [key, field] of Object.entries(meta.fields)) {
-      if ((field as any).type === 'relation' && data[key]) {
-        const relatedId = data[key];
+      if (RELATION_TYPES.includes((field as any).type) && data[key]) {
+        const { set, connect } = parseRelationValue(key, data[key]);
         const target = (field as any).target;
 
-        const relatedRecord = await tableManager.findById(target, relatedId);
-        if (!relatedRecord) {
-          throw new AppError(
-            `Validation failed: Record with ID '${relatedId}' does not exist in '${target}'`,
-            400
-          );
+        for (const relatedId of new Set([...(set ?? []), ...connect])) {
+          const relatedRecord = await tableManager.findById(target, relatedId);
+          if (!relatedRecord) {
+            throw new AppError(
+              `Validation failed: Record with ID '${relatedId}' does not exist in '${target}'`,
+              400
+            );
+          }
         }
       }
     }
@@ -381,7 +1064,7 @@ export class ResourceController {
     data: any,
     query?: any
   ) {
-    const populate = query?.populate ? (query.populate as string).split(',') : [];
+    const populate = parsePopulate(query?.populate);
 
     switch (action) {
       case 'create':
@@ -389,12 +1072,12 @@ export class ResourceController {
 
       case 'read':
         if (data.id) {
-          return await tableManager.findById(resource, data.id, data.populate || populate);
+          return await tableManager.findById(resource, data.id, data.populate ? parsePopulate(data.populate) : populate);
         } else {
           const { limit, offset, page, sort, select, where, populate: dataPopulate } = data;
           const actualLimit = limit ? Number(limit) : undefined;
           const actualOffset = offset ? Number(offset) : (page ? (Number(page) - 1) * (actualLimit || 10) : undefined);
-          const actualPopulate = dataPopulate ? (Array.isArray(dataPopulate) ? dataPopulate : [dataPopulate]) : populate;
+          const actualPopulate = dataPopulate ? parsePopulate(dataPopulate) : populate;
 
           return await tableManager.findAll(
             resource,
@@ -426,20 +1109,25 @@ export class ResourceController {
 
   /**
    * Auto-generates a resource schema and creates its corresponding table in the database.
-   * Infers field types from provided sample data.
+   * Infers field types from provided sample data. The creation is written to the schema log.
    * @param resource The name of the resource to auto-generate.
    * @param data Sample data used to infer the resource's fields.
    * @param userRole The role of the user initiating the auto-generation.
    * @returns A Promise that resolves to the newly generated resource metadata.
+   * @throws {AppError} With status 404 if the global schema mode is not `auto`: unknown resources are not created.
    */
   private async autoGenerateResource(resource: string, data: any, userRole: string) {
+    if (getSchemaMode() !== 'auto') {
+      throw new AppError(`Resource '${resource}' not found`, 404);
+    }
+
     logger.info({ resource, userRole }, 'Auto-generating new resource');
 
     // Infer schema from data
     const fields: any = {};
 
     for (const [key, value] of Object.entries(data)) {
-      if (key === 'id') continue; // Skip ID as it's auto-generated
+      if (key === 'id' || key === 'version' || key === 'deleted_at') continue; // Skip system-managed fields
 
       fields[key] = {
         type: this.inferFieldType(value),
@@ -464,6 +1152,7 @@ export class ResourceController {
     // Create table in database
     await tableManager.createTableFromSchema(resource, meta);
 
+    await SchemaLog.record(resource, 'create_resource', this.fieldTypes(fields));
     logger.info({ resource, fields }, 'Resource auto-generated successfully');
 
     return meta;
@@ -514,43 +1203,79 @@ export class ResourceController {
   }
 
   /**
-   * Ensures that all fields in the provided data exist in the resource schema and database.
-   * If new fields are detected, they are automatically added to both the schema and the database table.
+   * Handles the fields of written data that are not in the resource schema, according to the resource's schema mode:
+   * `auto` adds them to both the schema and the database table, `strict` rejects the write and `strip` removes them from the data.
+   * Fields are known if they are in the schema, are system fields, or are the foreign key column of a relation (`authorId`).
    * @param resource The name of the resource.
    * @param meta The current resource metadata.
-   * @param data The data containing potentially new fields.
+   * @param data The data, or the records of a bulk write, containing potentially unknown fields.
+   * @throws {ValidationError} In `strict` mode, listing every unknown field (with the index of its record for bulk writes).
    */
-  private async ensureFieldsExist(resource: string, meta: any, data: any) {
-    const newFields: any = {};
-    let hasNewFields = false;
+  private async handleUnknownFields(resource: string, meta: any, data: Record<string, any> | Record<string, any>[]) {
+    const records = Array.isArray(data) ? data : [data];
+    const relationColumns = new Set(
+      Object.entries(meta.fields ?? {})
+        .filter(([, field]: [string, any]) => field.type === 'relation')
+        .map(([name]) => `${name}Id`)
+    );
+    const isUnknown = (key: string) =>
+      !SYSTEM_FIELDS.includes(key) && !meta.fields?.[key] && !relationColumns.has(key);
+
+    const mode = getSchemaMode(meta);
+    if (mode === 'strict') {
+      const errors: FieldError[] = records.flatMap((record, index) =>
+        Object.keys(record).filter(isUnknown).map((field) => ({
+          field,
+          message: 'is not a field of this resource',
+          ...(Array.isArray(data) ? { index } : {})
+        }))
+      );
+      if (errors.length > 0) {
+        throw new ValidationError(errors);
+      }
+      return;
+    }
 
-    // Check each field in the data
-    for (const [key, value] of Object.entries(data)) {
-      if (key === 'id' || key === 'created_at' || key === 'updated_at') continue; // Skip system fields
+    if (mode === 'strip') {
+      for (const record of records) {
+        for (const key of Object.keys(record).filter(isUnknown)) {
+          delete record[key];
+        }
+      }
+      return;
+    }
 
-      // If field doesn't exist in current schema, add it
-      if (!meta.fields[key]) {
+    const newFields: Record<string, any> = {};
+    for (const [key, value] of Object.entries(this.collectFields(records))) {
+      if (isUnknown(key)) {
         newFields[key] = {
           type: this.inferFieldType(value),
           required: false // New fields are optional by default
         };
-        hasNewFields = true;
         logger.info({ resource, field: key, type: newFields[key].type }, 'Auto-adding new field to resource');
       }
     }
 
     // If we have new fields, update the schema and database
-    if (hasNewFields) {
+    if (Object.keys(newFields).length > 0) {
       // Update the metadata
       meta.fields = { ...meta.fields, ...newFields };
-      
+
       // Save updated metadata
       await saveResourceMeta(resource, meta);
-      
+
       // Update the database table to add new columns
       await tableManager.createTableFromSchema(resource, meta);
-      
+
+      await SchemaLog.record(resource, 'add_fields', this.fieldTypes(newFields));
       logger.info({ resource, newFields: Object.keys(newFields) }, 'Successfully added new fields to resource');
     }
   }
+
+  /**
+   * Maps field names to their types, for the schema log.
+   */
+  private fieldTypes(fields: Record<string, any>): Record<string, string> {
+    return Object.fromEntries(Object.entries(fields).map(([name, field]) => [name, field.type]));
+  }
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import Database from 'better-sqlite3';
+import { AsyncLocalStorage } from 'async_hooks';
 import { mkdirSync } from 'fs';
 import path from 'path';
 import crypto from 'crypto';
@@ -6,9 +7,22 @@ import { logger } from './logger';
 import { pathManager } from './storage/path-manager';
 import { metaManager } from './storage/meta-manager';
 import { databaseFactory } from './database/factory';
-import { DatabaseAdapter } from './database/adapters/base';
+import { DatabaseAdapter, ColumnDefinition, IndexDefinition, TableDefinition } from './database/adapters/base';
 import { SqliteAdapter } from './database/adapters/sqlite';
 import { cacheService } from './cache/cache-service';
+import {
+  assertIdentifier, buildWhereClause, buildKeysetCondition, buildOrderBy, buildAggregate, buildDateTruncation,
+  buildInlineCondition, buildSearchQuery, buildSearchSource, parseSort, parsePopulate, Aggregate, GroupKey, PopulateOptions, PopulateTree,
+  SortField, SqlDialect, SEARCH_VECTOR_COLUMN
+} from './database/query-builder';
+import { AppError, ValidationError } from './middleware/errorHandler';
+import { getRequestUser, RequestUser } from './middleware/requestContext';
+import { decodeCursor, encodeCursor } from './database/cursor';
+import { foreignKeyConstraint, onDeleteAction, OnDeleteAction } from './database/on-delete';
+import { filteredColumns, slowQueryLog, SlowQuery } from './database/slow-query-log';
+import { compileExpression, computedField, evaluateExpression, isComputedField, isVirtualField, renameExpressionField } from './database/computed';
+import { validationManager } from './validation';
+import { clearMetaCache } from './services/metaService';
 
 // Lazy database initialization to support test environment variables and multi-database support
 let sqlite: Database.Database | null = null;
@@ -134,23 +148,336 @@ function createPreparedStatementProxy(sql: string, adapter: DatabaseAdapter) {
 }
 
 // Dynamic table creation and management
+/**
+ * Context passed to every lifecycle hook.
+ */
+export interface HookContext {
+  /** The table the operation applies to. */
+  tableName: string;
+  /** The authenticated user performing the operation, or null for anonymous requests and background work. */
+  user: RequestUser | null;
+}
+/**
+ * A read about to be executed, as seen by beforeRead hooks.
+ * Hooks restrict the read by replacing or extending `where`.
+ */
+export interface ReadQuery {
+  /** A filter object using the same grammar as `findAll`. */
+  where: Record<string, any>;
+}
 /**
  * Type definition for a hook executed before a create operation.
- * @param data The data payload for the create operation.
+ * @param data The data payload for the create operation; hooks may modify it.
+ * @param context The hook context.
+ */
+export type BeforeCreateHook = (data: Record<string, any>, context: HookContext) => Promise<void>;
+/**
+ * Type definition for a hook executed after a create operation.
+ * @param record The created record.
+ * @param context The hook context.
  */
-export type BeforeCreateHook = (data: Record<string, any>) => Promise<void>;
+export type AfterCreateHook = (record: Record<string, any>, context: HookContext) => Promise<void>;
+/**
+ * Type definition for a hook executed before an update operation.
+ * @param id The ID of the record to update.
+ * @param data The values to set; hooks may modify them.
+ * @param context The hook context.
+ */
+export type BeforeUpdateHook = (id: string, data: Record<string, any>, context: HookContext) => Promise<void>;
+/**
+ * Type definition for a hook executed after an update operation.
+ * @param record The updated record.
+ * @param context The hook context.
+ */
+export type AfterUpdateHook = (record: Record<string, any>, context: HookContext) => Promise<void>;
+/**
+ * Type definition for a hook executed before a delete operation.
+ * @param id The ID of the record to delete.
+ * @param context The hook context.
+ */
+export type BeforeDeleteHook = (id: string, context: HookContext) => Promise<void>;
 /**
  * Type definition for a hook executed after a delete operation.
  * @param id The ID of the deleted record.
+ * @param context The hook context.
+ */
+export type AfterDeleteHook = (id: string, context: HookContext) => Promise<void>;
+/**
+ * Type definition for a hook executed before a read operation.
+ * @param query The read query; hooks may restrict its filter.
+ * @param context The hook context.
+ */
+export type BeforeReadHook = (query: ReadQuery, context: HookContext) => Promise<void>;
+/**
+ * Type definition for a hook executed after a read operation.
+ * @param records The records read; hooks may modify them in place.
+ * @param context The hook context.
+ */
+export type AfterReadHook = (records: Record<string, any>[], context: HookContext) => Promise<void>;
+
+/**
+ * The lifecycle hooks registered on a table.
+ */
+interface TableHooks {
+  beforeCreate: BeforeCreateHook[];
+  afterCreate: AfterCreateHook[];
+  beforeUpdate: BeforeUpdateHook[];
+  afterUpdate: AfterUpdateHook[];
+  beforeDelete: BeforeDeleteHook[];
+  afterDelete: AfterDeleteHook[];
+  beforeRead: BeforeReadHook[];
+  afterRead: AfterReadHook[];
+}
+
+/**
+ * A change made to a single record, as reported to change listeners.
+ */
+export interface RecordChange {
+  tableName: string;
+  recordId: string;
+  operation: 'create' | 'update' | 'delete' | 'restore';
+  /** The record before the change, or null for a creation. */
+  before: Record<string, any> | null;
+  /** The record after the change, or null for a hard delete. */
+  after: Record<string, any> | null;
+}
+/**
+ * Type definition for a listener notified after every record change, on every table.
+ * @param change The change that was made.
+ */
+export type ChangeListener = (change: RecordChange) => Promise<void>;
+
+/**
+ * Which rows of a soft-delete table a read returns: live rows only (the default),
+ * live and trashed rows, or trashed rows only. Ignored for tables without `softDelete`.
+ */
+export type DeletedScope = 'exclude' | 'include' | 'only';
+
+/**
+ * Options for keyset (cursor) pagination with `findPage`.
+ */
+export interface CursorPageOptions {
+  /** The maximum number of records to return (default: 100). */
+  limit?: number;
+  /** An opaque cursor returned by a previous page. */
+  cursor?: string;
+  /** Sort specification; `id` is appended as a tiebreaker. */
+  sort?: string | string[];
+  /** Columns to select; sort columns are always included. */
+  select?: string | string[];
+  /** A filter object for the WHERE clause. */
+  where?: Record<string, any>;
+  /** Relation fields to populate: dotted paths, or a tree with options per field. */
+  populate?: string[] | PopulateTree;
+  /** Which soft-deleted rows to return (default: 'exclude'). */
+  deleted?: DeletedScope;
+}
+
+/**
+ * Options for `aggregate`.
+ */
+export interface AggregateOptions {
+  aggregates: Aggregate[];
+  groupBy?: GroupKey[];
+  /** A filter on the records, using the `where` grammar. */
+  where?: Record<string, any>;
+  /** A filter on the groups, by group key and aggregate name. */
+  having?: Record<string, any>;
+  /** Group keys and aggregates to sort by (e.g., '-count'). */
+  sort?: string | string[];
+  limit?: number;
+  /** Which soft-deleted rows to aggregate (default: 'exclude'). */
+  deleted?: DeletedScope;
+}
+
+/**
+ * Options for full-text `search`.
+ */
+export interface SearchOptions {
+  /** The search text; every word must match the start of a word of a searchable field. */
+  query: string;
+  /** The maximum number of records to return (default: 100). */
+  limit?: number;
+  /** The number of records to skip (default: 0). */
+  offset?: number;
+  /** Sort specification; records are sorted by relevance otherwise. */
+  sort?: string | string[];
+  /** Columns to select. */
+  select?: string | string[];
+  /** A filter object for the WHERE clause. */
+  where?: Record<string, any>;
+  /** Relation fields to populate: dotted paths, or a tree with options per field. */
+  populate?: string[] | PopulateTree;
+  /** Which soft-deleted rows to return (default: 'exclude'). */
+  deleted?: DeletedScope;
+}
+
+/**
+ * A page of search results. Each record has a `_search` object with its `rank` (higher is more relevant)
+ * and a `snippet` of its text, where the matched words are wrapped in `<mark>` tags.
+ */
+export interface SearchPage {
+  data: any[];
+  /** The number of matching records. */
+  total: number;
+}
+
+/**
+ * An index declared in the `indexes` section of a schema, or created from the admin API.
+ */
+export interface IndexSpec {
+  /** The name of the index (default: `<table>_<columns>_idx`, or `_unique` for a unique index). */
+  name?: string;
+  /** The indexed fields, in order; relation fields index their `<name>Id` column. */
+  fields: string[];
+  unique?: boolean;
+  /** A filter, using the `where` grammar, restricting the index to the matching records (partial index). */
+  where?: Record<string, any>;
+}
+
+/**
+ * A slow query, with the index that would speed it up when its table lacks one.
+ */
+export interface SlowQueryReport extends SlowQuery {
+  /** The resource and fields to index, in the form accepted by `createIndex`; null if no index is missing. */
+  suggestion: { resource: string; fields: string[] } | null;
+}
+
+/**
+ * Options for single-record writes.
+ */
+export interface WriteOptions {
+  /** Only write if the record's `version` column still has this value (optimistic concurrency). */
+  expectedVersion?: number;
+}
+
+/**
+ * A page of records returned by `findPage`.
+ */
+export interface CursorPage {
+  data: any[];
+  /** Cursor for the following page, or null on the last page. */
+  nextCursor: string | null;
+  /** Cursor for the preceding page, or null on the first page. */
+  prevCursor: string | null;
+}
+
+/**
+ * Records affected by the deletion of a record they reference through a relation field.
+ */
+export interface DeleteDependents {
+  /** The resource holding the records. */
+  resource: string;
+  /** The relation field referencing the deleted record. */
+  field: string;
+  /** What happens to the records. */
+  onDelete: OnDeleteAction;
+  /** The IDs of the records. */
+  ids: string[];
+}
+
+/**
+ * Options for changing the type of a field.
+ */
+export interface FieldTypeChangeOptions {
+  /** `cast` converts every value to the new type (default); `clear` empties the field. */
+  strategy?: 'cast' | 'clear';
+  /** Replace the values that cannot be converted with null instead of refusing the change. */
+  force?: boolean;
+}
+
+/**
+ * The outcome of a field type change.
+ */
+export interface FieldTypeChange {
+  schema: Record<string, any>;
+  /** Number of values converted to the new type. */
+  converted: number;
+  /** Number of values replaced with null. */
+  cleared: number;
+}
+
+/**
+ * Changes to the records linked through a relation field, as given in a write payload.
+ */
+export interface RelationOperations {
+  /** Replaces the linked records; undefined keeps the current links. */
+  set?: string[];
+  /** Records to link. */
+  connect: string[];
+  /** Records to unlink. */
+  disconnect: string[];
+}
+
+/**
+ * Parses the value of a relation field in a write payload.
+ * An ID, a list of IDs or null replace the linked records; an object connects, disconnects or sets them
+ * (`{ connect: ['a'], disconnect: ['b'] }`), and `{ disconnect: true }` unlinks every record.
+ * @param field The name of the field, for error messages.
+ * @param value The payload value.
+ * @returns The operations to apply.
+ * @throws {ValidationError} With status 422 if the value is neither IDs nor such an object.
  */
-export type AfterDeleteHook = (id: string) => Promise<void>;
+export function parseRelationValue(field: string, value: any): RelationOperations {
+  const invalid = () => new ValidationError([{ field, message: 'must be an ID, a list of IDs or an object with connect, disconnect or set' }]);
+  const ids = (input: any): string[] => {
+    const list = Array.isArray(input) ? input : [input];
+    if (list.some((id) => typeof id !== 'string' && typeof id !== 'number')) throw invalid();
+    return list.map(String);
+  };
+
+  if (value === null) return { set: [], connect: [], disconnect: [] };
+  if (typeof value !== 'object' || Array.isArray(value)) return { set: ids(value), connect: [], disconnect: [] };
+
+  const { connect, disconnect, set, ...rest } = value;
+  if (Object.keys(rest).length > 0) throw invalid();
+  return {
+    set: set !== undefined ? (set === null ? [] : ids(set)) : disconnect === true ? [] : undefined,
+    connect: connect !== undefined ? ids(connect) : [],
+    disconnect: disconnect !== undefined && disconnect !== true ? ids(disconnect) : []
+  };
+}
+
+/** Relation types stored outside of their table: in the target table (`hasMany`) or in a join table (`manyToMany`). */
+const VIRTUAL_RELATION_TYPES = ['hasMany', 'manyToMany'];
+
+/** Columns managed by the database that can be aggregated or grouped by. */
+const AGGREGATE_SYSTEM_COLUMNS = ['id', 'created_at', 'updated_at'];
+
+/** Field types that link records to the records of a target table. */
+export const RELATION_TYPES = ['relation', ...VIRTUAL_RELATION_TYPES];
+
+/** Field types a field can be changed to. */
+const CONVERTIBLE_TYPES = ['string', 'text', 'email', 'integer', 'number', 'decimal', 'boolean', 'date', 'datetime', 'json'];
+
+/** Field types that can be listed in the `searchable` option of a schema. */
+const SEARCHABLE_TYPES = ['string', 'text', 'email'];
+
+/** Columns managed by the database, which cannot be renamed, retyped or dropped. */
+const SYSTEM_COLUMNS = ['id', 'created_at', 'updated_at', 'version', 'deleted_at'];
+
+/** Columns managed by the database that the expression of a computed field can read. */
+const COMPUTED_SYSTEM_COLUMNS = ['id', 'created_at', 'updated_at'];
+
+/** Field constraints that only apply to some types; they are dropped when a field changes to another type. */
+const TYPE_CONSTRAINTS: Record<string, string[]> = {
+  minLength: ['string', 'text', 'email'],
+  maxLength: ['string', 'text', 'email'],
+  pattern: ['string', 'text', 'email'],
+  format: ['string', 'text', 'email'],
+  min: ['integer', 'number', 'decimal'],
+  max: ['integer', 'number', 'decimal']
+};
 
 /**
  * Manages dynamic creation, schema inference, and CRUD operations for SQLite tables.
  */
 export class DynamicTableManager {
   private tableSchemas = new Map<string, any>();
-  private hooks = new Map<string, { beforeCreate: BeforeCreateHook[]; afterDelete: AfterDeleteHook[]; }>();
+  private hooks = new Map<string, TableHooks>();
+  private changeListeners: ChangeListener[] = [];
+  /** Records being deleted by the current operation, so that cascades through reference cycles end. */
+  private deleting = new AsyncLocalStorage<Set<string>>();
   private initialized = false;
 
   /**
@@ -196,7 +523,13 @@ export class DynamicTableManager {
       const foreignKeys = this.generateForeignKeys(schema);
       await adapter.createTable(tableName, columnDefs, foreignKeys);
       logger.info(`Recreated table: ${tableName} from persisted schema`);
+    } else {
+      // Tables created by earlier versions may lack system columns such as `version`
+      await this.addMissingColumnsFromSchema(tableName, schema, adapter);
+      await this.ensureUniqueIndexes(tableName, schema, adapter);
     }
+    await this.ensureIndexes(tableName, this.schemaIndexes(tableName, schema, adapter), adapter);
+    await adapter.syncSearchIndex(tableName, this.searchColumns(schema));
   }
 
   /**
@@ -207,7 +540,15 @@ export class DynamicTableManager {
   async createTableFromSchema(tableName: string, schema: Record<string, any>) {
     await this.ensureInitialized();
     const adapter = await getDatabaseAdapter();
-    
+    for (const field of Object.values<any>(schema.fields ?? {})) {
+      if (field.type === 'relation') {
+        onDeleteAction(field);
+      }
+    }
+    this.assertComputedFields(schema);
+    const searchColumns = this.searchColumns(schema);
+    const indexes = this.schemaIndexes(tableName, schema, adapter);
+
     const columnDefs = this.inferColumnTypesFromSchema(schema, adapter);
 
     const tableExists = await adapter.tableExists(tableName);
@@ -218,7 +559,11 @@ export class DynamicTableManager {
       logger.info(`Created table: ${tableName}`);
     } else {
       await this.addMissingColumnsFromSchema(tableName, schema, adapter);
+      await this.ensureUniqueIndexes(tableName, schema, adapter);
     }
+    await this.ensureJoinTables(tableName, schema, adapter);
+    await this.ensureIndexes(tableName, indexes, adapter);
+    await adapter.syncSearchIndex(tableName, searchColumns);
 
     // Store schema both in memory and persistent storage
     this.tableSchemas.set(tableName, schema);
@@ -230,26 +575,47 @@ export class DynamicTableManager {
 
   /**
    * Infers database column types from a given schema definition using the appropriate adapter.
+   * Field constraints (`required`, `unique`, `default`, enum values and min/max bounds) become column constraints,
+   * and stored computed fields become generated columns.
    * @param schema The schema definition.
    * @param adapter The database adapter to use for type mapping.
-   * @returns An object mapping column names to their database-specific types.
+   * @returns An object mapping column names to their database-specific types or definitions.
    */
-  private inferColumnTypesFromSchema(schema: Record<string, any>, adapter: DatabaseAdapter): Record<string, string> {
-    const columns: Record<string, string> = { 
+  private inferColumnTypesFromSchema(schema: Record<string, any>, adapter: DatabaseAdapter): Record<string, string | ColumnDefinition> {
+    const columns: Record<string, string | ColumnDefinition> = { 
       id: adapter.getType() === 'postgresql' ? 'VARCHAR(255) PRIMARY KEY' : 'TEXT PRIMARY KEY' 
     };
     
     for (const [key, field] of Object.entries(schema.fields)) {
       if (key === 'id') continue;
-      const typedField = field as { type: string; target?: string; onDelete?: string };
-      
-      if (typedField.type === 'relation') {
-        columns[`${key}Id`] = adapter.mapColumnType('string');
-      } else {
-        columns[key] = adapter.mapColumnType(typedField.type);
+      const typedField = field as Record<string, any>;
+      if (!this.hasColumn(typedField)) continue;
+      const column = typedField.type === 'relation' ? `${key}Id` : key;
+
+      if (isComputedField(typedField)) {
+        columns[column] = {
+          type: adapter.mapColumnType(typedField.type),
+          unique: typedField.unique === true,
+          generated: this.computedSql(schema, key, adapter.getType())
+        };
+        continue;
       }
+      columns[column] = {
+        type: adapter.mapColumnType(typedField.type === 'relation' ? 'string' : typedField.type),
+        notNull: typedField.required === true,
+        unique: typedField.unique === true,
+        default: typedField.default,
+        checks: this.columnChecks(column, typedField)
+      };
     }
     
+    // Incremented on every update; used for optimistic concurrency (ETags)
+    columns.version = 'INTEGER DEFAULT 1';
+
+    if (schema.softDelete) {
+      columns.deleted_at = adapter.getType() === 'postgresql' ? 'TIMESTAMP' : 'TEXT';
+    }
+
     // Add timestamps with database-appropriate defaults
     if (adapter.getType() === 'postgresql') {
       columns.created_at = 'TIMESTAMP DEFAULT CURRENT_TIMESTAMP';
@@ -262,6 +628,28 @@ export class DynamicTableManager {
     return columns;
   }
 
+  /**
+   * Builds the CHECK conditions enforcing a field's enum values and bounds.
+   * Patterns and formats are only checked by the application, as SQLite has no regular expressions.
+   * @param column The column name.
+   * @param field The field definition.
+   * @returns The conditions, one per constraint.
+   */
+  private columnChecks(column: string, field: Record<string, any>): string[] {
+    const checks: string[] = [];
+    const literal = (value: any) => typeof value === 'number' ? String(value) : `'${String(value).replace(/'/g, "''")}'`;
+
+    const values = validationManager.allowedValues(field);
+    if (values) {
+      checks.push(`${column} IN (${values.map(literal).join(', ')})`);
+    }
+    if (typeof field.min === 'number') checks.push(`${column} >= ${field.min}`);
+    if (typeof field.max === 'number') checks.push(`${column} <= ${field.max}`);
+    if (typeof field.minLength === 'number') checks.push(`LENGTH(${column}) >= ${field.minLength}`);
+    if (typeof field.maxLength === 'number') checks.push(`LENGTH(${column}) <= ${field.maxLength}`);
+    return checks;
+  }
+
   /**
    * Generates foreign key constraints for a schema.
    * @param schema The schema definition for the table.
@@ -272,15 +660,184 @@ export class DynamicTableManager {
     for (const [key, field] of Object.entries(schema.fields)) {
       const typedField = field as { type: string; target?: string; onDelete?: string };
       if (typedField.type === 'relation') {
-        const onDelete = typedField.onDelete?.toUpperCase() || 'SET NULL';
-        foreignKeys.push(
-          `FOREIGN KEY(${key}Id) REFERENCES ${typedField.target}(id) ON DELETE ${onDelete}`
-        );
+        foreignKeys.push(foreignKeyConstraint(key, typedField));
       }
     }
     return foreignKeys;
   }
 
+  /**
+   * Creates the join table of every `manyToMany` field that does not have one yet.
+   * Links are deleted with either of their records.
+   * @param tableName The name of the table.
+   * @param schema The schema definition for the table.
+   * @param adapter The database adapter to use.
+   */
+  private async ensureJoinTables(tableName: string, schema: Record<string, any>, adapter: DatabaseAdapter) {
+    for (const [key, field] of Object.entries<any>(schema.fields)) {
+      if (field.type !== 'manyToMany') continue;
+
+      const joinTable = this.joinTableName(tableName, key, field);
+      if (!await adapter.tableExists(joinTable)) {
+        const idType = adapter.mapColumnType('string');
+        await adapter.createTable(joinTable, {
+          source_id: { type: idType, notNull: true },
+          target_id: { type: idType, notNull: true }
+        }, [
+          `FOREIGN KEY(source_id) REFERENCES ${tableName}(id) ON DELETE CASCADE`,
+          `FOREIGN KEY(target_id) REFERENCES ${field.target}(id) ON DELETE CASCADE`
+        ]);
+        await adapter.execute(`CREATE UNIQUE INDEX IF NOT EXISTS ${joinTable}_link_unique ON ${joinTable} (source_id, target_id)`);
+        logger.info({ tableName, field: key, joinTable }, 'Created join table');
+      }
+      // The unique index looks links up by source; this one looks them up by target
+      await adapter.createIndex(joinTable, { name: `${joinTable}_target_id_idx`, columns: ['target_id'], unique: false });
+    }
+  }
+
+  /**
+   * Returns the join table of a `manyToMany` field: its `through` option, or `<table>_<field>`.
+   */
+  private joinTableName(tableName: string, field: string, definition: Record<string, any>): string {
+    return assertIdentifier(definition.through ?? `${tableName}_${field}`);
+  }
+
+  private async renameJoinTable(adapter: DatabaseAdapter, joinTable: string, newName: string) {
+    if (await adapter.tableExists(joinTable)) {
+      await adapter.renameTable(joinTable, newName);
+    }
+  }
+
+  private async dropJoinTable(adapter: DatabaseAdapter, joinTable: string) {
+    if (await adapter.tableExists(joinTable)) {
+      await adapter.dropTable(joinTable);
+    }
+  }
+
+  /**
+   * Returns the columns of the full-text search index of a table: its `searchable` fields.
+   * @throws {AppError} With status 400 if `searchable` is not a list of text fields of the schema.
+   */
+  private searchColumns(schema: Record<string, any>): string[] {
+    if (schema.searchable === undefined) return [];
+    if (!Array.isArray(schema.searchable)) {
+      throw new AppError("'searchable' must be a list of field names", 400);
+    }
+    for (const field of schema.searchable) {
+      const type = schema.fields?.[field]?.type;
+      if (!SEARCHABLE_TYPES.includes(type)) {
+        throw new AppError(`Field '${field}' cannot be searchable: expected a ${SEARCHABLE_TYPES.join(', ')} field`, 400);
+      }
+      if (isComputedField(schema.fields[field])) {
+        throw new AppError(`Field '${field}' cannot be searchable: it is computed`, 400);
+      }
+    }
+    return [...new Set<string>(schema.searchable)];
+  }
+
+  /**
+   * Checks the computed fields of a schema. Their expressions can read the fields stored in the table that are
+   * not computed themselves, and `id`, `created_at` and `updated_at`.
+   * @throws {AppError} With status 400 if a computed field is malformed or reads another field.
+   */
+  private assertComputedFields(schema: Record<string, any>) {
+    for (const [name, field] of Object.entries<any>(schema.fields ?? {})) {
+      if (!isComputedField(field)) continue;
+      for (const reference of computedField(name, field).fields) {
+        const definition = schema.fields[reference];
+        const readable = definition
+          ? !isComputedField(definition) && !VIRTUAL_RELATION_TYPES.includes(definition.type)
+          : COMPUTED_SYSTEM_COLUMNS.includes(reference);
+        if (!readable) {
+          throw new AppError(`Computed field '${name}' cannot read '${reference}': expected a field stored in the table`, 400);
+        }
+      }
+    }
+  }
+
+  /**
+   * Compiles the expression of a computed field to SQL over the columns of its table.
+   */
+  private computedSql(schema: Record<string, any>, field: string, dialect: SqlDialect): string {
+    const { expression } = computedField(field, schema.fields[field]);
+    return compileExpression(expression, (name) => schema.fields[name] ? this.columnName(name, schema.fields[name]) : name, dialect);
+  }
+
+  /**
+   * Returns the computed fields of a table that read a field, to keep the field from being dropped or retyped.
+   */
+  private computedReaders(schema: Record<string, any>, field: string): string[] {
+    return Object.entries<any>(schema.fields ?? {})
+      .filter(([name, definition]) => isComputedField(definition) && computedField(name, definition).fields.includes(field))
+      .map(([name]) => name);
+  }
+
+  /**
+   * Checks that no computed field reads a field that is dropped or retyped.
+   * @throws {AppError} With status 409 if computed fields read the field.
+   */
+  private assertNotComputedInput(schema: Record<string, any>, field: string) {
+    const readers = this.computedReaders(schema, field);
+    if (readers.length > 0) {
+      throw new AppError(`Field '${field}' is read by the computed fields: ${readers.join(', ')}`, 409);
+    }
+  }
+
+  /**
+   * Tells whether a field is stored in a column of its table, unlike `hasMany`, `manyToMany` and virtual computed fields.
+   */
+  private hasColumn(field: Record<string, any>): boolean {
+    return !VIRTUAL_RELATION_TYPES.includes(field.type) && !isVirtualField(field);
+  }
+
+  /**
+   * Returns the SQL selecting a field or column in queries: virtual computed fields have no column,
+   * so the query computes them.
+   */
+  private columnSql(tableName: string, name: string, dialect: SqlDialect): string {
+    const schema = this.tableSchemas.get(tableName);
+    return isVirtualField(schema?.fields?.[name]) ? this.computedSql(schema, name, dialect) : name;
+  }
+
+  /**
+   * Builds the select list of a query from field and column names; virtual computed fields are computed by the query.
+   * @throws {AppError} With status 400 if a name is not a valid identifier.
+   */
+  private selectColumns(tableName: string, names: string[], dialect: SqlDialect): string {
+    return [...new Set(names.map((name) => assertIdentifier(name.trim())))]
+      .map((name) => {
+        const sql = this.columnSql(tableName, name, dialect);
+        return sql === name ? name : `${sql} AS ${name}`;
+      })
+      .join(', ');
+  }
+
+  /**
+   * Resolves sort fields to the SQL they sort by; virtual computed fields are sorted by their expression.
+   */
+  private sortColumns(tableName: string, fields: SortField[], dialect: SqlDialect): SortField[] {
+    return fields.map((field) => ({ ...field, column: this.columnSql(tableName, field.column, dialect) }));
+  }
+
+  /**
+   * Returns the relation field of the target table that a `hasMany` field follows back:
+   * its `foreignKey` option, or the only relation field of the target that points to the table.
+   * @throws {AppError} With status 400 if the field has no `foreignKey` and the target has no or several such fields.
+   */
+  private hasManyForeignKey(tableName: string, field: string, definition: Record<string, any>): string {
+    if (definition.foreignKey) {
+      return assertIdentifier(definition.foreignKey);
+    }
+
+    const candidates = Object.entries<any>(this.tableSchemas.get(definition.target)?.fields ?? {})
+      .filter(([, targetField]) => targetField.type === 'relation' && targetField.target === tableName)
+      .map(([name]) => name);
+    if (candidates.length !== 1) {
+      throw new AppError(`Cannot resolve the foreign key of '${tableName}.${field}': set its 'foreignKey' to a relation field of '${definition.target}'`, 400);
+    }
+    return candidates[0];
+  }
+
   /**
    * Adds any missing columns to an existing table based on the provided schema.
    * @param tableName The name of the table to update.
@@ -292,281 +849,2121 @@ export class DynamicTableManager {
     const existingColumnNames = new Set(existingColumns.map((col) => col.name));
     const newColumns = this.inferColumnTypesFromSchema(schema, adapter);
 
-    for (const [columnName, columnType] of Object.entries(newColumns)) {
+    for (const [columnName, column] of Object.entries(newColumns)) {
       if (!existingColumnNames.has(columnName)) {
-        await adapter.addColumn(tableName, columnName, columnType);
+        // Constraints are not added to existing tables: existing rows may not satisfy them
+        await adapter.addColumn(tableName, columnName, typeof column === 'string' ? column : { type: column.type, generated: column.generated });
         logger.info(`Added column ${columnName} to ${tableName}`);
       }
     }
 
+    // Rows without a version cannot take part in conditional writes
+    if (newColumns.version) {
+      await adapter.execute(`UPDATE ${tableName} SET version = 1 WHERE version IS NULL`);
+    }
+
     // Note: Adding foreign key constraints to existing tables is complex.
     // For simplicity, we'll assume they are defined on table creation.
   }
 
   /**
-   * Registers a hook to be executed before a create operation on a specific table.
+   * Resolves the indexes of a table: those declared in the `indexes` section of its schema, and one for every
+   * foreign key column that no declared index starts with, since deletes and populates look records up by them.
    * @param tableName The name of the table.
-   * @param hook The asynchronous function to execute before creation.
+   * @param schema The schema definition for the table.
+   * @param adapter The database adapter to use.
+   * @returns The indexes to create.
+   * @throws {AppError} With status 400 if an index is malformed or names unknown fields.
    */
-  onBeforeCreate(tableName: string, hook: BeforeCreateHook) {
-    if (!this.hooks.has(tableName)) {
-      this.hooks.set(tableName, { beforeCreate: [], afterDelete: [] });
+  private schemaIndexes(tableName: string, schema: Record<string, any>, adapter: DatabaseAdapter): IndexDefinition[] {
+    if (schema.indexes !== undefined && !Array.isArray(schema.indexes)) {
+      throw new AppError("'indexes' must be a list of indexes", 400);
+    }
+    const indexes = (schema.indexes ?? []).map((spec: IndexSpec) => this.indexDefinition(tableName, schema, spec, adapter));
+
+    for (const [key, field] of Object.entries<any>(schema.fields ?? {})) {
+      const column = `${key}Id`;
+      if (field.type !== 'relation' || indexes.some((index: IndexDefinition) => index.columns[0] === column)) continue;
+      indexes.push({ name: `${tableName}_${column}_idx`, columns: [column], unique: false });
     }
-    this.hooks.get(tableName)?.beforeCreate.push(hook);
+    return indexes;
   }
 
   /**
-   * Registers a hook to be executed after a delete operation on a specific table.
-   * @param tableName The name of the table.
-   * @param hook The asynchronous function to execute after deletion.
+   * Resolves an index declared in a schema to the columns, name and condition of the index to create.
+   * @throws {AppError} With status 400 if the index is malformed or names unknown fields.
    */
-  onAfterDelete(tableName: string, hook: AfterDeleteHook) {
-    if (!this.hooks.has(tableName)) {
-      this.hooks.set(tableName, { beforeCreate: [], afterDelete: [] });
+  private indexDefinition(tableName: string, schema: Record<string, any>, spec: IndexSpec, adapter: DatabaseAdapter): IndexDefinition {
+    if (!Array.isArray(spec?.fields) || spec.fields.length === 0) {
+      throw new AppError(`An index of '${tableName}' must list its fields`, 400);
+    }
+
+    const columns = spec.fields.map((field) => {
+      const definition = schema.fields?.[field];
+      if (SYSTEM_COLUMNS.includes(field)) return field;
+      if (!definition || !this.hasColumn(definition)) {
+        throw new AppError(`Cannot index '${tableName}.${field}': expected a field stored in the table`, 400);
+      }
+      return this.columnName(field, definition);
+    });
+    const unique = spec.unique === true;
+    const name = spec.name ?? `${tableName}_${columns.join('_')}_${unique ? 'unique' : 'idx'}`;
+    if (typeof name !== 'string' || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new AppError(`Invalid index name: '${name}'`, 400);
     }
-    this.hooks.get(tableName)?.afterDelete.push(hook);
+
+    return {
+      name,
+      columns,
+      unique,
+      ...(spec.where && { where: buildInlineCondition(spec.where, adapter.getType()) })
+    };
   }
 
   /**
-   * Creates a new record in the specified table.
+   * Creates the indexes a table lacks. An index is skipped when one with the same name exists, or when an index
+   * without condition already serves it: one starting with its columns, or for a unique index, one as unique on them.
+   * Existing duplicate values prevent a unique index from being created; this is logged rather than thrown.
    * @param tableName The name of the table.
-   * @param data The data for the new record.
-   * @returns A Promise that resolves to the created record.
-   * @throws An error if the record creation fails.
+   * @param indexes The indexes, as resolved by `schemaIndexes`.
+   * @param adapter The database adapter to use.
    */
-  async create(tableName: string, data: Record<string, any>): Promise<any> {
-    await this.ensureInitialized();
-    const adapter = await getDatabaseAdapter();
-    
-    // Execute beforeCreate hooks
-    const beforeCreateHooks = this.hooks.get(tableName)?.beforeCreate || [];
-    for (const hook of beforeCreateHooks) {
-      await hook(data);
-    }
+  private async ensureIndexes(tableName: string, indexes: IndexDefinition[], adapter: DatabaseAdapter) {
+    const existing = await adapter.getIndexes(tableName);
 
-    if (!data.id) {
-      data.id = crypto.randomUUID();
-    }
-    const schema = this.tableSchemas.get(tableName);
-    if (!schema) throw new Error(`Schema not found for table: ${tableName}`);
-    const insertData = { ...data };
-    for (const [key, field] of Object.entries(schema.fields)) {
-      const typedField = field as { type: string; target?: string };
-      if (typedField.type === 'relation' && data[key]) {
-        insertData[`${key}Id`] = data[key];
-        delete insertData[key];
+    for (const index of indexes) {
+      const served = existing.some((other) => other.name.toLowerCase() === index.name.toLowerCase() || (!index.where && !other.where && (
+        index.unique
+          ? other.unique && other.columns.join() === index.columns.join()
+          : other.columns.slice(0, index.columns.length).join() === index.columns.join()
+      )));
+      if (served) continue;
+
+      try {
+        await adapter.createIndex(tableName, index);
+      } catch (error) {
+        logger.warn({ error, tableName, index: index.name }, 'Failed to create index');
       }
     }
-    const preparedData = this.prepareDataForInsert(insertData);
-    const columns = Object.keys(preparedData).join(', ');
-    const placeholders = Object.keys(preparedData).map(() => '?').join(', ');
-    const values = Object.values(preparedData);
-    const insertSQL = `INSERT INTO ${tableName} (${columns}) VALUES (${placeholders})`;
-    
-    try {
-      await adapter.execute(insertSQL, values);
-      
-      // Invalidate cache after successful insert
-      await cacheService.invalidateTableCache(tableName);
-      
-      return this.findById(tableName, data.id);
-    } catch (error: any) {
-      logger.error('Insert error:', error);
-      throw new Error(`Failed to create record in ${tableName}: ${error.message}`);
-    }
   }
 
   /**
-   * Finds a record by its ID in the specified table.
+   * Creates a unique index for every field marked `unique: true` in the schema.
+   * Existing duplicate values prevent the index from being created; this is logged rather than thrown.
    * @param tableName The name of the table.
-   * @param id The ID of the record to find.
-   * @param populate An array of relation fields to populate.
-   * @returns A Promise that resolves to the found record, or null if not found.
+   * @param schema The schema definition for the table.
+   * @param adapter The database adapter to use.
    */
-  async findById(tableName: string, id: string, populate: string[] = []): Promise<any> {
-    const adapter = await getDatabaseAdapter();
-    const results = await adapter.query(`SELECT * FROM ${tableName} WHERE id = ?`, [this.sanitizeParam(id)]);
-    
-    if (results.length === 0) return null;
+  private async ensureUniqueIndexes(tableName: string, schema: Record<string, any>, adapter: DatabaseAdapter) {
+    for (const [key, field] of Object.entries(schema.fields)) {
+      const typedField = field as { type: string; unique?: boolean };
+      if (!typedField.unique || !this.hasColumn(typedField)) continue;
 
-    const parsedResult = this.parseRowData(results[0], tableName);
-    return this.populateFields(tableName, [parsedResult], populate).then(r => r[0]);
+      const column = typedField.type === 'relation' ? `${key}Id` : key;
+      try {
+        await adapter.execute(`CREATE UNIQUE INDEX IF NOT EXISTS ${tableName}_${column}_unique ON ${tableName} (${column})`);
+      } catch (error) {
+        logger.warn({ error, tableName, column }, 'Failed to create unique index');
+      }
+    }
   }
 
   /**
-   * Finds all records in the specified table based on provided criteria.
+   * Renames a field, keeping its values. The `hasMany` fields that follow a renamed relation field back through
+   * their `foreignKey` option are updated.
    * @param tableName The name of the table.
-   * @param limit The maximum number of records to return (default: 100).
-   * @param offset The number of records to skip (default: 0).
-   * @param populate An array of relation fields to populate.
+   * @param field The current name of the field.
+   * @param newName The new name of the field.
+   * @returns The updated schema.
+   * @throws {AppError} With status 404 if the table or field does not exist, 400 if the field is a system field
+   * or the new name is invalid, or 409 if another field already has the new name.
+   */
+  async renameField(tableName: string, field: string, newName: string): Promise<Record<string, any>> {
+    const schema = await this.requireField(tableName, field);
+    assertIdentifier(newName);
+    if (SYSTEM_COLUMNS.includes(newName)) {
+      throw new AppError(`'${newName}' is a reserved field name`, 400);
+    }
+    if (schema.fields[newName]) {
+      throw new AppError(`Field '${newName}' already exists`, 409);
+    }
+
+    // Rebuild the fields to keep their order
+    const fields: Record<string, any> = Object.fromEntries(
+      Object.entries(schema.fields).map(([key, value]) => [key === field ? newName : key, value])
+    );
+    const updated: Record<string, any> = { ...schema, fields };
+    if (schema.searchable) {
+      updated.searchable = schema.searchable.map((name: string) => name === field ? newName : name);
+    }
+    if (schema.indexes) {
+      updated.indexes = schema.indexes.map((index: IndexSpec) => ({
+        ...index,
+        fields: index.fields.map((name) => name === field ? newName : name)
+      }));
+    }
+    // The database renames the column in the generated columns that read it
+    for (const reader of this.computedReaders(schema, field)) {
+      fields[reader] = { ...fields[reader], computed: renameExpressionField(fields[reader].computed, field, newName) };
+    }
+    const definition = schema.fields[field];
+    if (definition.type === 'relation') {
+      Object.assign(fields, this.renameForeignKeys(fields, tableName, field, newName));
+    }
+
+    const adapter = await getDatabaseAdapter();
+    await this.applySchemaChange(tableName, async () => {
+      if (definition.type === 'manyToMany' && !definition.through) {
+        await this.renameJoinTable(adapter, this.joinTableName(tableName, field, definition), this.joinTableName(tableName, newName, definition));
+      } else if (this.hasColumn(definition)) {
+        await adapter.renameColumn(tableName, this.columnName(field, definition), this.columnName(newName, definition));
+      }
+      await adapter.syncSearchIndex(tableName, this.searchColumns(updated));
+    });
+
+    const saved = await this.saveTableSchema(tableName, updated, { [field]: newName });
+    if (definition.type === 'relation') {
+      for (const [name, other] of this.tableSchemas) {
+        const renamed = name === tableName ? {} : this.renameForeignKeys(other.fields ?? {}, tableName, field, newName);
+        if (Object.keys(renamed).length > 0) {
+          await this.saveTableSchema(name, { ...other, fields: { ...other.fields, ...renamed } });
+        }
+      }
+    }
+    return saved;
+  }
+
+  /**
+   * Points the `hasMany` fields following a renamed relation field back to its new name.
+   * @param fields The fields to look through.
+   * @param tableName The table of the renamed relation field.
+   * @param field The current name of the relation field.
+   * @param newName The new name of the relation field.
+   * @returns The updated `hasMany` fields, by name.
+   */
+  private renameForeignKeys(fields: Record<string, any>, tableName: string, field: string, newName: string): Record<string, any> {
+    return Object.fromEntries(Object.entries(fields)
+      .filter(([, definition]) => definition.type === 'hasMany' && definition.target === tableName && definition.foreignKey === field)
+      .map(([key, definition]) => [key, { ...definition, foreignKey: newName }]));
+  }
+
+  /**
+   * Drops a field and its values.
+   * @param tableName The name of the table.
+   * @param field The name of the field.
+   * @returns The updated schema.
+   * @throws {AppError} With status 404 if the table or field does not exist, 400 if the field is a system field,
+   * or 409 if computed fields read it.
+   */
+  async dropField(tableName: string, field: string): Promise<Record<string, any>> {
+    const schema = await this.requireField(tableName, field);
+    this.assertNotComputedInput(schema, field);
+    const { [field]: dropped, ...fields } = schema.fields;
+    const updated: Record<string, any> = { ...schema, fields };
+    if (schema.searchable) {
+      updated.searchable = schema.searchable.filter((name: string) => name !== field);
+    }
+    if (schema.indexes) {
+      // The database drops the indexes of a dropped column
+      updated.indexes = schema.indexes.filter((index: IndexSpec) => !index.fields.includes(field));
+    }
+
+    const adapter = await getDatabaseAdapter();
+    await this.applySchemaChange(tableName, async () => {
+      if (dropped.type === 'manyToMany') {
+        await this.dropJoinTable(adapter, this.joinTableName(tableName, field, dropped));
+      } else if (this.hasColumn(dropped)) {
+        // The search index depends on the columns of the table, which may be rebuilt
+        await adapter.syncSearchIndex(tableName, []);
+        await adapter.dropColumn(tableName, this.columnName(field, dropped), await this.tableDefinition(tableName, updated, adapter));
+      }
+      await adapter.syncSearchIndex(tableName, this.searchColumns(updated));
+    });
+
+    return this.saveTableSchema(tableName, updated);
+  }
+
+  /**
+   * Changes the type of a field and converts its values.
+   * Conversions must be exact: `'12'` becomes an integer, but `'twelve'` or `1.5` do not, and the change is refused
+   * unless forced, in which case those values are replaced with null. Constraints that do not apply to the new type
+   * (such as `minLength` for a number) are dropped from the field, and enum values and defaults are converted.
+   * @param tableName The name of the table.
+   * @param field The name of the field.
+   * @param type The new field type.
+   * @param options How to convert the existing values.
+   * @returns The updated schema, with the number of converted and cleared values.
+   * @throws {AppError} With status 404 if the table or field does not exist, 400 if the field is a system, relation or
+   * computed field or the type is not supported, or 409 if computed fields read it, values cannot be converted and the
+   * change is not forced, or the converted values do not satisfy the field constraints.
+   */
+  async changeFieldType(tableName: string, field: string, type: string, options: FieldTypeChangeOptions = {}): Promise<FieldTypeChange> {
+    const schema = await this.requireField(tableName, field);
+    const current = schema.fields[field];
+    const strategy = options.strategy ?? 'cast';
+    if (!CONVERTIBLE_TYPES.includes(type)) {
+      throw new AppError(`Unsupported field type: '${type}'`, 400);
+    }
+    if (current.type === 'relation' || VIRTUAL_RELATION_TYPES.includes(current.type)) {
+      throw new AppError('The type of a relation field cannot be changed', 400);
+    }
+    if (isComputedField(current)) {
+      throw new AppError('The type of a computed field cannot be changed: drop it and add it again', 400);
+    }
+    this.assertNotComputedInput(schema, field);
+    if (strategy !== 'cast' && strategy !== 'clear') {
+      throw new AppError(`Unknown conversion strategy: '${strategy}'`, 400);
+    }
+
+    const retyped = this.retypeField(current, type);
+    const updated: Record<string, any> = { ...schema, fields: { ...schema.fields, [field]: retyped } };
+    if (schema.searchable && !SEARCHABLE_TYPES.includes(type)) {
+      updated.searchable = schema.searchable.filter((name: string) => name !== field);
+    }
+    const adapter = await getDatabaseAdapter();
+
+    const rows = await adapter.query(`SELECT id, ${field} AS value FROM ${tableName}`);
+    const values = new Map<string, any>();
+    let converted = 0;
+    let failed = 0;
+    for (const row of rows) {
+      const value = strategy === 'clear' ? null : this.convertFieldValue(field, row.value, current, retyped);
+      if (value === undefined) failed++;
+      else if (value !== null) converted++;
+      values.set(row.id, this.sanitizeParam(value));
+    }
+
+    if (failed > 0 && !options.force) {
+      throw new AppError(`${failed} value(s) of '${field}' cannot be converted to ${type}; force the change to replace them with null`, 409);
+    }
+
+    await this.applySchemaChange(tableName, async () => {
+      await adapter.syncSearchIndex(tableName, []);
+      await adapter.changeColumnType(tableName, field, await this.tableDefinition(tableName, updated, adapter, field), values);
+      await adapter.syncSearchIndex(tableName, this.searchColumns(updated));
+    });
+
+    const cleared = rows.filter((row) => row.value !== null).length - converted;
+    logger.info({ tableName, field, type, converted, cleared }, 'Field type changed');
+    return { schema: await this.saveTableSchema(tableName, updated), converted, cleared };
+  }
+
+  /**
+   * Renames a table, and the join tables named after it. Relation fields of other tables that target it are updated.
+   * @param tableName The current name of the table.
+   * @param newName The new name of the table.
+   * @returns The schema of the table.
+   * @throws {AppError} With status 404 if the table does not exist, 400 if the new name is invalid,
+   * or 409 if a table already has the new name.
+   */
+  async renameTable(tableName: string, newName: string): Promise<Record<string, any>> {
+    const schema = await this.requireSchema(tableName);
+    if (typeof newName !== 'string' || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(newName)) {
+      throw new AppError(`Invalid resource name: '${newName}'`, 400);
+    }
+    const adapter = await getDatabaseAdapter();
+    if (this.tableSchemas.has(newName) || await adapter.tableExists(newName)) {
+      throw new AppError(`Resource '${newName}' already exists`, 409);
+    }
+
+    await this.applySchemaChange(tableName, async () => {
+      // The search index is named after the table and, on SQLite, reads it by name
+      await adapter.syncSearchIndex(tableName, []);
+      await adapter.renameTable(tableName, newName);
+      for (const [key, field] of Object.entries<any>(schema.fields ?? {})) {
+        if (field.type === 'manyToMany' && !field.through) {
+          await this.renameJoinTable(adapter, this.joinTableName(tableName, key, field), this.joinTableName(newName, key, field));
+        }
+      }
+      await adapter.syncSearchIndex(newName, this.searchColumns(schema));
+    });
+
+    this.tableSchemas.delete(tableName);
+    this.tableSchemas.set(newName, schema);
+    metaManager.renameSchema(tableName, newName);
+    await clearMetaCache(tableName);
+    await clearMetaCache(newName);
+
+    for (const [name, other] of this.tableSchemas) {
+      const targeting = Object.entries(other.fields ?? {}).filter(([, field]: [string, any]) =>
+        RELATION_TYPES.includes(field.type) && field.target === tableName
+      );
+      if (targeting.length === 0) continue;
+
+      const fields = { ...other.fields };
+      for (const [key, field] of targeting) {
+        fields[key] = { ...(field as Record<string, any>), target: newName };
+      }
+      await this.saveTableSchema(name, { ...other, fields });
+    }
+
+    return schema;
+  }
+
+  /**
+   * Drops a table and all of its records, with the join tables of its `manyToMany` fields.
+   * @param tableName The name of the table.
+   * @throws {AppError} With status 404 if the table does not exist, or 409 if relation fields of other tables target it.
+   */
+  async dropTable(tableName: string): Promise<void> {
+    const schema = await this.requireSchema(tableName);
+
+    const referencing = [...this.tableSchemas]
+      .filter(([name, other]) => name !== tableName && Object.values(other.fields ?? {}).some((field: any) =>
+        RELATION_TYPES.includes(field.type) && field.target === tableName
+      ))
+      .map(([name]) => name);
+    if (referencing.length > 0) {
+      throw new AppError(`Resource '${tableName}' is the target of relations in: ${referencing.join(', ')}`, 409);
+    }
+
+    const adapter = await getDatabaseAdapter();
+    await this.applySchemaChange(tableName, async () => {
+      for (const [key, field] of Object.entries<any>(schema.fields ?? {})) {
+        if (field.type === 'manyToMany') {
+          await this.dropJoinTable(adapter, this.joinTableName(tableName, key, field));
+        }
+      }
+      await adapter.syncSearchIndex(tableName, []);
+      await adapter.dropTable(tableName);
+    });
+
+    this.tableSchemas.delete(tableName);
+    metaManager.deleteSchema(tableName);
+    await clearMetaCache(tableName);
+    logger.info({ tableName }, 'Table dropped');
+  }
+
+  /**
+   * Lists the indexes of a table, other than its primary key.
+   * @param tableName The name of the table.
+   * @returns The indexes, with their columns, uniqueness and condition.
+   * @throws {AppError} With status 404 if the table does not exist.
+   */
+  async listIndexes(tableName: string): Promise<IndexDefinition[]> {
+    await this.requireSchema(tableName);
+    const adapter = await getDatabaseAdapter();
+    return adapter.getIndexes(tableName);
+  }
+
+  /**
+   * Creates an index and adds it to the `indexes` section of the table schema, so that it is recreated with the table.
+   * @param tableName The name of the table.
+   * @param spec The fields, name, uniqueness and condition of the index.
+   * @returns The created index.
+   * @throws {AppError} With status 404 if the table does not exist, 400 if the index is malformed or names unknown
+   * fields, or 409 if its name is taken or existing duplicate values prevent a unique index.
+   */
+  async createIndex(tableName: string, spec: IndexSpec): Promise<IndexDefinition> {
+    const schema = await this.requireSchema(tableName);
+    const adapter = await getDatabaseAdapter();
+    const index = this.indexDefinition(tableName, schema, spec, adapter);
+    const exists = async () => (await adapter.getIndexes(tableName)).some((other) => other.name.toLowerCase() === index.name.toLowerCase());
+
+    if (await exists()) {
+      throw new AppError(`Index '${index.name}' already exists`, 409);
+    }
+    await this.applySchemaChange(tableName, () => adapter.createIndex(tableName, index));
+    // Index names are shared by all tables, and creating an index whose name is taken does nothing
+    if (!await exists()) {
+      throw new AppError(`Index name '${index.name}' is used by another table`, 409);
+    }
+
+    const declared: IndexSpec = { name: index.name, fields: spec.fields, ...(index.unique && { unique: true }), ...(spec.where && { where: spec.where }) };
+    await this.saveTableSchema(tableName, { ...schema, indexes: [...(schema.indexes ?? []), declared] });
+    logger.info({ tableName, index: index.name }, 'Index created');
+    return index;
+  }
+
+  /**
+   * Drops an index, and removes it from the `indexes` section of the table schema.
+   * Indexes of unique fields and foreign keys are recreated the next time the schema is applied.
+   * @param tableName The name of the table.
+   * @param indexName The name of the index.
+   * @throws {AppError} With status 404 if the table or index does not exist, or 409 if the database refuses to drop it,
+   * as for the indexes backing unique constraints.
+   */
+  async dropIndex(tableName: string, indexName: string): Promise<void> {
+    const schema = await this.requireSchema(tableName);
+    const adapter = await getDatabaseAdapter();
+    const sameName = (name: string) => name.toLowerCase() === String(indexName).toLowerCase();
+    const index = (await adapter.getIndexes(tableName)).find((other) => sameName(other.name));
+    if (!index) {
+      throw new AppError(`Index '${indexName}' not found`, 404);
+    }
+
+    await this.applySchemaChange(tableName, () => adapter.dropIndex(tableName, index.name));
+
+    const declared: IndexSpec[] = schema.indexes ?? [];
+    const remaining = declared.filter((spec) => !sameName(this.indexDefinition(tableName, schema, spec, adapter).name));
+    if (remaining.length !== declared.length) {
+      await this.saveTableSchema(tableName, { ...schema, indexes: remaining });
+    }
+    logger.info({ tableName, index: index.name }, 'Index dropped');
+  }
+
+  /**
+   * Lists the queries that ran slower than the slow query threshold, most recently seen first, with the index
+   * that would serve the filter of each: on the columns it filters a table on, unless an index starts with one of them.
+   * @returns The slow queries and their suggested indexes.
+   */
+  async slowQueries(): Promise<SlowQueryReport[]> {
+    const adapter = await getDatabaseAdapter();
+    const reports: SlowQueryReport[] = [];
+
+    for (const query of slowQueryLog.list()) {
+      const filtered = filteredColumns(query.sql);
+      const schema = filtered && this.tableSchemas.get(filtered.table);
+      let suggestion: SlowQueryReport['suggestion'] = null;
+
+      if (filtered && schema) {
+        // Primary keys are indexed, and the trash column matches most rows
+        const columns = Object.keys(this.inferColumnTypesFromSchema(schema, adapter));
+        const candidates = filtered.columns.filter((column) => columns.includes(column) && column !== 'id' && column !== 'deleted_at');
+        const indexes = await adapter.getIndexes(filtered.table);
+        const indexed = candidates.some((column) => indexes.some((index) => index.columns[0] === column && !index.where));
+
+        if (candidates.length > 0 && !indexed) {
+          const fieldOf = (column: string) =>
+            Object.keys(schema.fields ?? {}).find((key) => this.columnName(key, schema.fields[key]) === column) ?? column;
+          suggestion = { resource: filtered.table, fields: candidates.map(fieldOf) };
+        }
+      }
+      reports.push({ ...query, suggestion });
+    }
+
+    return reports;
+  }
+
+  /**
+   * Returns the schema of a table.
+   * @throws {AppError} With status 404 if the table does not exist.
+   */
+  private async requireSchema(tableName: string): Promise<Record<string, any>> {
+    const schema = await this.getTableSchema(tableName);
+    if (!schema) {
+      throw new AppError(`Resource '${tableName}' not found`, 404);
+    }
+    return schema;
+  }
+
+  /**
+   * Returns the schema of a table after checking that a field can be changed.
+   * @throws {AppError} With status 404 if the table or field does not exist, or 400 if the field is a system field.
+   */
+  private async requireField(tableName: string, field: string): Promise<Record<string, any>> {
+    const schema = await this.requireSchema(tableName);
+    if (SYSTEM_COLUMNS.includes(field)) {
+      throw new AppError(`'${field}' is a system field and cannot be changed`, 400);
+    }
+    if (!schema.fields?.[field]) {
+      throw new AppError(`Field '${field}' not found`, 404);
+    }
+    return schema;
+  }
+
+  /**
+   * Returns the column of a field: relations are stored in an `<name>Id` column.
+   */
+  private columnName(field: string, definition: Record<string, any>): string {
+    return definition.type === 'relation' ? `${field}Id` : field;
+  }
+
+  /**
+   * Builds the definition of a table from its schema, for adapters that rebuild tables to alter them.
+   * Columns that accept null keep doing so, as constraints are not added to the columns of existing tables.
+   * @param tableName The name of the table.
+   * @param schema The new schema of the table.
+   * @param adapter The database adapter to use.
+   * @param alteredColumn A column whose constraints are replaced, such as a retyped one.
+   */
+  private async tableDefinition(tableName: string, schema: Record<string, any>, adapter: DatabaseAdapter, alteredColumn?: string): Promise<TableDefinition> {
+    const nullable = new Set((await adapter.getTableColumns(tableName)).filter((column) => column.nullable).map((column) => column.name));
+    const columns = this.inferColumnTypesFromSchema(schema, adapter);
+
+    for (const [name, column] of Object.entries(columns)) {
+      if (typeof column !== 'string' && column.notNull && nullable.has(name) && name !== alteredColumn) {
+        columns[name] = { ...column, notNull: false };
+      }
+    }
+
+    return { columns, foreignKeys: this.generateForeignKeys(schema) };
+  }
+
+  /**
+   * Runs the DDL of a schema change, reporting database failures as conflicts with the existing data.
+   * @throws {AppError} With status 409 if the database rejects the change.
+   */
+  private async applySchemaChange(tableName: string, change: () => Promise<void>) {
+    try {
+      await change();
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({ error: message, tableName }, 'Schema change failed');
+      throw new AppError(`The schema change conflicts with the existing data: ${message}`, 409);
+    }
+  }
+
+  /**
+   * Stores an updated schema in memory and in the meta directory, and drops its cached copies.
+   * @param renamedFields Fields renamed by the change, from their old to their new name.
+   * @returns The schema.
+   */
+  private async saveTableSchema(tableName: string, schema: Record<string, any>, renamedFields?: Record<string, string>): Promise<Record<string, any>> {
+    this.tableSchemas.set(tableName, schema);
+    metaManager.saveSchema(tableName, schema, renamedFields);
+    await clearMetaCache(tableName);
+    return schema;
+  }
+
+  /**
+   * Copies a field definition with a new type, adapting its constraints, enum values and default.
+   */
+  private retypeField(field: Record<string, any>, type: string): Record<string, any> {
+    const retyped: Record<string, any> = { ...field, type };
+
+    for (const [constraint, types] of Object.entries(TYPE_CONSTRAINTS)) {
+      if (!types.includes(type)) delete retyped[constraint];
+    }
+
+    for (const key of ['enum', 'values', 'options']) {
+      if (!Array.isArray(retyped[key])) continue;
+      const values = retyped[key].map((value: any) => validationManager.convertValue(value, type));
+      if (values.some((value: any) => value === undefined || value === null)) delete retyped[key];
+      else retyped[key] = values;
+    }
+
+    if (retyped.default !== undefined && retyped.default !== 'CURRENT_TIMESTAMP') {
+      const value = validationManager.convertValue(retyped.default, type);
+      if (value === undefined || value === null) delete retyped.default;
+      else retyped.default = value;
+    }
+
+    return retyped;
+  }
+
+  /**
+   * Converts a stored value of a field to its new definition.
+   * @returns The converted value, null for a null value, or undefined if the value cannot be converted
+   * or does not satisfy the constraints of the new definition.
+   */
+  private convertFieldValue(field: string, stored: any, from: Record<string, any>, to: Record<string, any>): any {
+    const value = validationManager.convertValue(from.type === 'boolean' && (stored === 0 || stored === 1) ? Boolean(stored) : stored, to.type);
+    if (value === undefined || value === null) return value;
+
+    const errors = validationManager.validateRecord({ fields: { [field]: to } }, { [field]: value }, true);
+    return errors.length > 0 ? undefined : value;
+  }
+
+  /**
+   * Registers a hook to be executed before a create operation on a specific table.
+   * Also runs for every record of bulk creates, and for the records an upsert inserts.
+   * @param tableName The name of the table.
+   * @param hook The asynchronous function to execute before creation.
+   */
+  onBeforeCreate(tableName: string, hook: BeforeCreateHook) {
+    this.tableHooks(tableName).beforeCreate.push(hook);
+  }
+
+  /**
+   * Registers a hook to be executed after a create operation on a specific table.
+   * Also runs for every record of bulk creates, and for the records an upsert inserts.
+   * @param tableName The name of the table.
+   * @param hook The asynchronous function to execute after creation.
+   */
+  onAfterCreate(tableName: string, hook: AfterCreateHook) {
+    this.tableHooks(tableName).afterCreate.push(hook);
+  }
+
+  /**
+   * Registers a hook to be executed before an update operation on a specific table.
+   * Bulk updates run it once per matched record, each with its own copy of the values, and write each record
+   * with the values its hooks produced. Upserts run it for the records they update.
+   * @param tableName The name of the table.
+   * @param hook The asynchronous function to execute before the update.
+   */
+  onBeforeUpdate(tableName: string, hook: BeforeUpdateHook) {
+    this.tableHooks(tableName).beforeUpdate.push(hook);
+  }
+
+  /**
+   * Registers a hook to be executed after an update operation on a specific table.
+   * Also runs for every record of bulk updates, and for the records an upsert updates.
+   * @param tableName The name of the table.
+   * @param hook The asynchronous function to execute after the update.
+   */
+  onAfterUpdate(tableName: string, hook: AfterUpdateHook) {
+    this.tableHooks(tableName).afterUpdate.push(hook);
+  }
+
+  /**
+   * Registers a hook to be executed before a delete operation on a specific table.
+   * Also runs for every record of bulk deletes, inside their transaction.
+   * @param tableName The name of the table.
+   * @param hook The asynchronous function to execute before deletion.
+   */
+  onBeforeDelete(tableName: string, hook: BeforeDeleteHook) {
+    this.tableHooks(tableName).beforeDelete.push(hook);
+  }
+
+  /**
+   * Registers a hook to be executed after a delete operation on a specific table.
+   * @param tableName The name of the table.
+   * @param hook The asynchronous function to execute after deletion.
+   */
+  onAfterDelete(tableName: string, hook: AfterDeleteHook) {
+    this.tableHooks(tableName).afterDelete.push(hook);
+  }
+
+  /**
+   * Registers a hook to be executed before every read on a specific table (`findById`, `findAll`, `findPage` and `count`).
+   * @param tableName The name of the table.
+   * @param hook The asynchronous function to execute before the read.
+   */
+  onBeforeRead(tableName: string, hook: BeforeReadHook) {
+    this.tableHooks(tableName).beforeRead.push(hook);
+  }
+
+  /**
+   * Registers a hook to be executed on the records returned by `findById`, `findAll` and `findPage` on a specific table,
+   * and by creates and updates.
+   * @param tableName The name of the table.
+   * @param hook The asynchronous function to execute after the read.
+   */
+  onAfterRead(tableName: string, hook: AfterReadHook) {
+    this.tableHooks(tableName).afterRead.push(hook);
+  }
+
+  /**
+   * Returns the hooks of a table, registering an empty set on first use.
+   * @param tableName The name of the table.
+   * @returns The table's hooks.
+   */
+  private tableHooks(tableName: string): TableHooks {
+    let hooks = this.hooks.get(tableName);
+    if (!hooks) {
+      hooks = {
+        beforeCreate: [], afterCreate: [], beforeUpdate: [], afterUpdate: [],
+        beforeDelete: [], afterDelete: [], beforeRead: [], afterRead: []
+      };
+      this.hooks.set(tableName, hooks);
+    }
+    return hooks;
+  }
+
+  /**
+   * Builds the context passed to hooks. The user is taken from the request being handled.
+   * @param tableName The name of the table.
+   * @returns The hook context.
+   */
+  private hookContext(tableName: string): HookContext {
+    return { tableName, user: getRequestUser() };
+  }
+
+  /**
+   * Runs the beforeRead hooks of a table on a filter.
+   * @param tableName The name of the table.
+   * @param where The caller's filter.
+   * @returns The filter, restricted by the hooks.
+   */
+  private async applyBeforeReadHooks(tableName: string, where: Record<string, any> | undefined): Promise<Record<string, any> | undefined> {
+    const hooks = this.hooks.get(tableName)?.beforeRead || [];
+    if (hooks.length === 0) return where;
+
+    const query: ReadQuery = { where: { ...where } };
+    const context = this.hookContext(tableName);
+    for (const hook of hooks) {
+      await hook(query, context);
+    }
+    return query.where;
+  }
+
+  /**
+   * Runs the afterRead hooks of a table on records.
+   * @param tableName The name of the table.
+   * @param records The records read.
+   * @returns The same records, as modified by the hooks.
+   */
+  private async applyAfterReadHooks<T extends Record<string, any>>(tableName: string, records: T[]): Promise<T[]> {
+    const hooks = this.hooks.get(tableName)?.afterRead || [];
+    if (hooks.length === 0 || records.length === 0) return records;
+
+    const context = this.hookContext(tableName);
+    for (const hook of hooks) {
+      await hook(records, context);
+    }
+    return records;
+  }
+
+  /**
+   * Registers a listener notified after every record change on any table, bulk writes, upserts and purges included.
+   * Unlike per-table hooks, listeners survive `reset()`.
+   * @param listener The asynchronous function to execute after each change.
+   */
+  onChange(listener: ChangeListener) {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Creates a new record in the specified table.
+   * Missing fields get their schema default, and the data is validated before the beforeCreate hooks run.
+   * @param tableName The name of the table.
+   * @param data The data for the new record.
+   * @returns A Promise that resolves to the created record.
+   * @throws {ValidationError} With status 422 if the data does not satisfy the schema.
+   * @throws An error if the record creation fails.
+   */
+  async create(tableName: string, data: Record<string, any>): Promise<any> {
+    await this.ensureInitialized();
+    const adapter = await getDatabaseAdapter();
+    const schema = this.tableSchemas.get(tableName);
+    if (!schema) throw new Error(`Schema not found for table: ${tableName}`);
+
+    validationManager.applyDefaults(schema, data);
+    this.assertValid(schema, [data]);
+
+    // Execute beforeCreate hooks
+    const hooks = this.tableHooks(tableName);
+    const context = this.hookContext(tableName);
+    for (const hook of hooks.beforeCreate) {
+      await hook(data, context);
+    }
+
+    if (!data.id) {
+      data.id = crypto.randomUUID();
+    }
+    const preparedData = this.prepareDataForInsert(this.mapRelationFields(schema, data));
+    const columns = Object.keys(preparedData).join(', ');
+    const placeholders = Object.keys(preparedData).map(() => '?').join(', ');
+    const values = Object.values(preparedData);
+    const insertSQL = `INSERT INTO ${tableName} (${columns}) VALUES (${placeholders})`;
+    
+    try {
+      const insert = async () => {
+        await adapter.execute(insertSQL, values);
+        await this.writeLinkedRelations(tableName, schema, data.id, data);
+      };
+      await (this.hasLinkedRelations(schema, data) ? this.transaction(insert) : insert());
+      
+      // Invalidate cache after successful insert
+      await cacheService.invalidateTableCache(tableName);
+      
+      const created = (await this.readRecords(tableName, [data.id])).get(data.id);
+      for (const hook of hooks.afterCreate) {
+        await hook(created, context);
+      }
+      await this.notifyChange({ tableName, recordId: data.id, operation: 'create', before: null, after: created });
+      return (await this.applyAfterReadHooks(tableName, [created]))[0];
+    } catch (error: any) {
+      if (error instanceof AppError) throw error;
+      logger.error('Insert error:', error);
+      throw new Error(`Failed to create record in ${tableName}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Finds a record by its ID in the specified table.
+   * @param tableName The name of the table.
+   * @param id The ID of the record to find.
+   * @param populate Relation fields to populate: dotted paths (`author.company`), or a tree with options per field.
+   * @param deleted Which soft-deleted rows may be returned (default: 'exclude').
+   * @returns A Promise that resolves to the found record, or null if not found.
+   */
+  async findById(tableName: string, id: string, populate: string[] | PopulateTree = [], deleted: DeletedScope = 'exclude'): Promise<any> {
+    const adapter = await getDatabaseAdapter();
+    const scope = this.deletedCondition(tableName, deleted);
+    const restriction = buildWhereClause(await this.applyBeforeReadHooks(tableName, undefined), adapter.getType());
+    const results = await adapter.query(
+      `SELECT * FROM ${tableName} WHERE id = ?${scope ? ` AND ${scope}` : ''}${restriction.sql ? ` AND (${restriction.sql})` : ''}`,
+      [this.sanitizeParam(id), ...restriction.params]
+    );
+    
+    if (results.length === 0) return null;
+
+    const parsedResult = this.parseRowData(results[0], tableName);
+    const [populated] = await this.populateFields(tableName, [parsedResult], populate);
+    return (await this.applyAfterReadHooks(tableName, [populated]))[0];
+  }
+
+  /**
+   * Finds all records in the specified table based on provided criteria.
+   * @param tableName The name of the table.
+   * @param limit The maximum number of records to return (default: 100).
+   * @param offset The number of records to skip (default: 0).
+   * @param populate Relation fields to populate: dotted paths (`author.company`), or a tree with options per field.
    * @param sort A string or array of strings for sorting (e.g., 'name:asc', '-createdAt').
    * @param select A string or array of strings for selecting specific columns.
-   * @param where An object for filtering records (WHERE clause).
+   * @param where A filter object for the WHERE clause (see `buildWhereClause` for the grammar).
+   * @param deleted Which soft-deleted rows to return (default: 'exclude').
    * @returns A Promise that resolves to an array of records.
+   * @throws {AppError} With status 400 if the filter is invalid.
+   * @throws An error if fetching records fails.
+   */
+  async findAll(tableName: string, limit = 100, offset = 0, populate: string[] | PopulateTree = [], sort?: string | string[], select?: string | string[], where?: Record<string, any>, deleted: DeletedScope = 'exclude'): Promise<any[]> {
+    try {
+      const adapter = await getDatabaseAdapter();
+      const columns = select ? this.selectColumns(tableName, Array.isArray(select) ? select : select.split(','), adapter.getType()) : '*';
+      let query = `SELECT ${columns} FROM ${tableName}`;
+      const params: any[] = [];
+
+      const filter = await this.applyBeforeReadHooks(tableName, where);
+      const whereClause = buildWhereClause(this.scopeDeleted(tableName, filter, deleted), adapter.getType());
+      if (whereClause.sql) {
+        query += ` WHERE ${whereClause.sql}`;
+        params.push(...whereClause.params);
+      }
+
+      const sortFields = parseSort(sort);
+      if (sortFields.length > 0) {
+        query += ` ORDER BY ${buildOrderBy(this.sortColumns(tableName, sortFields, adapter.getType()))}`;
+      }
+
+      query += ` LIMIT ? OFFSET ?`;
+      params.push(limit, offset);
+
+      const results = await adapter.query(query, params);
+      const parsedResults = results.map((row: any) => this.parseRowData(row, tableName));
+      return this.applyAfterReadHooks(tableName, await this.populateFields(tableName, parsedResults, populate));
+    } catch (error: any) {
+      if (error instanceof AppError) throw error;
+      logger.error('Find all error:', error);
+      // If table doesn't exist, return empty array instead of throwing error
+      if (error.message.includes('no such table') || error.message.includes('does not exist')) {
+        return [];
+      }
+      throw new Error(`Failed to fetch records from ${tableName}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Finds a page of records using keyset pagination.
+   * Pages are positioned by the values of the sort columns plus `id` rather than by offset,
+   * so concurrent writes never cause rows to be skipped or repeated.
+   * @param tableName The name of the table.
+   * @param options Page size, cursor, sort, selection, filter and population options.
+   * @returns A Promise that resolves to the page of records and the cursors around it.
+   * @throws {AppError} With status 400 if the filter, sort or cursor is invalid.
    * @throws An error if fetching records fails.
    */
-  async findAll(tableName: string, limit = 100, offset = 0, populate: string[] = [], sort?: string | string[], select?: string | string[], where?: Record<string, any>): Promise<any[]> {
-    try {
-      const adapter = await getDatabaseAdapter();
-      let query = `SELECT ${select ? (Array.isArray(select) ? select.join(', ') : select) : '*'} FROM ${tableName}`;
-      const params: any[] = [];
+  async findPage(tableName: string, options: CursorPageOptions = {}): Promise<CursorPage> {
+    const { limit = 100, cursor, select, populate = [] } = options;
+    const where = this.scopeDeleted(tableName, await this.applyBeforeReadHooks(tableName, options.where), options.deleted);
+
+    try {
+      const adapter = await getDatabaseAdapter();
+
+      // The keyset ends at the unique id column; anything sorted after it never breaks a tie
+      const sortFields = parseSort(options.sort);
+      const idIndex = sortFields.findIndex((field) => field.column === 'id');
+      const keyFields = idIndex === -1
+        ? [...sortFields, { column: 'id', direction: 'ASC' as const }]
+        : sortFields.slice(0, idIndex + 1);
+
+      const position = cursor ? decodeCursor(cursor, keyFields) : null;
+      const backwards = position?.direction === 'prev';
+      const queryFields = backwards
+        ? keyFields.map((field) => ({ column: field.column, direction: field.direction === 'ASC' ? 'DESC' as const : 'ASC' as const }))
+        : keyFields;
+
+      const keyColumns = keyFields.map((field) => field.column);
+      let columns = '*';
+      if (select) {
+        columns = this.selectColumns(tableName, [...(Array.isArray(select) ? select : select.split(',')), ...keyColumns], adapter.getType());
+      } else if (keyColumns.some((column) => this.columnSql(tableName, column, adapter.getType()) !== column)) {
+        // Cursors are read from the rows, so virtual computed sort fields are computed by the query
+        columns = `*, ${this.selectColumns(tableName, keyColumns, adapter.getType())}`;
+      }
+
+      let query = `SELECT ${columns} FROM ${tableName}`;
+      const conditions: string[] = [];
+      const params: any[] = [];
+
+      const whereClause = buildWhereClause(where, adapter.getType());
+      if (whereClause.sql) {
+        conditions.push(`(${whereClause.sql})`);
+        params.push(...whereClause.params);
+      }
+      if (position) {
+        const keyset = buildKeysetCondition(this.sortColumns(tableName, queryFields, adapter.getType()), position.values);
+        conditions.push(`(${keyset.sql})`);
+        params.push(...keyset.params);
+      }
+      if (conditions.length > 0) {
+        query += ` WHERE ${conditions.join(' AND ')}`;
+      }
+
+      // Fetch one extra row to know whether another page follows
+      query += ` ORDER BY ${buildOrderBy(this.sortColumns(tableName, queryFields, adapter.getType()))} LIMIT ?`;
+      params.push(limit + 1);
+
+      const rows = await adapter.query(query, params);
+      const hasMore = rows.length > limit;
+      const pageRows = rows.slice(0, limit);
+      if (backwards) pageRows.reverse();
+
+      const cursorAt = (row: any, direction: 'next' | 'prev') =>
+        encodeCursor(keyFields, { direction, values: keyFields.map((field) => row[field.column]) });
+      const first = pageRows[0];
+      const last = pageRows[pageRows.length - 1];
+
+      const parsedResults = pageRows.map((row: any) => this.parseRowData(row, tableName));
+      return {
+        data: await this.applyAfterReadHooks(tableName, await this.populateFields(tableName, parsedResults, populate)),
+        nextCursor: last && (backwards || hasMore) ? cursorAt(last, 'next') : null,
+        prevCursor: first && (backwards ? hasMore : position !== null) ? cursorAt(first, 'prev') : null
+      };
+    } catch (error: any) {
+      if (error instanceof AppError) throw error;
+      logger.error('Find page error:', error);
+      if (error.message.includes('no such table') || error.message.includes('does not exist')) {
+        return { data: [], nextCursor: null, prevCursor: null };
+      }
+      throw new Error(`Failed to fetch records from ${tableName}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Counts the records in the specified table that match a filter.
+   * @param tableName The name of the table.
+   * @param where A filter object using the same grammar as `findAll`.
+   * @param deleted Which soft-deleted rows to count (default: 'exclude').
+   * @returns A Promise that resolves to the number of matching records.
+   * @throws {AppError} With status 400 if the filter is invalid.
+   * @throws An error if counting records fails.
+   */
+  async count(tableName: string, where?: Record<string, any>, deleted: DeletedScope = 'exclude'): Promise<number> {
+    try {
+      const adapter = await getDatabaseAdapter();
+      let query = `SELECT COUNT(*) AS total FROM ${tableName}`;
+      const filter = await this.applyBeforeReadHooks(tableName, where);
+      const whereClause = buildWhereClause(this.scopeDeleted(tableName, filter, deleted), adapter.getType());
+      if (whereClause.sql) {
+        query += ` WHERE ${whereClause.sql}`;
+      }
+
+      const results = await adapter.query(query, whereClause.params);
+      // PostgreSQL returns COUNT(*) as a bigint string
+      return Number(results[0]?.total ?? 0);
+    } catch (error: any) {
+      if (error instanceof AppError) throw error;
+      logger.error('Count error:', error);
+      if (error.message.includes('no such table') || error.message.includes('does not exist')) {
+        return 0;
+      }
+      throw new Error(`Failed to count records in ${tableName}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Finds the records whose `searchable` fields match a full-text query, most relevant first unless sorted otherwise.
+   * @param tableName The name of the table.
+   * @param options The search text, with pagination, sort, selection, filter and population options.
+   * @returns A Promise that resolves to the page of matching records and their total number.
+   * @throws {AppError} With status 404 if the table does not exist, or 400 if it has no searchable fields
+   * or the filter is invalid.
+   * @throws An error if searching records fails.
+   */
+  async search(tableName: string, options: SearchOptions): Promise<SearchPage> {
+    const { limit = 100, offset = 0, populate = [] } = options;
+    const columns = this.searchColumns(await this.requireSchema(tableName));
+    if (columns.length === 0) {
+      throw new AppError(`Resource '${tableName}' has no searchable fields`, 400);
+    }
+    const where = this.scopeDeleted(tableName, await this.applyBeforeReadHooks(tableName, options.where), options.deleted);
+
+    try {
+      const adapter = await getDatabaseAdapter();
+      const query = buildSearchQuery(options.query, adapter.getType());
+      if (!query) {
+        return { data: [], total: 0 };
+      }
+
+      // The matches are filtered and sorted outside of the search query, where their columns are not ambiguous
+      let matches = `FROM (${buildSearchSource(tableName, columns, adapter.getType())}) matched`;
+      const params: any[] = [query];
+      const whereClause = buildWhereClause(where, adapter.getType());
+      if (whereClause.sql) {
+        matches += ` WHERE ${whereClause.sql}`;
+        params.push(...whereClause.params);
+      }
+
+      let selected = '*';
+      if (options.select) {
+        const names = Array.isArray(options.select) ? options.select : options.select.split(',');
+        selected = `${this.selectColumns(tableName, names, adapter.getType())}, _rank, _snippet`;
+      }
+      const sortFields = parseSort(options.sort);
+      const orderBy = sortFields.length > 0 ? buildOrderBy(this.sortColumns(tableName, sortFields, adapter.getType())) : '_rank DESC, id ASC';
+
+      const rows = await adapter.query(`SELECT ${selected} ${matches} ORDER BY ${orderBy} LIMIT ? OFFSET ?`, [...params, limit, offset]);
+      const counted = await adapter.query(`SELECT COUNT(*) AS total ${matches}`, params);
+
+      const parsedResults = rows.map(({ _rank, _snippet, ...row }: any) => ({
+        ...this.parseRowData(row, tableName),
+        _search: { rank: Number(_rank), snippet: _snippet }
+      }));
+      return {
+        data: await this.applyAfterReadHooks(tableName, await this.populateFields(tableName, parsedResults, populate)),
+        total: Number(counted[0]?.total ?? 0)
+      };
+    } catch (error: any) {
+      if (error instanceof AppError) throw error;
+      logger.error('Search error:', error);
+      throw new Error(`Failed to search records in ${tableName}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Computes aggregates over the records matching a filter, as a whole or by group.
+   * Group keys and aggregates can be filtered with `having` and sorted with `sort`, by name; groups are sorted by key
+   * otherwise. Counts, sums and averages are returned as numbers.
+   * @param tableName The name of the table.
+   * @param options The aggregates, group keys, filters, sort and limit.
+   * @returns A Promise that resolves to one row per group (a single row without group keys),
+   * with the group keys and the aggregates by name.
+   * @throws {AppError} With status 404 if the table does not exist, or 400 if a field, filter or sort is invalid.
+   */
+  async aggregate(tableName: string, options: AggregateOptions): Promise<Record<string, any>[]> {
+    await this.ensureInitialized();
+    const schema = this.tableSchemas.get(tableName);
+    if (!schema) {
+      throw new AppError(`Resource '${tableName}' not found`, 404);
+    }
+    const adapter = await getDatabaseAdapter();
+    const dialect = adapter.getType();
+
+    const column = (field: string) => {
+      const definition = schema.fields?.[field];
+      if (!definition) {
+        if (AGGREGATE_SYSTEM_COLUMNS.includes(field)) return field;
+        throw new AppError(`Unknown field: '${field}'`, 400);
+      }
+      if (VIRTUAL_RELATION_TYPES.includes(definition.type)) {
+        throw new AppError(`Cannot aggregate '${field}': ${definition.type} fields have no column`, 400);
+      }
+      if (isVirtualField(definition)) {
+        return this.computedSql(schema, field, dialect);
+      }
+      return this.columnName(field, definition);
+    };
+
+    const groupBy = options.groupBy ?? [];
+    const keys = groupBy.map((key) => {
+      const keyColumn = column(key.field);
+      return key.unit ? buildDateTruncation(keyColumn, key.unit, dialect) : keyColumn;
+    });
+    const names = [...groupBy.map((key) => key.field), ...options.aggregates.map((aggregate) => aggregate.alias)];
+    const selections = [
+      ...keys.map((key, index) => `${key} AS ${groupBy[index].field}`),
+      ...options.aggregates.map((aggregate) =>
+        `${buildAggregate(aggregate, aggregate.field ? column(aggregate.field) : null)} AS ${aggregate.alias}`
+      )
+    ];
+
+    const filter = await this.applyBeforeReadHooks(tableName, options.where);
+    const whereClause = buildWhereClause(this.scopeDeleted(tableName, filter, options.deleted), dialect);
+    let inner = `SELECT ${selections.join(', ')} FROM ${tableName}`;
+    if (whereClause.sql) inner += ` WHERE ${whereClause.sql}`;
+    if (keys.length > 0) inner += ` GROUP BY ${keys.join(', ')}`;
+
+    // Aggregates are filtered and sorted by name from an outer query: PostgreSQL does not accept aliases in HAVING
+    const havingClause = buildWhereClause(options.having, dialect);
+    const sort = parseSort(options.sort);
+    for (const field of sort) {
+      if (!names.includes(field.column)) {
+        throw new AppError(`Cannot sort by '${field.column}': not a group key or an aggregate`, 400);
+      }
+    }
+    const order = sort.length > 0 ? sort : groupBy.map((key): SortField => ({ column: key.field, direction: 'ASC' }));
+
+    let query = `SELECT * FROM (${inner}) aggregated`;
+    const params = [...whereClause.params, ...havingClause.params];
+    if (havingClause.sql) query += ` WHERE ${havingClause.sql}`;
+    if (order.length > 0) query += ` ORDER BY ${buildOrderBy(order)}`;
+    if (options.limit !== undefined) {
+      query += ' LIMIT ?';
+      params.push(options.limit);
+    }
+
+    let rows: any[];
+    try {
+      rows = await adapter.query(query, params);
+    } catch (error: any) {
+      if (/no such column|column .* does not exist/i.test(error.message)) {
+        throw new AppError(`Invalid having filter: ${error.message}`, 400);
+      }
+      logger.error({ error, tableName }, 'Aggregate error');
+      throw new Error(`Failed to aggregate records in ${tableName}: ${error.message}`);
+    }
+
+    const numeric = new Set(options.aggregates.filter((aggregate) => aggregate.fn !== 'min' && aggregate.fn !== 'max').map((aggregate) => aggregate.alias));
+    return rows.map((row) => Object.fromEntries(names.map((name) => {
+      // PostgreSQL folds unquoted aliases to lower case
+      const value = row[name] !== undefined ? row[name] : row[name.toLowerCase()];
+      return [name, value !== null && value !== undefined && numeric.has(name) ? Number(value) : value ?? null];
+    })));
+  }
+
+  /**
+   * Populates relation fields within records: `relation` fields with the related record (or null),
+   * `hasMany` and `manyToMany` fields with the list of related records. Soft-deleted records are left out.
+   * @param tableName The name of the table.
+   * @param records The records to populate.
+   * @param populate The relation fields to populate: dotted paths (`author.company`), or a tree with options per field.
+   * @returns A Promise that resolves to the records with populated fields.
+   * @throws {AppError} With status 400 if a filter or selected column is invalid.
+   */
+  private async populateFields(tableName: string, records: any[], populate: string[] | PopulateTree): Promise<any[]> {
+    const tree = Array.isArray(populate) ? parsePopulate(populate) : populate;
+    const schema = this.tableSchemas.get(tableName);
+    if (!schema || records.length === 0) return records;
+
+    for (const [fieldName, options] of Object.entries(tree)) {
+      const field = schema.fields[fieldName] as Record<string, any> | undefined;
+
+      if (field?.type === 'relation') {
+        const foreignKey = `${fieldName}Id`;
+        const ids = [...new Set(records.map((record) => record[foreignKey]).filter((id) => id))];
+        const related = new Map((await this.findRelated(field.target, 'id', ids, options)).map((record) => [record.id, record]));
+        for (const record of records) {
+          if (record[foreignKey]) {
+            record[fieldName] = related.get(record[foreignKey]) || null;
+          }
+        }
+      } else if (field?.type === 'hasMany') {
+        const foreignKey = `${this.hasManyForeignKey(tableName, fieldName, field)}Id`;
+        const related = await this.findRelated(field.target, foreignKey, records.map((record) => record.id), options);
+        for (const record of records) {
+          record[fieldName] = related.filter((item) => item[foreignKey] === record.id);
+        }
+      } else if (field?.type === 'manyToMany') {
+        const adapter = await getDatabaseAdapter();
+        const ids = records.map((record) => record.id);
+        const links = await adapter.query(
+          `SELECT source_id, target_id FROM ${this.joinTableName(tableName, fieldName, field)} WHERE source_id IN (${ids.map(() => '?').join(', ')})`,
+          ids
+        );
+        const targets = [...new Set(links.map((link: any) => link.target_id as string))];
+        const related = new Map((await this.findRelated(field.target, 'id', targets, options)).map((record) => [record.id, record]));
+        for (const record of records) {
+          record[fieldName] = links
+            .filter((link: any) => link.source_id === record.id)
+            .map((link: any) => related.get(link.target_id))
+            .filter((item: any) => item);
+        }
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Reads the records of a populated relation, and populates their own relations in turn.
+   * @param tableName The name of the related table.
+   * @param column The column matching the populated records: `id`, or the foreign key of a `hasMany` field.
+   * @param values The values of that column to read.
+   * @param options The columns to select, the filter and the nested relations to populate.
+   * @returns The related records.
+   */
+  private async findRelated(tableName: string, column: string, values: any[], options: PopulateOptions): Promise<any[]> {
+    if (values.length === 0) return [];
+
+    const adapter = await getDatabaseAdapter();
+    const where = options.where ? { $and: [{ [column]: { in: values } }, options.where] } : { [column]: { in: values } };
+    const whereClause = buildWhereClause(this.scopeDeleted(tableName, where), adapter.getType());
+
+    let columns = '*';
+    if (options.select) {
+      // Key columns are needed to attach the records, and foreign keys to populate their own relations
+      const fields = this.tableSchemas.get(tableName)?.fields ?? {};
+      const nestedKeys = Object.keys(options.populate ?? {})
+        .filter((field) => fields[field]?.type === 'relation')
+        .map((field) => `${field}Id`);
+      columns = this.selectColumns(tableName, [...options.select, 'id', column, ...nestedKeys], adapter.getType());
+    }
+
+    const rows = await adapter.query(`SELECT ${columns} FROM ${tableName} WHERE ${whereClause.sql}`, whereClause.params);
+    const related = rows.map((row: any) => this.parseRowData(row, tableName));
+    return options.populate ? this.populateFields(tableName, related, options.populate) : related;
+  }
+
+  /**
+   * Updates an existing record in the specified table and increments its version.
+   * @param tableName The name of the table.
+   * @param id The ID of the record to update.
+   * @param data The data to update the record with.
+   * @param options Optional: `expectedVersion` makes the update conditional on the record's current version.
+   * @returns A Promise that resolves to the updated record.
+   * @throws {ValidationError} With status 422 if the data does not satisfy the schema.
+   * @throws {AppError} With status 412 if the record's version differs from `expectedVersion`.
+   * @throws An error if the record update fails or the record is not found.
+   */
+  async update(tableName: string, id: string, data: Record<string, any>, options: WriteOptions = {}): Promise<any> {
+    const adapter = await getDatabaseAdapter();
+    const schema = this.tableSchemas.get(tableName);
+    if (!schema) throw new Error(`Schema not found for table: ${tableName}`);
+    this.assertValid(schema, [data], true);
+
+    const hooks = this.tableHooks(tableName);
+    const context = this.hookContext(tableName);
+    for (const hook of hooks.beforeUpdate) {
+      await hook(id, data, context);
+    }
+
+    const preparedData = this.prepareDataForInsert(this.mapRelationFields(schema, data));
+    preparedData.updated_at = new Date().toISOString();
+    const setClause = Object.keys(preparedData).map(key => `${key} = ?`).join(', ');
+    const values = [...Object.values(preparedData), id];
+    let updateSQL = `UPDATE ${tableName} SET ${setClause}, version = COALESCE(version, 0) + 1 WHERE id = ?`;
+    // Trashed records must be restored before they can be modified
+    if (this.isSoftDelete(tableName)) {
+      updateSQL += ' AND deleted_at IS NULL';
+    }
+    if (options.expectedVersion !== undefined) {
+      updateSQL += ' AND version = ?';
+      values.push(options.expectedVersion);
+    }
+    
+    try {
+      const before = await this.snapshot(tableName, [id]);
+      const write = async () => {
+        const result = await adapter.execute(updateSQL, values);
+        if (result.changes === 0) {
+          await this.assertVersionConflict(tableName, id, options);
+          throw new Error('Record not found');
+        }
+        await this.writeLinkedRelations(tableName, schema, id, data);
+      };
+      await (this.hasLinkedRelations(schema, data) ? this.transaction(write) : write());
+      
+      // Invalidate cache after successful update
+      await cacheService.invalidateTableCache(tableName);
+      
+      const updated = (await this.readRecords(tableName, [id])).get(id);
+      for (const hook of hooks.afterUpdate) {
+        await hook(updated, context);
+      }
+      await this.notifyChange({ tableName, recordId: id, operation: 'update', before: before.get(id) ?? null, after: updated });
+      return (await this.applyAfterReadHooks(tableName, [updated]))[0];
+    } catch (error: any) {
+      if (error instanceof AppError) throw error;
+      logger.error('Update error:', error);
+      throw new Error(`Failed to update record in ${tableName}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Deletes a record from the specified table by its ID.
+   * On tables with `softDelete`, the record is moved to the trash by setting `deleted_at` instead.
+   * The records referencing it are deleted or unlinked first, according to the `onDelete` behaviour of their relation;
+   * a record moved to the trash keeps its references until it is purged, so that restoring it loses nothing.
+   * @param tableName The name of the table.
+   * @param id The ID of the record to delete.
+   * @param options Optional: `expectedVersion` makes the delete conditional on the record's current version.
+   * @returns A Promise that resolves to true if the record was deleted, false otherwise.
+   * @throws {AppError} With status 412 if the record's version differs from `expectedVersion`,
+   * or 409 if a `restrict` or `noAction` relation references the record; nothing is deleted in that case.
+   */
+  async delete(tableName: string, id: string, options: WriteOptions = {}): Promise<boolean> {
+    const adapter = await getDatabaseAdapter();
+    const hooks = this.tableHooks(tableName);
+    const context = this.hookContext(tableName);
+    for (const hook of hooks.beforeDelete) {
+      await hook(id, context);
+    }
+
+    let sql: string;
+    const params: any[] = [];
+    if (this.isSoftDelete(tableName)) {
+      const now = new Date().toISOString();
+      sql = `UPDATE ${tableName} SET deleted_at = ?, updated_at = ?, version = COALESCE(version, 0) + 1 WHERE id = ? AND deleted_at IS NULL`;
+      params.push(now, now, id);
+    } else {
+      sql = `DELETE FROM ${tableName} WHERE id = ?`;
+      params.push(id);
+    }
+    if (options.expectedVersion !== undefined) {
+      sql += ' AND version = ?';
+      params.push(options.expectedVersion);
+    }
+    const before = await this.snapshot(tableName, [id]);
+    const result = await adapter.transaction(async () => {
+      if (!this.isSoftDelete(tableName)) {
+        await this.applyOnDelete(tableName, [id]);
+      }
+      const deleted = await adapter.execute(sql, params);
+      if (deleted.changes === 0) {
+        await this.assertVersionConflict(tableName, id, options);
+      }
+      return deleted;
+    });
+
+    // Execute afterDelete hooks and invalidate cache
+    if (result.changes > 0) {
+      for (const hook of hooks.afterDelete) {
+        await hook(id, context);
+      }
+      
+      // Invalidate cache after successful delete
+      await cacheService.invalidateTableCache(tableName);
+
+      const after = this.isSoftDelete(tableName) ? await this.snapshot(tableName, [id]) : new Map();
+      await this.notifyChange({ tableName, recordId: id, operation: 'delete', before: before.get(id) ?? null, after: after.get(id) ?? null });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Lists the records a delete would affect through the `onDelete` behaviour of the relations referencing a record,
+   * following cascades. On tables with `softDelete`, these are the records affected when the record is purged.
+   * Nothing is changed.
+   * @param tableName The name of the table.
+   * @param id The ID of the record.
+   * @returns A Promise that resolves to the affected records, grouped by relation field.
+   */
+  async findDependents(tableName: string, id: string): Promise<DeleteDependents[]> {
+    await this.ensureInitialized();
+    const visited = new Set([`${tableName}:${id}`]);
+    const dependents: DeleteDependents[] = [];
+    let pending = [{ tableName, ids: [id] }];
+
+    while (pending.length > 0) {
+      const next: typeof pending = [];
+      for (const deleted of pending) {
+        for (const group of await this.referencingRecords(deleted.tableName, deleted.ids)) {
+          const ids = group.ids.filter((dependentId) => !visited.has(`${group.resource}:${dependentId}`));
+          if (ids.length === 0) continue;
+
+          dependents.push({ ...group, ids });
+          if (group.onDelete === 'cascade') {
+            ids.forEach((dependentId) => visited.add(`${group.resource}:${dependentId}`));
+            next.push({ tableName: group.resource, ids });
+          }
+        }
+      }
+      pending = next;
+    }
+    return dependents;
+  }
+
+  /**
+   * Finds the records referencing records of a table through `relation` fields, trashed records included:
+   * the foreign keys of trashed records must not outlive the records they reference either.
+   * @param tableName The name of the referenced table.
+   * @param ids The IDs of the referenced records.
+   * @returns The referencing records, grouped by relation field.
+   */
+  private async referencingRecords(tableName: string, ids: string[]): Promise<DeleteDependents[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const adapter = await getDatabaseAdapter();
+    const groups: DeleteDependents[] = [];
 
-      if (where) {
-        const whereClauses: string[] = [];
-        for (const key in where) {
-          if (where.hasOwnProperty(key)) {
-            const value = where[key];
-            if (typeof value === 'object' && value !== null) {
-              if (value.eq !== undefined) {
-                whereClauses.push(`${key} = ?`);
-                params.push(this.sanitizeParam(value.eq));
-              } else if (value.gt !== undefined) {
-                whereClauses.push(`${key} > ?`);
-                params.push(this.sanitizeParam(value.gt));
-              } else if (value.lt !== undefined) {
-                whereClauses.push(`${key} < ?`);
-                params.push(this.sanitizeParam(value.lt));
-              } else if (value.in !== undefined && Array.isArray(value.in)) {
-                const placeholders = value.in.map(() => '?').join(',');
-                whereClauses.push(`${key} IN (${placeholders})`);
-                params.push(...value.in.map((v: any) => this.sanitizeParam(v)));
-              }
-            } else {
-              whereClauses.push(`${key} = ?`);
-              params.push(this.sanitizeParam(value));
-            }
+    for (const [resource, schema] of this.tableSchemas) {
+      for (const [field, definition] of Object.entries<any>(schema.fields ?? {})) {
+        if (definition.type !== 'relation' || definition.target !== tableName) continue;
+
+        const rows = await adapter.query(`SELECT id FROM ${resource} WHERE ${field}Id IN (${ids.map(() => '?').join(', ')})`, ids);
+        if (rows.length > 0) {
+          groups.push({ resource, field, onDelete: onDeleteAction(definition), ids: rows.map((row: any) => row.id as string) });
+        }
+      }
+    }
+    return groups;
+  }
+
+  /**
+   * Applies the `onDelete` behaviour of the relations referencing records about to be removed for good:
+   * the referencing records are deleted (`cascade`) or unlinked (`setNull`). Runs inside the delete's transaction.
+   * Cascades remove the referencing records of soft-delete tables for good too, since their foreign keys cannot
+   * outlive the removed records.
+   * @param tableName The name of the table.
+   * @param ids The IDs of the records about to be deleted.
+   * @throws {AppError} With status 409 if a `restrict` or `noAction` relation references one of the records.
+   */
+  private async applyOnDelete(tableName: string, ids: string[]): Promise<void> {
+    const deleting = this.deleting.getStore() ?? new Set<string>();
+    ids.forEach((id) => deleting.add(`${tableName}:${id}`));
+
+    await this.deleting.run(deleting, async () => {
+      const groups = (await this.referencingRecords(tableName, ids))
+        .map((group) => ({ ...group, ids: group.ids.filter((id) => !deleting.has(`${group.resource}:${id}`)) }))
+        .filter((group) => group.ids.length > 0);
+
+      const blocking = groups.find((group) => group.onDelete === 'restrict' || group.onDelete === 'noAction');
+      if (blocking) {
+        throw new AppError(
+          `Cannot delete from ${tableName}: referenced by ${blocking.ids.length} record(s) of ${blocking.resource} through '${blocking.field}'`,
+          409
+        );
+      }
+
+      const adapter = await getDatabaseAdapter();
+      for (const group of groups) {
+        if (group.onDelete === 'cascade' && this.isSoftDelete(group.resource)) {
+          const before = await this.snapshot(group.resource, group.ids);
+          await this.removeRecords(group.resource, group.ids);
+          for (const id of group.ids) {
+            await this.notifyChange({ tableName: group.resource, recordId: id, operation: 'delete', before: before.get(id) ?? null, after: null });
+          }
+          continue;
+        }
+        if (group.onDelete === 'cascade') {
+          for (const id of group.ids) {
+            await this.delete(group.resource, id);
           }
+          continue;
         }
-        if (whereClauses.length > 0) {
-          query += ` WHERE ${whereClauses.join(' AND ')}`;
+
+        const before = await this.snapshot(group.resource, group.ids);
+        await adapter.execute(
+          `UPDATE ${group.resource} SET ${group.field}Id = NULL, updated_at = ?, version = COALESCE(version, 0) + 1 WHERE id IN (${group.ids.map(() => '?').join(', ')})`,
+          [new Date().toISOString(), ...group.ids]
+        );
+        await cacheService.invalidateTableCache(group.resource);
+
+        const after = await this.snapshot(group.resource, group.ids);
+        for (const id of group.ids) {
+          await this.notifyChange({ tableName: group.resource, recordId: id, operation: 'update', before: before.get(id) ?? null, after: after.get(id) ?? null });
         }
       }
+    });
+  }
+
+  /**
+   * Creates several records using multi-row INSERT statements, in a single transaction.
+   * @param tableName The name of the table.
+   * @param records The data for the new records.
+   * @returns A Promise that resolves to the IDs of the created records, in input order.
+   * @throws {AppError} With status 400 if a record uses an invalid field name.
+   * @throws {ValidationError} With status 422 if a record does not satisfy the schema; no record is created in that case.
+   * @throws An error if the insert fails; no record is created in that case.
+   */
+  async createMany(tableName: string, records: Record<string, any>[]): Promise<string[]> {
+    await this.ensureInitialized();
+    const adapter = await getDatabaseAdapter();
+    const schema = this.tableSchemas.get(tableName);
+    if (!schema) throw new Error(`Schema not found for table: ${tableName}`);
+    records.forEach((data) => validationManager.applyDefaults(schema, data));
+    this.assertValid(schema, records);
+
+    const hooks = this.tableHooks(tableName);
+    const context = this.hookContext(tableName);
+    // Rows are grouped by column set so that omitted columns keep their database defaults
+    const groups = new Map<string, { columns: string[]; rows: any[][] }>();
+    const ids: string[] = [];
+
+    for (const data of records) {
+      for (const hook of hooks.beforeCreate) {
+        await hook(data, context);
+      }
+      if (!data.id) {
+        data.id = crypto.randomUUID();
+      }
+      ids.push(data.id);
 
-      if (sort) {
-        const sortClauses = Array.isArray(sort) ? sort.join(', ') : sort;
-        query += ` ORDER BY ${sortClauses}`;
+      const preparedData = this.prepareDataForInsert(this.mapRelationFields(schema, data));
+      const columns = Object.keys(preparedData).map(assertIdentifier);
+      const key = columns.join(',');
+      if (!groups.has(key)) {
+        groups.set(key, { columns, rows: [] });
       }
+      groups.get(key)!.rows.push(Object.values(preparedData));
+    }
 
-      query += ` LIMIT ? OFFSET ?`;
-      params.push(limit, offset);
+    try {
+      await adapter.transaction(async () => {
+        for (const group of groups.values()) {
+          await adapter.insertMany(tableName, group.columns, group.rows);
+        }
+        for (const data of records) {
+          await this.writeLinkedRelations(tableName, schema, data.id, data);
+        }
+      });
 
-      const results = await adapter.query(query, params);
-      const parsedResults = results.map((row: any) => this.parseRowData(row, tableName));
-      return this.populateFields(tableName, parsedResults, populate);
-    } catch (error: any) {
-      logger.error('Find all error:', error);
-      // If table doesn't exist, return empty array instead of throwing error
-      if (error.message.includes('no such table') || error.message.includes('does not exist')) {
-        return [];
+      await cacheService.invalidateTableCache(tableName);
+      const created = hooks.afterCreate.length > 0 ? await this.readRecords(tableName, ids) : await this.snapshot(tableName, ids);
+      for (const id of ids) {
+        for (const hook of hooks.afterCreate) {
+          await hook(created.get(id), context);
+        }
+        await this.notifyChange({ tableName, recordId: id, operation: 'create', before: null, after: created.get(id) ?? null });
       }
-      throw new Error(`Failed to fetch records from ${tableName}: ${error.message}`);
+      return ids;
+    } catch (error: any) {
+      if (error instanceof AppError) throw error;
+      logger.error('Bulk insert error:', error);
+      throw new Error(`Failed to create records in ${tableName}: ${error.message}`);
     }
   }
 
   /**
-   * Populates relation fields within records.
+   * Updates every record matching a filter with a single UPDATE statement.
    * @param tableName The name of the table.
-   * @param records The records to populate.
-   * @param populate An array of relation fields to populate.
-   * @returns A Promise that resolves to the records with populated fields.
+   * @param where A filter object using the same grammar as `findAll`; must not be empty.
+   * @param data The values to set on every matching record.
+   * @returns A Promise that resolves to the IDs of the updated records.
+   * @throws {AppError} With status 400 if the filter is empty or invalid.
+   * @throws {ValidationError} With status 422 if the data does not satisfy the schema.
+   * @throws An error if the update fails.
    */
-  private async populateFields(tableName: string, records: any[], populate: string[]): Promise<any[]> {
-    if (populate.length === 0) return records;
-
+  async updateMany(tableName: string, where: Record<string, any>, data: Record<string, any>): Promise<string[]> {
+    await this.ensureInitialized();
     const adapter = await getDatabaseAdapter();
     const schema = this.tableSchemas.get(tableName);
-    if (!schema) return records;
+    if (!schema) throw new Error(`Schema not found for table: ${tableName}`);
+    this.assertValid(schema, [data], true);
+
+    if (!buildWhereClause(where, adapter.getType()).sql) {
+      throw new AppError('A filter is required for bulk updates', 400);
+    }
+    const whereClause = buildWhereClause(this.scopeDeleted(tableName, where), adapter.getType());
 
-    for (const fieldName of populate) {
-      const fieldSchema = schema.fields[fieldName] as { type?: string; target?: string };
-      if (fieldSchema?.type !== 'relation') continue;
+    // Every matching row keeps its own id
+    const values = { ...data };
+    delete values.id;
+    const hooks = this.tableHooks(tableName);
+    const context = this.hookContext(tableName);
 
-      const targetTable = fieldSchema.target;
-      const foreignKey = `${fieldName}Id`;
+    try {
+      let before = new Map<string, any>();
+      const ids = await adapter.transaction(async () => {
+        const rows = await adapter.query(`SELECT id FROM ${tableName} WHERE ${whereClause.sql}`, whereClause.params);
+        const matched = rows.map((row: any) => row.id as string);
+        if (rows.length === 0) {
+          return matched;
+        }
 
-      const idsToFetch = records.map(r => r[foreignKey]).filter(id => id);
-      if (idsToFetch.length === 0) continue;
+        before = await this.snapshot(tableName, matched);
+        const buildSet = (recordValues: Record<string, any>) => {
+          const preparedData = this.prepareDataForInsert(this.mapRelationFields(schema, recordValues));
+          preparedData.updated_at = new Date().toISOString();
+          return {
+            sql: `${Object.keys(preparedData).map(key => `${assertIdentifier(key)} = ?`).join(', ')}, version = COALESCE(version, 0) + 1`,
+            params: Object.values(preparedData)
+          };
+        };
 
-      const placeholders = idsToFetch.map(() => '?').join(',');
-      const relatedRecords = await adapter.query(
-        `SELECT * FROM ${targetTable} WHERE id IN (${placeholders})`,
-        idsToFetch
-      );
-      const parsedRelatedRecords = relatedRecords.map((r: any) => this.parseRowData(r, targetTable));
+        if (hooks.beforeUpdate.length === 0) {
+          const set = buildSet(values);
+          await adapter.execute(`UPDATE ${tableName} SET ${set.sql} WHERE ${whereClause.sql}`, [...set.params, ...whereClause.params]);
+          for (const id of matched) {
+            await this.writeLinkedRelations(tableName, schema, id, values);
+          }
+          return matched;
+        }
 
-      const relatedMap = new Map(parsedRelatedRecords.map((r: { id: any; }) => [r.id, r]));
+        // Hooks may rewrite the values, e.g. hash a password, so each record gets its own copy and its own write
+        for (const id of matched) {
+          const recordValues = { ...values };
+          for (const hook of hooks.beforeUpdate) {
+            await hook(id, recordValues, context);
+          }
+          const set = buildSet(recordValues);
+          await adapter.execute(`UPDATE ${tableName} SET ${set.sql} WHERE id = ?`, [...set.params, id]);
+          await this.writeLinkedRelations(tableName, schema, id, recordValues);
+        }
+        return matched;
+      });
 
-      for (const record of records) {
-        if (record[foreignKey]) {
-          record[fieldName] = relatedMap.get(record[foreignKey]) || null;
+      if (ids.length > 0) {
+        await cacheService.invalidateTableCache(tableName);
+        const after = hooks.afterUpdate.length > 0 ? await this.readRecords(tableName, ids) : await this.snapshot(tableName, ids);
+        for (const id of ids) {
+          for (const hook of hooks.afterUpdate) {
+            await hook(after.get(id), context);
+          }
+          await this.notifyChange({ tableName, recordId: id, operation: 'update', before: before.get(id) ?? null, after: after.get(id) ?? null });
         }
       }
+      return ids;
+    } catch (error: any) {
+      if (error instanceof AppError) throw error;
+      logger.error('Bulk update error:', error);
+      throw new Error(`Failed to update records in ${tableName}: ${error.message}`);
     }
+  }
 
-    return records;
+  /**
+   * Deletes every record matching a filter with a single DELETE statement.
+   * On tables with `softDelete`, the records are moved to the trash instead.
+   * The records referencing them are handled as in `delete`.
+   * @param tableName The name of the table.
+   * @param where A filter object using the same grammar as `findAll`; must not be empty.
+   * @returns A Promise that resolves to the IDs of the deleted records.
+   * @throws {AppError} With status 400 if the filter is empty or invalid, or 409 if a `restrict` or `noAction`
+   * relation references one of the records; nothing is deleted in that case.
+   * @throws An error if the delete fails.
+   */
+  async deleteMany(tableName: string, where: Record<string, any>): Promise<string[]> {
+    await this.ensureInitialized();
+    const adapter = await getDatabaseAdapter();
+
+    if (!buildWhereClause(where, adapter.getType()).sql) {
+      throw new AppError('A filter is required for bulk deletes', 400);
+    }
+    const whereClause = buildWhereClause(this.scopeDeleted(tableName, where), adapter.getType());
+    const softDelete = this.isSoftDelete(tableName);
+    const hooks = this.tableHooks(tableName);
+    const context = this.hookContext(tableName);
+
+    let ids: string[];
+    let before = new Map<string, any>();
+    try {
+      ids = await adapter.transaction(async () => {
+        const rows = await adapter.query(`SELECT id FROM ${tableName} WHERE ${whereClause.sql}`, whereClause.params);
+        for (const row of rows) {
+          for (const hook of hooks.beforeDelete) {
+            await hook(row.id, context);
+          }
+        }
+        before = await this.snapshot(tableName, rows.map((row: any) => row.id as string));
+        if (!softDelete) {
+          await this.applyOnDelete(tableName, rows.map((row: any) => row.id as string));
+        }
+        if (rows.length > 0 && softDelete) {
+          const now = new Date().toISOString();
+          await adapter.execute(
+            `UPDATE ${tableName} SET deleted_at = ?, updated_at = ?, version = COALESCE(version, 0) + 1 WHERE ${whereClause.sql}`,
+            [now, now, ...whereClause.params]
+          );
+        } else if (rows.length > 0) {
+          await adapter.execute(`DELETE FROM ${tableName} WHERE ${whereClause.sql}`, whereClause.params);
+        }
+        return rows.map((row: any) => row.id as string);
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) throw error;
+      logger.error('Bulk delete error:', error);
+      throw new Error(`Failed to delete records in ${tableName}: ${error.message}`);
+    }
+
+    if (ids.length > 0) {
+      for (const id of ids) {
+        for (const hook of hooks.afterDelete) {
+          await hook(id, context);
+        }
+      }
+      await cacheService.invalidateTableCache(tableName);
+
+      const after = softDelete ? await this.snapshot(tableName, ids) : new Map();
+      for (const id of ids) {
+        await this.notifyChange({ tableName, recordId: id, operation: 'delete', before: before.get(id) ?? null, after: after.get(id) ?? null });
+      }
+    }
+    return ids;
   }
 
   /**
-   * Updates an existing record in the specified table.
+   * Inserts records, or updates the existing records they conflict with, using native
+   * `INSERT ... ON CONFLICT DO UPDATE` statements in a single transaction.
    * @param tableName The name of the table.
-   * @param id The ID of the record to update.
-   * @param data The data to update the record with.
-   * @returns A Promise that resolves to the updated record.
-   * @throws An error if the record update fails or the record is not found.
+   * @param records The records to write.
+   * @param conflictOn The fields identifying an existing record; they must be covered by a unique constraint.
+   * @returns A Promise that resolves to the ID of each written record and whether it was inserted, in input order.
+   * @throws {AppError} With status 400 if the conflict fields have no unique constraint or are missing from a record.
+   * @throws {ValidationError} With status 422 if a record does not satisfy the schema; no record is written in that case.
+   * @throws An error if the upsert fails; no record is written in that case.
    */
-  async update(tableName: string, id: string, data: Record<string, any>): Promise<any> {
+  async upsert(tableName: string, records: Record<string, any>[], conflictOn: string[]): Promise<Array<{ id: string; inserted: boolean }>> {
+    await this.ensureInitialized();
     const adapter = await getDatabaseAdapter();
     const schema = this.tableSchemas.get(tableName);
     if (!schema) throw new Error(`Schema not found for table: ${tableName}`);
-    const updateData = { ...data };
-    for (const [key, field] of Object.entries(schema.fields)) {
-      const typedField = field as { type: string; target?: string };
-      if (typedField.type === 'relation' && data[key]) {
-        updateData[`${key}Id`] = data[key];
-        delete updateData[key];
-      }
+
+    const conflictColumns = conflictOn.map((field) => {
+      assertIdentifier(field);
+      return schema.fields[field]?.type === 'relation' ? `${field}Id` : field;
+    });
+
+    // Column names are case-insensitive in both databases (PostgreSQL folds unquoted names to lower case)
+    const target = conflictColumns.map((column) => column.toLowerCase()).sort().join(',');
+    const uniqueColumnSets = await adapter.getUniqueColumnSets(tableName);
+    const hasConstraint = uniqueColumnSets.some(
+      (columns) => columns.map((column) => column.toLowerCase()).sort().join(',') === target
+    );
+    if (!hasConstraint) {
+      throw new AppError(`Upsert on ${tableName} requires a unique constraint on (${conflictOn.join(', ')})`, 400);
     }
-    const preparedData = this.prepareDataForInsert(updateData);
-    preparedData.updated_at = new Date().toISOString();
-    const setClause = Object.keys(preparedData).map(key => `${key} = ?`).join(', ');
-    const values = [...Object.values(preparedData), id];
-    const updateSQL = `UPDATE ${tableName} SET ${setClause} WHERE id = ?`;
-    
+    // Defaults are left to the database: they must not overwrite the values of updated records
+    this.assertValid(schema, records);
+
+    const hooks = this.tableHooks(tableName);
+    const context = this.hookContext(tableName);
+    const findConflicting = `SELECT id FROM ${tableName} WHERE ${conflictColumns.map((column) => `${column} = ?`).join(' AND ')}`;
+
     try {
-      const result = await adapter.execute(updateSQL, values);
-      if (result.changes === 0) throw new Error('Record not found');
-      
-      // Invalidate cache after successful update
+      let before = new Map<string, any>();
+      const results = await adapter.transaction(async () => {
+        const written: Array<{ id: string; inserted: boolean }> = [];
+        for (const [index, data] of records.entries()) {
+          const keys = this.prepareDataForInsert(this.mapRelationFields(schema, data));
+          const missing = conflictColumns.find((column) => !(column in keys));
+          if (missing) {
+            throw new AppError(`Record ${index} is missing the conflict field '${missing}'`, 400);
+          }
+
+          // The conflicting record decides whether the create or the update hooks apply
+          const [existing] = await adapter.query(findConflicting, conflictColumns.map((column) => keys[column]));
+          if (existing) {
+            for (const hook of hooks.beforeUpdate) {
+              await hook(existing.id, data, context);
+            }
+            const previous = await this.snapshot(tableName, [existing.id]);
+            if (previous.has(existing.id)) before.set(existing.id, previous.get(existing.id));
+          } else {
+            for (const hook of hooks.beforeCreate) {
+              await hook(data, context);
+            }
+          }
+
+          const row = this.prepareDataForInsert(this.mapRelationFields(schema, data));
+          row.id = existing?.id ?? data.id ?? crypto.randomUUID();
+          row.updated_at = new Date().toISOString();
+          if (schema.softDelete) {
+            // Upserting over a trashed record brings it back
+            row.deleted_at = null;
+          }
+          Object.keys(row).forEach(assertIdentifier);
+          if (existing) {
+            // Update hooks cannot move the record off the conflict target it was matched on
+            for (const column of conflictColumns) {
+              row[column] = keys[column];
+            }
+          }
+
+          // Existing rows keep their id and creation date
+          const updateColumns = Object.keys(row).filter(
+            (column) => column !== 'id' && column !== 'created_at' && !conflictColumns.includes(column)
+          );
+          const result = await adapter.upsert(tableName, row, conflictColumns, updateColumns);
+          if (!result.inserted) {
+            await adapter.execute(`UPDATE ${tableName} SET version = COALESCE(version, 0) + 1 WHERE id = ?`, [result.id]);
+          }
+          await this.writeLinkedRelations(tableName, schema, result.id, data);
+          written.push(result);
+        }
+        return written;
+      });
+
       await cacheService.invalidateTableCache(tableName);
-      
-      return this.findById(tableName, id);
+      const ids = results.map((result) => result.id);
+      const needsRecords = hooks.afterCreate.length > 0 || hooks.afterUpdate.length > 0;
+      const after = needsRecords ? await this.readRecords(tableName, ids) : await this.snapshot(tableName, ids);
+      for (const { id, inserted } of results) {
+        for (const hook of inserted ? hooks.afterCreate : hooks.afterUpdate) {
+          await hook(after.get(id), context);
+        }
+        await this.notifyChange({
+          tableName,
+          recordId: id,
+          operation: inserted ? 'create' : 'update',
+          before: inserted ? null : before.get(id) ?? null,
+          after: after.get(id) ?? null
+        });
+      }
+      return results;
     } catch (error: any) {
-      logger.error('Update error:', error);
-      throw new Error(`Failed to update record in ${tableName}: ${error.message}`);
+      if (error instanceof AppError) throw error;
+      logger.error('Upsert error:', error);
+      throw new Error(`Failed to upsert records in ${tableName}: ${error.message}`);
     }
   }
 
   /**
-   * Deletes a record from the specified table by its ID.
+   * Restores a soft-deleted record from the trash.
    * @param tableName The name of the table.
-   * @param id The ID of the record to delete.
-   * @returns A Promise that resolves to true if the record was deleted, false otherwise.
+   * @param id The ID of the record to restore.
+   * @returns A Promise that resolves to the restored record.
+   * @throws {AppError} With status 400 if the table does not use soft delete, or 404 if the record is not in the trash.
+   */
+  async restore(tableName: string, id: string): Promise<any> {
+    await this.ensureInitialized();
+    if (!this.isSoftDelete(tableName)) {
+      throw new AppError(`${tableName} does not use soft delete`, 400);
+    }
+
+    const adapter = await getDatabaseAdapter();
+    const before = await this.snapshot(tableName, [id]);
+    const result = await adapter.execute(
+      `UPDATE ${tableName} SET deleted_at = NULL, updated_at = ?, version = COALESCE(version, 0) + 1 WHERE id = ? AND deleted_at IS NOT NULL`,
+      [new Date().toISOString(), id]
+    );
+    if (result.changes === 0) {
+      throw new AppError('Record not found in trash', 404);
+    }
+
+    await cacheService.invalidateTableCache(tableName);
+    const restored = await this.findById(tableName, id);
+    await this.notifyChange({ tableName, recordId: id, operation: 'restore', before: before.get(id) ?? null, after: restored });
+    return restored;
+  }
+
+  /**
+   * Permanently removes soft-deleted records from the trash, applying the `onDelete` behaviour of the relations
+   * referencing them. The afterDelete hooks are not run again: they already ran when the records were trashed.
+   * Change listeners are notified of each purge as a delete with no after snapshot.
+   * @param tableName The name of the table.
+   * @param ids Optional: only purge these records. Every trashed record is purged when omitted.
+   * @returns A Promise that resolves to the IDs of the purged records.
+   * @throws {AppError} With status 400 if the table does not use soft delete, or 409 if a `restrict` or `noAction`
+   * relation references one of the records; nothing is purged in that case.
    */
-  async delete(tableName: string, id: string): Promise<boolean> {
+  async purge(tableName: string, ids?: string[]): Promise<string[]> {
+    await this.ensureInitialized();
+    if (!this.isSoftDelete(tableName)) {
+      throw new AppError(`${tableName} does not use soft delete`, 400);
+    }
+
     const adapter = await getDatabaseAdapter();
-    const result = await adapter.execute(`DELETE FROM ${tableName} WHERE id = ?`, [id]);
+    const whereClause = buildWhereClause(
+      this.scopeDeleted(tableName, ids ? { id: { in: ids } } : undefined, 'only'),
+      adapter.getType()
+    );
 
-    // Execute afterDelete hooks and invalidate cache
-    if (result.changes > 0) {
-      const afterDeleteHooks = this.hooks.get(tableName)?.afterDelete || [];
-      for (const hook of afterDeleteHooks) {
-        await hook(id);
+    let before = new Map<string, any>();
+    const purged = await adapter.transaction(async () => {
+      const rows = await adapter.query(`SELECT id FROM ${tableName} WHERE ${whereClause.sql}`, whereClause.params);
+      const trashed = rows.map((row: any) => row.id as string);
+      before = await this.snapshot(tableName, trashed);
+      await this.removeRecords(tableName, trashed);
+      return trashed;
+    });
+
+    for (const id of purged) {
+      await this.notifyChange({ tableName, recordId: id, operation: 'delete', before: before.get(id) ?? null, after: null });
+    }
+    return purged;
+  }
+
+  /**
+   * Removes records for good, after applying the `onDelete` behaviour of the relations referencing them.
+   * Runs inside the caller's transaction; hooks and change listeners are left to the caller.
+   * @param tableName The name of the table.
+   * @param ids The IDs of the records.
+   */
+  private async removeRecords(tableName: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    const adapter = await getDatabaseAdapter();
+    await this.applyOnDelete(tableName, ids);
+    await adapter.execute(`DELETE FROM ${tableName} WHERE id IN (${ids.map(() => '?').join(', ')})`, ids);
+    await cacheService.invalidateTableCache(tableName);
+  }
+
+  /**
+   * Reads the current state of records for change listeners, trashed records included.
+   * Nothing is read when no listener is registered.
+   * @param tableName The name of the table.
+   * @param ids The IDs of the records.
+   * @returns The records, by ID.
+   */
+  private async snapshot(tableName: string, ids: string[]): Promise<Map<string, any>> {
+    if (this.changeListeners.length === 0) {
+      return new Map();
+    }
+    return this.readRecords(tableName, ids);
+  }
+
+  /**
+   * Reads records by ID, trashed records included, bypassing the read hooks.
+   * @param tableName The name of the table.
+   * @param ids The IDs of the records.
+   * @returns The records, by ID.
+   */
+  private async readRecords(tableName: string, ids: string[]): Promise<Map<string, any>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+    const adapter = await getDatabaseAdapter();
+    const rows = await adapter.query(`SELECT * FROM ${tableName} WHERE id IN (${ids.map(() => '?').join(', ')})`, ids);
+    return new Map(rows.map((row: any) => [row.id, this.parseRowData(row, tableName)]));
+  }
+
+  /**
+   * Notifies the change listeners of a record change.
+   * @param change The change that was made.
+   */
+  private async notifyChange(change: RecordChange) {
+    for (const listener of this.changeListeners) {
+      await listener(change);
+    }
+  }
+
+  /**
+   * Checks whether a table moves deleted records to the trash instead of removing them.
+   * @param tableName The name of the table.
+   * @returns True if the table's schema enables `softDelete`.
+   */
+  isSoftDelete(tableName: string): boolean {
+    return this.tableSchemas.get(tableName)?.softDelete === true;
+  }
+
+  /**
+   * Builds the SQL condition selecting the rows of a deleted scope.
+   * @param tableName The name of the table.
+   * @param deleted The deleted scope.
+   * @returns The condition, or an empty string if every row qualifies.
+   */
+  private deletedCondition(tableName: string, deleted: DeletedScope): string {
+    if (!this.isSoftDelete(tableName) || deleted === 'include') return '';
+    return deleted === 'only' ? 'deleted_at IS NOT NULL' : 'deleted_at IS NULL';
+  }
+
+  /**
+   * Restricts a filter to the rows of a deleted scope.
+   * @param tableName The name of the table.
+   * @param where The filter object.
+   * @param deleted The deleted scope (default: 'exclude').
+   * @returns The filter, combined with a `deleted_at` condition on soft-delete tables.
+   */
+  private scopeDeleted(tableName: string, where: Record<string, any> | undefined, deleted: DeletedScope = 'exclude'): Record<string, any> | undefined {
+    if (!this.isSoftDelete(tableName) || deleted === 'include') return where;
+
+    const condition = { deleted_at: { isNull: deleted === 'exclude' } };
+    return where && Object.keys(where).length > 0 ? { $and: [where, condition] } : condition;
+  }
+
+  /**
+   * Validates records against a table schema.
+   * @param schema The table schema.
+   * @param records The records to validate; errors carry the record's index when there are several.
+   * @param partial Whether the records are partial updates (default: false).
+   * @throws {ValidationError} With status 422 listing every invalid field.
+   */
+  private assertValid(schema: Record<string, any>, records: Record<string, any>[], partial = false) {
+    const errors = records.flatMap((data, index) =>
+      validationManager.validateRecord(schema, data, partial).map((error) => records.length > 1 ? { ...error, index } : error)
+    );
+    if (errors.length > 0) {
+      throw new ValidationError(errors);
+    }
+  }
+
+  /**
+   * Explains why a conditional write changed no row: throws if the record still exists under another version.
+   * @param tableName The name of the table.
+   * @param id The ID of the record.
+   * @param options The options of the write.
+   * @throws {AppError} With status 412 if the write was conditional and the record exists.
+   */
+  private async assertVersionConflict(tableName: string, id: string, options: WriteOptions) {
+    if (options.expectedVersion !== undefined && await this.findById(tableName, id)) {
+      throw new AppError('Precondition failed: the record has been modified', 412);
+    }
+  }
+
+  /**
+   * Runs a set of operations in a single database transaction.
+   * Every table manager call made from within the callback uses the transaction,
+   * which is committed when the callback resolves and rolled back when it throws.
+   * Lifecycle hooks triggered by these calls run inside the transaction as well,
+   * so a hook that throws rolls back every write made so far.
+   * @param fn The operations to run.
+   * @returns A Promise that resolves to the callback's result.
+   */
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    await this.ensureInitialized();
+    const adapter = await getDatabaseAdapter();
+    return adapter.transaction(fn);
+  }
+
+  /**
+   * Maps relation fields of a payload to their foreign key columns (`author` becomes `authorId`).
+   * A relation may be given as an ID or as connect/disconnect operations. Fields stored outside of the table
+   * (`hasMany` and `manyToMany`) are left out; see `writeLinkedRelations`.
+   * @param schema The table schema.
+   * @param data The record data.
+   * @returns A copy of the data using column names.
+   * @throws {ValidationError} With status 422 if a relation value is invalid or references several records.
+   */
+  private mapRelationFields(schema: any, data: Record<string, any>): Record<string, any> {
+    const mapped = { ...data };
+    for (const [key, field] of Object.entries(schema.fields)) {
+      const typedField = field as { type: string; target?: string };
+      if (VIRTUAL_RELATION_TYPES.includes(typedField.type)) {
+        delete mapped[key];
+      } else if (typedField.type === 'relation' && data[key] !== undefined) {
+        mapped[`${key}Id`] = this.relationForeignKey(key, data[key]);
+        delete mapped[key];
+      }
+    }
+    return mapped;
+  }
+
+  /**
+   * Returns the foreign key a `relation` field value sets.
+   */
+  private relationForeignKey(field: string, value: any): any {
+    if (typeof value === 'string' || typeof value === 'number') return value;
+
+    const operations = parseRelationValue(field, value);
+    const ids = operations.connect.length > 0 ? operations.connect : operations.set ?? [];
+    if (ids.length > 1) {
+      throw new ValidationError([{ field, message: 'must reference a single record' }]);
+    }
+    return ids[0] ?? null;
+  }
+
+  /**
+   * Whether a payload changes `hasMany` or `manyToMany` fields, which are written after the record itself.
+   */
+  private hasLinkedRelations(schema: any, data: Record<string, any>): boolean {
+    return Object.entries<any>(schema.fields).some(([key, field]) => VIRTUAL_RELATION_TYPES.includes(field.type) && data[key] !== undefined);
+  }
+
+  /**
+   * Applies the `hasMany` and `manyToMany` fields of a payload to a written record:
+   * `hasMany` fields set the foreign key of the target records, `manyToMany` fields write links to the join table.
+   * Call it within a transaction, together with the write of the record.
+   * @param tableName The name of the table.
+   * @param schema The table schema.
+   * @param id The ID of the written record.
+   * @param data The record data.
+   * @throws {ValidationError} With status 422 if a relation value is invalid.
+   */
+  private async writeLinkedRelations(tableName: string, schema: any, id: string, data: Record<string, any>) {
+    const adapter = await getDatabaseAdapter();
+    const placeholders = (ids: string[]) => ids.map(() => '?').join(', ');
+
+    for (const [key, field] of Object.entries<any>(schema.fields)) {
+      if (!VIRTUAL_RELATION_TYPES.includes(field.type) || data[key] === undefined) continue;
+      const { set, connect, disconnect } = parseRelationValue(key, data[key]);
+      const linked = [...new Set([...(set ?? []), ...connect])];
+
+      if (field.type === 'hasMany') {
+        const column = `${this.hasManyForeignKey(tableName, key, field)}Id`;
+        const unlinked = set ? { sql: `${column} = ?${linked.length > 0 ? ` AND id NOT IN (${placeholders(linked)})` : ''}`, params: [id, ...linked] }
+          : disconnect.length > 0 ? { sql: `${column} = ? AND id IN (${placeholders(disconnect)})`, params: [id, ...disconnect] }
+          : null;
+        const touch = `updated_at = ?, version = COALESCE(version, 0) + 1`;
+        const now = new Date().toISOString();
+
+        if (unlinked) {
+          await adapter.execute(`UPDATE ${field.target} SET ${column} = NULL, ${touch} WHERE ${unlinked.sql}`, [now, ...unlinked.params]);
+        }
+        if (linked.length > 0) {
+          await adapter.execute(`UPDATE ${field.target} SET ${column} = ?, ${touch} WHERE id IN (${placeholders(linked)})`, [id, now, ...linked]);
+        }
+        await cacheService.invalidateTableCache(field.target);
+      } else {
+        const joinTable = this.joinTableName(tableName, key, field);
+        if (set) {
+          await adapter.execute(`DELETE FROM ${joinTable} WHERE source_id = ?`, [id]);
+        } else if (disconnect.length > 0) {
+          await adapter.execute(`DELETE FROM ${joinTable} WHERE source_id = ? AND target_id IN (${placeholders(disconnect)})`, [id, ...disconnect]);
+        }
+
+        const existing = new Set((await adapter.query(`SELECT target_id FROM ${joinTable} WHERE source_id = ?`, [id])).map((row: any) => row.target_id));
+        const added = linked.filter((target) => !existing.has(target));
+        if (added.length > 0) {
+          await adapter.insertMany(joinTable, ['source_id', 'target_id'], added.map((target) => [id, target]));
+        }
       }
-      
-      // Invalidate cache after successful delete
-      await cacheService.invalidateTableCache(tableName);
     }
-    return result.changes > 0;
   }
 
   /**
@@ -605,7 +3002,7 @@ export class DynamicTableManager {
     const prepared: Record<string, any> = {};
 
     for (const [key, value] of Object.entries(data)) {
-      if (key === 'id' || key === 'created_at' || key === 'updated_at') continue;
+      if (key === 'id' || key === 'created_at' || key === 'updated_at' || key === 'version' || key === 'deleted_at') continue;
 
       if (value === null || value === undefined) {
         prepared[key] = null;
@@ -637,6 +3034,7 @@ export class DynamicTableManager {
     const schema = tableName ? this.tableSchemas.get(tableName) : null;
 
     for (const [key, value] of Object.entries(row)) {
+      if (key === SEARCH_VECTOR_COLUMN) continue;
       // Check if this field is a boolean in the schema
       const fieldSchema = schema?.fields?.[key];
       if (fieldSchema?.type === 'boolean' && (value === 0 || value === 1)) {
@@ -652,6 +3050,16 @@ export class DynamicTableManager {
       }
     }
 
+    // Virtual fields are computed from the stored values, unless the query computed them or left out what they read
+    for (const [key, field] of Object.entries<any>(schema?.fields ?? {})) {
+      if (!isVirtualField(field) || key in row) continue;
+      const column = (name: string) => schema.fields[name] ? this.columnName(name, schema.fields[name]) : name;
+      const { expression, fields } = computedField(key, field);
+      if (fields.every((name) => column(name) in row)) {
+        parsed[key] = evaluateExpression(expression, (name) => row[column(name)]);
+      }
+    }
+
     return parsed;
   }
 
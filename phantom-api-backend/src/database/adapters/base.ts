@@ -24,6 +24,24 @@ export interface DatabaseAdapter {
    */
   execute(sql: string, params?: any[]): Promise<{ changes: number; lastInsertRowid?: any }>;
 
+  /**
+   * Insert several rows with multi-row INSERT statements, split to stay under the parameter limit
+   * @returns The number of inserted rows
+   */
+  insertMany(tableName: string, columns: string[], rows: any[][]): Promise<number>;
+
+  /**
+   * Insert a row, or update the existing row when it conflicts on the given columns (INSERT ... ON CONFLICT DO UPDATE)
+   * The conflict columns must be covered by a unique constraint or unique index
+   * @returns The id of the written row and whether it was inserted
+   */
+  upsert(tableName: string, row: Record<string, any>, conflictColumns: string[], updateColumns: string[]): Promise<{ id: string; inserted: boolean }>;
+
+  /**
+   * Get the column sets of the table's unique constraints and unique indexes, including the primary key
+   */
+  getUniqueColumnSets(tableName: string): Promise<string[][]>;
+
   /**
    * Begin a transaction
    */
@@ -39,6 +57,13 @@ export interface DatabaseAdapter {
    */
   rollback(): Promise<void>;
 
+  /**
+   * Run a function inside a transaction, committing on success and rolling back on error.
+   * Queries issued from within the function (including across awaits) use the transaction;
+   * nested calls join the outer transaction.
+   */
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
+
   /**
    * Check if a table exists
    */
@@ -51,13 +76,64 @@ export interface DatabaseAdapter {
 
   /**
    * Create a table with the given schema
+   * Columns are given either as a type or as a definition with constraints
+   */
+  createTable(tableName: string, columns: Record<string, string | ColumnDefinition>, foreignKeys?: string[]): Promise<void>;
+
+  /**
+   * Add a column to an existing table, given as a type or as a generated column
+   * SQLite cannot add stored generated columns, so they are added as virtual generated columns there
    */
-  createTable(tableName: string, columns: Record<string, string>, foreignKeys?: string[]): Promise<void>;
+  addColumn(tableName: string, columnName: string, column: string | ColumnDefinition): Promise<void>;
 
   /**
-   * Add a column to an existing table
+   * Rename a column; its indexes and constraints follow it
    */
-  addColumn(tableName: string, columnName: string, columnType: string): Promise<void>;
+  renameColumn(tableName: string, columnName: string, newName: string): Promise<void>;
+
+  /**
+   * Drop a column with its indexes and constraints
+   * `definition` describes the table without the column, for databases that rebuild the table to alter it
+   */
+  dropColumn(tableName: string, columnName: string, definition: TableDefinition): Promise<void>;
+
+  /**
+   * Change the type of a column and replace its values
+   * `definition` describes the table with the retyped column; `values` maps every record ID to its converted value
+   */
+  changeColumnType(tableName: string, columnName: string, definition: TableDefinition, values: Map<string, any>): Promise<void>;
+
+  /**
+   * Rename a table; foreign keys of other tables follow it
+   */
+  renameTable(tableName: string, newName: string): Promise<void>;
+
+  /**
+   * Drop a table with its data
+   */
+  dropTable(tableName: string): Promise<void>;
+
+  /**
+   * List the indexes of a table, other than the primary key
+   */
+  getIndexes(tableName: string): Promise<IndexDefinition[]>;
+
+  /**
+   * Create an index, unless an index with the same name exists
+   */
+  createIndex(tableName: string, index: IndexDefinition): Promise<void>;
+
+  /**
+   * Drop an index by name
+   */
+  dropIndex(tableName: string, indexName: string): Promise<void>;
+
+  /**
+   * Create, replace or drop the full-text search index of a table so that it covers exactly the given text columns,
+   * and index the existing rows; the index is kept in sync with later writes by the database
+   * Nothing is done if the index already covers these columns
+   */
+  syncSearchIndex(tableName: string, columns: string[]): Promise<void>;
 
   /**
    * Get the database type identifier
@@ -80,6 +156,41 @@ export interface DatabaseAdapter {
   getAllTables(): Promise<string[]>;
 }
 
+/**
+ * A column to create, with its constraints
+ */
+export interface ColumnDefinition {
+  /** The column type, as returned by `mapColumnType` */
+  type: string;
+  notNull?: boolean;
+  unique?: boolean;
+  /** The default value; the string `CURRENT_TIMESTAMP` is emitted as the SQL expression */
+  default?: any;
+  /** SQL conditions the column value must satisfy, each emitted as a CHECK constraint */
+  checks?: string[];
+  /** The SQL expression of a stored generated column, computed by the database; such columns cannot be written */
+  generated?: string;
+}
+
+/**
+ * An index of a table, on one or more columns
+ */
+export interface IndexDefinition {
+  name: string;
+  columns: string[];
+  unique: boolean;
+  /** The condition of a partial index, as SQL: only the rows matching it are indexed */
+  where?: string;
+}
+
+/**
+ * The full definition of a table, as given to `createTable`
+ */
+export interface TableDefinition {
+  columns: Record<string, string | ColumnDefinition>;
+  foreignKeys: string[];
+}
+
 export type DatabaseConfig = {
   type: 'sqlite' | 'postgresql';
   sqlite?: {
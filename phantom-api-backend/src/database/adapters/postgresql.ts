@@ -1,6 +1,21 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { Pool, PoolClient } from 'pg';
 import { logger } from '../../logger';
-import { DatabaseAdapter } from './base';
+import { DatabaseAdapter, ColumnDefinition, IndexDefinition, TableDefinition } from './base';
+import { searchIndexName, SEARCH_VECTOR_COLUMN } from '../query-builder';
+import { slowQueryLog } from '../slow-query-log';
+
+// Maximum number of bound parameters per statement in the PostgreSQL wire protocol
+const MAX_PARAMETERS = 65535;
+
+/**
+ * Converts SQLite-style ? placeholders to PostgreSQL-style $1, $2, etc.
+ * Question marks inside quoted strings and identifiers, such as the literals of computed field expressions, are kept.
+ */
+export function convertPlaceholders(sql: string): string {
+  let paramIndex = 1;
+  return sql.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"|\?/g, (match) => (match === '?' ? `$${paramIndex++}` : match));
+}
 
 /**
  * PostgreSQL database adapter implementation
@@ -8,6 +23,8 @@ import { DatabaseAdapter } from './base';
  */
 export class PostgresqlAdapter implements DatabaseAdapter {
   private pool: Pool | null = null;
+  // Transactions need a dedicated client; queries made within transaction() are routed to it
+  private transactionClient = new AsyncLocalStorage<PoolClient>();
   private config: {
     host: string;
     port: number;
@@ -68,8 +85,10 @@ export class PostgresqlAdapter implements DatabaseAdapter {
     
     try {
       // Convert ? placeholders to $1, $2, etc. for PostgreSQL
-      const pgSql = this.convertPlaceholders(sql);
-      const result = await this.pool.query(pgSql, params);
+      const pgSql = convertPlaceholders(sql);
+      const started = performance.now();
+      const result = await this.getClient().query(pgSql, params);
+      slowQueryLog.record(sql, performance.now() - started);
       return result.rows;
     } catch (error) {
       logger.error('PostgreSQL query error:', { sql, params, error });
@@ -81,8 +100,8 @@ export class PostgresqlAdapter implements DatabaseAdapter {
     if (!this.pool) throw new Error('Database not connected');
     
     try {
-      const pgSql = this.convertPlaceholders(sql);
-      const result = await this.pool.query(pgSql, params);
+      const pgSql = convertPlaceholders(sql);
+      const result = await this.getClient().query(pgSql, params);
       return {
         changes: result.rowCount || 0,
         lastInsertRowid: result.rows[0]?.id || null
@@ -93,19 +112,93 @@ export class PostgresqlAdapter implements DatabaseAdapter {
     }
   }
 
+  async insertMany(tableName: string, columns: string[], rows: any[][]): Promise<number> {
+    if (rows.length === 0) return 0;
+
+    const rowsPerStatement = Math.max(1, Math.floor(MAX_PARAMETERS / columns.length));
+    const rowPlaceholders = `(${columns.map(() => '?').join(', ')})`;
+    let inserted = 0;
+
+    for (let start = 0; start < rows.length; start += rowsPerStatement) {
+      const chunk = rows.slice(start, start + rowsPerStatement);
+      const sql = `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES ${chunk.map(() => rowPlaceholders).join(', ')}`;
+      const result = await this.execute(sql, chunk.flat());
+      inserted += result.changes;
+    }
+
+    return inserted;
+  }
+
+  async upsert(tableName: string, row: Record<string, any>, conflictColumns: string[], updateColumns: string[]): Promise<{ id: string; inserted: boolean }> {
+    const columns = Object.keys(row);
+    // xmax is 0 for a freshly inserted row version and set when ON CONFLICT updated an existing row
+    const sql = `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})
+      ON CONFLICT (${conflictColumns.join(', ')}) DO UPDATE SET ${updateColumns.map((column) => `${column} = excluded.${column}`).join(', ')}
+      RETURNING id, (xmax = 0) AS inserted`;
+
+    const result = await this.query(sql, Object.values(row));
+    return { id: result[0].id, inserted: result[0].inserted };
+  }
+
+  async getUniqueColumnSets(tableName: string): Promise<string[][]> {
+    // Unquoted table names are folded to lower case, which regclass resolves the same way
+    const result = await this.query(`
+      SELECT array_agg(a.attname::text ORDER BY k.ordinality) AS columns
+      FROM pg_index i
+      CROSS JOIN LATERAL unnest(i.indkey) WITH ORDINALITY AS k(attnum, ordinality)
+      JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = k.attnum
+      WHERE i.indrelid = ?::regclass AND i.indisunique AND i.indpred IS NULL
+      GROUP BY i.indexrelid
+    `, [tableName]);
+
+    return result.map((row: any) => row.columns);
+  }
+
   async beginTransaction(): Promise<void> {
     if (!this.pool) throw new Error('Database not connected');
-    await this.pool.query('BEGIN');
+    await this.getClient().query('BEGIN');
   }
 
   async commit(): Promise<void> {
     if (!this.pool) throw new Error('Database not connected');
-    await this.pool.query('COMMIT');
+    await this.getClient().query('COMMIT');
   }
 
   async rollback(): Promise<void> {
     if (!this.pool) throw new Error('Database not connected');
-    await this.pool.query('ROLLBACK');
+    await this.getClient().query('ROLLBACK');
+  }
+
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (!this.pool) throw new Error('Database not connected');
+    if (this.transactionClient.getStore()) {
+      return fn();
+    }
+
+    const client = await this.pool.connect();
+    try {
+      return await this.transactionClient.run(client, async () => {
+        await this.beginTransaction();
+        try {
+          const result = await fn();
+          await this.commit();
+          return result;
+        } catch (error) {
+          await this.rollback();
+          throw error;
+        }
+      });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Returns the client of the current transaction, or the pool outside of one.
+   */
+  private getClient(): Pool | PoolClient {
+    if (!this.pool) throw new Error('Database not connected');
+    return this.transactionClient.getStore() ?? this.pool;
   }
 
   async tableExists(tableName: string): Promise<boolean> {
@@ -132,8 +225,8 @@ export class PostgresqlAdapter implements DatabaseAdapter {
     }));
   }
 
-  async createTable(tableName: string, columns: Record<string, string>, foreignKeys: string[] = []): Promise<void> {
-    const columnDefs = Object.entries(columns).map(([name, type]) => `${name} ${type}`);
+  async createTable(tableName: string, columns: Record<string, string | ColumnDefinition>, foreignKeys: string[] = []): Promise<void> {
+    const columnDefs = Object.entries(columns).map(([name, column]) => this.columnDefinition(name, column));
     const allDefs = [...columnDefs, ...foreignKeys];
     const sql = `CREATE TABLE ${tableName} (${allDefs.join(', ')})`;
     
@@ -141,12 +234,157 @@ export class PostgresqlAdapter implements DatabaseAdapter {
     logger.info(`PostgreSQL table created: ${tableName}`);
   }
 
-  async addColumn(tableName: string, columnName: string, columnType: string): Promise<void> {
-    const sql = `ALTER TABLE ${tableName} ADD COLUMN ${columnName} ${columnType}`;
+  /**
+   * Renders a column of a CREATE TABLE statement, with its constraints.
+   */
+  private columnDefinition(name: string, column: string | ColumnDefinition): string {
+    if (typeof column === 'string') {
+      return `${name} ${column}`;
+    }
+
+    let sql = `${name} ${column.type}`;
+    if (column.generated) sql += ` GENERATED ALWAYS AS (${column.generated}) STORED`;
+    if (column.notNull) sql += ' NOT NULL';
+    if (column.unique) sql += ' UNIQUE';
+    if (column.default !== undefined && column.default !== null && !column.generated) {
+      sql += ` DEFAULT ${this.defaultLiteral(column.default)}`;
+    }
+    for (const check of column.checks ?? []) {
+      sql += ` CHECK (${check})`;
+    }
+    return sql;
+  }
+
+  /**
+   * Renders a default value as a SQL literal.
+   */
+  private defaultLiteral(value: any): string {
+    if (value === 'CURRENT_TIMESTAMP') return value;
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    if (typeof value === 'number') return String(value);
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return `'${text.replace(/'/g, "''")}'`;
+  }
+
+  async addColumn(tableName: string, columnName: string, column: string | ColumnDefinition): Promise<void> {
+    const sql = `ALTER TABLE ${tableName} ADD COLUMN ${this.columnDefinition(columnName, column)}`;
     await this.execute(sql);
     logger.info(`PostgreSQL column added: ${tableName}.${columnName}`);
   }
 
+  async renameColumn(tableName: string, columnName: string, newName: string): Promise<void> {
+    await this.execute(`ALTER TABLE ${tableName} RENAME COLUMN ${columnName} TO ${newName}`);
+    logger.info(`PostgreSQL column renamed: ${tableName}.${columnName} to ${newName}`);
+  }
+
+  async dropColumn(tableName: string, columnName: string, _definition: TableDefinition): Promise<void> {
+    await this.execute(`ALTER TABLE ${tableName} DROP COLUMN ${columnName}`);
+    logger.info(`PostgreSQL column dropped: ${tableName}.${columnName}`);
+  }
+
+  async changeColumnType(tableName: string, columnName: string, definition: TableDefinition, values: Map<string, any>): Promise<void> {
+    const column = definition.columns[columnName];
+    const { type, notNull, default: defaultValue, checks = [] }: ColumnDefinition = typeof column === 'string' ? { type: column } : column;
+
+    await this.transaction(async () => {
+      // Check constraints of the old type may not apply to the new one
+      const constraints = await this.query(`
+        SELECT con.conname AS name
+        FROM pg_constraint con
+        JOIN pg_attribute att ON att.attrelid = con.conrelid AND att.attnum = ANY(con.conkey)
+        WHERE con.conrelid = $1::regclass AND con.contype = 'c' AND att.attname = $2
+      `, [tableName, columnName]);
+      for (const constraint of constraints) {
+        await this.execute(`ALTER TABLE ${tableName} DROP CONSTRAINT "${constraint.name}"`);
+      }
+
+      await this.execute(`ALTER TABLE ${tableName} ALTER COLUMN ${columnName} DROP DEFAULT, ALTER COLUMN ${columnName} DROP NOT NULL`);
+      await this.execute(`ALTER TABLE ${tableName} ALTER COLUMN ${columnName} TYPE ${type} USING NULL`);
+      for (const [id, value] of values) {
+        if (value !== null) {
+          await this.execute(`UPDATE ${tableName} SET ${columnName} = $1 WHERE id = $2`, [value, id]);
+        }
+      }
+
+      if (notNull) {
+        await this.execute(`ALTER TABLE ${tableName} ALTER COLUMN ${columnName} SET NOT NULL`);
+      }
+      if (defaultValue !== undefined && defaultValue !== null) {
+        await this.execute(`ALTER TABLE ${tableName} ALTER COLUMN ${columnName} SET DEFAULT ${this.defaultLiteral(defaultValue)}`);
+      }
+      for (const check of checks) {
+        await this.execute(`ALTER TABLE ${tableName} ADD CHECK (${check})`);
+      }
+    });
+    logger.info(`PostgreSQL column type changed: ${tableName}.${columnName}`);
+  }
+
+  async renameTable(tableName: string, newName: string): Promise<void> {
+    await this.execute(`ALTER TABLE ${tableName} RENAME TO ${newName}`);
+    logger.info(`PostgreSQL table renamed: ${tableName} to ${newName}`);
+  }
+
+  async dropTable(tableName: string): Promise<void> {
+    await this.execute(`DROP TABLE ${tableName}`);
+    logger.info(`PostgreSQL table dropped: ${tableName}`);
+  }
+
+  async getIndexes(tableName: string): Promise<IndexDefinition[]> {
+    const result = await this.query(`
+      SELECT c.relname AS name, i.indisunique AS unique, pg_get_expr(i.indpred, i.indrelid) AS where,
+        ARRAY(
+          SELECT a.attname::text
+          FROM unnest(i.indkey) WITH ORDINALITY AS k(attnum, ordinality)
+          JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = k.attnum
+          ORDER BY k.ordinality
+        ) AS columns
+      FROM pg_index i
+      JOIN pg_class c ON c.oid = i.indexrelid
+      WHERE i.indrelid = ?::regclass AND NOT i.indisprimary
+      ORDER BY c.relname
+    `, [tableName]);
+
+    return result.map((row: any) => ({
+      name: row.name,
+      columns: row.columns,
+      unique: row.unique,
+      ...(row.where && { where: row.where })
+    }));
+  }
+
+  async createIndex(tableName: string, index: IndexDefinition): Promise<void> {
+    const sql = `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS ${index.name} ON ${tableName} (${index.columns.join(', ')})`;
+    await this.execute(index.where ? `${sql} WHERE ${index.where}` : sql);
+    logger.info(`PostgreSQL index created: ${index.name} on ${tableName}`);
+  }
+
+  async dropIndex(tableName: string, indexName: string): Promise<void> {
+    await this.execute(`DROP INDEX IF EXISTS ${indexName}`);
+    logger.info(`PostgreSQL index dropped: ${indexName} on ${tableName}`);
+  }
+
+  async syncSearchIndex(tableName: string, columns: string[]): Promise<void> {
+    // A generated tsvector column with a GIN index; its comment lists the indexed columns
+    const rows = await this.query(`
+      SELECT col_description(att.attrelid, att.attnum) AS columns
+      FROM pg_attribute att
+      WHERE att.attrelid = $1::regclass AND att.attname = $2 AND NOT att.attisdropped
+    `, [tableName, SEARCH_VECTOR_COLUMN]);
+    if ((rows[0]?.columns ?? '') === columns.join(',')) return;
+
+    await this.transaction(async () => {
+      await this.execute(`DROP INDEX IF EXISTS ${searchIndexName(tableName)}`);
+      await this.execute(`ALTER TABLE ${tableName} DROP COLUMN IF EXISTS ${SEARCH_VECTOR_COLUMN}`);
+      if (columns.length === 0) return;
+
+      const document = columns.map((column) => `coalesce(${column}, '')`).join(` || ' ' || `);
+      await this.execute(`ALTER TABLE ${tableName} ADD COLUMN ${SEARCH_VECTOR_COLUMN} tsvector GENERATED ALWAYS AS (to_tsvector('simple', ${document})) STORED`);
+      await this.execute(`COMMENT ON COLUMN ${tableName}.${SEARCH_VECTOR_COLUMN} IS '${columns.join(',')}'`);
+      await this.execute(`CREATE INDEX ${searchIndexName(tableName)} ON ${tableName} USING GIN (${SEARCH_VECTOR_COLUMN})`);
+    });
+    logger.info(`PostgreSQL search index synced: ${tableName} (${columns.join(', ') || 'none'})`);
+  }
+
   getType(): 'sqlite' | 'postgresql' {
     return 'postgresql';
   }
@@ -191,13 +429,6 @@ export class PostgresqlAdapter implements DatabaseAdapter {
     return result.map((row: any) => row.table_name);
   }
 
-  /**
-   * Convert SQLite-style ? placeholders to PostgreSQL-style $1, $2, etc.
-   */
-  private convertPlaceholders(sql: string): string {
-    let paramIndex = 1;
-    return sql.replace(/\?/g, () => `$${paramIndex++}`);
-  }
 
   /**
    * Get the raw PostgreSQL pool for advanced operations
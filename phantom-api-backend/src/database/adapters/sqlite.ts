@@ -1,6 +1,12 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import Database from 'better-sqlite3';
 import { logger } from '../../logger';
-import { DatabaseAdapter } from './base';
+import { DatabaseAdapter, ColumnDefinition, IndexDefinition, TableDefinition } from './base';
+import { searchIndexName } from '../query-builder';
+import { slowQueryLog } from '../slow-query-log';
+
+// Maximum number of bound parameters per statement (SQLITE_MAX_VARIABLE_NUMBER since SQLite 3.32)
+const MAX_PARAMETERS = 32766;
 
 /**
  * SQLite database adapter implementation
@@ -9,6 +15,10 @@ import { DatabaseAdapter } from './base';
 export class SqliteAdapter implements DatabaseAdapter {
   private db: Database.Database | null = null;
   private dbPath: string;
+  // SQLite has a single connection, so statements from outside an open transaction
+  // wait for it to finish instead of silently joining it
+  private transactionScope = new AsyncLocalStorage<boolean>();
+  private transactionLock: Promise<void> = Promise.resolve();
 
   constructor(dbPath: string) {
     this.dbPath = dbPath;
@@ -32,10 +42,13 @@ export class SqliteAdapter implements DatabaseAdapter {
 
   async query(sql: string, params: any[] = []): Promise<any[]> {
     if (!this.db) throw new Error('Database not connected');
+    await this.waitForTransaction();
     
     try {
-      const stmt = this.db.prepare(sql);
-      return stmt.all(...params);
+      const started = performance.now();
+      const rows = this.db.prepare(sql).all(...params);
+      slowQueryLog.record(sql, performance.now() - started);
+      return rows;
     } catch (error) {
       logger.error('SQLite query error:', { sql, params, error });
       throw error;
@@ -44,6 +57,7 @@ export class SqliteAdapter implements DatabaseAdapter {
 
   async execute(sql: string, params: any[] = []): Promise<{ changes: number; lastInsertRowid?: any }> {
     if (!this.db) throw new Error('Database not connected');
+    await this.waitForTransaction();
     
     try {
       const stmt = this.db.prepare(sql);
@@ -58,6 +72,54 @@ export class SqliteAdapter implements DatabaseAdapter {
     }
   }
 
+  async insertMany(tableName: string, columns: string[], rows: any[][]): Promise<number> {
+    if (rows.length === 0) return 0;
+
+    const rowsPerStatement = Math.max(1, Math.floor(MAX_PARAMETERS / columns.length));
+    const rowPlaceholders = `(${columns.map(() => '?').join(', ')})`;
+    let inserted = 0;
+
+    for (let start = 0; start < rows.length; start += rowsPerStatement) {
+      const chunk = rows.slice(start, start + rowsPerStatement);
+      const sql = `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES ${chunk.map(() => rowPlaceholders).join(', ')}`;
+      const result = await this.execute(sql, chunk.flat());
+      inserted += result.changes;
+    }
+
+    return inserted;
+  }
+
+  async upsert(tableName: string, row: Record<string, any>, conflictColumns: string[], updateColumns: string[]): Promise<{ id: string; inserted: boolean }> {
+    const columns = Object.keys(row);
+    const sql = `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})
+      ON CONFLICT (${conflictColumns.join(', ')}) DO UPDATE SET ${updateColumns.map((column) => `${column} = excluded.${column}`).join(', ')}
+      RETURNING id`;
+
+    // SQLite cannot tell an inserted row from an updated one, so look for the conflicting row first
+    return this.transaction(async () => {
+      const existing = await this.query(
+        `SELECT id FROM ${tableName} WHERE ${conflictColumns.map((column) => `${column} = ?`).join(' AND ')}`,
+        conflictColumns.map((column) => row[column])
+      );
+      const result = await this.query(sql, Object.values(row));
+      return { id: result[0].id, inserted: existing.length === 0 };
+    });
+  }
+
+  async getUniqueColumnSets(tableName: string): Promise<string[][]> {
+    const indexes = await this.query(`PRAGMA index_list(${tableName})`);
+    const columnSets: string[][] = [];
+
+    for (const index of indexes) {
+      // Partial indexes only enforce uniqueness for some rows and cannot be used as a conflict target
+      if (index.unique !== 1 || index.partial === 1) continue;
+      const columns = await this.query(`PRAGMA index_info("${index.name}")`);
+      columnSets.push(columns.map((column: any) => column.name));
+    }
+
+    return columnSets;
+  }
+
   async beginTransaction(): Promise<void> {
     if (!this.db) throw new Error('Database not connected');
     this.db.exec('BEGIN TRANSACTION');
@@ -73,6 +135,42 @@ export class SqliteAdapter implements DatabaseAdapter {
     this.db.exec('ROLLBACK');
   }
 
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore()) {
+      return fn();
+    }
+
+    const previous = this.transactionLock;
+    let release!: () => void;
+    this.transactionLock = new Promise((resolve) => { release = resolve; });
+    await previous;
+
+    try {
+      return await this.transactionScope.run(true, async () => {
+        await this.beginTransaction();
+        try {
+          const result = await fn();
+          await this.commit();
+          return result;
+        } catch (error) {
+          await this.rollback();
+          throw error;
+        }
+      });
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Waits for the open transaction, if any, when called from outside of it.
+   */
+  private async waitForTransaction(): Promise<void> {
+    if (!this.transactionScope.getStore()) {
+      await this.transactionLock;
+    }
+  }
+
   async tableExists(tableName: string): Promise<boolean> {
     const result = await this.query(
       `SELECT name FROM sqlite_master WHERE type='table' AND name=?`,
@@ -82,7 +180,8 @@ export class SqliteAdapter implements DatabaseAdapter {
   }
 
   async getTableColumns(tableName: string): Promise<Array<{ name: string; type: string; nullable: boolean }>> {
-    const result = await this.query(`PRAGMA table_info(${tableName})`);
+    // table_xinfo also lists generated columns; hidden columns belong to virtual tables
+    const result = (await this.query(`PRAGMA table_xinfo(${tableName})`)).filter((col: any) => col.hidden !== 1);
     return result.map((col: any) => ({
       name: col.name,
       type: col.type,
@@ -90,8 +189,8 @@ export class SqliteAdapter implements DatabaseAdapter {
     }));
   }
 
-  async createTable(tableName: string, columns: Record<string, string>, foreignKeys: string[] = []): Promise<void> {
-    const columnDefs = Object.entries(columns).map(([name, type]) => `${name} ${type}`);
+  async createTable(tableName: string, columns: Record<string, string | ColumnDefinition>, foreignKeys: string[] = []): Promise<void> {
+    const columnDefs = Object.entries(columns).map(([name, column]) => this.columnDefinition(name, column));
     const allDefs = [...columnDefs, ...foreignKeys];
     const sql = `CREATE TABLE ${tableName} (${allDefs.join(', ')})`;
     
@@ -99,12 +198,191 @@ export class SqliteAdapter implements DatabaseAdapter {
     logger.info(`SQLite table created: ${tableName}`);
   }
 
-  async addColumn(tableName: string, columnName: string, columnType: string): Promise<void> {
-    const sql = `ALTER TABLE ${tableName} ADD COLUMN ${columnName} ${columnType}`;
+  /**
+   * Renders a column of a CREATE TABLE statement, with its constraints.
+   * @param storage How a generated column is stored; `ALTER TABLE ADD COLUMN` only accepts virtual ones.
+   */
+  private columnDefinition(name: string, column: string | ColumnDefinition, storage: 'STORED' | 'VIRTUAL' = 'STORED'): string {
+    if (typeof column === 'string') {
+      return `${name} ${column}`;
+    }
+
+    let sql = `${name} ${column.type}`;
+    if (column.generated) sql += ` GENERATED ALWAYS AS (${column.generated}) ${storage}`;
+    if (column.notNull) sql += ' NOT NULL';
+    if (column.unique) sql += ' UNIQUE';
+    if (column.default !== undefined && column.default !== null && !column.generated) {
+      sql += ` DEFAULT ${this.defaultLiteral(column.default)}`;
+    }
+    for (const check of column.checks ?? []) {
+      sql += ` CHECK (${check})`;
+    }
+    return sql;
+  }
+
+  /**
+   * Renders a default value as a SQL literal.
+   */
+  private defaultLiteral(value: any): string {
+    if (value === 'CURRENT_TIMESTAMP') return value;
+    if (typeof value === 'boolean') return value ? '1' : '0';
+    if (typeof value === 'number') return String(value);
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return `'${text.replace(/'/g, "''")}'`;
+  }
+
+  async addColumn(tableName: string, columnName: string, column: string | ColumnDefinition): Promise<void> {
+    const sql = `ALTER TABLE ${tableName} ADD COLUMN ${this.columnDefinition(columnName, column, 'VIRTUAL')}`;
     await this.execute(sql);
     logger.info(`SQLite column added: ${tableName}.${columnName}`);
   }
 
+  async renameColumn(tableName: string, columnName: string, newName: string): Promise<void> {
+    await this.execute(`ALTER TABLE ${tableName} RENAME COLUMN ${columnName} TO ${newName}`);
+    logger.info(`SQLite column renamed: ${tableName}.${columnName} to ${newName}`);
+  }
+
+  async dropColumn(tableName: string, columnName: string, definition: TableDefinition): Promise<void> {
+    // ALTER TABLE DROP COLUMN refuses columns that are indexed or constrained, so the table is rebuilt instead
+    await this.rebuildTable(tableName, definition, (column) => column);
+    logger.info(`SQLite column dropped: ${tableName}.${columnName}`);
+  }
+
+  async changeColumnType(tableName: string, columnName: string, definition: TableDefinition, values: Map<string, any>): Promise<void> {
+    await this.rebuildTable(
+      tableName,
+      definition,
+      (column) => column === columnName ? `(SELECT value FROM temp.column_values WHERE column_values.id = ${tableName}.id)` : column,
+      async () => {
+        await this.execute('CREATE TEMP TABLE column_values (id TEXT PRIMARY KEY, value)');
+        await this.insertMany('temp.column_values', ['id', 'value'], [...values.entries()]);
+      }
+    );
+    await this.execute('DROP TABLE IF EXISTS temp.column_values');
+    logger.info(`SQLite column type changed: ${tableName}.${columnName}`);
+  }
+
+  async renameTable(tableName: string, newName: string): Promise<void> {
+    await this.execute(`ALTER TABLE ${tableName} RENAME TO ${newName}`);
+    logger.info(`SQLite table renamed: ${tableName} to ${newName}`);
+  }
+
+  async dropTable(tableName: string): Promise<void> {
+    await this.execute(`DROP TABLE ${tableName}`);
+    logger.info(`SQLite table dropped: ${tableName}`);
+  }
+
+  async getIndexes(tableName: string): Promise<IndexDefinition[]> {
+    const indexes = await this.query(`PRAGMA index_list(${tableName})`);
+    const definitions: IndexDefinition[] = [];
+
+    for (const index of indexes) {
+      if (index.origin === 'pk') continue;
+      const columns = await this.query(`PRAGMA index_info("${index.name}")`);
+      const definition: IndexDefinition = { name: index.name, columns: columns.map((column: any) => column.name), unique: index.unique === 1 };
+      if (index.partial === 1) {
+        const [{ sql }] = await this.query(`SELECT sql FROM sqlite_master WHERE type = 'index' AND name = ?`, [index.name]);
+        definition.where = sql.slice(sql.search(/\bWHERE\b/i) + 'WHERE'.length).trim();
+      }
+      definitions.push(definition);
+    }
+
+    return definitions;
+  }
+
+  async createIndex(tableName: string, index: IndexDefinition): Promise<void> {
+    const sql = `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS ${index.name} ON ${tableName} (${index.columns.join(', ')})`;
+    await this.execute(index.where ? `${sql} WHERE ${index.where}` : sql);
+    logger.info(`SQLite index created: ${index.name} on ${tableName}`);
+  }
+
+  async dropIndex(tableName: string, indexName: string): Promise<void> {
+    await this.execute(`DROP INDEX IF EXISTS ${indexName}`);
+    logger.info(`SQLite index dropped: ${indexName} on ${tableName}`);
+  }
+
+  async syncSearchIndex(tableName: string, columns: string[]): Promise<void> {
+    // An FTS5 table using the table as external content: only the index is stored, and triggers keep it up to date
+    const index = searchIndexName(tableName);
+    const indexed = (await this.query(`PRAGMA table_info(${index})`)).map((column: any) => column.name);
+    if (indexed.join(',') === columns.join(',')) return;
+
+    await this.transaction(async () => {
+      for (const event of ['insert', 'delete', 'update']) {
+        await this.execute(`DROP TRIGGER IF EXISTS ${index}_${event}`);
+      }
+      await this.execute(`DROP TABLE IF EXISTS ${index}`);
+      if (columns.length === 0) return;
+
+      const list = columns.join(', ');
+      const values = (row: string) => columns.map((column) => `${row}.${column}`).join(', ');
+      const remove = `INSERT INTO ${index}(${index}, rowid, ${list}) VALUES ('delete', old.rowid, ${values('old')});`;
+      const add = `INSERT INTO ${index}(rowid, ${list}) VALUES (new.rowid, ${values('new')});`;
+      await this.execute(`CREATE VIRTUAL TABLE ${index} USING fts5(${list}, content='${tableName}', content_rowid='rowid', tokenize='unicode61 remove_diacritics 2')`);
+      await this.execute(`CREATE TRIGGER ${index}_insert AFTER INSERT ON ${tableName} BEGIN ${add} END`);
+      await this.execute(`CREATE TRIGGER ${index}_delete AFTER DELETE ON ${tableName} BEGIN ${remove} END`);
+      await this.execute(`CREATE TRIGGER ${index}_update AFTER UPDATE ON ${tableName} BEGIN ${remove} ${add} END`);
+      await this.execute(`INSERT INTO ${index}(${index}) VALUES ('rebuild')`);
+    });
+    logger.info(`SQLite search index synced: ${tableName} (${columns.join(', ') || 'none'})`);
+  }
+
+  /**
+   * Rebuilds a table with a new definition, since SQLite cannot alter column types or constraints:
+   * creates the new table, copies the rows, drops the old table and renames the new one in its place.
+   * Foreign keys are disabled during the rebuild so that dropping the old table does not cascade to other tables,
+   * and checked before committing. Indexes that still apply to the new table are recreated.
+   * Must not be called from within a transaction, where foreign keys cannot be disabled.
+   * @param tableName The table to rebuild.
+   * @param definition The new definition of the table.
+   * @param source Maps a column of the new table to the SQL expression selecting its value from the old table.
+   * @param prepare Runs inside the transaction before the rows are copied.
+   */
+  private async rebuildTable(tableName: string, definition: TableDefinition, source: (column: string) => string, prepare?: () => Promise<void>): Promise<void> {
+    if (!this.db) throw new Error('Database not connected');
+    const rebuiltName = `${tableName}__rebuild`;
+
+    await this.waitForTransaction();
+    this.db.exec('PRAGMA foreign_keys = OFF');
+    try {
+      await this.transaction(async () => {
+        const existingColumns = new Set((await this.getTableColumns(tableName)).map((column) => column.name));
+        const indexes = await this.query(
+          `SELECT name, sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL`,
+          [tableName]
+        );
+        // Generated columns are computed again by the new table
+        const copiedColumns = Object.entries(definition.columns)
+          .filter(([column, type]) => existingColumns.has(column) && (typeof type === 'string' || !type.generated))
+          .map(([column]) => column);
+
+        await prepare?.();
+        await this.createTable(rebuiltName, definition.columns, definition.foreignKeys);
+        await this.execute(
+          `INSERT INTO ${rebuiltName} (${copiedColumns.join(', ')}) SELECT ${copiedColumns.map(source).join(', ')} FROM ${tableName}`
+        );
+        await this.execute(`DROP TABLE ${tableName}`);
+        await this.execute(`ALTER TABLE ${rebuiltName} RENAME TO ${tableName}`);
+
+        for (const index of indexes) {
+          try {
+            await this.execute(index.sql);
+          } catch (error) {
+            // The index covers a column that no longer exists
+            logger.warn({ error, tableName, index: index.name }, 'Index dropped by table rebuild');
+          }
+        }
+
+        const violations = await this.query(`PRAGMA foreign_key_check(${tableName})`);
+        if (violations.length > 0) {
+          throw new Error(`${violations.length} row(s) of ${tableName} violate a foreign key`);
+        }
+      });
+    } finally {
+      this.db.exec('PRAGMA foreign_keys = ON');
+    }
+  }
+
   getType(): 'sqlite' | 'postgresql' {
     return 'sqlite';
   }
@@ -137,9 +415,15 @@ export class SqliteAdapter implements DatabaseAdapter {
   }
 
   async getAllTables(): Promise<string[]> {
+    // Search indexes are virtual tables, stored in shadow tables named after them
     const result = await this.query(`
       SELECT name FROM sqlite_master 
       WHERE type='table' AND name NOT LIKE 'sqlite_%'
+      AND NOT EXISTS (
+        SELECT 1 FROM sqlite_master search
+        WHERE search.type = 'table' AND search.sql LIKE 'CREATE VIRTUAL TABLE%'
+        AND (sqlite_master.name = search.name OR sqlite_master.name LIKE search.name || '\\_%' ESCAPE '\\')
+      )
     `);
     return result.map((row: any) => row.name);
   }
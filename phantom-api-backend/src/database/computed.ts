@@ -0,0 +1,354 @@
+import { AppError } from '../middleware/errorHandler';
+import { SqlDialect } from './query-builder';
+
+/**
+ * A parsed computed field expression:
+ * - `field`: the value of a field;
+ * - `literal`: a number or a string;
+ * - `binary` and `negate`: arithmetic, where a null operand or a division by zero gives null;
+ * - `call`: `concat(...)`, which joins its arguments as text (null as an empty string), or a date part
+ *   (`year`, `month`, `day`, `hour` or `minute`) of a date or datetime, in UTC.
+ */
+export type Expression =
+  | { kind: 'field'; name: string }
+  | { kind: 'literal'; value: string | number }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/'; left: Expression; right: Expression }
+  | { kind: 'negate'; operand: Expression }
+  | { kind: 'call'; fn: ExpressionFunction; args: Expression[] };
+
+type ExpressionFunction = 'concat' | DatePart;
+type DatePart = 'year' | 'month' | 'day' | 'hour' | 'minute';
+
+/**
+ * A computed field, as declared in a schema: `{ "type": "string", "computed": "concat(firstName, ' ', lastName)" }`.
+ * Stored fields are generated columns, computed by the database on write; `virtual: true` fields have no column
+ * and are computed on read.
+ */
+export interface ComputedField {
+  expression: Expression;
+  /** The fields the expression reads, in order of appearance. */
+  fields: string[];
+  virtual: boolean;
+}
+
+/** Field types a computed field can have. */
+export const COMPUTED_TYPES = ['string', 'text', 'integer', 'number', 'decimal'];
+
+const DATE_PARTS: Record<DatePart, { sqlite: string; postgresql: string }> = {
+  year: { sqlite: '%Y', postgresql: 'YEAR' },
+  month: { sqlite: '%m', postgresql: 'MONTH' },
+  day: { sqlite: '%d', postgresql: 'DAY' },
+  hour: { sqlite: '%H', postgresql: 'HOUR' },
+  minute: { sqlite: '%M', postgresql: 'MINUTE' }
+};
+
+/** Keeps expressions from growing into costly queries. */
+const MAX_EXPRESSION_LENGTH = 1000;
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d+)?)|'((?:[^']|'')*)'|([A-Za-z_][A-Za-z0-9_]*)|([-+*/(),]))/y;
+
+type Token =
+  | { kind: 'number'; value: number; start: number; end: number }
+  | { kind: 'string'; value: string; start: number; end: number }
+  | { kind: 'identifier'; value: string; start: number; end: number }
+  | { kind: 'symbol'; value: string; start: number; end: number };
+
+/**
+ * Splits an expression into tokens.
+ * @throws {Error} If the expression contains an unexpected character.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (source.slice(TOKEN_PATTERN.lastIndex).trim() !== '') {
+    const position = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) {
+      throw new Error(`unexpected character '${source.slice(position).trim()[0]}'`);
+    }
+    const start = match.index + match[0].length - match[0].trimStart().length;
+    const end = TOKEN_PATTERN.lastIndex;
+    if (match[1] !== undefined) tokens.push({ kind: 'number', value: Number(match[1]), start, end });
+    else if (match[2] !== undefined) tokens.push({ kind: 'string', value: match[2].replace(/''/g, "'"), start, end });
+    else if (match[3] !== undefined) tokens.push({ kind: 'identifier', value: match[3], start, end });
+    else tokens.push({ kind: 'symbol', value: match[4], start, end });
+  }
+  return tokens;
+}
+
+/**
+ * Parses an expression by recursive descent:
+ * `expression := term (('+' | '-') term)*`, `term := unary (('*' | '/') unary)*`,
+ * `unary := '-' unary | number | string | name | name '(' arguments ')' | '(' expression ')'`.
+ * @throws {Error} If the expression is malformed.
+ */
+function parse(source: string): Expression {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = (value: string) => tokens[position]?.kind === 'symbol' && tokens[position].value === value;
+  const expect = (value: string) => {
+    if (!peek(value)) throw new Error(`expected '${value}'`);
+    position++;
+  };
+
+  const expression = (): Expression => {
+    let left = term();
+    while (peek('+') || peek('-')) {
+      const operator = tokens[position++].value as '+' | '-';
+      left = { kind: 'binary', operator, left, right: term() };
+    }
+    return left;
+  };
+
+  const term = (): Expression => {
+    let left = unary();
+    while (peek('*') || peek('/')) {
+      const operator = tokens[position++].value as '*' | '/';
+      left = { kind: 'binary', operator, left, right: unary() };
+    }
+    return left;
+  };
+
+  const unary = (): Expression => {
+    const token = tokens[position++];
+    if (!token) throw new Error('unexpected end of expression');
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'identifier': {
+        if (!peek('(')) return { kind: 'field', name: token.value };
+        position++;
+        const fn = token.value.toLowerCase();
+        if (fn !== 'concat' && !(fn in DATE_PARTS)) {
+          throw new Error(`unknown function '${token.value}'`);
+        }
+        const args: Expression[] = [];
+        if (!peek(')')) {
+          args.push(expression());
+          while (peek(',')) {
+            position++;
+            args.push(expression());
+          }
+        }
+        expect(')');
+        if (fn === 'concat' ? args.length === 0 : args.length !== 1) {
+          throw new Error(`${fn}() expects ${fn === 'concat' ? 'at least one argument' : 'one argument'}`);
+        }
+        return { kind: 'call', fn: fn as ExpressionFunction, args };
+      }
+      case 'symbol':
+        if (token.value === '-') return { kind: 'negate', operand: unary() };
+        if (token.value === '(') {
+          const inner = expression();
+          expect(')');
+          return inner;
+        }
+        throw new Error(`unexpected '${token.value}'`);
+    }
+  };
+
+  const parsed = expression();
+  if (position < tokens.length) {
+    throw new Error(`unexpected '${tokens[position].value}'`);
+  }
+  return parsed;
+}
+
+/**
+ * Lists the fields an expression reads, in order of appearance.
+ */
+function expressionFields(expression: Expression, fields = new Set<string>()): Set<string> {
+  switch (expression.kind) {
+    case 'field':
+      fields.add(expression.name);
+      break;
+    case 'binary':
+      expressionFields(expression.left, fields);
+      expressionFields(expression.right, fields);
+      break;
+    case 'negate':
+      expressionFields(expression.operand, fields);
+      break;
+    case 'call':
+      expression.args.forEach((arg) => expressionFields(arg, fields));
+      break;
+  }
+  return fields;
+}
+
+/** Parsed computed fields, by field definition; definitions are replaced rather than modified when a schema changes. */
+const parsedFields = new WeakMap<object, ComputedField>();
+
+/**
+ * Tells whether a field definition declares a computed field.
+ */
+export function isComputedField(field: Record<string, any> | undefined): boolean {
+  return field?.computed !== undefined && field.computed !== null;
+}
+
+/**
+ * Tells whether a field definition declares a virtual computed field, which has no column.
+ */
+export function isVirtualField(field: Record<string, any> | undefined): boolean {
+  return isComputedField(field) && field!.virtual === true;
+}
+
+/**
+ * Reads and parses the expression of a computed field. Parsed fields are cached by definition.
+ * @param name The name of the field, for error messages.
+ * @param field The field definition.
+ * @returns The parsed field.
+ * @throws {AppError} With status 400 if the field type cannot be computed or its expression is malformed.
+ */
+export function computedField(name: string, field: Record<string, any>): ComputedField {
+  const cached = parsedFields.get(field);
+  if (cached) return cached;
+
+  if (!COMPUTED_TYPES.includes(field.type)) {
+    throw new AppError(`Computed field '${name}' must have one of the types: ${COMPUTED_TYPES.join(', ')}`, 400);
+  }
+  if (typeof field.computed !== 'string' || field.computed.trim() === '' || field.computed.length > MAX_EXPRESSION_LENGTH) {
+    throw new AppError(`Computed field '${name}' must have an expression of at most ${MAX_EXPRESSION_LENGTH} characters`, 400);
+  }
+
+  let expression: Expression;
+  try {
+    expression = parse(field.computed);
+  } catch (error) {
+    throw new AppError(`Invalid expression for computed field '${name}': ${(error as Error).message}`, 400);
+  }
+
+  const parsed = { expression, fields: [...expressionFields(expression)], virtual: field.virtual === true };
+  parsedFields.set(field, parsed);
+  return parsed;
+}
+
+/**
+ * Compiles an expression to SQL. The SQL of stored fields must be deterministic, which PostgreSQL enforces:
+ * date parts read `TIMESTAMP` columns, and concatenated values cannot be dates.
+ * @param expression The parsed expression.
+ * @param column Maps a field of the expression to its column.
+ * @param dialect The SQL dialect.
+ * @returns The SQL expression, parenthesized.
+ */
+export function compileExpression(expression: Expression, column: (field: string) => string, dialect: SqlDialect): string {
+  const compile = (node: Expression): string => {
+    switch (node.kind) {
+      case 'field':
+        return column(node.name);
+      case 'literal':
+        return typeof node.value === 'number' ? String(node.value) : `'${node.value.replace(/'/g, "''")}'`;
+      case 'negate':
+        return `(-${compile(node.operand)})`;
+      case 'binary':
+        if (node.operator === '/') {
+          // Integer operands would otherwise be divided as integers, and PostgreSQL raises errors on a zero divisor
+          return `(CAST(${compile(node.left)} AS ${dialect === 'postgresql' ? 'DOUBLE PRECISION' : 'REAL'}) / NULLIF(${compile(node.right)}, 0))`;
+        }
+        return `(${compile(node.left)} ${node.operator} ${compile(node.right)})`;
+      case 'call':
+        if (node.fn === 'concat') {
+          return `(${node.args.map((arg) => `COALESCE(CAST(${compile(arg)} AS TEXT), '')`).join(' || ')})`;
+        }
+        return dialect === 'postgresql'
+          ? `CAST(EXTRACT(${DATE_PARTS[node.fn].postgresql} FROM ${compile(node.args[0])}) AS INTEGER)`
+          : `CAST(strftime('${DATE_PARTS[node.fn].sqlite}', ${compile(node.args[0])}) AS INTEGER)`;
+    }
+  };
+  return `(${compile(expression)})`;
+}
+
+/**
+ * Reads a date or datetime value as a date whose UTC fields are the date parts the database would extract.
+ * Strings without a time zone are taken as UTC, as SQLite does, and dates from the PostgreSQL driver as local times.
+ */
+function toDate(value: any): Date | null {
+  if (value instanceof Date) {
+    return new Date(value.getTime() - value.getTimezoneOffset() * 60_000);
+  }
+  if (typeof value !== 'string') return null;
+
+  let text = value.trim().replace(' ', 'T');
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) text += 'T00:00:00Z';
+  else if (/^\d{4}-\d{2}-\d{2}T[\d:.]+$/.test(text)) text += 'Z';
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Evaluates an expression against a record, with the semantics of its SQL.
+ * @param expression The parsed expression.
+ * @param value Reads the value of a field of the expression.
+ * @returns The computed value, or null.
+ */
+export function evaluateExpression(expression: Expression, value: (field: string) => any): any {
+  const evaluate = (node: Expression): any => {
+    switch (node.kind) {
+      case 'field':
+        return value(node.name) ?? null;
+      case 'literal':
+        return node.value;
+      case 'negate': {
+        const operand = evaluate(node.operand);
+        return operand === null ? null : -Number(operand);
+      }
+      case 'binary': {
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        if (left === null || right === null) return null;
+        const [a, b] = [Number(left), Number(right)];
+        if (Number.isNaN(a) || Number.isNaN(b)) return null;
+        switch (node.operator) {
+          case '+': return a + b;
+          case '-': return a - b;
+          case '*': return a * b;
+          case '/': return b === 0 ? null : a / b;
+        }
+      }
+      case 'call': {
+        if (node.fn === 'concat') {
+          return node.args.map((arg) => {
+            const part = evaluate(arg);
+            return part === null ? '' : part instanceof Date ? part.toISOString() : String(part);
+          }).join('');
+        }
+        const date = toDate(evaluate(node.args[0]));
+        if (!date) return null;
+        switch (node.fn) {
+          case 'year': return date.getUTCFullYear();
+          case 'month': return date.getUTCMonth() + 1;
+          case 'day': return date.getUTCDate();
+          case 'hour': return date.getUTCHours();
+          case 'minute': return date.getUTCMinutes();
+        }
+      }
+    }
+  };
+  return evaluate(expression);
+}
+
+/**
+ * Renames a field in the source of an expression, keeping the rest of it as written.
+ * @param source The expression.
+ * @param field The current name of the field.
+ * @param newName The new name of the field.
+ * @returns The updated expression.
+ */
+export function renameExpressionField(source: string, field: string, newName: string): string {
+  const tokens = tokenize(source);
+  let renamed = source;
+  // Replacing from the end keeps the positions of the earlier tokens valid
+  for (let index = tokens.length - 1; index >= 0; index--) {
+    const token = tokens[index];
+    const next = tokens[index + 1];
+    const isCall = next?.kind === 'symbol' && next.value === '(';
+    if (token.kind === 'identifier' && token.value === field && !isCall) {
+      renamed = renamed.slice(0, token.start) + newName + renamed.slice(token.end);
+    }
+  }
+  return renamed;
+}
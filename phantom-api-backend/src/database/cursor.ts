@@ -0,0 +1,66 @@
+import { AppError } from '../middleware/errorHandler';
+import { SortField } from './query-builder';
+
+/**
+ * Position of a row in a keyset-paginated listing.
+ * Cursors are opaque to clients: base64url-encoded JSON tied to the sort they were issued for.
+ */
+export interface CursorPosition {
+  /** Direction to page in from this position. */
+  direction: 'next' | 'prev';
+  /** Values of the sort columns (ending with `id`) at this position. */
+  values: any[];
+}
+
+interface CursorPayload {
+  s: string;
+  d: 'n' | 'p';
+  v: any[];
+}
+
+/**
+ * Serializes sort fields so a cursor can be checked against the sort of a later request.
+ */
+function sortSignature(fields: SortField[]): string {
+  return fields.map((field) => `${field.column}:${field.direction}`).join(',');
+}
+
+/**
+ * Encodes a cursor for the given sort and position.
+ * @param fields The sort fields the listing uses, including the `id` tiebreaker.
+ * @param position The row position to encode.
+ * @returns The opaque cursor string.
+ */
+export function encodeCursor(fields: SortField[], position: CursorPosition): string {
+  const payload: CursorPayload = {
+    s: sortSignature(fields),
+    d: position.direction === 'next' ? 'n' : 'p',
+    v: position.values
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor and checks it was issued for the given sort.
+ * @param cursor The opaque cursor string.
+ * @param fields The sort fields of the current request, including the `id` tiebreaker.
+ * @returns The decoded position.
+ * @throws {AppError} With status 400 if the cursor is malformed or was issued for a different sort.
+ */
+export function decodeCursor(cursor: string, fields: SortField[]): CursorPosition {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new AppError('Invalid cursor', 400);
+  }
+
+  if (!payload || !Array.isArray(payload.v) || payload.v.length !== fields.length || (payload.d !== 'n' && payload.d !== 'p')) {
+    throw new AppError('Invalid cursor', 400);
+  }
+  if (payload.s !== sortSignature(fields)) {
+    throw new AppError('Cursor does not match the requested sort order', 400);
+  }
+
+  return { direction: payload.d === 'n' ? 'next' : 'prev', values: payload.v };
+}
@@ -2,6 +2,7 @@ import { logger } from '../logger';
 import { databaseFactory } from './factory';
 import { SqliteAdapter } from './adapters/sqlite';
 import { PostgresqlAdapter } from './adapters/postgresql';
+import { foreignKeyConstraint } from './on-delete';
 import { metaManager } from '../storage/meta-manager';
 import { pathManager } from '../storage/path-manager';
 import path from 'path';
@@ -162,7 +163,10 @@ export class DatabaseMigration {
       if (key === 'id') continue;
       const typedField = field as { type: string; target?: string; onDelete?: string };
       
-      if (typedField.type === 'relation') {
+      if (typedField.type === 'hasMany' || typedField.type === 'manyToMany') {
+        // Stored in the target table or in a join table
+        continue;
+      } else if (typedField.type === 'relation') {
         columns[`${key}Id`] = pgAdapter.mapColumnType('string');
       } else {
         columns[key] = pgAdapter.mapColumnType(typedField.type);
@@ -184,10 +188,7 @@ export class DatabaseMigration {
     for (const [key, field] of Object.entries(schema.fields)) {
       const typedField = field as { type: string; target?: string; onDelete?: string };
       if (typedField.type === 'relation') {
-        const onDelete = typedField.onDelete?.toUpperCase() || 'SET NULL';
-        foreignKeys.push(
-          `FOREIGN KEY(${key}Id) REFERENCES ${typedField.target}(id) ON DELETE ${onDelete}`
-        );
+        foreignKeys.push(foreignKeyConstraint(key, typedField));
       }
     }
 
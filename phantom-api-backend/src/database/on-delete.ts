@@ -0,0 +1,46 @@
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * What happens to the records referencing a deleted record through a `relation` field:
+ * - `cascade`: they are deleted as well;
+ * - `setNull`: their relation is cleared;
+ * - `restrict` and `noAction`: the delete is refused while they exist.
+ */
+export type OnDeleteAction = 'cascade' | 'setNull' | 'restrict' | 'noAction';
+
+const ON_DELETE_SQL: Record<OnDeleteAction, string> = {
+  cascade: 'CASCADE',
+  setNull: 'SET NULL',
+  restrict: 'RESTRICT',
+  noAction: 'NO ACTION'
+};
+
+/**
+ * Reads the `onDelete` behaviour of a relation field, `setNull` by default.
+ * SQL spellings (`CASCADE`, `SET NULL`, `NO ACTION`...) are accepted as well.
+ * @param field The relation field definition.
+ * @returns The behaviour.
+ * @throws {AppError} With status 400 if the behaviour is unknown.
+ */
+export function onDeleteAction(field: { onDelete?: unknown }): OnDeleteAction {
+  if (field.onDelete === undefined || field.onDelete === null) {
+    return 'setNull';
+  }
+  const normalized = String(field.onDelete).replace(/[\s_-]/g, '').toLowerCase();
+  const action = (Object.keys(ON_DELETE_SQL) as OnDeleteAction[]).find((name) => name.toLowerCase() === normalized);
+  if (!action) {
+    throw new AppError(`Invalid onDelete behaviour '${field.onDelete}': expected cascade, setNull, restrict or noAction`, 400);
+  }
+  return action;
+}
+
+/**
+ * Generates the foreign key constraint of a relation field, stored in its `<name>Id` column.
+ * @param name The name of the relation field.
+ * @param field The relation field definition.
+ * @returns The constraint, for `CREATE TABLE`.
+ * @throws {AppError} With status 400 if the `onDelete` behaviour is unknown.
+ */
+export function foreignKeyConstraint(name: string, field: { target?: string; onDelete?: unknown }): string {
+  return `FOREIGN KEY(${name}Id) REFERENCES ${field.target}(id) ON DELETE ${ON_DELETE_SQL[onDeleteAction(field)]}`;
+}
@@ -0,0 +1,607 @@
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Filter grammar shared by findAll, count and every endpoint accepting a `where` parameter.
+ *
+ * A filter is an object whose keys are either column names or logical groups:
+ * - `{ name: 'John' }` is shorthand for `{ name: { eq: 'John' } }`
+ * - `{ age: { gte: 18, lt: 65 } }` combines several operators on one field with AND
+ * - `{ $or: [filter, ...] }`, `{ $and: [filter, ...] }` and `{ $not: filter }` nest freely
+ */
+
+export type SqlDialect = 'sqlite' | 'postgresql';
+
+export interface WhereClause {
+  sql: string;
+  params: any[];
+}
+
+export interface SortField {
+  column: string;
+  direction: 'ASC' | 'DESC';
+}
+
+/**
+ * How to populate one relation field.
+ */
+export interface PopulateOptions {
+  /** Columns of the related records to return; key columns are always included. */
+  select?: string[];
+  /** A filter on the related records, using the `where` grammar. */
+  where?: Record<string, any>;
+  /** Relation fields of the related records to populate in turn. */
+  populate?: PopulateTree;
+}
+
+/**
+ * Relation fields to populate, by name.
+ */
+export type PopulateTree = Record<string, PopulateOptions>;
+
+/**
+ * Aggregate functions of the aggregate endpoint.
+ */
+export const AGGREGATE_FUNCTIONS = ['count', 'sum', 'avg', 'min', 'max', 'countDistinct'] as const;
+
+export type AggregateFunction = typeof AGGREGATE_FUNCTIONS[number];
+
+/**
+ * Units a date can be truncated to when grouping.
+ */
+export const DATE_UNITS = ['day', 'week', 'month'] as const;
+
+export type DateUnit = typeof DATE_UNITS[number];
+
+/**
+ * An aggregate to compute, and the name of its result.
+ */
+export interface Aggregate {
+  fn: AggregateFunction;
+  /** The aggregated field, or null to count rows. */
+  field: string | null;
+  alias: string;
+}
+
+/**
+ * A field to group by, optionally truncated to a date unit.
+ */
+export interface GroupKey {
+  field: string;
+  unit?: DateUnit;
+}
+
+/**
+ * Supported field operators.
+ */
+export const FILTER_OPERATORS = [
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte',
+  'like', 'ilike', 'contains', 'startsWith',
+  'isNull', 'between', 'in', 'nin'
+] as const;
+
+type FilterOperator = typeof FILTER_OPERATORS[number];
+
+const LOGICAL_OPERATORS = ['$or', '$and', '$not'];
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Ensures a column name can be safely interpolated into SQL.
+ * @param name The column name to check.
+ * @returns The column name.
+ * @throws {AppError} If the name is not a plain identifier.
+ */
+export function assertIdentifier(name: string): string {
+  if (!IDENTIFIER_PATTERN.test(name)) {
+    throw new AppError(`Invalid field name: '${name}'`, 400);
+  }
+  return name;
+}
+
+/**
+ * Sanitizes a filter value for use as a bound parameter.
+ * @param value The value to sanitize.
+ * @returns The sanitized value.
+ */
+function toParam(value: any): any {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  if (value !== null && typeof value === 'object' && !Buffer.isBuffer(value)) return JSON.stringify(value);
+  return value;
+}
+
+/**
+ * Escapes LIKE wildcards so user input is matched literally.
+ * @param value The raw search string.
+ * @returns The escaped string, to be used with `ESCAPE '\'`.
+ */
+function escapeLike(value: any): string {
+  return String(value).replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Translates a LIKE pattern into a GLOB pattern, SQLite's case-sensitive matcher.
+ * @param pattern The LIKE pattern, with `%` and `_` wildcards.
+ * @returns The GLOB pattern, with GLOB's own wildcards matched literally.
+ */
+function likeToGlob(pattern: string): string {
+  return pattern.replace(/[%_*?[]/g, (char) => {
+    switch (char) {
+      case '%': return '*';
+      case '_': return '?';
+      default: return `[${char}]`;
+    }
+  });
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Builds the SQL condition for a single operator applied to a column.
+ */
+function buildOperator(column: string, operator: FilterOperator, value: any, dialect: SqlDialect, params: any[]): string {
+  switch (operator) {
+    case 'eq':
+      if (value === null) return `${column} IS NULL`;
+      params.push(toParam(value));
+      return `${column} = ?`;
+    case 'neq':
+      if (value === null) return `${column} IS NOT NULL`;
+      params.push(toParam(value));
+      return `(${column} <> ? OR ${column} IS NULL)`;
+    case 'gt':
+      params.push(toParam(value));
+      return `${column} > ?`;
+    case 'gte':
+      params.push(toParam(value));
+      return `${column} >= ?`;
+    case 'lt':
+      params.push(toParam(value));
+      return `${column} < ?`;
+    case 'lte':
+      params.push(toParam(value));
+      return `${column} <= ?`;
+    // SQLite's LIKE ignores case, so its case-sensitive matches use GLOB and instr instead
+    case 'like':
+      if (dialect === 'postgresql') {
+        params.push(String(value));
+        return `${column} LIKE ?`;
+      }
+      params.push(likeToGlob(String(value)));
+      return `${column} GLOB ?`;
+    case 'ilike':
+      params.push(String(value));
+      return dialect === 'postgresql' ? `${column} ILIKE ?` : `LOWER(${column}) LIKE LOWER(?)`;
+    case 'contains':
+      if (dialect === 'postgresql') {
+        params.push(`%${escapeLike(value)}%`);
+        return `${column} LIKE ? ESCAPE '\\'`;
+      }
+      params.push(String(value));
+      return `instr(${column}, ?) > 0`;
+    case 'startsWith':
+      if (dialect === 'postgresql') {
+        params.push(`${escapeLike(value)}%`);
+        return `${column} LIKE ? ESCAPE '\\'`;
+      }
+      params.push(String(value));
+      return `instr(${column}, ?) = 1`;
+    case 'isNull':
+      if (typeof value !== 'boolean') {
+        throw new AppError(`Operator 'isNull' on '${column}' expects a boolean`, 400);
+      }
+      return value ? `${column} IS NULL` : `${column} IS NOT NULL`;
+    case 'between':
+      if (!Array.isArray(value) || value.length !== 2) {
+        throw new AppError(`Operator 'between' on '${column}' expects an array of two values`, 400);
+      }
+      params.push(toParam(value[0]), toParam(value[1]));
+      return `${column} BETWEEN ? AND ?`;
+    case 'in':
+    case 'nin': {
+      if (!Array.isArray(value)) {
+        throw new AppError(`Operator '${operator}' on '${column}' expects an array`, 400);
+      }
+      // An empty IN list matches nothing, an empty NOT IN list matches everything
+      if (value.length === 0) return operator === 'in' ? '1 = 0' : '1 = 1';
+      params.push(...value.map(toParam));
+      const placeholders = value.map(() => '?').join(', ');
+      return operator === 'in'
+        ? `${column} IN (${placeholders})`
+        : `(${column} NOT IN (${placeholders}) OR ${column} IS NULL)`;
+    }
+  }
+}
+
+/**
+ * Builds the conditions for a single field entry of a filter.
+ */
+function buildField(field: string, value: any, dialect: SqlDialect, params: any[]): string[] {
+  const column = assertIdentifier(field);
+
+  if (Array.isArray(value)) {
+    return [buildOperator(column, 'in', value, dialect, params)];
+  }
+
+  if (!isPlainObject(value)) {
+    return [buildOperator(column, 'eq', value, dialect, params)];
+  }
+
+  const entries = Object.entries(value).filter(([, operand]) => operand !== undefined);
+  if (entries.length === 0) {
+    throw new AppError(`Empty operator object for field '${field}'`, 400);
+  }
+
+  return entries.map(([operator, operand]) => {
+    if (!(FILTER_OPERATORS as readonly string[]).includes(operator)) {
+      throw new AppError(
+        `Unknown filter operator '${operator}' on field '${field}'. Supported operators: ${FILTER_OPERATORS.join(', ')}`,
+        400
+      );
+    }
+    return buildOperator(column, operator as FilterOperator, operand, dialect, params);
+  });
+}
+
+/**
+ * Builds the conditions of a filter object, joined with AND.
+ */
+function buildGroup(where: Record<string, any>, dialect: SqlDialect, params: any[]): string {
+  const clauses: string[] = [];
+
+  for (const [key, value] of Object.entries(where)) {
+    if (value === undefined) continue;
+
+    if (key.startsWith('$')) {
+      if (!LOGICAL_OPERATORS.includes(key)) {
+        throw new AppError(`Unknown logical operator '${key}'. Supported operators: ${LOGICAL_OPERATORS.join(', ')}`, 400);
+      }
+
+      if (key === '$not') {
+        if (!isPlainObject(value)) {
+          throw new AppError(`'$not' expects a filter object`, 400);
+        }
+        const inner = buildGroup(value, dialect, params);
+        if (inner) clauses.push(`NOT (${inner})`);
+        continue;
+      }
+
+      if (!Array.isArray(value) || value.length === 0 || !value.every(isPlainObject)) {
+        throw new AppError(`'${key}' expects a non-empty array of filter objects`, 400);
+      }
+      const parts = value
+        .map((group) => buildGroup(group, dialect, params))
+        .filter(Boolean)
+        .map((part) => `(${part})`);
+      if (parts.length > 0) {
+        clauses.push(parts.join(key === '$or' ? ' OR ' : ' AND '));
+      }
+      continue;
+    }
+
+    clauses.push(...buildField(key, value, dialect, params));
+  }
+
+  if (clauses.length === 1) return clauses[0];
+  return clauses.map((clause) => `(${clause})`).join(' AND ');
+}
+
+/**
+ * Compiles a filter object into a parameterized SQL condition.
+ * @param where The filter object.
+ * @param dialect The SQL dialect of the target database.
+ * @returns The condition (without the WHERE keyword) and its bound parameters. The SQL is empty when the filter has no conditions.
+ * @throws {AppError} With status 400 if the filter uses an unknown operator or malformed values.
+ */
+export function buildWhereClause(where: Record<string, any> | undefined, dialect: SqlDialect): WhereClause {
+  const params: any[] = [];
+  if (!where) return { sql: '', params };
+
+  if (!isPlainObject(where)) {
+    throw new AppError('Filter must be an object', 400);
+  }
+
+  return { sql: buildGroup(where, dialect, params), params };
+}
+
+/**
+ * Builds a SQL condition from a filter object with its values inlined as literals,
+ * for statements that cannot bind parameters, such as the condition of a partial index.
+ * @param where The filter object.
+ * @param dialect The SQL dialect of the target database.
+ * @returns The condition (without the WHERE keyword), empty when the filter has no conditions.
+ * @throws {AppError} With status 400 if the filter uses an unknown operator or malformed values.
+ */
+export function buildInlineCondition(where: Record<string, any>, dialect: SqlDialect): string {
+  const { sql, params } = buildWhereClause(where, dialect);
+  const literal = (value: any) => {
+    if (value === null) return 'NULL';
+    if (typeof value === 'number') return String(value);
+    return `'${String(value).replace(/'/g, "''")}'`;
+  };
+  // Placeholders are the only question marks in the generated SQL
+  let index = 0;
+  return sql.replace(/\?/g, () => literal(params[index++]));
+}
+
+/**
+ * Parses a sort specification into column/direction pairs.
+ * Accepts `name`, `-name`, `name:desc` and `name DESC`, either as an array or as a comma-separated string.
+ * @param sort The sort specification.
+ * @returns The parsed sort fields, in order.
+ * @throws {AppError} With status 400 if a sort entry is malformed.
+ */
+export function parseSort(sort: string | string[] | undefined): SortField[] {
+  if (!sort) return [];
+
+  const entries = (Array.isArray(sort) ? sort : [sort])
+    .flatMap((entry) => String(entry).split(','))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  return entries.map((entry) => {
+    if (entry.startsWith('-')) {
+      return { column: assertIdentifier(entry.slice(1)), direction: 'DESC' };
+    }
+
+    const match = entry.match(/^([^\s:]+)(?:\s*[:\s]\s*(asc|desc))?$/i);
+    if (!match) {
+      throw new AppError(`Invalid sort expression: '${entry}'`, 400);
+    }
+    return {
+      column: assertIdentifier(match[1]),
+      direction: match[2]?.toUpperCase() === 'DESC' ? 'DESC' : 'ASC'
+    };
+  });
+}
+
+/**
+ * Parses a populate specification into a tree of relation fields.
+ * Accepts comma-separated dotted paths (`author.company,tags`), as a string or an array, or an object giving
+ * options per field: `{ tags: { select: 'name,slug', where: { active: true }, populate: 'parent' } }`.
+ * The object form may be given as JSON or with bracket notation (`populate[tags][select]=name`).
+ * @param populate The populate specification.
+ * @returns The relation fields to populate, with their options.
+ * @throws {AppError} With status 400 if the specification is malformed or names an invalid field.
+ */
+export function parsePopulate(populate: unknown): PopulateTree {
+  const tree: PopulateTree = {};
+  if (populate === undefined || populate === null || populate === '') return tree;
+
+  if (typeof populate === 'string' && populate.trim().startsWith('{')) {
+    try {
+      return parsePopulate(JSON.parse(populate));
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('Invalid populate parameter: must be valid JSON', 400);
+    }
+  }
+
+  if (typeof populate === 'string' || Array.isArray(populate)) {
+    const paths = (Array.isArray(populate) ? populate : [populate])
+      .flatMap((entry) => String(entry).split(','))
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+
+    for (const path of paths) {
+      let level = tree;
+      for (const field of path.split('.')) {
+        assertIdentifier(field);
+        level[field] ??= {};
+        level = level[field].populate ??= {};
+      }
+    }
+    return tree;
+  }
+
+  if (!isPlainObject(populate)) {
+    throw new AppError('Invalid populate parameter', 400);
+  }
+
+  for (const [field, options] of Object.entries(populate)) {
+    assertIdentifier(field);
+    // `populate[author]=true` populates the field without options
+    if (!isPlainObject(options)) {
+      tree[field] = {};
+      continue;
+    }
+
+    const { select, where, populate: nested } = options;
+    let filter = where;
+    if (typeof filter === 'string') {
+      try {
+        filter = JSON.parse(filter);
+      } catch {
+        throw new AppError(`Invalid filter for populated field '${field}': must be valid JSON`, 400);
+      }
+    }
+    if (filter !== undefined && !isPlainObject(filter)) {
+      throw new AppError(`Invalid filter for populated field '${field}': must be an object`, 400);
+    }
+
+    tree[field] = {
+      select: select === undefined ? undefined : (Array.isArray(select) ? select : [select])
+        .flatMap((entry) => String(entry).split(','))
+        .map((column) => assertIdentifier(column.trim())),
+      where: filter,
+      populate: nested === undefined ? undefined : parsePopulate(nested)
+    };
+  }
+  return tree;
+}
+
+/**
+ * Renders parsed sort fields as an ORDER BY list.
+ * @param fields The sort fields.
+ * @returns The comma-separated list, without the ORDER BY keyword.
+ */
+export function buildOrderBy(fields: SortField[]): string {
+  return fields.map((field) => `${field.column} ${field.direction}`).join(', ');
+}
+
+/**
+ * Builds the keyset condition selecting rows strictly after a position in the given ordering.
+ * For `a ASC, b DESC` and position (x, y) this yields `(a > ?) OR (a = ? AND b < ?)`.
+ * @param fields The sort fields, ending with a unique column.
+ * @param values The values of the sort fields at the position.
+ * @returns The condition and its bound parameters.
+ */
+export function buildKeysetCondition(fields: SortField[], values: any[]): WhereClause {
+  const params: any[] = [];
+  const branches = fields.map((field, index) => {
+    const parts = fields.slice(0, index).map((previous, previousIndex) => {
+      params.push(toParam(values[previousIndex]));
+      return `${previous.column} = ?`;
+    });
+    params.push(toParam(values[index]));
+    parts.push(`${field.column} ${field.direction === 'ASC' ? '>' : '<'} ?`);
+    return `(${parts.join(' AND ')})`;
+  });
+
+  return { sql: branches.join(' OR '), params };
+}
+
+/**
+ * Splits a list parameter given as a comma-separated string or as an array.
+ */
+function listEntries(value: unknown): string[] {
+  return (Array.isArray(value) ? value : [value])
+    .flatMap((entry) => String(entry).split(','))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parses the aggregates requested by parameters named after their function, each listing fields:
+ * `sum=total,tax&countDistinct=customer`. `count=*` counts rows, and is the default when no aggregate is requested.
+ * Results are named `count` for `count=*`, and `<function>_<field>` otherwise (`sum_total`).
+ * @param query The request parameters.
+ * @returns The aggregates, in function order.
+ * @throws {AppError} With status 400 if a list is empty or names an invalid field.
+ */
+export function parseAggregates(query: Record<string, unknown>): Aggregate[] {
+  const aggregates: Aggregate[] = [];
+  for (const fn of AGGREGATE_FUNCTIONS) {
+    if (query[fn] === undefined) continue;
+
+    const fields = listEntries(query[fn]);
+    if (fields.length === 0) {
+      throw new AppError(`Aggregate '${fn}' expects a list of fields`, 400);
+    }
+    for (const field of fields) {
+      if (field === '*' && fn !== 'count') {
+        throw new AppError(`Aggregate '${fn}' expects field names`, 400);
+      }
+      aggregates.push(field === '*'
+        ? { fn, field: null, alias: 'count' }
+        : { fn, field: assertIdentifier(field), alias: `${fn}_${field}` });
+    }
+  }
+  return aggregates.length > 0 ? aggregates : [{ fn: 'count', field: null, alias: 'count' }];
+}
+
+/**
+ * Parses a group-by specification: fields, each optionally truncated to a date unit (`status,created_at:month`).
+ * @param groupBy The specification, as a comma-separated string or an array.
+ * @returns The group keys, in order.
+ * @throws {AppError} With status 400 if a field or unit is invalid.
+ */
+export function parseGroupBy(groupBy: unknown): GroupKey[] {
+  if (groupBy === undefined || groupBy === '') return [];
+
+  return listEntries(groupBy).map((entry) => {
+    const [field, unit] = entry.split(':');
+    if (unit !== undefined && !(DATE_UNITS as readonly string[]).includes(unit)) {
+      throw new AppError(`Invalid date unit '${unit}': expected ${DATE_UNITS.join(', ')}`, 400);
+    }
+    return unit ? { field: assertIdentifier(field), unit: unit as DateUnit } : { field: assertIdentifier(field) };
+  });
+}
+
+/**
+ * Renders an aggregate as an SQL expression.
+ * @param aggregate The aggregate.
+ * @param column The column of the aggregated field, or null to count rows.
+ * @returns The expression.
+ */
+export function buildAggregate(aggregate: Aggregate, column: string | null): string {
+  switch (aggregate.fn) {
+    case 'count':
+      return column ? `COUNT(${column})` : 'COUNT(*)';
+    case 'countDistinct':
+      return `COUNT(DISTINCT ${column})`;
+    default:
+      return `${aggregate.fn.toUpperCase()}(${column})`;
+  }
+}
+
+/**
+ * Renders the truncation of a date column to a unit, as a `YYYY-MM-DD` string: the day itself,
+ * the Monday of its week, or the first day of its month.
+ * @param column The date column.
+ * @param unit The unit to truncate to.
+ * @param dialect The SQL dialect of the target database.
+ * @returns The expression.
+ */
+export function buildDateTruncation(column: string, unit: DateUnit, dialect: SqlDialect): string {
+  if (dialect === 'postgresql') {
+    return `TO_CHAR(DATE_TRUNC('${unit}', CAST(${column} AS TIMESTAMP)), 'YYYY-MM-DD')`;
+  }
+  switch (unit) {
+    case 'day':
+      return `strftime('%Y-%m-%d', ${column})`;
+    case 'week':
+      // Moves to the following Sunday (or stays on it), then back to its Monday
+      return `date(${column}, 'weekday 0', '-6 days')`;
+    case 'month':
+      return `strftime('%Y-%m-01', ${column})`;
+  }
+}
+
+/** The generated `tsvector` column holding the search document of a PostgreSQL table. */
+export const SEARCH_VECTOR_COLUMN = 'search_vector';
+
+/**
+ * Returns the name of the full-text search index of a table: an FTS5 table on SQLite, a GIN index on PostgreSQL.
+ */
+export function searchIndexName(tableName: string): string {
+  return `${tableName}_search`;
+}
+
+/**
+ * Builds a full-text query from search text: every word must match the start of an indexed word.
+ * Punctuation is dropped, so the text cannot use (or break) the query syntax of the database.
+ * @param text The search text.
+ * @param dialect The SQL dialect of the target database.
+ * @returns The query, or null if the text has no words.
+ */
+export function buildSearchQuery(text: string, dialect: SqlDialect): string | null {
+  const terms = text.match(/[\p{L}\p{N}_]+/gu);
+  if (!terms) return null;
+  return dialect === 'postgresql'
+    ? terms.map((term) => `${term.toLowerCase()}:*`).join(' & ')
+    : terms.map((term) => `"${term}"*`).join(' ');
+}
+
+/**
+ * Renders the records of a table matching a full-text query (its only parameter), with their `_rank` (higher is
+ * better) and a `_snippet` of their text where the matched words are wrapped in `<mark>` tags.
+ * @param tableName The name of the table.
+ * @param columns The indexed columns.
+ * @param dialect The SQL dialect of the target database.
+ * @returns The query.
+ */
+export function buildSearchSource(tableName: string, columns: string[], dialect: SqlDialect): string {
+  if (dialect === 'postgresql') {
+    const document = columns.map((column) => `coalesce(${column}, '')`).join(` || ' ' || `);
+    return `SELECT ${tableName}.*, ts_rank(${SEARCH_VECTOR_COLUMN}, search_query) AS _rank, `
+      + `ts_headline('simple', ${document}, search_query, 'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8') AS _snippet `
+      + `FROM ${tableName}, to_tsquery('simple', ?) search_query WHERE ${SEARCH_VECTOR_COLUMN} @@ search_query`;
+  }
+  const index = searchIndexName(tableName);
+  // bm25() is lower for better matches
+  return `SELECT ${tableName}.*, -bm25(${index}) AS _rank, snippet(${index}, -1, '<mark>', '</mark>', '…', 12) AS _snippet `
+    + `FROM ${index} JOIN ${tableName} ON ${tableName}.rowid = ${index}.rowid WHERE ${index} MATCH ?`;
+}
@@ -0,0 +1,93 @@
+import { logger } from '../logger';
+
+/**
+ * A query that ran slower than the slow query threshold, with its statistics since it was first seen.
+ */
+export interface SlowQuery {
+  /** The SQL of the query, with its parameters as placeholders. */
+  sql: string;
+  /** The number of slow runs. */
+  count: number;
+  averageMs: number;
+  maxMs: number;
+  /** When the query last ran slowly, as an ISO 8601 timestamp. */
+  lastSeenAt: string;
+}
+
+/** The number of distinct slow queries kept; the least recently seen are dropped first. */
+const MAX_QUERIES = 100;
+
+/**
+ * Keeps the queries that ran slower than a threshold, grouped by SQL, to find the filters that lack an index.
+ * The log is kept in memory and starts empty with the server.
+ */
+class SlowQueryLog {
+  private queries = new Map<string, { sql: string; count: number; totalMs: number; maxMs: number; lastSeenAt: string }>();
+
+  /** Queries that take at least this many milliseconds are logged (`SLOW_QUERY_MS`, default: 200). */
+  thresholdMs = Number(process.env.SLOW_QUERY_MS ?? 200);
+
+  /**
+   * Records a run of a query, if it was slow.
+   * @param sql The SQL of the query.
+   * @param durationMs How long the query took.
+   */
+  record(sql: string, durationMs: number) {
+    if (durationMs < this.thresholdMs) return;
+
+    const normalized = sql.replace(/\s+/g, ' ').trim();
+    const entry = this.queries.get(normalized) ?? { sql: normalized, count: 0, totalMs: 0, maxMs: 0, lastSeenAt: '' };
+    entry.count++;
+    entry.totalMs += durationMs;
+    entry.maxMs = Math.max(entry.maxMs, durationMs);
+    entry.lastSeenAt = new Date().toISOString();
+
+    // Re-inserting keeps the map ordered from the least to the most recently seen query
+    this.queries.delete(normalized);
+    this.queries.set(normalized, entry);
+    if (this.queries.size > MAX_QUERIES) {
+      this.queries.delete(this.queries.keys().next().value!);
+    }
+
+    logger.warn({ sql: normalized, durationMs: Math.round(durationMs) }, 'Slow query');
+  }
+
+  /**
+   * Lists the slow queries, most recently seen first.
+   */
+  list(): SlowQuery[] {
+    return [...this.queries.values()].reverse().map(({ totalMs, ...entry }) => ({
+      ...entry,
+      averageMs: Math.round(totalMs / entry.count),
+      maxMs: Math.round(entry.maxMs)
+    }));
+  }
+
+  /**
+   * Empties the log.
+   */
+  clear() {
+    this.queries.clear();
+  }
+}
+
+export const slowQueryLog = new SlowQueryLog();
+
+/**
+ * Finds the columns a query filters a table on, from its first `FROM <table>` and the conditions that follow.
+ * Column names are not resolved, so the caller should check them against the columns of the table.
+ * @param sql The SQL of the query.
+ * @returns The table and the filtered columns, in order of appearance, or null if the query filters no table.
+ */
+export function filteredColumns(sql: string): { table: string; columns: string[] } | null {
+  const from = /\bFROM\s+([A-Za-z_][A-Za-z0-9_]*)\b(.*)$/is.exec(sql);
+  const where = from && /\bWHERE\b(.*?)(?:\bGROUP BY\b|\bORDER BY\b|\bLIMIT\b|$)/is.exec(from[2]);
+  if (!from || !where) return null;
+
+  const columns = new Set<string>();
+  const condition = /(?:LOWER\()?\b([A-Za-z_][A-Za-z0-9_]*)\)?\s*(?:=|<>|<=|>=|<|>|\bNOT IN\b|\bIN\b|\bLIKE\b|\bBETWEEN\b|\bIS\b)/gi;
+  for (const match of where[1].matchAll(condition)) {
+    columns.add(match[1]);
+  }
+  return columns.size > 0 ? { table: from[1], columns: [...columns] } : null;
+}
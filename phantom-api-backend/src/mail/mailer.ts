@@ -0,0 +1,122 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { pathManager } from '../storage/path-manager';
+import { logger } from '../logger';
+import { renderTemplate } from './templates';
+import { SmtpTransport } from './smtp-transport';
+import { formatMessage, type MailMessage, type MailTransport, type OutgoingMail } from './message';
+
+/**
+ * Writes emails to the log instead of sending them. Meant for development: reset links end up in the log.
+ */
+export class ConsoleTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(mail: OutgoingMail): Promise<void> {
+    logger.info({ from: mail.from, to: mail.to, subject: mail.subject, text: mail.text }, 'Email (console transport)');
+  }
+}
+
+/**
+ * Drops each email as an `.eml` file in a directory, to read them offline or from tests.
+ */
+export class FileTransport implements MailTransport {
+  readonly name = 'file';
+
+  /**
+   * @param directory The directory to write the emails to, created if needed.
+   */
+  constructor(readonly directory: string) {}
+
+  async send(mail: OutgoingMail): Promise<void> {
+    mkdirSync(this.directory, { recursive: true });
+    const file = path.join(this.directory, `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`);
+    writeFileSync(file, formatMessage(mail), 'utf8');
+    logger.info({ to: mail.to, subject: mail.subject, file }, 'Email written to file');
+  }
+}
+
+/**
+ * Creates the transport configured by the environment:
+ * - `MAIL_TRANSPORT=smtp` sends through `SMTP_HOST`; it is the default when `SMTP_HOST` is set;
+ * - `MAIL_TRANSPORT=file` writes `.eml` files to `MAIL_DIR` (default: `mail` in the data directory);
+ * - `MAIL_TRANSPORT=console` logs the emails; it is the default otherwise.
+ * @throws {Error} If the transport is unknown or SMTP is chosen without `SMTP_HOST`.
+ */
+export function createTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const name = env.MAIL_TRANSPORT || (env.SMTP_HOST ? 'smtp' : 'console');
+
+  switch (name) {
+    case 'console':
+      return new ConsoleTransport();
+    case 'file':
+      return new FileTransport(env.MAIL_DIR || path.join(pathManager.getDataDirectory(), 'mail'));
+    case 'smtp': {
+      if (!env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is required by the smtp mail transport');
+      }
+      const secure = env.SMTP_SECURE === 'true';
+      return new SmtpTransport({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT || (secure ? 465 : 587)),
+        secure,
+        requireTLS: env.SMTP_REQUIRE_TLS === 'true',
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD
+      });
+    }
+    default:
+      throw new Error(`Unknown mail transport '${name}': expected smtp, file or console`);
+  }
+}
+
+/**
+ * Sends emails through a transport, from `MAIL_FROM`.
+ * The transport is created from the environment on first use, unless one was set.
+ */
+class Mailer {
+  private transport: MailTransport | null = null;
+
+  /**
+   * Replaces the transport, e.g. with a `FileTransport` in tests.
+   * @param transport The transport to use, or null to create it again from the environment.
+   */
+  setTransport(transport: MailTransport | null) {
+    this.transport = transport;
+  }
+
+  /**
+   * Gets the transport in use.
+   */
+  getTransport(): MailTransport {
+    if (!this.transport) {
+      this.transport = createTransport();
+      logger.info({ transport: this.transport.name }, 'Mail transport created');
+    }
+    return this.transport;
+  }
+
+  /**
+   * Sends an email.
+   * @param message The email.
+   * @throws An error if the transport fails to deliver it.
+   */
+  async send(message: MailMessage): Promise<void> {
+    const from = process.env.MAIL_FROM || 'Phantom API <no-reply@localhost>';
+    await this.getTransport().send({ ...message, from });
+  }
+
+  /**
+   * Renders a template and sends it.
+   * @param to The recipient.
+   * @param template The name of the template.
+   * @param variables The values of the template variables.
+   * @throws An error if the template is unknown or the transport fails to deliver the email.
+   */
+  async sendTemplate(to: string, template: string, variables: Record<string, string>): Promise<void> {
+    await this.send({ to, ...renderTemplate(template, variables) });
+  }
+}
+
+export const mailer = new Mailer();
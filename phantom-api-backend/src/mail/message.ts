@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import os from 'os';
+
+/**
+ * An email to send.
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  /** The plain text body. */
+  text: string;
+  /** The HTML body, sent as an alternative to the plain text body. */
+  html?: string;
+}
+
+/**
+ * An email ready to be delivered, with its sender.
+ */
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+/**
+ * Delivers emails. Transports are chosen with `MAIL_TRANSPORT`.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(mail: OutgoingMail): Promise<void>;
+}
+
+/**
+ * Encodes a header value as an RFC 2047 encoded word if it is not plain ASCII.
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Formats an email as an RFC 5322 message, with a multipart/alternative body when it has an HTML part.
+ * Bodies are sent as 8-bit UTF-8 with CRLF line endings.
+ * @param mail The email.
+ * @returns The message, headers included.
+ */
+export function formatMessage(mail: OutgoingMail): string {
+  const crlf = (body: string) => body.replace(/\r?\n/g, '\r\n');
+  const domain = /@([^>\s]+)>?$/.exec(mail.from)?.[1] ?? os.hostname();
+  const headers = [
+    `From: ${mail.from}`,
+    `To: ${mail.to}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0'
+  ];
+
+  if (!mail.html) {
+    return [...headers, 'Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: 8bit', '', crlf(mail.text)].join('\r\n');
+  }
+
+  const boundary = `=_${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    crlf(mail.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    crlf(mail.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
@@ -0,0 +1,187 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { logger } from '../logger';
+import { formatMessage, type MailTransport, type OutgoingMail } from './message';
+
+/**
+ * Connection settings of an SMTP server.
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Connect with implicit TLS (port 465); otherwise the connection is upgraded with STARTTLS when offered. */
+  secure: boolean;
+  /** Fail instead of sending in clear text when the server does not offer STARTTLS. */
+  requireTLS?: boolean;
+  user?: string;
+  password?: string;
+  /** Milliseconds to wait for each server reply (default: 30000). */
+  timeoutMs?: number;
+}
+
+/**
+ * A reply of the server: its code and its lines, without the code.
+ */
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One SMTP session, reading the replies of the server as they arrive.
+ */
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket, private timeoutMs: number) {
+    this.listen(socket);
+  }
+
+  private listen(socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private receive(chunk: string) {
+    this.buffer += chunk;
+    let end: number;
+    while ((end = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, end).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(end + 1);
+      this.lines.push(line);
+
+      // The last line of a reply has a space (or nothing) after its code, the others a dash
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.lines.map((text) => text.slice(4)) };
+        this.lines = [];
+        const waiting = this.waiting;
+        this.waiting = null;
+        waiting?.resolve(reply);
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.reject(error);
+  }
+
+  /**
+   * Waits for the next reply and checks its code.
+   * @param expected The accepted reply codes.
+   */
+  read(expected: number[]): Promise<SmtpReply> {
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise<SmtpReply>((resolve, reject) => {
+      const timer = setTimeout(() => this.fail(new Error('SMTP server timed out')), this.timeoutMs);
+      this.waiting = {
+        resolve: (reply) => {
+          clearTimeout(timer);
+          if (expected.includes(reply.code)) {
+            resolve(reply);
+          } else {
+            reject(new Error(`SMTP server replied ${reply.code}: ${reply.lines.join(' ')}`));
+          }
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      };
+    });
+  }
+
+  /**
+   * Sends a command and waits for its reply.
+   * @param command The command, without its line ending.
+   * @param expected The accepted reply codes.
+   */
+  command(command: string, expected: number[]): Promise<SmtpReply> {
+    const reply = this.read(expected);
+    this.socket.write(`${command}\r\n`);
+    return reply;
+  }
+
+  /**
+   * Upgrades the connection to TLS, after a successful STARTTLS command.
+   * @param host The server name to check the certificate against.
+   */
+  async startTLS(host: string): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+    const secureSocket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const socket = tls.connect({ socket: this.socket, servername: host }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+    this.socket = secureSocket;
+    this.listen(secureSocket);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+/**
+ * Sends emails through an SMTP server, with one connection per email.
+ */
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+
+  constructor(private options: SmtpOptions) {}
+
+  async send(mail: OutgoingMail): Promise<void> {
+    const { host, port, secure, user, password } = this.options;
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const connection: net.Socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(connection))
+        : net.connect({ host, port }, () => resolve(connection));
+      connection.once('error', reject);
+    });
+    const session = new SmtpSession(socket, this.options.timeoutMs ?? 30000);
+
+    try {
+      await session.read([220]);
+      let extensions = (await session.command(`EHLO ${os.hostname()}`, [250])).lines;
+
+      if (!secure) {
+        if (extensions.some((line) => /^STARTTLS\b/i.test(line))) {
+          await session.command('STARTTLS', [220]);
+          await session.startTLS(host);
+          extensions = (await session.command(`EHLO ${os.hostname()}`, [250])).lines;
+        } else if (this.options.requireTLS) {
+          throw new Error('SMTP server does not support STARTTLS');
+        }
+      }
+
+      if (user) {
+        const credentials = Buffer.from(`\0${user}\0${password ?? ''}`, 'utf8').toString('base64');
+        await session.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      const address = (value: string) => /<([^>]+)>/.exec(value)?.[1] ?? value.trim();
+      const eightBit = extensions.some((line) => /^8BITMIME\b/i.test(line));
+      await session.command(`MAIL FROM:<${address(mail.from)}>${eightBit ? ' BODY=8BITMIME' : ''}`, [250]);
+      await session.command(`RCPT TO:<${address(mail.to)}>`, [250, 251]);
+      await session.command('DATA', [354]);
+
+      // Lines starting with a dot are escaped so that they do not end the message
+      const data = formatMessage(mail).replace(/^\./gm, '..');
+      await session.command(`${data}\r\n.`, [250]);
+      await session.command('QUIT', [221]).catch(() => undefined);
+      logger.info({ to: mail.to, subject: mail.subject, host }, 'Email sent');
+    } finally {
+      session.close();
+    }
+  }
+}
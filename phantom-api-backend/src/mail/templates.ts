@@ -0,0 +1,115 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+
+/**
+ * The parts of an email template. Variables are written `{{name}}`; they are HTML-escaped in the HTML part.
+ */
+export interface MailTemplate {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const TEMPLATES: Record<string, MailTemplate> = {
+  'password-reset': {
+    subject: 'Reset your {{appName}} password',
+    text: [
+      'Hello {{name}},',
+      '',
+      'We received a request to reset the password of your {{appName}} account.',
+      'Open this link within {{expiresInMinutes}} minutes to choose a new password:',
+      '',
+      '{{resetUrl}}',
+      '',
+      'If you did not ask for a reset, ignore this email: your password stays the same.'
+    ].join('\n'),
+    html: [
+      '<p>Hello {{name}},</p>',
+      '<p>We received a request to reset the password of your {{appName}} account.',
+      'Open this link within {{expiresInMinutes}} minutes to choose a new password:</p>',
+      '<p><a href="{{resetUrl}}">{{resetUrl}}</a></p>',
+      '<p>If you did not ask for a reset, ignore this email: your password stays the same.</p>'
+    ].join('\n')
+  },
+  'password-changed': {
+    subject: 'Your {{appName}} password was changed',
+    text: [
+      'Hello {{name}},',
+      '',
+      'The password of your {{appName}} account was just reset, and every session was signed out.',
+      'If you did not do this, contact your administrator right away.'
+    ].join('\n'),
+    html: [
+      '<p>Hello {{name}},</p>',
+      '<p>The password of your {{appName}} account was just reset, and every session was signed out.</p>',
+      '<p>If you did not do this, contact your administrator right away.</p>'
+    ].join('\n')
+  },
+  'email-verification': {
+    subject: 'Verify your {{appName}} email address',
+    text: [
+      'Hello {{name}},',
+      '',
+      'Welcome to {{appName}}! Open this link within {{expiresInHours}} hours to verify your email address:',
+      '',
+      '{{verifyUrl}}',
+      '',
+      'If you did not create an account, ignore this email.'
+    ].join('\n'),
+    html: [
+      '<p>Hello {{name}},</p>',
+      '<p>Welcome to {{appName}}! Open this link within {{expiresInHours}} hours to verify your email address:</p>',
+      '<p><a href="{{verifyUrl}}">{{verifyUrl}}</a></p>',
+      '<p>If you did not create an account, ignore this email.</p>'
+    ].join('\n')
+  }
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+/**
+ * Gets a template, with the parts overridden by the files of `MAIL_TEMPLATES_DIR`:
+ * `<name>.subject.txt`, `<name>.txt` and `<name>.html`.
+ * @param name The name of the template.
+ * @throws {Error} If the template is unknown.
+ */
+function loadTemplate(name: string): MailTemplate {
+  const template = TEMPLATES[name];
+  if (!template) {
+    throw new Error(`Unknown mail template '${name}'`);
+  }
+
+  const directory = process.env.MAIL_TEMPLATES_DIR;
+  if (!directory) return template;
+
+  const override = (file: string, fallback: string) => {
+    const filePath = path.join(directory, file);
+    return existsSync(filePath) ? readFileSync(filePath, 'utf8') : fallback;
+  };
+  return {
+    subject: override(`${name}.subject.txt`, template.subject).trim(),
+    text: override(`${name}.txt`, template.text),
+    html: override(`${name}.html`, template.html)
+  };
+}
+
+/**
+ * Renders a template. `appName` defaults to `APP_NAME` (default: Phantom API); unknown variables render empty.
+ * @param name The name of the template.
+ * @param variables The values of the variables.
+ * @returns The subject and bodies of the email.
+ * @throws {Error} If the template is unknown.
+ */
+export function renderTemplate(name: string, variables: Record<string, string>): MailTemplate {
+  const values: Record<string, string> = { appName: process.env.APP_NAME || 'Phantom API', ...variables };
+  const template = loadTemplate(name);
+  const render = (source: string, escape: (value: string) => string) =>
+    source.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key: string) => escape(values[key] ?? ''));
+
+  return {
+    subject: render(template.subject, (value) => value.replace(/[\r\n]+/g, ' ')),
+    text: render(template.text, (value) => value),
+    html: render(template.html, escapeHtml)
+  };
+}
@@ -2,6 +2,7 @@ import jwt, { SignOptions } from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../logger';
+import { AppError } from './errorHandler';
 import crypto from 'crypto';
 
 /**
@@ -17,13 +18,13 @@ interface AuthenticatedRequest extends Request {
 }
 
 /**
- * Manages JWT token generation, verification, and blacklisting.
+ * Manages JWT token generation, verification, and revocation.
+ * Revocations are stored in the `jwt_tokens` table and shared between nodes through the token revocation cache.
  * Implemented as a singleton to ensure a single source of truth for JWT operations.
  */
 class JWTManager {
   private static instance: JWTManager;
   private jwtSecret: string;
-  private tokenBlacklist: Set<string> = new Set();
 
   /**
    * Private constructor to enforce singleton pattern.
@@ -91,32 +92,27 @@ class JWTManager {
    * @param token The JWT token string to verify.
    * @returns The decoded payload of the token.
    * @throws {Error} If the token is invalid, expired, or revoked.
+   * @throws {AppError} With status 503 if the revocation status of the token cannot be determined.
    */
   public async verifyToken(token: string): Promise<any> {
     try {
-      // Check in-memory blacklist first (for backwards compatibility)
-      if (this.tokenBlacklist.has(token)) {
-        throw new Error('Token has been revoked');
-      }
-
       // Verify JWT signature and expiration
       const decoded = jwt.verify(token, this.jwtSecret);
 
-      // Check database for token revocation status
+      // Check revocation status; tokens that were never stored (e.g. API tokens) are not tracked.
+      // A token whose status cannot be determined is refused rather than accepted
+      let revoked: boolean;
       try {
         const { JwtToken } = await import('../models/JwtToken');
         const tokenHash = crypto.createHash('sha256').update(token).digest('hex');
-        const isValid = await JwtToken.isTokenValid(tokenHash);
-        
-        if (!isValid) {
-          throw new Error('Token has been revoked or is invalid');
-        }
-        
-        // Update last used timestamp
-        await JwtToken.updateLastUsed(tokenHash);
-      } catch {
-        // If model is not available, fall back to in-memory only
-        logger.warn('JwtToken model not available, using in-memory blacklist only');
+        revoked = await JwtToken.isRevoked(tokenHash);
+      } catch (error) {
+        logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Token revocation status unavailable');
+        throw new AppError('Token revocation status unavailable', 503);
+      }
+
+      if (revoked) {
+        throw new Error('Token has been revoked');
       }
 
       return decoded;
@@ -128,49 +124,37 @@ class JWTManager {
   }
 
   /**
-   * Adds a token to the blacklist, effectively revoking it.
-   * @param token The JWT token string to revoke.
-   */
-  public addToBlacklist(token: string): void {
-    this.tokenBlacklist.add(token);
-    logger.info('Token added to in-memory blacklist');
-  }
-
-  /**
-   * Revokes a token both in-memory and in database.
+   * Revokes a token in the database, on every node.
+   * A token that was never stored is recorded as revoked until it expires.
    * @param token The JWT token string to revoke.
+   * @returns True if the token is revoked, false if it could not be (e.g. it is malformed or already expired).
    */
   public async revokeToken(token: string): Promise<boolean> {
     try {
-      // Add to in-memory blacklist
-      this.tokenBlacklist.add(token);
-      
-      // Also revoke in database
-      try {
-        const { JwtToken } = await import('../models/JwtToken');
-        const tokenHash = crypto.createHash('sha256').update(token).digest('hex');
-        await JwtToken.revokeToken(tokenHash);
-        logger.info('Token revoked in database and memory');
-        return true;
-      } catch {
-        logger.warn('JwtToken model not available, token revoked in memory only');
+      const { JwtToken } = await import('../models/JwtToken');
+      const tokenHash = crypto.createHash('sha256').update(token).digest('hex');
+      if (await JwtToken.revokeToken(tokenHash)) {
         return true;
       }
+
+      const decoded = jwt.decode(token) as jwt.JwtPayload | null;
+      if (!decoded?.exp || decoded.exp * 1000 <= Date.now()) {
+        return false;
+      }
+      await JwtToken.createRevoked({
+        token_hash: tokenHash,
+        user_id: decoded.id,
+        token_type: 'access',
+        issued_at: new Date((decoded.iat ?? Date.now() / 1000) * 1000).toISOString(),
+        expires_at: new Date(decoded.exp * 1000).toISOString()
+      });
+      logger.info({ userId: decoded.id }, 'Untracked token recorded as revoked');
+      return true;
     } catch (error) {
-      logger.error('Failed to revoke token', { error });
+      logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Failed to revoke token');
       return false;
     }
   }
-
-  /**
-   * Clears all tokens from the blacklist.
-   * (Note: In a production environment, this would involve a more sophisticated cleanup mechanism for expired tokens).
-   */
-  public clearExpiredTokens(): void {
-    // In production, implement proper token blacklist cleanup
-    // For now, clear all (tokens will naturally expire)
-    this.tokenBlacklist.clear();
-  }
 }
 
 // Get JWT manager instance (lazy initialization)
@@ -274,6 +258,23 @@ export const authenticateToken = async (req: AuthenticatedRequest, res: Response
       ip: req.ip
     }, 'Authentication failed');
 
+    // The token may be valid, but its revocation status is unknown: clients can retry later
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    // An expired access token is renewed with the refresh token, so clients are told to authenticate again
+    if (error instanceof jwt.TokenExpiredError) {
+      return res.status(401).json({
+        success: false,
+        error: 'Token expired',
+        code: 'TOKEN_EXPIRED'
+      });
+    }
+
     return res.status(403).json({
       success: false,
       error: 'Invalid or expired token'
@@ -6,6 +6,7 @@ export interface CacheOptions {
   ttl?: number; // Time to live in seconds
   skipCache?: boolean; // Skip caching for this request
   varyBy?: string[]; // Additional parameters to vary cache by
+  action?: string; // Read operation cached by resourceCacheMiddleware, for routes without an :action parameter
 }
 
 /**
@@ -68,17 +69,19 @@ export function resourceCacheMiddleware(options: CacheOptions = {}) {
 
     try {
       const resourceName = req.params.resource;
-      const action = req.params.action;
+      const action = options.action ?? req.params.action;
       
       // Only cache read operations
-      if (!['find', 'findOne', 'count'].includes(action)) {
+      if (!['find', 'findOne', 'count', 'aggregate'].includes(action)) {
         return next();
       }
 
+      // Results filtered by row-level policies differ by user: registered after authentication, the cache varies by user
       const queryParams = {
         action,
         query: req.query,
-        body: req.body
+        body: req.body,
+        user: (req as Request & { user?: { id: string } }).user?.id
       };
 
       // Try to get cached result
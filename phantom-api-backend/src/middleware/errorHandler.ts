@@ -40,6 +40,35 @@ export class AppError extends Error {
   }
 }
 
+/**
+ * A field that failed validation.
+ */
+export interface FieldError {
+  /** The name of the field. */
+  field: string;
+  /** Why the value was rejected. */
+  message: string;
+  /** The position of the record in a bulk payload, if any. */
+  index?: number;
+}
+
+/**
+ * Error thrown when a payload does not satisfy the resource schema.
+ * Answered with status 422 and the list of invalid fields.
+ */
+export class ValidationError extends AppError {
+  errors: FieldError[];
+
+  /**
+   * Creates an instance of ValidationError.
+   * @param errors The fields that failed validation.
+   */
+  constructor(errors: FieldError[]) {
+    super('Validation failed', 422);
+    this.errors = errors;
+  }
+}
+
 /**
  * Global error handling middleware for Express applications.
  * Catches errors, logs them, and sends an appropriate JSON response to the client.
@@ -105,6 +134,7 @@ export const errorHandler: ErrorRequestHandler = (
   res.status(statusCode).json({
     success: false,
     error: message,
+    ...(err instanceof ValidationError && { errors: err.errors }),
     ...(process.env.NODE_ENV !== 'production' && {
       stack: error.stack,
       details: error
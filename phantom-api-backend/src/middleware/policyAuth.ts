@@ -194,13 +194,14 @@ export const checkMultiplePermissions = (permissions: Array<{ resource: string;
 
 /**
  * Filters a list of data records based on user policies.
- * Only records for which the user has 'read' access will be returned.
+ * Only records on which the user may perform the given action (by default 'read') will be returned.
  * @param req The Express request object, extended with PolicyRequest properties.
  * @param data An array of data records to filter.
  * @param resource The name of the resource to which the data records belong.
+ * @param action The action to evaluate for each record (default: 'read').
  * @returns A Promise that resolves to a new array containing only the allowed data records.
  */
-export const policyFilter = async (req: PolicyRequest, data: any[], resource: string): Promise<any[]> => {
+export const policyFilter = async (req: PolicyRequest, data: any[], resource: string, action: string = 'read'): Promise<any[]> => {
   if (!req.user) {
     return [];
   }
@@ -217,7 +218,7 @@ export const policyFilter = async (req: PolicyRequest, data: any[], resource: st
         id: item.id,
         data: item
       },
-      action: 'read',
+      action,
       environment: {
         timestamp: new Date(),
         ip: req.ip,
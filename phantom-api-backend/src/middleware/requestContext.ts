@@ -0,0 +1,52 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Identifies who performs the current operation, for audit records.
+ */
+export interface RequestActor {
+  /** The ID of the authenticated user, or null for anonymous requests and background work. */
+  actorId: string | null;
+  /** The client IP address, or null outside of a request. */
+  ip: string | null;
+}
+
+/**
+ * The authenticated user of a request.
+ */
+export interface RequestUser {
+  id: string;
+  role: string;
+}
+
+const currentRequest = new AsyncLocalStorage<Request & { user?: RequestUser }>();
+
+/**
+ * Middleware making the current request available to code that has no access to it, such as database listeners.
+ * Must be registered after body parsing: parsers resume the middleware chain from stream callbacks,
+ * which would otherwise run outside of the stored context.
+ */
+export const requestContext = (req: Request, _res: Response, next: NextFunction) => {
+  currentRequest.run(req, next);
+};
+
+/**
+ * Returns the actor of the request being handled.
+ * The user is read lazily because authentication runs after this middleware.
+ * @returns The actor, with null fields outside of a request.
+ */
+export function getRequestActor(): RequestActor {
+  const req = currentRequest.getStore();
+  return {
+    actorId: req?.user?.id ?? null,
+    ip: req?.ip ?? null
+  };
+}
+
+/**
+ * Returns the authenticated user of the request being handled.
+ * @returns The user, or null for anonymous requests and outside of a request.
+ */
+export function getRequestUser(): RequestUser | null {
+  return currentRequest.getStore()?.user ?? null;
+}
@@ -8,12 +8,14 @@ import { logger } from '../logger';
  * @param windowMs The time window in milliseconds for which requests are counted.
  * @param max The maximum number of requests allowed within the windowMs.
  * @param message The message to send when the rate limit is exceeded.
+ * @param keyGenerator Optional: Computes the key requests are counted by (default: the client IP).
  * @returns An Express rate limit middleware.
  */
-export const createRateLimit = (windowMs: number, max: number, message: string) => {
+export const createRateLimit = (windowMs: number, max: number, message: string, keyGenerator?: (req: Request) => string) => {
   return rateLimit({
     windowMs,
     max,
+    ...(keyGenerator && { keyGenerator }),
     message: { success: false, error: message },
     standardHeaders: true,
     legacyHeaders: false,
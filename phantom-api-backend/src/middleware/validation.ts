@@ -55,7 +55,8 @@ export const validateId = [
 
 /**
  * Validation rules for pagination query parameters.
- * Validates `limit`, `offset`, and `page` to be integers within acceptable ranges.
+ * Validates `limit`, `offset`, and `page` to be integers within acceptable ranges,
+ * and the `paginate` mode and `cursor` used for keyset pagination.
  */
 export const validatePagination = [
   query('limit')
@@ -70,6 +71,15 @@ export const validatePagination = [
     .optional()
     .isInt({ min: 1 })
     .withMessage('Page must be a positive integer'),
+  query('paginate')
+    .optional()
+    .isIn(['offset', 'cursor'])
+    .withMessage("Paginate must be 'offset' or 'cursor'"),
+  query('cursor')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 2048 })
+    .withMessage('Cursor must be a non-empty string'),
   handleValidationErrors
 ];
 
@@ -127,8 +137,15 @@ export const sanitizeInput = (req: Request, res: Response, next: NextFunction) =
     /(['"]\s*(or|and)\s+['"][^'"]+['"]\s*=\s*['"][^'"]+['"])/gi
   ];
 
+  // Batch action names such as 'create' or 'update' are SQL keywords but never reach a query as text
+  const batchActionPath = /^\.requests\.\d+\.action$/;
+  const batchActions = ['create', 'read', 'update', 'delete'];
+
   const checkForSQLInjection = (obj: any, path: string = ''): boolean => {
     if (typeof obj === 'string') {
+      if (batchActionPath.test(path) && batchActions.includes(obj)) {
+        return false;
+      }
       for (const pattern of suspiciousPatterns) {
         if (pattern.test(obj)) {
           logger.warn({
@@ -1,91 +1,523 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import { mkdirSync, writeFileSync } from 'fs';
 import fs from 'fs/promises';
 import path from 'path';
-import { fileURLToPath } from 'url';
-import { sqliteRaw, tableManager } from './database';
-
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const metaDir = path.join(__dirname, '../meta');
-const migrationsDir = path.join(__dirname, '../migrations');
-
-interface ResourceMeta {
-  fields: Record<string, any>;
-  permissions: {
-    create: string[];
-    read: string[];
-    update: string[];
-    delete: string[];
+import { tableManager, RELATION_TYPES } from './database';
+import { AppError } from './middleware/errorHandler';
+import { clearMetaCache } from './services/metaService';
+import { metaManager, SchemaChange } from './storage/meta-manager';
+import { pathManager } from './storage/path-manager';
+import { logger } from './logger';
+
+/**
+ * One step of a migration. Steps are applied in order through the table manager,
+ * and a migration ends with the complete schema of its resource.
+ */
+export type MigrationStep =
+  | { op: 'setSchema'; resource: string; schema: Record<string, any> }
+  | { op: 'dropResource'; resource: string }
+  | { op: 'renameResource'; resource: string; to: string }
+  | { op: 'renameField'; resource: string; field: string; to: string }
+  | { op: 'dropField'; resource: string; field: string }
+  | { op: 'changeFieldType'; resource: string; field: string; type: string };
+
+/**
+ * The content of a migration file.
+ */
+export interface Migration {
+  /** Timestamp and description of the change, also the file name without extension. */
+  id: string;
+  resource: string;
+  createdAt: string;
+  /** Steps applying the change. */
+  up: MigrationStep[];
+  /** Steps reverting the change. Dropped records and values are not restored. */
+  down: MigrationStep[];
+}
+
+/**
+ * The state of a migration:
+ * `modified` if its file changed since it was applied, `missing` if it was applied but its file is gone.
+ */
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'missing';
+
+export interface MigrationStatus {
+  id: string;
+  resource: string;
+  state: MigrationState;
+  appliedAt?: string;
+}
+
+/**
+ * A difference between the schema the migration files describe and the current schema of a resource.
+ */
+export interface SchemaDifference {
+  resource: string;
+  /** `added` if the resource has no migration, `removed` if its migrations create it but it does not exist. */
+  status: 'added' | 'removed' | 'changed';
+  /** For changed resources: the fields that differ. */
+  fields?: {
+    added: string[];
+    removed: string[];
+    changed: string[];
   };
 }
 
 /**
- * Loads the resource metadata from a JSON file.
- * @param resource The name of the resource.
- * @returns A Promise that resolves to the ResourceMeta object or null if the file does not exist.
- * @throws An error if reading or parsing the file fails for reasons other than not found.
+ * Migrations table schema definition for dynamic table creation
  */
-async function loadResourceMeta(resource: string): Promise<ResourceMeta | null> {
-  try {
-    const metaPath = path.join(metaDir, `${resource}.json`);
-    const metaContent = await fs.readFile(metaPath, 'utf8');
-    return JSON.parse(metaContent);
-  } catch (_error) {
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    if ((_error as any).code === 'ENOENT') {
-      return null;
-    }
-    throw _error;
+export const MIGRATIONS_SCHEMA = {
+  // Applying a migration is not a record change
+  history: false,
+  fields: {
+    name: {
+      type: 'string',
+      required: true,
+      unique: true,
+      description: 'ID of the applied migration'
+    },
+    resource: {
+      type: 'string',
+      required: true,
+      description: 'Name of the migrated resource'
+    },
+    checksum: {
+      type: 'string',
+      required: true,
+      description: 'SHA-256 of the migration file when it was applied'
+    },
+    applied_at: {
+      type: 'datetime',
+      required: true,
+      description: 'When the migration was applied'
+    }
   }
+};
+
+const MIGRATIONS_TABLE = '_migrations';
+
+interface MigrationFile {
+  migration: Migration;
+  checksum: string;
 }
 
 /**
- * Generates new migration files based on existing resource metadata and current database tables.
- * It creates migration files for new tables that are defined in meta files but do not exist in the database.
- * @returns A Promise that resolves when the migrations have been generated.
+ * Keeps a versioned, reversible history of schema changes.
+ * Every change of a stored schema writes a timestamped migration file with `up` and `down` steps to the
+ * migrations directory, and records it as applied: the files can be committed and replayed on other environments.
  */
-export async function pullMigrations() {
-  console.log('Generating migrations...');
+export class MigrationManager {
+  private listening = false;
+  private lastTimestamp = '';
+  /** Set while migrations run, so that the schema changes they make do not generate migrations. */
+  private applying = new AsyncLocalStorage<boolean>();
+  /** Records of generated migrations, awaited before reading the migrations table. */
+  private recording: Promise<void> = Promise.resolve();
 
-  const metaFiles = await fs.readdir(metaDir);
-  const currentTables = tableManager.getAllTables();
+  /**
+   * Create the migrations table and start generating migrations for schema changes.
+   * Call it after the system tables are created, so that they do not generate migrations on startup.
+   */
+  async initialize() {
+    await this.ensureTable();
+    if (!this.listening) {
+      metaManager.onSchemaChange((change) => this.generate(change));
+      this.listening = true;
+      logger.info('Schema migrations initialized');
+    }
+  }
 
-  for (const file of metaFiles) {
-    if (file.endsWith('.json')) {
-      const resourceName = path.basename(file, '.json');
-      const meta = await loadResourceMeta(resourceName);
+  /**
+   * Lists the migration files and the applied migrations.
+   * @returns The migrations in order, with their state.
+   */
+  async status(): Promise<MigrationStatus[]> {
+    await this.ready();
+    const files = await this.readMigrations();
+    const applied = await this.appliedMigrations();
 
-      if (!meta) continue;
+    const statuses: MigrationStatus[] = files.map(({ migration, checksum }) => {
+      const row = applied.get(migration.id);
+      return {
+        id: migration.id,
+        resource: migration.resource,
+        state: !row ? 'pending' : row.checksum === checksum ? 'applied' : 'modified',
+        appliedAt: row?.applied_at
+      };
+    });
+    for (const row of applied.values()) {
+      if (!files.some(({ migration }) => migration.id === row.name)) {
+        statuses.push({ id: row.name, resource: row.resource, state: 'missing', appliedAt: row.applied_at });
+      }
+    }
 
-      console.log(`Processing resource: ${resourceName}`);
+    return statuses.sort((a, b) => a.id.localeCompare(b.id));
+  }
 
-      if (!currentTables.includes(resourceName)) {
-        const timestamp = new Date().toISOString().replace(/[-:.]/g, '');
-        const migrationFileName = `${timestamp}_create_${resourceName.toLowerCase()}_table.ts`;
-        const createTableSQL = `CREATE TABLE ${resourceName} (id TEXT PRIMARY KEY);`;
+  /**
+   * Applies the pending migrations in order. A failing migration stops the run; those before it stay applied.
+   * @returns The IDs of the applied migrations.
+   * @throws {AppError} If a migration fails.
+   */
+  async up(): Promise<string[]> {
+    await this.ready();
+    const applied = await this.appliedMigrations();
+    const pending = (await this.readMigrations()).filter(({ migration }) => !applied.has(migration.id));
 
-        const migrationContent = `\nexport const up = async (db: any) => {\n  await db.exec(\`${createTableSQL}\`);\n};\n\nexport const down = async (db: any) => {\n  await db.exec(\`DROP TABLE IF EXISTS ${resourceName};\`);\n};\n`;
-        await fs.writeFile(path.join(migrationsDir, migrationFileName), migrationContent);
-        console.log(`Generated migration: ${migrationFileName}`);
+    const ids: string[] = [];
+    for (const file of pending) {
+      await this.run(file.migration, 'up');
+      await this.markApplied(file);
+      ids.push(file.migration.id);
+    }
+    return ids;
+  }
+
+  /**
+   * Applies a single pending migration.
+   * @param id The ID of the migration.
+   * @throws {AppError} With status 404 if there is no such migration, 409 if it is already applied, or if it fails.
+   */
+  async apply(id: string): Promise<void> {
+    await this.ready();
+    const file = (await this.readMigrations()).find(({ migration }) => migration.id === id);
+    if (!file) {
+      throw new AppError(`Migration '${id}' not found`, 404);
+    }
+    if ((await this.appliedMigrations()).has(id)) {
+      throw new AppError(`Migration '${id}' is already applied`, 409);
+    }
+
+    await this.run(file.migration, 'up');
+    await this.markApplied(file);
+  }
+
+  /**
+   * Reverts applied migrations, most recent first.
+   * @param to The ID of the migration to go back to: the migrations applied after it are reverted.
+   * Without it, only the most recent migration is reverted.
+   * @returns The IDs of the reverted migrations.
+   * @throws {AppError} With status 404 if `to` is not an applied migration, 409 if the file of a migration to revert
+   * is missing or changed since it was applied, or if a migration fails.
+   */
+  async down(to?: string): Promise<string[]> {
+    await this.ready();
+    const applied = [...(await this.appliedMigrations()).values()].sort((a, b) => b.name.localeCompare(a.name));
+    if (to !== undefined && !applied.some((row) => row.name === to)) {
+      throw new AppError(`Migration '${to}' is not applied`, 404);
+    }
+
+    const targets = to !== undefined ? applied.filter((row) => row.name > to) : applied.slice(0, 1);
+    const files = new Map((await this.readMigrations()).map((file) => [file.migration.id, file]));
+
+    // Check every migration before reverting any, so that a run does not stop halfway on a known problem
+    for (const row of targets) {
+      const file = files.get(row.name);
+      if (!file) {
+        throw new AppError(`The file of migration '${row.name}' is missing`, 409);
+      }
+      if (file.checksum !== row.checksum) {
+        throw new AppError(`Migration '${row.name}' was modified after it was applied`, 409);
+      }
+    }
+
+    const ids: string[] = [];
+    for (const row of targets) {
+      await this.run(files.get(row.name)!.migration, 'down');
+      await tableManager.delete(MIGRATIONS_TABLE, row.id);
+      ids.push(row.name);
+    }
+    return ids;
+  }
+
+  /**
+   * Compares the schemas described by the migration files with the current schemas.
+   * @returns The resources whose current schema differs, in name order.
+   */
+  async diff(): Promise<SchemaDifference[]> {
+    const { expected, current } = await this.schemas();
+    const resources = [...new Set([...expected.keys(), ...current.keys()])].sort();
+
+    const differences: SchemaDifference[] = [];
+    for (const resource of resources) {
+      const before = expected.get(resource);
+      const after = current.get(resource);
+      if (!before) {
+        differences.push({ resource, status: 'added' });
+      } else if (!after) {
+        differences.push({ resource, status: 'removed' });
+      } else if (JSON.stringify(before) !== JSON.stringify(after)) {
+        const beforeFields = before.fields ?? {};
+        const afterFields = after.fields ?? {};
+        differences.push({
+          resource,
+          status: 'changed',
+          fields: {
+            added: Object.keys(afterFields).filter((field) => !beforeFields[field]),
+            removed: Object.keys(beforeFields).filter((field) => !afterFields[field]),
+            changed: Object.keys(afterFields).filter((field) =>
+              beforeFields[field] && JSON.stringify(beforeFields[field]) !== JSON.stringify(afterFields[field])
+            )
+          }
+        });
       }
     }
+    return differences;
   }
 
-  console.log('Migrations generated.');
-}
+  /**
+   * Writes migrations for the schema changes that have none, such as resources created before migrations
+   * were enabled. They are recorded as applied, since the database already has the changes.
+   * @returns The IDs of the written migrations.
+   */
+  async pull(): Promise<string[]> {
+    await this.ready();
+    const { expected, current } = await this.schemas();
 
-/**
- * Applies a specific migration file to the database.
- * @param fileName The name of the migration file to apply.
- * @returns A Promise that resolves when the migration has been applied.
- */
-export async function applyMigration(fileName: string) {
-  console.log(`Applying migration: ${fileName}`);
-  const migrationPath = path.join(migrationsDir, fileName);
-  const migration = await import(migrationPath);
+    const ids: string[] = [];
+    for (const difference of await this.diff()) {
+      const file = this.write({
+        tableName: difference.resource,
+        before: expected.get(difference.resource) ?? null,
+        after: current.get(difference.resource) ?? null
+      });
+      await this.markApplied(file);
+      ids.push(file.migration.id);
+    }
+    return ids;
+  }
+
+  /**
+   * Writes and records the migration of a schema change made outside of migrations.
+   */
+  private generate(change: SchemaChange): void {
+    if (this.applying.getStore() || change.tableName === MIGRATIONS_TABLE) {
+      return;
+    }
 
-  if (migration.up) {
-    await migration.up(sqliteRaw); // Utilise l'instance SQLite native
-    console.log(`Migration ${fileName} applied successfully.`);
-  } else {
-    console.warn(`Migration ${fileName} has no 'up' function.`);
+    const file = this.write(change);
+    this.recording = this.recording.then(() => this.markApplied(file)).catch((error) => {
+      logger.error({ error, migration: file.migration.id }, 'Failed to record migration');
+    });
+  }
+
+  /**
+   * Writes the migration file of a schema change.
+   */
+  private write(change: SchemaChange): MigrationFile {
+    const { tableName, before, after, renamedTo } = change;
+    const action = renamedTo ? 'rename' : !before ? 'create' : !after ? 'drop' : 'update';
+    const migration: Migration = {
+      id: `${this.nextTimestamp()}_${action}_${tableName.toLowerCase()}`,
+      resource: tableName,
+      createdAt: new Date().toISOString(),
+      ...this.steps(change)
+    };
+
+    const content = JSON.stringify(migration, null, 2);
+    const directory = pathManager.getMigrationsDirectory();
+    mkdirSync(directory, { recursive: true });
+    writeFileSync(path.join(directory, `${migration.id}.json`), content, 'utf8');
+    logger.info({ migration: migration.id }, 'Migration written');
+
+    return { migration, checksum: this.checksum(content) };
+  }
+
+  /**
+   * Builds the steps applying and reverting a schema change.
+   */
+  private steps(change: SchemaChange): Pick<Migration, 'up' | 'down'> {
+    const { tableName: resource, before, after, renamedTo } = change;
+    if (renamedTo) {
+      return {
+        up: [{ op: 'renameResource', resource, to: renamedTo }],
+        down: [{ op: 'renameResource', resource: renamedTo, to: resource }]
+      };
+    }
+    if (!before) {
+      return { up: [{ op: 'setSchema', resource, schema: after! }], down: [{ op: 'dropResource', resource }] };
+    }
+    if (!after) {
+      return { up: [{ op: 'dropResource', resource }], down: [{ op: 'setSchema', resource, schema: before }] };
+    }
+
+    const renamed = change.renamedFields ?? {};
+    const restored = Object.fromEntries(Object.entries(renamed).map(([field, newName]) => [newName, field]));
+    return {
+      up: this.transition(resource, before, after, renamed),
+      down: this.transition(resource, after, before, restored)
+    };
+  }
+
+  /**
+   * Builds the steps turning a schema into another: renamed fields first, then dropped and retyped fields,
+   * then the new schema, which adds the new fields.
+   */
+  private transition(resource: string, from: Record<string, any>, to: Record<string, any>, renamed: Record<string, string>): MigrationStep[] {
+    const steps: MigrationStep[] = Object.entries(renamed).map(([field, newName]) => ({ op: 'renameField', resource, field, to: newName }));
+    const targetFields = to.fields ?? {};
+
+    for (const [field, definition] of Object.entries<any>(from.fields ?? {})) {
+      const name = renamed[field] ?? field;
+      const target = targetFields[name];
+      if (!target) {
+        steps.push({ op: 'dropField', resource, field: name });
+      } else if (target.type !== definition.type) {
+        // Relations live in another column or table, which the new schema adds
+        steps.push(RELATION_TYPES.includes(target.type) || RELATION_TYPES.includes(definition.type)
+          ? { op: 'dropField', resource, field: name }
+          : { op: 'changeFieldType', resource, field: name, type: target.type });
+      }
+    }
+
+    steps.push({ op: 'setSchema', resource, schema: to });
+    return steps;
+  }
+
+  /**
+   * Runs the steps of a migration without generating migrations for them.
+   * @throws {AppError} If a step fails, with the status of the failure.
+   */
+  private async run(migration: Migration, direction: 'up' | 'down'): Promise<void> {
+    try {
+      await this.applying.run(true, async () => {
+        for (const step of migration[direction]) {
+          await this.runStep(step);
+        }
+      });
+      logger.info({ migration: migration.id, direction }, 'Migration run');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({ error: message, migration: migration.id, direction }, 'Migration failed');
+      throw new AppError(`Migration '${migration.id}' failed: ${message}`, error instanceof AppError ? error.statusCode : 500);
+    }
+  }
+
+  private async runStep(step: MigrationStep): Promise<void> {
+    switch (step.op) {
+      case 'setSchema':
+        await tableManager.createTableFromSchema(step.resource, step.schema);
+        await clearMetaCache(step.resource);
+        break;
+      case 'dropResource':
+        await tableManager.dropTable(step.resource);
+        break;
+      case 'renameResource':
+        await tableManager.renameTable(step.resource, step.to);
+        break;
+      case 'renameField':
+        await tableManager.renameField(step.resource, step.field, step.to);
+        break;
+      case 'dropField':
+        await tableManager.dropField(step.resource, step.field);
+        break;
+      case 'changeFieldType':
+        // The change was accepted when the migration was written; values that no longer convert are cleared
+        await tableManager.changeFieldType(step.resource, step.field, step.type, { force: true });
+        break;
+    }
+  }
+
+  /**
+   * Returns the schemas described by the migration files, and the current schemas.
+   */
+  private async schemas(): Promise<{ expected: Map<string, Record<string, any>>; current: Map<string, Record<string, any>> }> {
+    const expected = new Map<string, Record<string, any>>();
+    for (const { migration } of await this.readMigrations()) {
+      for (const step of migration.up) {
+        if (step.op === 'setSchema') {
+          expected.set(step.resource, step.schema);
+        } else if (step.op === 'dropResource') {
+          expected.delete(step.resource);
+        } else if (step.op === 'renameResource' && expected.has(step.resource)) {
+          expected.set(step.to, expected.get(step.resource)!);
+          expected.delete(step.resource);
+        }
+      }
+    }
+
+    const current = metaManager.loadAllSchemas();
+    current.delete(MIGRATIONS_TABLE);
+    return { expected, current };
+  }
+
+  /**
+   * Reads the migration files, in ID order.
+   * @throws {AppError} If a file is not a valid migration.
+   */
+  private async readMigrations(): Promise<MigrationFile[]> {
+    const directory = pathManager.getMigrationsDirectory();
+    let names: string[];
+    try {
+      names = await fs.readdir(directory);
+    } catch {
+      return [];
+    }
+
+    const files: MigrationFile[] = [];
+    for (const name of names.filter((name) => name.endsWith('.json')).sort()) {
+      const content = await fs.readFile(path.join(directory, name), 'utf8');
+      let migration: Migration;
+      try {
+        migration = JSON.parse(content);
+      } catch {
+        throw new AppError(`Invalid migration file: ${name}`, 500);
+      }
+      if (migration.id !== path.basename(name, '.json') || !Array.isArray(migration.up) || !Array.isArray(migration.down)) {
+        throw new AppError(`Invalid migration file: ${name}`, 500);
+      }
+      files.push({ migration, checksum: this.checksum(content) });
+    }
+    return files;
+  }
+
+  /**
+   * Returns the rows of the migrations table, by migration ID.
+   */
+  private async appliedMigrations(): Promise<Map<string, any>> {
+    const count = await tableManager.count(MIGRATIONS_TABLE);
+    const rows = await tableManager.findAll(MIGRATIONS_TABLE, Math.max(count, 1), 0, [], 'name');
+    return new Map(rows.map((row) => [row.name, row]));
+  }
+
+  private async markApplied({ migration, checksum }: MigrationFile): Promise<void> {
+    await this.ensureTable();
+    await tableManager.create(MIGRATIONS_TABLE, {
+      name: migration.id,
+      resource: migration.resource,
+      checksum,
+      applied_at: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Waits for the generated migrations to be recorded, and makes sure the migrations table exists.
+   */
+  private async ready(): Promise<void> {
+    await this.recording;
+    await this.ensureTable();
+  }
+
+  private async ensureTable(): Promise<void> {
+    await tableManager.createTableFromSchema(MIGRATIONS_TABLE, MIGRATIONS_SCHEMA);
+  }
+
+  private checksum(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Returns a timestamp with millisecond precision (`YYYYMMDDHHmmssSSS`), increased if needed to stay unique.
+   */
+  private nextTimestamp(): string {
+    const now = new Date().toISOString().replace(/\D/g, '');
+    this.lastTimestamp = now > this.lastTimestamp ? now : (BigInt(this.lastTimestamp) + 1n).toString();
+    return this.lastTimestamp;
   }
 }
+
+/**
+ * Singleton instance of the MigrationManager.
+ */
+export const migrationManager = new MigrationManager();
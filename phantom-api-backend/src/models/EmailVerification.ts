@@ -0,0 +1,217 @@
+import crypto from 'crypto';
+import { tableManager } from '../database';
+import { logger } from '../logger';
+import { readToken, signToken } from '../auth/signed-tokens';
+
+/**
+ * The email verification of a user. Users without one registered while verification was off, and count as verified.
+ */
+export interface EmailVerificationData {
+  id?: string;
+  user_id: string;             // User whose email is verified
+  email: string;               // Email address the link was sent to
+  nonce_hash: string;          // SHA-256 hash of the nonce of the latest link; older links stop working
+  expires_at: string;          // ISO datetime when the latest link expires
+  sent_at: string;             // ISO datetime when the latest link was sent
+  verified_at?: string | null; // ISO datetime when the email was verified; the user is pending until then
+  verified_by?: string | null; // 'link', or the ID of the admin who verified the user manually
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * The outcome of checking a verification link.
+ */
+export type VerificationResult =
+  | { status: 'verified'; userId: string }
+  | { status: 'expired'; userId: string }
+  | { status: 'invalid' };
+
+/**
+ * Email verification schema definition for dynamic table creation
+ */
+export const EMAIL_VERIFICATION_SCHEMA = {
+  // Verification links are short-lived secrets; their changes are not worth an audit trail
+  history: false,
+  fields: {
+    user_id: {
+      type: 'string',
+      required: true,
+      unique: true,
+      description: 'User whose email is verified'
+    },
+    email: {
+      type: 'string',
+      required: true,
+      description: 'Email address the link was sent to'
+    },
+    nonce_hash: {
+      type: 'string',
+      required: true,
+      description: 'SHA-256 hash of the nonce of the latest link'
+    },
+    expires_at: {
+      type: 'datetime',
+      required: true,
+      description: 'When the latest link expires'
+    },
+    sent_at: {
+      type: 'datetime',
+      required: true,
+      description: 'When the latest link was sent'
+    },
+    verified_at: {
+      type: 'datetime',
+      required: false,
+      description: 'When the email was verified'
+    },
+    verified_by: {
+      type: 'string',
+      required: false,
+      description: "'link', or the ID of the admin who verified the user"
+    }
+  }
+};
+
+const TOKEN_PURPOSE = 'email-verification';
+
+const hashNonce = (nonce: string) => crypto.createHash('sha256').update(nonce).digest('hex');
+
+/**
+ * EmailVerification model class issuing and checking signed email verification links
+ */
+export class EmailVerification {
+  private static TABLE_NAME = 'email_verifications';
+  private static initialized = false;
+
+  /**
+   * How long a link stays valid, in hours (`EMAIL_VERIFICATION_TTL_HOURS`, default: 24).
+   */
+  static get ttlHours(): number {
+    return Number(process.env.EMAIL_VERIFICATION_TTL_HOURS || 24);
+  }
+
+  /**
+   * Initialize the email verifications table
+   */
+  static async initialize() {
+    if (!this.initialized) {
+      try {
+        await tableManager.createTableFromSchema(this.TABLE_NAME, EMAIL_VERIFICATION_SCHEMA);
+        this.initialized = true;
+        logger.info('Email verification model initialized successfully');
+      } catch (error) {
+        logger.error({ error }, 'Failed to initialize email verification model');
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Issues a link token for a user, who becomes pending if they were not. Links issued before stop working.
+   * The token is signed and carries the user, the email and the expiry, so expired links are told apart from invalid ones.
+   * @param userId The ID of the user.
+   * @param email The email address the link is sent to.
+   * @returns The token, to send to the user, and when it expires.
+   */
+  static async issue(userId: string, email: string): Promise<{ token: string; expiresAt: string }> {
+    await this.initialize();
+
+    const nonce = crypto.randomBytes(16).toString('base64url');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + this.ttlHours * 60 * 60 * 1000);
+    const record = {
+      email,
+      nonce_hash: hashNonce(nonce),
+      expires_at: expiresAt.toISOString(),
+      sent_at: now.toISOString()
+    };
+
+    const [existing] = await tableManager.findAll(this.TABLE_NAME, 1, 0, [], undefined, undefined, { user_id: userId });
+    if (existing) {
+      await tableManager.update(this.TABLE_NAME, existing.id, { ...record, verified_at: null, verified_by: null });
+    } else {
+      await tableManager.create(this.TABLE_NAME, { ...record, user_id: userId });
+    }
+
+    const token = signToken(TOKEN_PURPOSE, { uid: userId, email, nonce }, expiresAt.getTime());
+    return { token, expiresAt: record.expires_at };
+  }
+
+  /**
+   * Verifies a user with a link token. The token only works while it is the latest one of a pending user.
+   * @param token The token sent to the user.
+   * @returns Whether the user is now verified, the link expired, or the token is invalid or already used.
+   */
+  static async verify(token: string): Promise<VerificationResult> {
+    await this.initialize();
+
+    const signed = readToken<{ uid: string; email: string; nonce: string }>(TOKEN_PURPOSE, token);
+    if (!signed) {
+      return { status: 'invalid' };
+    }
+
+    const { claims } = signed;
+    const where = { user_id: claims.uid, email: claims.email, nonce_hash: hashNonce(claims.nonce), verified_at: { isNull: true } };
+    const [record] = await tableManager.findAll(this.TABLE_NAME, 1, 0, [], undefined, undefined, where);
+    if (!record) {
+      return { status: 'invalid' };
+    }
+    if (signed.expired) {
+      return { status: 'expired', userId: claims.uid };
+    }
+
+    // The update only matches while the user is pending, so a link raced by two requests verifies once
+    const updated = await tableManager.updateMany(this.TABLE_NAME, where, { verified_at: new Date().toISOString(), verified_by: 'link' });
+    return updated.length > 0 ? { status: 'verified', userId: claims.uid } : { status: 'invalid' };
+  }
+
+  /**
+   * Checks whether a user has not verified their email yet.
+   * @param userId The ID of the user.
+   */
+  static async isPending(userId: string): Promise<boolean> {
+    await this.initialize();
+
+    const pending = await tableManager.findAll(this.TABLE_NAME, 1, 0, [], undefined, undefined, {
+      user_id: userId,
+      verified_at: { isNull: true }
+    });
+    return pending.length > 0;
+  }
+
+  /**
+   * Verifies a pending user without a link.
+   * @param userId The ID of the user.
+   * @param adminId The ID of the admin verifying the user.
+   * @returns True if the user was pending, false otherwise.
+   */
+  static async markVerified(userId: string, adminId: string): Promise<boolean> {
+    await this.initialize();
+
+    const updated = await tableManager.updateMany(this.TABLE_NAME, { user_id: userId, verified_at: { isNull: true } }, {
+      verified_at: new Date().toISOString(),
+      verified_by: adminId
+    });
+    return updated.length > 0;
+  }
+
+  /**
+   * Lists the pending users, most recently sent first.
+   */
+  static async findPending(limit: number = 100, offset: number = 0): Promise<EmailVerificationData[]> {
+    await this.initialize();
+
+    return await tableManager.findAll(this.TABLE_NAME, limit, offset, [], 'sent_at DESC', undefined, { verified_at: { isNull: true } });
+  }
+
+  /**
+   * Removes the verification of a user, e.g. when the user is deleted.
+   * @param userId The ID of the user.
+   */
+  static async removeForUser(userId: string): Promise<void> {
+    await this.initialize();
+
+    await tableManager.deleteMany(this.TABLE_NAME, { user_id: userId });
+  }
+}
@@ -1,5 +1,6 @@
 import { tableManager } from '../database';
 import { logger } from '../logger';
+import { tokenRevocations } from '../cache/token-revocations';
 
 /**
  * JWT Token model for managing token lifecycle and revocation
@@ -19,6 +20,7 @@ export interface JwtTokenData {
   user_agent?: string;        // User agent string
   scopes?: string;            // Comma-separated list of scopes/permissions
   metadata?: string;          // Additional metadata (JSON string)
+  family_id?: string;         // Session the token belongs to: a refresh token and the tokens issued from it
   created_at?: string;
   updated_at?: string;
 }
@@ -27,6 +29,8 @@ export interface JwtTokenData {
  * JWT Token schema definition for dynamic table creation
  */
 export const JWT_TOKEN_SCHEMA = {
+  // Tokens are written on every request; their changes are not worth an audit trail
+  history: false,
   fields: {
     token_hash: { 
       type: 'string',
@@ -95,8 +99,16 @@ export const JWT_TOKEN_SCHEMA = {
       type: 'json',
       required: false,
       description: 'Additional metadata'
+    },
+    family_id: {
+      type: 'string',
+      required: false,
+      description: 'Session the token belongs to: a refresh token and the tokens issued from it'
     }
-  }
+  },
+  indexes: [
+    { fields: ['family_id'] }
+  ]
 };
 
 /**
@@ -197,8 +209,32 @@ export class JwtToken {
     return await tableManager.findAll(this.TABLE_NAME, limit, offset, [], 'issued_at DESC', undefined, filters);
   }
 
+  /**
+   * Revoke the active tokens matching a filter, and share the revocations with every node
+   * @returns The tokens this call revoked
+   */
+  private static async revokeWhere(where: Record<string, any>): Promise<JwtTokenData[]> {
+    await this.initialize();
+
+    const active = await tableManager.findAll(this.TABLE_NAME, 10000, 0, [], undefined, undefined, { ...where, is_revoked: false });
+    if (active.length === 0) {
+      return [];
+    }
+
+    // The update only matches tokens that are still active, so a token revoked concurrently is reported once
+    const revokedIds = await tableManager.updateMany(this.TABLE_NAME, { id: { in: active.map((token) => token.id) }, is_revoked: false }, {
+      is_revoked: true,
+      revoked_at: new Date().toISOString()
+    });
+    const revoked = active.filter((token) => revokedIds.includes(token.id));
+
+    await tokenRevocations.publish(revoked.map((token) => ({ hash: token.token_hash, expiresAt: token.expires_at })));
+    return revoked;
+  }
+
   /**
    * Revoke a token by its hash
+   * @returns True if the token exists, whether it was already revoked or not
    */
   static async revokeToken(tokenHash: string): Promise<boolean> {
     await this.initialize();
@@ -212,41 +248,85 @@ export class JwtToken {
       return true; // Already revoked
     }
 
-    await tableManager.update(this.TABLE_NAME, token.id!, {
-      is_revoked: true,
-      revoked_at: new Date().toISOString()
-    });
+    await this.revokeWhere({ token_hash: tokenHash });
 
-    logger.info(`Token revoked: ${tokenHash.substring(0, 8)}...`, { 
+    logger.info({ 
       tokenId: token.id,
       userId: token.user_id,
       tokenType: token.token_type
-    });
+    }, `Token revoked: ${tokenHash.substring(0, 8)}...`);
 
     return true;
   }
 
+  /**
+   * Record a token that was never stored as revoked, e.g. a token generated outside of a login
+   */
+  static async createRevoked(tokenData: Pick<JwtTokenData, 'token_hash' | 'user_id' | 'token_type' | 'expires_at' | 'issued_at'>): Promise<void> {
+    const revokedAt = new Date().toISOString();
+    await this.create({ ...tokenData, is_revoked: true, revoked_at: revokedAt });
+    await tokenRevocations.publish([{ hash: tokenData.token_hash, expiresAt: tokenData.expires_at }]);
+  }
+
   /**
    * Revoke all tokens for a specific user
    */
   static async revokeAllUserTokens(userId: string): Promise<number> {
+    const revoked = await this.revokeWhere({ user_id: userId });
+
+    logger.info(`Revoked ${revoked.length} tokens for user: ${userId}`);
+    return revoked.length;
+  }
+
+  /**
+   * Revoke a token by its hash, unless it is already revoked
+   * @returns True if this call revoked the token, false if it was unknown or already revoked
+   */
+  static async revokeIfActive(tokenHash: string): Promise<boolean> {
+    const revoked = await this.revokeWhere({ token_hash: tokenHash });
+    return revoked.length > 0;
+  }
+
+  /**
+   * Revoke every token of a session: its refresh tokens, current and rotated, and the access tokens issued with them
+   * @returns The number of tokens revoked
+   */
+  static async revokeFamily(familyId: string): Promise<number> {
+    const revoked = await this.revokeWhere({ family_id: familyId });
+
+    logger.info({ familyId, revokedCount: revoked.length }, 'Token family revoked');
+    return revoked.length;
+  }
+
+  /**
+   * Check whether a token is revoked, from the revocation cache when possible, and from the database otherwise
+   * Tokens that were never stored are not revoked. The last used timestamp is updated when the database is read,
+   * so it is only as precise as the revocation cache; failing to update it does not fail the check
+   */
+  static async isRevoked(tokenHash: string): Promise<boolean> {
+    const cached = await tokenRevocations.lookup(tokenHash);
+    if (cached !== undefined) {
+      return cached;
+    }
+
     await this.initialize();
-    
-    const activeTokens = await this.findActiveTokensByUserId(userId);
-    let revokedCount = 0;
+    const token = await this.findByTokenHash(tokenHash);
+    if (token?.is_revoked) {
+      await tokenRevocations.markRevoked({ hash: tokenHash, expiresAt: token.expires_at });
+      return true;
+    }
 
-    for (const token of activeTokens) {
-      if (!token.is_revoked) {
+    tokenRevocations.markValid(tokenHash);
+    if (token) {
+      try {
         await tableManager.update(this.TABLE_NAME, token.id!, {
-          is_revoked: true,
-          revoked_at: new Date().toISOString()
+          last_used_at: new Date().toISOString()
         });
-        revokedCount++;
+      } catch (error) {
+        logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Failed to update token last used timestamp');
       }
     }
-
-    logger.info(`Revoked ${revokedCount} tokens for user: ${userId}`);
-    return revokedCount;
+    return false;
   }
 
   /**
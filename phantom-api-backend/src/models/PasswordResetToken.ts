@@ -0,0 +1,142 @@
+import crypto from 'crypto';
+import { tableManager } from '../database';
+import { logger } from '../logger';
+
+/**
+ * A password reset token. Only the SHA-256 hash of the token is stored; the token itself is only sent by email.
+ */
+export interface PasswordResetTokenData {
+  id?: string;
+  token_hash: string;          // SHA-256 hash of the token
+  user_id: string;             // User whose password the token resets
+  expires_at: string;          // ISO datetime when the token expires
+  used_at?: string | null;     // ISO datetime when the token was used; a token can only be used once
+  ip_address?: string;         // IP address the reset was requested from
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Password reset token schema definition for dynamic table creation
+ */
+export const PASSWORD_RESET_TOKEN_SCHEMA = {
+  // Reset tokens are short-lived secrets; their changes are not worth an audit trail
+  history: false,
+  fields: {
+    token_hash: {
+      type: 'string',
+      required: true,
+      unique: true,
+      description: 'SHA-256 hash of the reset token'
+    },
+    user_id: {
+      type: 'string',
+      required: true,
+      description: 'User whose password the token resets'
+    },
+    expires_at: {
+      type: 'datetime',
+      required: true,
+      description: 'When the token expires'
+    },
+    used_at: {
+      type: 'datetime',
+      required: false,
+      description: 'When the token was used'
+    },
+    ip_address: {
+      type: 'string',
+      required: false,
+      description: 'IP address the reset was requested from'
+    }
+  }
+};
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * PasswordResetToken model class issuing and consuming single-use password reset tokens
+ */
+export class PasswordResetToken {
+  private static TABLE_NAME = 'password_reset_tokens';
+  private static initialized = false;
+
+  /**
+   * How long a token stays valid, in minutes (`PASSWORD_RESET_TTL_MINUTES`, default: 60).
+   */
+  static get ttlMinutes(): number {
+    return Number(process.env.PASSWORD_RESET_TTL_MINUTES || 60);
+  }
+
+  /**
+   * Initialize the password reset tokens table
+   */
+  static async initialize() {
+    if (!this.initialized) {
+      try {
+        await tableManager.createTableFromSchema(this.TABLE_NAME, PASSWORD_RESET_TOKEN_SCHEMA);
+        this.initialized = true;
+        logger.info('Password reset token model initialized successfully');
+      } catch (error) {
+        logger.error({ error }, 'Failed to initialize password reset token model');
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Issues a token for a user. The user's previous unused tokens stop working, and expired tokens are removed.
+   * @param userId The ID of the user.
+   * @param ipAddress Optional: The IP address the reset was requested from.
+   * @returns The token, to send to the user, and when it expires.
+   */
+  static async issue(userId: string, ipAddress?: string): Promise<{ token: string; expiresAt: string }> {
+    await this.initialize();
+
+    await this.invalidateForUser(userId);
+    await tableManager.deleteMany(this.TABLE_NAME, { expires_at: { lte: new Date().toISOString() } });
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + this.ttlMinutes * 60 * 1000).toISOString();
+    await tableManager.create(this.TABLE_NAME, {
+      token_hash: hashToken(token),
+      user_id: userId,
+      expires_at: expiresAt,
+      ip_address: ipAddress
+    });
+
+    return { token, expiresAt };
+  }
+
+  /**
+   * Uses a token: marks it used if it is valid, so that it cannot be used again.
+   * @param token The token sent to the user.
+   * @returns The ID of the user whose password the token resets, or null if the token is unknown, used or expired.
+   */
+  static async consume(token: string): Promise<string | null> {
+    await this.initialize();
+
+    const now = new Date().toISOString();
+    const where = { token_hash: hashToken(token), used_at: { isNull: true }, expires_at: { gt: now } };
+    const [record] = await tableManager.findAll(this.TABLE_NAME, 1, 0, [], undefined, undefined, where);
+    if (!record) {
+      return null;
+    }
+
+    // The update only matches while the token is unused, so a token raced by two requests is used once
+    const updated = await tableManager.updateMany(this.TABLE_NAME, where, { used_at: now });
+    return updated.length > 0 ? record.user_id : null;
+  }
+
+  /**
+   * Removes the unused tokens of a user.
+   * @param userId The ID of the user.
+   * @returns The number of removed tokens.
+   */
+  static async invalidateForUser(userId: string): Promise<number> {
+    await this.initialize();
+
+    const removed = await tableManager.deleteMany(this.TABLE_NAME, { user_id: userId, used_at: { isNull: true } });
+    return removed.length;
+  }
+}
@@ -0,0 +1,252 @@
+import { tableManager, RecordChange } from '../database';
+import { isComputedField } from '../database/computed';
+import { AppError } from '../middleware/errorHandler';
+import { getRequestActor } from '../middleware/requestContext';
+import { logger } from '../logger';
+
+/**
+ * A history entry: one change of one record, with the snapshots around it.
+ */
+export interface RecordHistoryData {
+  id?: string;
+  resource: string;
+  record_id: string;
+  operation: RecordChange['operation'];
+  before: Record<string, any> | null;   // Record before the change (null for creations)
+  after: Record<string, any> | null;    // Record after the change (null for hard deletes)
+  changed_fields: string[];             // Fields whose value differs between the snapshots
+  record_version?: number;              // Version of the record after the change
+  actor_id?: string;                    // ID of the user who made the change
+  ip_address?: string;                  // IP address the change came from
+  changed_at: string;                   // ISO datetime of the change (millisecond precision)
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Filters for searching the audit log.
+ */
+export interface RecordHistoryFilters {
+  resource?: string;
+  recordId?: string;
+  actorId?: string;
+  operation?: string;
+  /** ISO datetime; only changes made at or after it. */
+  from?: string;
+  /** ISO datetime; only changes made at or before it. */
+  to?: string;
+}
+
+/**
+ * Record history schema definition for dynamic table creation
+ */
+export const RECORD_HISTORY_SCHEMA = {
+  // The history table does not record its own writes
+  history: false,
+  fields: {
+    resource: {
+      type: 'string',
+      required: true,
+      description: 'Name of the resource the record belongs to'
+    },
+    record_id: {
+      type: 'string',
+      required: true,
+      description: 'ID of the changed record'
+    },
+    operation: {
+      type: 'string',
+      required: true,
+      enum: ['create', 'update', 'delete', 'restore'],
+      description: 'Kind of change'
+    },
+    before: {
+      type: 'json',
+      required: false,
+      description: 'Snapshot of the record before the change'
+    },
+    after: {
+      type: 'json',
+      required: false,
+      description: 'Snapshot of the record after the change'
+    },
+    changed_fields: {
+      type: 'json',
+      required: false,
+      description: 'Fields whose value changed'
+    },
+    record_version: {
+      type: 'integer',
+      required: false,
+      description: 'Version of the record after the change'
+    },
+    actor_id: {
+      type: 'string',
+      required: false,
+      description: 'ID of the user who made the change'
+    },
+    ip_address: {
+      type: 'string',
+      required: false,
+      description: 'IP address the change came from'
+    },
+    changed_at: {
+      type: 'datetime',
+      required: true,
+      description: 'When the change was made'
+    }
+  }
+};
+
+/** Fields whose values are never written to the history; resources add theirs with `history: { redact: [...] }`. */
+const REDACTED_FIELDS = ['password'];
+const REDACTED = '[redacted]';
+
+/** Fields managed by the database, ignored when comparing and reverting snapshots. */
+const SYSTEM_FIELDS = new Set(['id', 'created_at', 'updated_at', 'version', 'deleted_at']);
+
+/**
+ * RecordHistory model class keeping an audit trail of every change made to dynamic resources
+ */
+export class RecordHistory {
+  private static TABLE_NAME = 'record_history';
+  private static initialized = false;
+
+  /**
+   * Initialize the history table and start recording changes
+   */
+  static async initialize() {
+    if (!this.initialized) {
+      try {
+        await tableManager.createTableFromSchema(this.TABLE_NAME, RECORD_HISTORY_SCHEMA);
+        tableManager.onChange((change) => this.record(change));
+
+        this.initialized = true;
+        logger.info('Record history model initialized successfully');
+      } catch (error) {
+        logger.error({ error }, 'Failed to initialize record history model');
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Write a history entry for a record change.
+   * Resources whose schema sets `history: false` are skipped, and the fields listed in `history.redact` are redacted
+   * along with passwords. Failures are logged, never thrown, so that auditing cannot break the change itself.
+   */
+  static async record(change: RecordChange): Promise<void> {
+    const schema = await tableManager.getTableSchema(change.tableName);
+    if (!schema || schema.history === false) {
+      return;
+    }
+
+    const redacted = new Set([...REDACTED_FIELDS, ...(Array.isArray(schema.history?.redact) ? schema.history.redact : [])]);
+    const before = this.redact(change.before, redacted);
+    const after = this.redact(change.after, redacted);
+    const { actorId, ip } = getRequestActor();
+
+    try {
+      await tableManager.create(this.TABLE_NAME, {
+        resource: change.tableName,
+        record_id: change.recordId,
+        operation: change.operation,
+        before,
+        after,
+        changed_fields: this.diff(before, after),
+        record_version: after?.version ?? null,
+        actor_id: actorId,
+        ip_address: ip,
+        changed_at: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error({ error, resource: change.tableName, recordId: change.recordId }, 'Failed to record history');
+    }
+  }
+
+  /**
+   * Find the history of a record, most recent change first
+   */
+  static async findByRecord(resource: string, recordId: string, limit = 50, offset = 0): Promise<{ data: RecordHistoryData[]; total: number }> {
+    return this.search({ resource, recordId }, limit, offset);
+  }
+
+  /**
+   * Search the audit log, most recent change first
+   */
+  static async search(filters: RecordHistoryFilters = {}, limit = 50, offset = 0): Promise<{ data: RecordHistoryData[]; total: number }> {
+    await this.initialize();
+
+    const where: Record<string, any> = {
+      resource: filters.resource,
+      record_id: filters.recordId,
+      actor_id: filters.actorId,
+      operation: filters.operation
+    };
+    if (filters.from || filters.to) {
+      where.changed_at = { gte: filters.from, lte: filters.to };
+    }
+
+    const [data, total] = await Promise.all([
+      tableManager.findAll(this.TABLE_NAME, limit, offset, [], '-changed_at', undefined, where),
+      tableManager.count(this.TABLE_NAME, where)
+    ]);
+    return { data, total };
+  }
+
+  /**
+   * Revert a record to the state it had after a history entry.
+   * Only the fields of the snapshot are written; redacted and system fields are left untouched.
+   * @throws {AppError} With status 404 if the entry does not belong to the record or the record no longer exists,
+   * or 400 if the entry is a hard delete.
+   */
+  static async revert(resource: string, recordId: string, entryId: string): Promise<any> {
+    await this.initialize();
+
+    const entry: RecordHistoryData | null = await tableManager.findById(this.TABLE_NAME, entryId);
+    if (!entry || entry.resource !== resource || entry.record_id !== recordId) {
+      throw new AppError('History entry not found', 404);
+    }
+    if (!entry.after) {
+      throw new AppError('Cannot revert to a deleted state', 400);
+    }
+    if (!await tableManager.findById(resource, recordId)) {
+      throw new AppError('Not found', 404);
+    }
+
+    // Computed fields follow the reverted values
+    const fields = (await tableManager.getTableSchema(resource))?.fields ?? {};
+    const data: Record<string, any> = {};
+    for (const [key, value] of Object.entries(entry.after)) {
+      if (SYSTEM_FIELDS.has(key) || value === REDACTED || isComputedField(fields[key])) continue;
+      data[key] = value;
+    }
+
+    return tableManager.update(resource, recordId, data);
+  }
+
+  /**
+   * Replace sensitive values of a snapshot
+   */
+  private static redact(record: Record<string, any> | null, fields: Set<string>): Record<string, any> | null {
+    if (!record) return null;
+
+    const redacted = { ...record };
+    for (const key of Object.keys(redacted)) {
+      if (fields.has(key) && redacted[key] !== null && redacted[key] !== undefined) {
+        redacted[key] = REDACTED;
+      }
+    }
+    return redacted;
+  }
+
+  /**
+   * List the fields whose value differs between two snapshots
+   */
+  private static diff(before: Record<string, any> | null, after: Record<string, any> | null): string[] {
+    const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+    return [...keys].filter((key) =>
+      !SYSTEM_FIELDS.has(key) && JSON.stringify(before?.[key] ?? null) !== JSON.stringify(after?.[key] ?? null)
+    );
+  }
+}
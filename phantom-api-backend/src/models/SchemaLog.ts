@@ -0,0 +1,120 @@
+import { tableManager } from '../database';
+import { getRequestActor } from '../middleware/requestContext';
+import { logger } from '../logger';
+
+/**
+ * A schema log entry: one change made to the schema of a resource.
+ */
+export interface SchemaLogData {
+  id?: string;
+  resource: string;
+  action: 'create_resource' | 'add_fields' | 'set_mode';
+  details: Record<string, any> | null;  // Added fields with their types, or the new schema mode
+  actor_id?: string;                    // ID of the user whose request changed the schema
+  ip_address?: string;                  // IP address the change came from
+  changed_at: string;                   // ISO datetime of the change (millisecond precision)
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Schema log schema definition for dynamic table creation
+ */
+export const SCHEMA_LOG_SCHEMA = {
+  // Schema changes are not record changes
+  history: false,
+  fields: {
+    resource: {
+      type: 'string',
+      required: true,
+      description: 'Name of the changed resource'
+    },
+    action: {
+      type: 'string',
+      required: true,
+      enum: ['create_resource', 'add_fields', 'set_mode'],
+      description: 'Kind of change'
+    },
+    details: {
+      type: 'json',
+      required: false,
+      description: 'Added fields with their types, or the new schema mode'
+    },
+    actor_id: {
+      type: 'string',
+      required: false,
+      description: 'ID of the user whose request changed the schema'
+    },
+    ip_address: {
+      type: 'string',
+      required: false,
+      description: 'IP address the change came from'
+    },
+    changed_at: {
+      type: 'datetime',
+      required: true,
+      description: 'When the change was made'
+    }
+  }
+};
+
+/**
+ * SchemaLog model class keeping an audit log of the schema changes made by writes and schema mode changes
+ */
+export class SchemaLog {
+  private static TABLE_NAME = 'schema_log';
+  private static initialized = false;
+
+  /**
+   * Initialize the schema log table
+   */
+  static async initialize() {
+    if (!this.initialized) {
+      try {
+        await tableManager.createTableFromSchema(this.TABLE_NAME, SCHEMA_LOG_SCHEMA);
+        this.initialized = true;
+        logger.info('Schema log model initialized successfully');
+      } catch (error) {
+        logger.error({ error }, 'Failed to initialize schema log model');
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Write a schema log entry, attributed to the current request.
+   * Failures are logged, never thrown, so that auditing cannot break the change itself.
+   */
+  static async record(resource: string, action: SchemaLogData['action'], details: Record<string, any> | null): Promise<void> {
+    const { actorId, ip } = getRequestActor();
+
+    try {
+      await this.initialize();
+      await tableManager.create(this.TABLE_NAME, {
+        resource,
+        action,
+        details,
+        actor_id: actorId,
+        ip_address: ip,
+        changed_at: new Date().toISOString()
+      });
+    } catch (error) {
+      logger.error({ error, resource, action }, 'Failed to record schema change');
+    }
+  }
+
+  /**
+   * List the schema changes, most recent first
+   * @param resource Optional: Only changes to this resource.
+   */
+  static async search(resource?: string, limit = 50, offset = 0): Promise<{ data: SchemaLogData[]; total: number }> {
+    await this.initialize();
+
+    const where = { resource };
+    const [data, total] = await Promise.all([
+      tableManager.findAll(this.TABLE_NAME, limit, offset, [], '-changed_at', undefined, where),
+      tableManager.count(this.TABLE_NAME, where)
+    ]);
+    return { data, total };
+  }
+}
@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+import { tableManager } from '../database';
+import { logger } from '../logger';
+import { deriveKey } from '../auth/signed-tokens';
+import { generateSecret, verifyCode } from '../auth/totp';
+
+/**
+ * The TOTP second factor of a user. It is enabled once the user confirms a first code.
+ */
+export interface TwoFactorData {
+  id?: string;
+  user_id: string;              // User the second factor belongs to
+  secret: string;               // TOTP secret, encrypted with a key derived from JWT_SECRET
+  enabled_at?: string | null;   // ISO datetime when the user confirmed the enrolment; null while enrolling
+  last_step?: number | null;    // Time step of the last accepted code; codes cannot be used twice
+  recovery_codes?: string;      // Comma-separated SHA-256 hashes of the unused recovery codes
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Two-factor schema definition for dynamic table creation
+ */
+export const TWO_FACTOR_SCHEMA = {
+  // Secrets and recovery codes must not be copied into history records
+  history: false,
+  fields: {
+    user_id: {
+      type: 'string',
+      required: true,
+      unique: true,
+      description: 'User the second factor belongs to'
+    },
+    secret: {
+      type: 'string',
+      required: true,
+      description: 'Encrypted TOTP secret'
+    },
+    enabled_at: {
+      type: 'datetime',
+      required: false,
+      description: 'When the enrolment was confirmed'
+    },
+    last_step: {
+      type: 'integer',
+      required: false,
+      description: 'Time step of the last accepted code'
+    },
+    recovery_codes: {
+      type: 'text',
+      required: false,
+      description: 'Hashes of the unused recovery codes'
+    }
+  }
+};
+
+const RECOVERY_CODE_COUNT = 10;
+
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+
+/**
+ * Encrypts a TOTP secret with AES-256-GCM, as `<iv>.<tag>.<ciphertext>` in base64url.
+ */
+const encryptSecret = (secret: string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey('totp-secret'), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+};
+
+const decryptSecret = (encrypted: string) => {
+  const [iv, tag, ciphertext] = encrypted.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey('totp-secret'), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+/**
+ * TwoFactor model class enrolling users in TOTP two-factor authentication and checking their codes
+ */
+export class TwoFactor {
+  private static TABLE_NAME = 'two_factor';
+  private static initialized = false;
+
+  /**
+   * Initialize the two-factor table
+   */
+  static async initialize() {
+    if (!this.initialized) {
+      try {
+        await tableManager.createTableFromSchema(this.TABLE_NAME, TWO_FACTOR_SCHEMA);
+        this.initialized = true;
+        logger.info('Two-factor model initialized successfully');
+      } catch (error) {
+        logger.error({ error }, 'Failed to initialize two-factor model');
+        throw error;
+      }
+    }
+  }
+
+  private static async findByUserId(userId: string): Promise<TwoFactorData | null> {
+    await this.initialize();
+
+    const [record] = await tableManager.findAll(this.TABLE_NAME, 1, 0, [], undefined, undefined, { user_id: userId });
+    return record ?? null;
+  }
+
+  /**
+   * Checks whether a user has two-factor authentication enabled.
+   * @param userId The ID of the user.
+   */
+  static async isEnabled(userId: string): Promise<boolean> {
+    const record = await this.findByUserId(userId);
+    return Boolean(record?.enabled_at);
+  }
+
+  /**
+   * Describes the second factor of a user.
+   * @param userId The ID of the user.
+   * @returns Whether it is enabled, since when, and how many recovery codes are left.
+   */
+  static async getStatus(userId: string): Promise<{ enabled: boolean; enabledAt: string | null; recoveryCodesLeft: number }> {
+    const record = await this.findByUserId(userId);
+    return {
+      enabled: Boolean(record?.enabled_at),
+      enabledAt: record?.enabled_at ?? null,
+      recoveryCodesLeft: record?.enabled_at && record.recovery_codes ? record.recovery_codes.split(',').length : 0
+    };
+  }
+
+  /**
+   * Starts enrolling a user with a new secret, replacing an enrolment that was not confirmed.
+   * @param userId The ID of the user.
+   * @returns The base32-encoded secret, to show to the user.
+   * @throws {Error} If the user already has two-factor authentication enabled.
+   */
+  static async startEnrolment(userId: string): Promise<string> {
+    const existing = await this.findByUserId(userId);
+    if (existing?.enabled_at) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateSecret();
+    if (existing) {
+      await tableManager.update(this.TABLE_NAME, existing.id!, { secret: encryptSecret(secret), last_step: null, recovery_codes: '' });
+    } else {
+      await tableManager.create(this.TABLE_NAME, { user_id: userId, secret: encryptSecret(secret), recovery_codes: '' });
+    }
+    return secret;
+  }
+
+  /**
+   * Confirms an enrolment with a first code, which enables two-factor authentication.
+   * @param userId The ID of the user.
+   * @param code A code of the authenticator app.
+   * @returns The recovery codes, to show to the user once, or null if there is no enrolment or the code is wrong.
+   */
+  static async confirmEnrolment(userId: string, code: string): Promise<string[] | null> {
+    const record = await this.findByUserId(userId);
+    if (!record || record.enabled_at) {
+      return null;
+    }
+
+    const step = verifyCode(decryptSecret(record.secret), code);
+    if (step === null) {
+      return null;
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    const updated = await tableManager.updateMany(this.TABLE_NAME, { id: record.id, enabled_at: { isNull: true } }, {
+      enabled_at: new Date().toISOString(),
+      last_step: step,
+      recovery_codes: recoveryCodes.map(hashRecoveryCode).join(',')
+    });
+    return updated.length > 0 ? recoveryCodes : null;
+  }
+
+  /**
+   * Checks a code of the authenticator app. Each code is accepted once.
+   * @param userId The ID of the user.
+   * @param code The code.
+   * @returns True if the code is valid and was not used before.
+   */
+  static async verifyCode(userId: string, code: string): Promise<boolean> {
+    const record = await this.findByUserId(userId);
+    if (!record?.enabled_at) {
+      return false;
+    }
+
+    const step = verifyCode(decryptSecret(record.secret), code);
+    if (step === null) {
+      return false;
+    }
+
+    // The update only matches while no later code was accepted, so a code raced by two requests is accepted once
+    const updated = await tableManager.updateMany(this.TABLE_NAME, { id: record.id, last_step: { lt: step } }, { last_step: step });
+    return updated.length > 0;
+  }
+
+  /**
+   * Uses a recovery code, in place of a code of the authenticator app. Each recovery code works once.
+   * @param userId The ID of the user.
+   * @param code The recovery code.
+   * @returns True if the code was unused.
+   */
+  static async useRecoveryCode(userId: string, code: string): Promise<boolean> {
+    const record = await this.findByUserId(userId);
+    const hashes = record?.enabled_at && record.recovery_codes ? record.recovery_codes.split(',') : [];
+    const hash = hashRecoveryCode(code);
+    if (!hashes.includes(hash)) {
+      return false;
+    }
+
+    const remaining = hashes.filter((candidate) => candidate !== hash).join(',');
+    const updated = await tableManager.updateMany(this.TABLE_NAME, { id: record!.id, recovery_codes: record!.recovery_codes }, {
+      recovery_codes: remaining
+    });
+    return updated.length > 0;
+  }
+
+  /**
+   * Replaces the recovery codes of a user; the previous ones stop working.
+   * @param userId The ID of the user.
+   * @returns The new recovery codes, or null if the user does not have two-factor authentication enabled.
+   */
+  static async regenerateRecoveryCodes(userId: string): Promise<string[] | null> {
+    const record = await this.findByUserId(userId);
+    if (!record?.enabled_at) {
+      return null;
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await tableManager.update(this.TABLE_NAME, record.id!, { recovery_codes: recoveryCodes.map(hashRecoveryCode).join(',') });
+    return recoveryCodes;
+  }
+
+  /**
+   * Removes the second factor of a user, enabled or being enrolled.
+   * @param userId The ID of the user.
+   * @returns True if the user had one.
+   */
+  static async remove(userId: string): Promise<boolean> {
+    await this.initialize();
+
+    const removed = await tableManager.deleteMany(this.TABLE_NAME, { user_id: userId });
+    return removed.length > 0;
+  }
+
+  /**
+   * Lists the users with two-factor authentication enabled, most recently enabled first.
+   */
+  static async findEnabled(limit: number = 100, offset: number = 0): Promise<Array<{ userId: string; enabledAt: string; recoveryCodesLeft: number }>> {
+    await this.initialize();
+
+    const records: TwoFactorData[] = await tableManager.findAll(this.TABLE_NAME, limit, offset, [], 'enabled_at DESC', undefined, {
+      enabled_at: { isNull: false }
+    });
+    return records.map((record) => ({
+      userId: record.user_id,
+      enabledAt: record.enabled_at!,
+      recoveryCodesLeft: record.recovery_codes ? record.recovery_codes.split(',').length : 0
+    }));
+  }
+
+  private static generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = crypto.randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+}
@@ -0,0 +1,96 @@
+import { tableManager } from '../database';
+import { logger } from '../logger';
+
+/**
+ * Whether the users of a role must use two-factor authentication.
+ */
+export interface TwoFactorPolicyData {
+  id?: string;
+  role: string;                // Role the policy applies to, e.g. 'admin'
+  required: boolean;           // Whether users of the role must enrol before they can log in
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Two-factor policy schema definition for dynamic table creation
+ */
+export const TWO_FACTOR_POLICY_SCHEMA = {
+  fields: {
+    role: {
+      type: 'string',
+      required: true,
+      unique: true,
+      description: 'Role the policy applies to'
+    },
+    required: {
+      type: 'boolean',
+      required: true,
+      default: false,
+      description: 'Whether users of the role must use two-factor authentication'
+    }
+  }
+};
+
+/**
+ * TwoFactorPolicy model class storing which roles must use two-factor authentication
+ */
+export class TwoFactorPolicy {
+  private static TABLE_NAME = 'two_factor_policies';
+  private static initialized = false;
+
+  /**
+   * Initialize the two-factor policies table
+   */
+  static async initialize() {
+    if (!this.initialized) {
+      try {
+        await tableManager.createTableFromSchema(this.TABLE_NAME, TWO_FACTOR_POLICY_SCHEMA);
+        this.initialized = true;
+        logger.info('Two-factor policy model initialized successfully');
+      } catch (error) {
+        logger.error({ error }, 'Failed to initialize two-factor policy model');
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Checks whether the users of a role must use two-factor authentication.
+   * @param role The role.
+   */
+  static async isRequired(role: string): Promise<boolean> {
+    await this.initialize();
+
+    const [policy] = await tableManager.findAll(this.TABLE_NAME, 1, 0, [], undefined, undefined, { role });
+    return Boolean(policy?.required);
+  }
+
+  /**
+   * Lists the policies of every role that has one.
+   */
+  static async findAll(): Promise<TwoFactorPolicyData[]> {
+    await this.initialize();
+
+    const policies = await tableManager.findAll(this.TABLE_NAME, 1000, 0, [], 'role ASC');
+    return policies.map((policy: any) => ({ ...policy, required: Boolean(policy.required) }));
+  }
+
+  /**
+   * Sets whether the users of a role must use two-factor authentication.
+   * @param role The role.
+   * @param required Whether two-factor authentication is required.
+   * @returns The policy.
+   */
+  static async setRequired(role: string, required: boolean): Promise<TwoFactorPolicyData> {
+    await this.initialize();
+
+    const [existing] = await tableManager.findAll(this.TABLE_NAME, 1, 0, [], undefined, undefined, { role });
+    const policy = existing
+      ? await tableManager.update(this.TABLE_NAME, existing.id, { required })
+      : await tableManager.create(this.TABLE_NAME, { role, required });
+
+    logger.info({ role, required }, 'Two-factor policy updated');
+    return { ...policy, required: Boolean(policy.required) };
+  }
+}
@@ -0,0 +1,52 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { tableManager, DynamicTableManager } from './database';
+import { logger } from './logger';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+/**
+ * The shape of a plugin module: its default export registers hooks on the table manager.
+ */
+export interface PluginModule {
+  default: (manager: DynamicTableManager) => void | Promise<void>;
+}
+
+const PLUGIN_EXTENSIONS = ['.js', '.mjs', '.ts'];
+
+/**
+ * Loads every plugin of a directory, in file name order.
+ * Plugins add business logic to the server by registering lifecycle hooks, without changes to its code.
+ * @param pluginsDir The directory to load plugins from (default: `PLUGINS_DIR`, or `plugins` next to `src`).
+ * @returns A Promise that resolves to the names of the loaded plugin files.
+ * @throws An error if a plugin fails to load, so that the server never runs without part of its business logic.
+ */
+export async function loadPlugins(pluginsDir: string = process.env.PLUGINS_DIR || path.join(__dirname, '../plugins')): Promise<string[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(pluginsDir);
+  } catch {
+    return [];
+  }
+
+  const pluginFiles = files
+    .filter(file => PLUGIN_EXTENSIONS.includes(path.extname(file)) && !file.endsWith('.d.ts'))
+    .sort();
+
+  for (const file of pluginFiles) {
+    try {
+      const plugin: Partial<PluginModule> = await import(pathToFileURL(path.join(pluginsDir, file)).href);
+      if (typeof plugin.default !== 'function') {
+        throw new Error('A plugin must export a function as its default export');
+      }
+      await plugin.default(tableManager);
+      logger.info({ plugin: file }, 'Plugin loaded');
+    } catch (error) {
+      logger.error({ error, plugin: file }, 'Failed to load plugin');
+      throw error;
+    }
+  }
+
+  return pluginFiles;
+}
@@ -4,6 +4,7 @@ import { asyncHandler } from '../middleware/errorHandler';
 import { AdminController } from '../controllers/admin';
 import { PolicyController } from '../controllers/policy';
 import { JwtController } from '../controllers/jwtController';
+import { AuthController } from '../controllers/auth';
 import { tokenRoutes } from './tokens';
 
 /**
@@ -15,6 +16,7 @@ export async function createAdminRoutes() {
   const adminController = new AdminController();
   const policyController = new PolicyController();
   const jwtController = new JwtController();
+  const authController = new AuthController();
 
   // API routes under /admin/api/
   const apiRouter = Router();
@@ -37,16 +39,18 @@ export async function createAdminRoutes() {
    * @query {number} [page=1] - The page number for pagination.
    * @query {number} [limit=10] - The maximum number of records per page.
    * @query {string} [populate] - Comma-separated list of fields to populate.
+   * @query {string} [trash] - 'true' to list the soft-deleted records of the table.
    */
   apiRouter.get('/tables/:table/data', adminAuth, asyncHandler(async (req: Request, res: Response) => {
     const { table } = req.params;
-    const { page = 1, limit = 10, populate } = req.query;
+    const { page = 1, limit = 10, populate, trash } = req.query;
 
     const result = await adminController.getTableData(
       table,
       Number(page),
       Number(limit),
-      populate ? (populate as string).split(',') : []
+      populate ? (populate as string).split(',') : [],
+      trash === 'true'
     );
 
     res.json(result);
@@ -64,6 +68,142 @@ export async function createAdminRoutes() {
     res.json(schema);
   }));
 
+  /**
+   * PATCH /admin/api/tables/:table
+   * Renames a table (resource). Relation fields of other tables that target it are updated.
+   * Requires admin authentication.
+   * @param {string} table - The name of the table.
+   * @body {string} name - The new name of the table.
+   */
+  apiRouter.patch('/tables/:table', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const { table } = req.params;
+    const result = await adminController.renameTable(table, req.body?.name);
+    res.json(result);
+  }));
+
+  /**
+   * DELETE /admin/api/tables/:table
+   * Drops a table (resource) with all of its records. Refused while relation fields of other tables target it.
+   * Requires admin authentication.
+   * @param {string} table - The name of the table.
+   */
+  apiRouter.delete('/tables/:table', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const { table } = req.params;
+    const result = await adminController.dropTable(table);
+    res.json(result);
+  }));
+
+  /**
+   * PUT /admin/api/tables/:table/schema-mode
+   * Sets how writes handle fields missing from the table's schema: 'auto' adds them, 'strict' rejects the write
+   * with 422 and 'strip' drops them. Use 'strict' to lock a resource once its design is final.
+   * Requires admin authentication.
+   * @param {string} table - The name of the table.
+   * @body {string|null} mode - The schema mode, or null to follow the global SCHEMA_MODE.
+   */
+  apiRouter.put('/tables/:table/schema-mode', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const { table } = req.params;
+    const result = await adminController.setSchemaMode(table, req.body?.mode ?? null);
+    res.json(result);
+  }));
+
+  /**
+   * GET /admin/api/schema-log
+   * Lists the schema changes made by writes (auto-created resources and fields) and schema mode changes, most recent first.
+   * Requires admin authentication.
+   * @query {string} [resource] - Only changes to this resource.
+   * @query {number} [page=1] - The page number for pagination.
+   * @query {number} [limit=50] - The maximum number of entries per page.
+   */
+  apiRouter.get('/schema-log', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const { resource, page = 1, limit = 50 } = req.query;
+    const result = await adminController.searchSchemaLog(resource as string | undefined, Number(page), Number(limit));
+    res.json(result);
+  }));
+
+  /**
+   * PATCH /admin/api/tables/:table/fields/:field
+   * Changes the type of a field, converting its values, and/or renames it.
+   * Values that cannot be converted exactly make the type change fail with 409, unless it is forced.
+   * Requires admin authentication.
+   * @param {string} table - The name of the table.
+   * @param {string} field - The name of the field.
+   * @body {string} [type] - The new field type.
+   * @body {string} [strategy='cast'] - 'cast' to convert the values, 'clear' to empty the field.
+   * @body {boolean} [force=false] - Replace the values that cannot be converted with null.
+   * @body {string} [name] - The new name of the field.
+   */
+  apiRouter.patch('/tables/:table/fields/:field', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const { table, field } = req.params;
+    const result = await adminController.changeField(table, field, req.body ?? {});
+    res.json(result);
+  }));
+
+  /**
+   * DELETE /admin/api/tables/:table/fields/:field
+   * Drops a field of a table with its values.
+   * Requires admin authentication.
+   * @param {string} table - The name of the table.
+   * @param {string} field - The name of the field.
+   */
+  apiRouter.delete('/tables/:table/fields/:field', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const { table, field } = req.params;
+    const result = await adminController.dropField(table, field);
+    res.json(result);
+  }));
+
+  /**
+   * GET /admin/api/tables/:table/indexes
+   * Lists the indexes of a table, other than its primary key, with their columns, uniqueness and condition.
+   * Requires admin authentication.
+   * @param {string} table - The name of the table.
+   */
+  apiRouter.get('/tables/:table/indexes', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const { table } = req.params;
+    const result = await adminController.listIndexes(table);
+    res.json(result);
+  }));
+
+  /**
+   * POST /admin/api/tables/:table/indexes
+   * Creates an index, and adds it to the `indexes` section of the table schema.
+   * Requires admin authentication.
+   * @param {string} table - The name of the table.
+   * @body {string[]} fields - The fields to index, in order.
+   * @body {string} [name] - The name of the index (default: `<table>_<columns>_idx`, or `_unique`).
+   * @body {boolean} [unique] - Whether the indexed values must be unique.
+   * @body {object} [where] - A filter restricting the index to the matching records (same grammar as GET /api/:resource).
+   */
+  apiRouter.post('/tables/:table/indexes', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const { table } = req.params;
+    const result = await adminController.createIndex(table, req.body);
+    res.json(result);
+  }));
+
+  /**
+   * DELETE /admin/api/tables/:table/indexes/:index
+   * Drops an index, and removes it from the `indexes` section of the table schema.
+   * Requires admin authentication.
+   * @param {string} table - The name of the table.
+   * @param {string} index - The name of the index.
+   */
+  apiRouter.delete('/tables/:table/indexes/:index', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const { table, index } = req.params;
+    const result = await adminController.dropIndex(table, index);
+    res.json(result);
+  }));
+
+  /**
+   * GET /admin/api/slow-queries
+   * Lists the queries that ran slower than `SLOW_QUERY_MS` since the server started, most recently seen first,
+   * with the fields to index when their table lacks an index on the filtered columns.
+   * Requires admin authentication.
+   */
+  apiRouter.get('/slow-queries', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const result = await adminController.getSlowQueries();
+    res.json(result);
+  }));
+
   /**
    * PUT /admin/api/tables/:table/records/:id
    * Updates a record in the specified table.
@@ -91,6 +231,102 @@ export async function createAdminRoutes() {
     res.json(result);
   }));
 
+  /**
+   * GET /admin/api/tables/:table/records/:id/dependents
+   * Lists the records that deleting a record would delete, unlink or be blocked by, without deleting anything.
+   * Requires admin authentication.
+   * @param {string} table - The name of the table.
+   * @param {string} id - The ID of the record.
+   */
+  apiRouter.get('/tables/:table/records/:id/dependents', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const { table, id } = req.params;
+    const result = await adminController.getRecordDependents(table, id);
+    res.json(result);
+  }));
+
+  /**
+   * POST /admin/api/tables/:table/records/:id/restore
+   * Restores a soft-deleted record from the trash.
+   * Requires admin authentication.
+   * @param {string} table - The name of the table.
+   * @param {string} id - The ID of the record to restore.
+   */
+  apiRouter.post('/tables/:table/records/:id/restore', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const { table, id } = req.params;
+    const result = await adminController.restoreRecord(table, id);
+    res.json(result);
+  }));
+
+  /**
+   * POST /admin/api/tables/:table/records/:id/revert
+   * Reverts a record to the state it had after one of its history entries.
+   * Requires admin authentication.
+   * @param {string} table - The name of the table.
+   * @param {string} id - The ID of the record to revert.
+   * @body {string} entryId - The ID of the history entry to revert to.
+   */
+  apiRouter.post('/tables/:table/records/:id/revert', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const { table, id } = req.params;
+    const result = await adminController.revertRecord(table, id, req.body?.entryId);
+    res.json(result);
+  }));
+
+  /**
+   * GET /admin/api/audit
+   * Searches the audit log of record changes, most recent first.
+   * Requires admin authentication.
+   * @query {string} [resource] - Only changes to this resource.
+   * @query {string} [recordId] - Only changes to this record.
+   * @query {string} [actorId] - Only changes made by this user.
+   * @query {string} [operation] - Only this kind of change ('create', 'update', 'delete' or 'restore').
+   * @query {string} [from] - Only changes made at or after this ISO datetime.
+   * @query {string} [to] - Only changes made at or before this ISO datetime.
+   * @query {number} [page=1] - The page number for pagination.
+   * @query {number} [limit=50] - The maximum number of entries per page.
+   */
+  apiRouter.get('/audit', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const { resource, recordId, actorId, operation, from, to, page = 1, limit = 50 } = req.query;
+    const result = await adminController.searchAuditLog(
+      {
+        resource: resource as string | undefined,
+        recordId: recordId as string | undefined,
+        actorId: actorId as string | undefined,
+        operation: operation as string | undefined,
+        from: from as string | undefined,
+        to: to as string | undefined
+      },
+      Number(page),
+      Number(limit)
+    );
+    res.json(result);
+  }));
+
+  /**
+   * POST /admin/api/tables/:table/trash/purge
+   * Permanently deletes soft-deleted records of a table.
+   * Requires admin authentication.
+   * @param {string} table - The name of the table.
+   * @body {string[]} [ids] - The IDs of the records to purge. The whole trash is emptied when omitted.
+   */
+  apiRouter.post('/tables/:table/trash/purge', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const { table } = req.params;
+    const result = await adminController.purgeRecords(table, req.body?.ids);
+    res.json(result);
+  }));
+
+  /**
+   * DELETE /admin/api/tables/:table/trash/:id
+   * Permanently deletes a single soft-deleted record.
+   * Requires admin authentication.
+   * @param {string} table - The name of the table.
+   * @param {string} id - The ID of the record to purge.
+   */
+  apiRouter.delete('/tables/:table/trash/:id', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const { table, id } = req.params;
+    const result = await adminController.purgeRecords(table, [id]);
+    res.json(result);
+  }));
+
   /**
    * POST /admin/api/tables/:table/records/bulk-delete
    * Deletes multiple records from a specified table by their IDs.
@@ -134,9 +370,51 @@ export async function createAdminRoutes() {
     res.json(result);
   }));
 
+  /**
+   * GET /admin/api/migrations
+   * Lists the schema migrations with their state: applied, pending, modified or missing.
+   * Requires admin authentication.
+   */
+  apiRouter.get('/migrations', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const result = await adminController.getMigrationStatus();
+    res.json(result);
+  }));
+
+  /**
+   * POST /admin/api/migrations/up
+   * Applies the pending schema migrations, in order.
+   * Requires admin authentication.
+   */
+  apiRouter.post('/migrations/up', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const result = await adminController.migrateUp();
+    res.json(result);
+  }));
+
+  /**
+   * POST /admin/api/migrations/down
+   * Reverts applied schema migrations, most recent first.
+   * Requires admin authentication.
+   * @body {string} [to] - The ID of the migration to go back to; without it, only the most recent migration is reverted.
+   */
+  apiRouter.post('/migrations/down', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const { to } = req.body ?? {};
+    const result = await adminController.migrateDown(to);
+    res.json(result);
+  }));
+
+  /**
+   * GET /admin/api/migrations/diff
+   * Compares the schemas described by the migration files with the current schemas.
+   * Requires admin authentication.
+   */
+  apiRouter.get('/migrations/diff', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const result = await adminController.getMigrationDiff();
+    res.json(result);
+  }));
+
   /**
    * POST /admin/api/migrations/pull
-   * Initiates the process of pulling new database migrations from the backend.
+   * Writes migrations for the schema changes that have none, such as resources created before migrations existed.
    * Requires admin authentication.
    */
   apiRouter.post('/migrations/pull', adminAuth, asyncHandler(async (req: Request, res: Response) => {
@@ -146,9 +424,9 @@ export async function createAdminRoutes() {
 
   /**
    * POST /admin/api/migrations/apply
-   * Applies a specific database migration by its ID (filename).
+   * Applies a single pending migration by its ID.
    * Requires admin authentication.
-   * @body {string} migrationId - The ID (filename) of the migration to apply.
+   * @body {string} migrationId - The ID (file name without extension) of the migration to apply.
    */
   apiRouter.post('/migrations/apply', adminAuth, asyncHandler(async (req: Request, res: Response) => {
     const { migrationId } = req.body;
@@ -183,6 +461,60 @@ export async function createAdminRoutes() {
     res.json(result);
   }));
 
+  /**
+   * GET /admin/api/verifications
+   * Lists the users who have not verified their email yet.
+   * Requires admin authentication.
+   */
+  apiRouter.get('/verifications', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const pending = await authController.listPendingVerifications();
+    res.json({ success: true, data: pending });
+  }));
+
+  /**
+   * POST /admin/api/verifications/:userId/verify
+   * Verifies the email of a pending user manually.
+   * Requires admin authentication.
+   * @param {string} userId - The ID of the user to verify.
+   */
+  apiRouter.post('/verifications/:userId/verify', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const result = await authController.verifyUser(req.params.userId, (req as any).user.id);
+    res.json(result);
+  }));
+
+  /**
+   * GET /admin/api/2fa
+   * Lists the users with two-factor authentication enabled, and the roles that require it.
+   * Requires admin authentication.
+   */
+  apiRouter.get('/2fa', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const result = await authController.listTwoFactor();
+    res.json({ success: true, data: result });
+  }));
+
+  /**
+   * PUT /admin/api/2fa/policies/:role
+   * Sets whether the users of a role must use two-factor authentication; they enrol at their next login.
+   * Requires admin authentication.
+   * @param {string} role - The role, e.g. 'admin'.
+   * @body {boolean} required - Whether two-factor authentication is required.
+   */
+  apiRouter.put('/2fa/policies/:role', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const policy = await authController.setTwoFactorPolicy(req.params.role, req.body?.required);
+    res.json({ success: true, data: policy });
+  }));
+
+  /**
+   * POST /admin/api/2fa/users/:userId/reset
+   * Removes the second factor of a user who lost it.
+   * Requires admin authentication.
+   * @param {string} userId - The ID of the user.
+   */
+  apiRouter.post('/2fa/users/:userId/reset', adminAuth, asyncHandler(async (req: Request, res: Response) => {
+    const result = await authController.resetTwoFactor(req.params.userId, (req as any).user.id);
+    res.json(result);
+  }));
+
   /**
    * GET /admin/api/stats
    * Retrieves system statistics, including table counts, uptime, memory usage, and version information.
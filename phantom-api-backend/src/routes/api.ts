@@ -18,14 +18,25 @@ export async function createApiRoutes() {
    * GET /api/:resource
    * Retrieves a list of resources based on query parameters.
    * Supports pagination, sorting, selection, and filtering.
+   * The response includes a `meta` block with `total`, `limit`, `offset`, `page` and `hasMore`,
+   * or with `limit`, `nextCursor`, `prevCursor` and `hasMore` in keyset pagination mode.
    * @param {string} resource - The name of the resource.
    * @query {number} [limit] - The maximum number of records to return.
    * @query {number} [offset] - The number of records to skip.
    * @query {number} [page] - The page number for pagination.
    * @query {string} [sort] - Fields to sort by (e.g., 'name:asc', '-createdAt').
    * @query {string} [select] - Fields to select (comma-separated).
-   * @query {object} [where] - A JSON string or object for filtering records.
-   * @query {string} [populate] - Comma-separated list of fields to populate.
+   * @query {object} [where] - A JSON string or object for filtering records. Supports the operators
+   * eq, neq, gt, gte, lt, lte, like, ilike, contains, startsWith, isNull, between, in and nin,
+   * and nested $or/$and/$not groups. Unknown operators are rejected with a 400.
+   * @query {string|object} [populate] - Relation fields to populate: comma-separated dotted paths (`author.company,tags`),
+   * or options per field as JSON or bracket notation (`populate[tags][select]=name&populate[tags][where][active]=true`).
+   * @query {string} [paginate] - 'cursor' to use keyset pagination instead of limit/offset.
+   * @query {string} [cursor] - An opaque cursor from a previous page's `meta.nextCursor` or `meta.prevCursor` (implies keyset pagination).
+   * @query {string} [q] - Full-text search over the resource's `searchable` fields: every word must match the start of a word.
+   * Results are sorted by relevance unless `sort` is given, and carry `_search.rank` and a `_search.snippet` with `<mark>` tags.
+   * Cannot be combined with cursor pagination.
+   * @query {string} [withDeleted] - 'true' to include soft-deleted records (roles allowed to delete the resource only).
    */
   router.get('/:resource',
     validateResource,
@@ -36,12 +47,79 @@ export async function createApiRoutes() {
     asyncHandler(resourceController.find.bind(resourceController))
   );
 
+  /**
+   * GET /api/:resource/count
+   * Counts the resources matching a filter.
+   * @param {string} resource - The name of the resource.
+   * @query {object} [where] - A JSON string or object for filtering records (same grammar as GET /api/:resource).
+   * @query {string} [withDeleted] - 'true' to include soft-deleted records (roles allowed to delete the resource only).
+   */
+  router.get('/:resource/count',
+    validateResource,
+    authenticateToken,
+    dynamicPolicyAuth('read'),
+    asyncHandler(resourceController.count.bind(resourceController))
+  );
+
+  /**
+   * GET /api/:resource/aggregate
+   * Computes aggregates over the resources matching a filter, as a whole or by group.
+   * Only the resources the user may read under row-level policies are aggregated, up to 10,000 records.
+   * @param {string} resource - The name of the resource.
+   * @query {string} [count] - '*' to count resources, or fields whose non-null values to count (comma-separated).
+   * @query {string} [sum] - Fields to sum (comma-separated). Results are named `sum_<field>`;
+   * `avg`, `min`, `max` and `countDistinct` work the same way. Defaults to `count=*`.
+   * @query {string} [groupBy] - Fields to group by (comma-separated); `field:day`, `field:week` or `field:month` truncates a date.
+   * @query {object} [where] - A JSON string or object filtering the resources (same grammar as GET /api/:resource).
+   * @query {object} [having] - A JSON string or object filtering the groups by group key and aggregate name.
+   * @query {string} [sort] - Group keys and aggregates to sort by (e.g., '-count'); groups are sorted by key by default.
+   * @query {number} [limit] - The maximum number of groups to return.
+   * @query {string} [withDeleted] - 'true' to include soft-deleted records (roles allowed to delete the resource only).
+   */
+  router.get('/:resource/aggregate',
+    validateResource,
+    validatePagination,
+    authenticateToken,
+    dynamicPolicyAuth('read'),
+    resourceCacheMiddleware({ ttl: 300, action: 'aggregate' }),
+    asyncHandler(resourceController.aggregate.bind(resourceController))
+  );
+
+  /**
+   * GET /api/schema/:resource
+   * Retrieves the schema (metadata) for a specific resource.
+   * @param {string} resource - The name of the resource.
+   */
+  router.get('/schema/:resource',
+    validateResource,
+    authenticateToken,
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const { resource } = req.params;
+
+      const schema = await resourceController.getResourceSchema(resource);
+
+      if (!schema) {
+        return res.status(404).json({
+          success: false,
+          error: 'Schema not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        schema
+      });
+    })
+  );
+
   /**
    * GET /api/:resource/:id
    * Retrieves a single resource by its ID.
    * @param {string} resource - The name of the resource.
    * @param {string} id - The ID of the resource to retrieve.
-   * @query {string} [populate] - Comma-separated list of fields to populate.
+   * @query {string|object} [populate] - Relation fields to populate: comma-separated dotted paths (`author.company,tags`),
+   * or options per field as JSON or bracket notation (`populate[tags][select]=name&populate[tags][where][active]=true`).
+   * @query {string} [withDeleted] - 'true' to also find a soft-deleted record (roles allowed to delete the resource only).
    */
   router.get('/:resource/:id',
     validateResource,
@@ -52,6 +130,48 @@ export async function createApiRoutes() {
     asyncHandler(resourceController.findById.bind(resourceController))
   );
 
+  /**
+   * POST /api/batch
+   * Executes a batch of resource requests (create, read, update, delete).
+   * String values like `"$0.id"` in a request's data are replaced with fields of earlier results.
+   * @body {Array<object>} requests - An array of request objects, each with `resource`, `action`, and `data`.
+   * @body {boolean} [atomic] - Run all requests in one transaction and roll back on the first failure.
+   */
+  // Registered before POST /:resource, which would otherwise treat 'batch' as a resource name
+  router.post('/batch',
+    authenticateToken,
+    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const { requests, atomic } = req.body;
+      const userRole = req.user?.role || 'anon';
+
+      if (!Array.isArray(requests)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Requests must be an array'
+        });
+      }
+
+      if (requests.length > 10) {
+        return res.status(400).json({
+          success: false,
+          error: 'Maximum 10 requests per batch'
+        });
+      }
+
+      const results = await resourceController.handleBatchRequests(
+        requests,
+        userRole,
+        req.user?.resourceAccess,
+        { atomic: atomic === true }
+      );
+
+      res.json({
+        success: true,
+        results
+      });
+    })
+  );
+
   /**
    * POST /api/:resource
    * Creates a new resource.
@@ -67,9 +187,27 @@ export async function createApiRoutes() {
     asyncHandler(resourceController.create.bind(resourceController))
   );
 
+  /**
+   * PUT /api/:resource/upsert
+   * Inserts resources or updates the existing ones they conflict with (INSERT ... ON CONFLICT DO UPDATE).
+   * Requires both the 'create' and 'update' permissions.
+   * @param {string} resource - The name of the resource.
+   * @body {Array<string>} conflictOn - Fields identifying an existing record; must be covered by a unique constraint.
+   * @body {object|Array<object>} data - The record, or records (at most 1000), to write.
+   */
+  // Registered before PUT /:resource/:id, which would otherwise treat 'upsert' as an ID
+  router.put('/:resource/upsert',
+    validateResource,
+    cacheInvalidationMiddleware(),
+    authenticateToken,
+    dynamicPolicyAuth('create'),
+    dynamicPolicyAuth('update'),
+    asyncHandler(resourceController.upsert.bind(resourceController))
+  );
+
   /**
    * PUT /api/:resource/:id
-   * Updates an existing resource.
+   * Updates an existing resource. Kept for backwards compatibility: behaves exactly like PATCH.
    * @param {string} resource - The name of the resource.
    * @param {string} id - The ID of the resource to update.
    * @body {object} - The data to update the resource with.
@@ -85,7 +223,9 @@ export async function createApiRoutes() {
 
   /**
    * DELETE /api/:resource/:id
-   * Deletes a resource by its ID.
+   * Deletes a resource by its ID. Resources with `softDelete` are moved to the trash instead.
+   * Resources referencing it are deleted or unlinked according to the `onDelete` behaviour of their relation,
+   * and a `restrict` or `noAction` relation makes the request fail with a 409.
    * @param {string} resource - The name of the resource.
    * @param {string} id - The ID of the resource to delete.
    */
@@ -99,96 +239,158 @@ export async function createApiRoutes() {
   );
 
   /**
-   * POST /api/:resource/createIfNotExists
-   * Creates a resource if it does not already exist based on a filter.
+   * GET /api/:resource/:id/dependents
+   * Lists the resources that deleting a resource would delete, unlink or be blocked by, following cascades.
+   * Nothing is deleted.
    * @param {string} resource - The name of the resource.
-   * @body {object} filter - An object used to check for existing records.
-   * @body {object} data - The data for the new resource if it needs to be created.
+   * @param {string} id - The ID of the resource.
    */
-  router.post('/:resource/createIfNotExists',
+  router.get('/:resource/:id/dependents',
     validateResource,
+    validateId,
     authenticateToken,
-    dynamicPolicyAuth('create'), // Use 'create' permission for this action
-    asyncHandler(resourceController.createIfNotExists.bind(resourceController))
+    dynamicPolicyAuth('delete'),
+    asyncHandler(resourceController.dependents.bind(resourceController))
   );
 
   /**
-   * POST /api/:resource/updateIfExists
-   * Updates a resource if it exists based on a filter.
+   * GET /api/:resource/:id/history
+   * Lists the changes made to a resource, most recent first, with before/after snapshots, actor and IP.
+   * Requires the `update` permission, as reverting does; the IP is only shown to admins.
    * @param {string} resource - The name of the resource.
-   * @body {object} filter - An object used to find existing records.
-   * @body {object} data - The data to update the resource with.
+   * @param {string} id - The ID of the resource.
+   * @query {number} [limit] - The maximum number of entries to return.
+   * @query {number} [offset] - The number of entries to skip.
    */
-  router.post('/:resource/updateIfExists',
+  router.get('/:resource/:id/history',
     validateResource,
+    validateId,
+    validatePagination,
     authenticateToken,
-    dynamicPolicyAuth('update'), // Use 'update' permission for this action
-    asyncHandler(resourceController.updateIfExists.bind(resourceController))
+    dynamicPolicyAuth('update'),
+    asyncHandler(resourceController.history.bind(resourceController))
   );
 
   /**
-   * POST /api/batch
-   * Executes a batch of resource requests (create, read, update, delete).
-   * @body {Array<object>} requests - An array of request objects, each with `resource`, `action`, and `data`.
+   * POST /api/:resource/:id/history/:entryId/revert
+   * Reverts a resource to the state it had after a history entry.
+   * @param {string} resource - The name of the resource.
+   * @param {string} id - The ID of the resource.
+   * @param {string} entryId - The ID of the history entry.
    */
-  router.post('/batch',
+  router.post('/:resource/:id/history/:entryId/revert',
+    validateResource,
+    validateId,
+    cacheInvalidationMiddleware(),
     authenticateToken,
-    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-      const { requests } = req.body;
-      const userRole = req.user?.role || 'anon';
-
-      if (!Array.isArray(requests)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Requests must be an array'
-        });
-      }
+    dynamicPolicyAuth('update'),
+    asyncHandler(resourceController.revert.bind(resourceController))
+  );
 
-      if (requests.length > 10) {
-        return res.status(400).json({
-          success: false,
-          error: 'Maximum 10 requests per batch'
-        });
-      }
+  /**
+   * POST /api/:resource/:id/restore
+   * Restores a soft-deleted resource from the trash.
+   * @param {string} resource - The name of the resource.
+   * @param {string} id - The ID of the resource to restore.
+   */
+  router.post('/:resource/:id/restore',
+    validateResource,
+    validateId,
+    cacheInvalidationMiddleware(),
+    authenticateToken,
+    dynamicPolicyAuth('delete'),
+    asyncHandler(resourceController.restore.bind(resourceController))
+  );
 
-      const results = await resourceController.handleBatchRequests(
-        requests,
-        userRole,
-        req.user?.resourceAccess
-      );
+  /**
+   * DELETE /api/:resource
+   * Deletes every resource matching a filter.
+   * Matching records denied by policy are kept and listed in `errors`.
+   * @param {string} resource - The name of the resource.
+   * @query {object} where - A JSON filter selecting the records to delete (required, non-empty).
+   */
+  router.delete('/:resource',
+    validateResource,
+    cacheInvalidationMiddleware(),
+    authenticateToken,
+    dynamicPolicyAuth('delete'),
+    asyncHandler(resourceController.deleteMany.bind(resourceController))
+  );
 
-      res.json({
-        success: true,
-        results
-      });
-    })
+  /**
+   * POST /api/:resource/bulk
+   * Creates several resources with multi-row inserts.
+   * Invalid records are skipped and listed in `errors` with their index.
+   * @param {string} resource - The name of the resource.
+   * @body {Array<object>} records - The records to create (at most 1000).
+   */
+  router.post('/:resource/bulk',
+    validateResource,
+    cacheInvalidationMiddleware(),
+    authenticateToken,
+    dynamicPolicyAuth('create'),
+    asyncHandler(resourceController.createMany.bind(resourceController))
   );
 
   /**
-   * GET /api/schema/:resource
-   * Retrieves the schema (metadata) for a specific resource.
+   * PATCH /api/:resource/bulk
+   * Updates every resource matching a filter with the same data.
+   * Matching records denied by policy are left unchanged and listed in `errors`.
    * @param {string} resource - The name of the resource.
+   * @body {object} where - A filter selecting the records to update (required, non-empty).
+   * @body {object} data - The values to set.
    */
-  router.get('/schema/:resource',
+  router.patch('/:resource/bulk',
     validateResource,
+    cacheInvalidationMiddleware(),
     authenticateToken,
-    asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-      const { resource } = req.params;
+    dynamicPolicyAuth('update'),
+    asyncHandler(resourceController.updateMany.bind(resourceController))
+  );
 
-      const schema = await resourceController.getResourceSchema(resource);
+  /**
+   * PATCH /api/:resource/:id
+   * Partially updates an existing resource: only the fields present in the body are changed.
+   * Send `If-Match` with the record's `ETag` to fail with 412 if it was modified in the meantime.
+   * @param {string} resource - The name of the resource.
+   * @param {string} id - The ID of the resource to update.
+   * @body {object} - The fields to update.
+   */
+  router.patch('/:resource/:id',
+    validateResource,
+    validateId,
+    cacheInvalidationMiddleware(),
+    authenticateToken,
+    dynamicPolicyAuth('update'),
+    asyncHandler(resourceController.update.bind(resourceController))
+  );
 
-      if (!schema) {
-        return res.status(404).json({
-          success: false,
-          error: 'Schema not found'
-        });
-      }
+  /**
+   * POST /api/:resource/createIfNotExists
+   * Creates a resource if it does not already exist based on a filter.
+   * @param {string} resource - The name of the resource.
+   * @body {object} filter - An object used to check for existing records.
+   * @body {object} data - The data for the new resource if it needs to be created.
+   */
+  router.post('/:resource/createIfNotExists',
+    validateResource,
+    authenticateToken,
+    dynamicPolicyAuth('create'), // Use 'create' permission for this action
+    asyncHandler(resourceController.createIfNotExists.bind(resourceController))
+  );
 
-      res.json({
-        success: true,
-        schema
-      });
-    })
+  /**
+   * POST /api/:resource/updateIfExists
+   * Updates a resource if it exists based on a filter.
+   * @param {string} resource - The name of the resource.
+   * @body {object} filter - An object used to find existing records.
+   * @body {object} data - The data to update the resource with.
+   */
+  router.post('/:resource/updateIfExists',
+    validateResource,
+    authenticateToken,
+    dynamicPolicyAuth('update'), // Use 'update' permission for this action
+    asyncHandler(resourceController.updateIfExists.bind(resourceController))
   );
 
   /**
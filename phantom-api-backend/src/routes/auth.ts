@@ -1,34 +1,97 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { validateEmail, validatePassword } from '../middleware/validation';
 import { asyncHandler } from '../middleware/errorHandler';
-import { AuthController } from '../controllers/auth';
+import { createRateLimit } from '../middleware/security';
+import { authenticateToken, type AuthenticatedRequest } from '../middleware/auth';
+import { readToken } from '../auth/signed-tokens';
+import { AuthController, TWO_FACTOR_CHALLENGE_PURPOSE, type AuthSession } from '../controllers/auth';
+
+const REFRESH_COOKIE = 'refresh_token';
+
+/**
+ * Sets the session cookies: the access token, and the refresh token, which is only sent back to the /auth routes.
+ * @param res The Express response object.
+ * @param session The session to store in the cookies.
+ */
+function setSessionCookies(res: Response, session: AuthSession) {
+  const options = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const
+  };
+  res.cookie('token', session.token, { ...options, maxAge: session.expiresIn * 1000 });
+  res.cookie(REFRESH_COOKIE, session.refreshToken, { ...options, path: '/auth', expires: new Date(session.refreshExpiresAt) });
+}
+
+/**
+ * Clears the session cookies.
+ * @param res The Express response object.
+ */
+function clearSessionCookies(res: Response) {
+  res.clearCookie('token');
+  res.clearCookie(REFRESH_COOKIE, { path: '/auth' });
+}
+
+/**
+ * Lets enrolment requests through with a challenge token in the body, as sent during a login that requires
+ * two-factor authentication; other requests must be authenticated.
+ */
+function authenticateOrChallenge(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  if (req.body?.challengeToken) {
+    return next();
+  }
+  return authenticateToken(req, res, next);
+}
 
 export async function createAuthRoutes() {
   const router = Router();
   const authController = new AuthController();
 
+  // Reset requests send emails: they are limited per IP, and per email so that one inbox cannot be flooded from many IPs
+  const forgotPasswordIpLimit = createRateLimit(60 * 60 * 1000, 10, 'Too many password reset requests, please try again later');
+  const forgotPasswordEmailLimit = createRateLimit(
+    60 * 60 * 1000,
+    3,
+    'Too many password reset requests for this email, please try again later',
+    (req) => `email:${String(req.body?.email ?? '').toLowerCase()}`
+  );
+  // Codes are limited per user, whatever the number of challenges or IPs they are tried from
+  const twoFactorLimit = createRateLimit(
+    15 * 60 * 1000,
+    10,
+    'Too many two-factor attempts, please try again later',
+    (req) => {
+      const signed = readToken<{ uid: string }>(TWO_FACTOR_CHALLENGE_PURPOSE, String(req.body?.challengeToken ?? ''));
+      const userId = signed?.claims.uid ?? (req as AuthenticatedRequest).user?.id;
+      return userId ? `2fa:${userId}` : `2fa-ip:${req.ip}`;
+    }
+  );
+  const resendVerificationIpLimit = createRateLimit(60 * 60 * 1000, 10, 'Too many verification requests, please try again later');
+  const resendVerificationEmailLimit = createRateLimit(
+    60 * 60 * 1000,
+    3,
+    'Too many verification requests for this email, please try again later',
+    (req) => `email:${String(req.body?.email ?? '').toLowerCase()}`
+  );
+
   /**
    * POST /auth/login
    * Handles user login.
+   * The access token is returned and set in the `token` cookie; the refresh token is only set in an httpOnly cookie.
    * @body {string} email - The user's email address.
    * @body {string} password - The user's password.
-   * @returns A JSON response with a JWT token and user information upon successful login.
+   * @returns A JSON response with an access token, its lifetime in seconds and user information upon successful login,
+   * or with `twoFactorRequired: true` and a challenge token when a second factor is needed.
    */
   router.post('/login',
     validateEmail,
     validatePassword,
     asyncHandler(async (req: Request, res: Response) => {
       const { email, password } = req.body;
-      const result = await authController.login(email, password, req);
-
-      // Set secure cookie
-      res.cookie('token', result.token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 30 * 24 * 60 * 60 * 1000 // 30 days
-      });
-
+      const { session, ...result } = await authController.login(email, password, req);
+      if (session) {
+        setSessionCookies(res, session);
+      }
       res.json(result);
     })
   );
@@ -57,31 +120,38 @@ export async function createAuthRoutes() {
    * @body {string} email - The email address for the new user.
    * @body {string} password - The password for the new user.
    * @body {string} [name] - Optional: The name of the new user.
-   * @returns A JSON response with a JWT token and new user information upon successful registration.
+   * @returns A JSON response with an access token and new user information upon successful registration; the session cookies are set as for login.
+   * When email verification is on, the response has `verificationRequired: true`, and no session is started if verification is required.
+   * When the role of new users requires two-factor authentication, no session is started either: the response holds the
+   * setup challenge, as for login.
    */
   router.post('/register',
     validateEmail,
     validatePassword,
     asyncHandler(async (req: Request, res: Response) => {
       const { email, password, name } = req.body;
-      const result = await authController.register(email, password, name);
+      const { session, ...result } = await authController.register(email, password, name, req);
+      if (session) {
+        setSessionCookies(res, session);
+      }
       res.json(result);
     })
   );
 
   /**
    * POST /auth/logout
-   * Logs out a user by revoking their JWT token and clearing the token cookie.
+   * Logs out a user by revoking their access token and the session of their refresh token, and clearing the session cookies.
    * @returns A JSON response indicating successful logout.
    */
   router.post('/logout', asyncHandler(async (req: Request, res: Response) => {
     const token = req.headers['authorization']?.split(' ')[1] || req.cookies['token'];
+    const refreshToken = req.cookies[REFRESH_COOKIE];
 
-    if (token) {
-      await authController.logout(token);
+    if (token || refreshToken) {
+      await authController.logout(token, refreshToken);
     }
 
-    res.clearCookie('token');
+    clearSessionCookies(res);
     res.json({
       success: true,
       message: 'Logged out successfully'
@@ -90,50 +160,42 @@ export async function createAuthRoutes() {
 
   /**
    * POST /auth/refresh
-   * Refreshes an existing JWT token.
-   * @returns A JSON response with a new JWT token.
+   * Exchanges the refresh token cookie for a new access token and refresh token.
+   * Each refresh token works once; reusing one revokes its whole session and clears the session cookies.
+   * @returns A JSON response with a new access token and its lifetime in seconds.
    */
   router.post('/refresh', asyncHandler(async (req: Request, res: Response) => {
-    const token = req.headers['authorization']?.split(' ')[1] || req.cookies['token'];
-
-    if (!token) {
-      return res.status(401).json({
-        success: false,
-        error: 'No token provided'
-      });
+    try {
+      const { session, ...result } = await authController.refreshToken(req.cookies[REFRESH_COOKIE], req);
+      setSessionCookies(res, session);
+      res.json(result);
+    } catch (error) {
+      clearSessionCookies(res);
+      throw error;
     }
-
-    const result = await authController.refreshToken(token);
-
-    // Set new secure cookie
-    res.cookie('token', result.token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 30 * 24 * 60 * 60 * 1000 // 30 days
-    });
-
-    res.json(result);
   }));
 
   /**
    * POST /auth/forgot-password
    * Initiates the password reset process for a given email.
+   * Limited to 10 requests per hour per IP and 3 per hour per email.
    * @body {string} email - The email address for which to request a password reset.
    * @returns A JSON response indicating that a password reset link has been sent (if the email exists).
    */
   router.post('/forgot-password',
+    forgotPasswordIpLimit,
     validateEmail,
+    forgotPasswordEmailLimit,
     asyncHandler(async (req: Request, res: Response) => {
       const { email } = req.body;
-      const result = await authController.requestPasswordReset(email);
+      const result = await authController.requestPasswordReset(email, req);
       res.json(result);
     })
   );
 
   /**
    * POST /auth/reset-password
-   * Resets a user's password using a reset token.
+   * Resets a user's password using a reset token, and signs the user out of every session.
    * @body {string} token - The password reset token.
    * @body {string} password - The new password.
    * @returns A JSON response indicating successful password reset.
@@ -147,5 +209,109 @@ export async function createAuthRoutes() {
     })
   );
 
+  /**
+   * POST /auth/verify-email
+   * Verifies the email of a user with the token of the link sent by email.
+   * @body {string} token - The verification token.
+   * @returns A JSON response indicating successful verification; 410 if the link expired, so that a new one can be requested.
+   */
+  router.post('/verify-email', asyncHandler(async (req: Request, res: Response) => {
+    const result = await authController.verifyEmail(req.body?.token);
+    res.json(result);
+  }));
+
+  /**
+   * POST /auth/resend-verification
+   * Sends a new verification link to a user who has not verified their email yet.
+   * Limited to 10 requests per hour per IP and 3 per hour per email.
+   * @body {string} email - The email address of the user.
+   * @returns A JSON response indicating that a new link has been sent (if the account is pending verification).
+   */
+  router.post('/resend-verification',
+    resendVerificationIpLimit,
+    validateEmail,
+    resendVerificationEmailLimit,
+    asyncHandler(async (req: Request, res: Response) => {
+      const result = await authController.resendVerification(req.body.email);
+      res.json(result);
+    })
+  );
+
+  /**
+   * POST /auth/2fa/verify
+   * Completes a login with a code of the authenticator app or a recovery code.
+   * Limited to 10 attempts per 15 minutes per user.
+   * @body {string} challengeToken - The challenge token returned by /auth/login.
+   * @body {string} [code] - A code of the authenticator app.
+   * @body {string} [recoveryCode] - A recovery code, in place of a code; each works once.
+   * @returns A JSON response with an access token and user information, as for login; the session cookies are set.
+   */
+  router.post('/2fa/verify', twoFactorLimit, asyncHandler(async (req: Request, res: Response) => {
+    const { challengeToken, code, recoveryCode } = req.body ?? {};
+    const { session, ...result } = await authController.verifyTwoFactor(challengeToken, code, recoveryCode, req);
+    setSessionCookies(res, session);
+    res.json(result);
+  }));
+
+  /**
+   * GET /auth/2fa
+   * Describes the two-factor authentication of the authenticated user.
+   * @returns A JSON response with whether it is enabled and required, and the number of recovery codes left.
+   */
+  router.get('/2fa', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await authController.getTwoFactorStatus(req.user!.id);
+    res.json(result);
+  }));
+
+  /**
+   * POST /auth/2fa/setup
+   * Starts enrolling in two-factor authentication: returns a new secret and its `otpauth://` URI, to show as a QR code.
+   * Requires authentication, or the challenge token of a login whose role requires two-factor authentication.
+   * @body {string} [challengeToken] - The challenge token returned by /auth/login, when enrolling during a login.
+   * @returns A JSON response with the secret and the URI.
+   */
+  router.post('/2fa/setup', authenticateOrChallenge, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await authController.setupTwoFactor(req.user?.id, req.body?.challengeToken);
+    res.json(result);
+  }));
+
+  /**
+   * POST /auth/2fa/enable
+   * Confirms the enrolment with a first code, and returns the recovery codes, which are only shown once.
+   * When enrolling during a login, the login completes and the session cookies are set.
+   * @body {string} code - A code of the authenticator app.
+   * @body {string} [challengeToken] - The challenge token returned by /auth/login, when enrolling during a login.
+   * @returns A JSON response with the recovery codes, and the access token when enrolling during a login.
+   */
+  router.post('/2fa/enable', authenticateOrChallenge, twoFactorLimit, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { session, ...result } = await authController.enableTwoFactor(req.user?.id, req.body?.challengeToken, req.body?.code, req);
+    if (session) {
+      setSessionCookies(res, session);
+    }
+    res.json(result);
+  }));
+
+  /**
+   * POST /auth/2fa/disable
+   * Disables two-factor authentication, unless the role of the user requires it.
+   * @body {string} code - A code of the authenticator app, or a recovery code.
+   * @returns A JSON response indicating success.
+   */
+  router.post('/2fa/disable', authenticateToken, twoFactorLimit, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await authController.disableTwoFactor(req.user!.id, req.body?.code);
+    res.json(result);
+  }));
+
+  /**
+   * POST /auth/2fa/recovery-codes
+   * Replaces the recovery codes; the previous ones stop working.
+   * @body {string} code - A code of the authenticator app.
+   * @returns A JSON response with the new recovery codes, which are only shown once.
+   */
+  router.post('/2fa/recovery-codes', authenticateToken, twoFactorLimit, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await authController.regenerateRecoveryCodes(req.user!.id, req.body?.code);
+    res.json(result);
+  }));
+
   return router;
 }
\ No newline at end of file
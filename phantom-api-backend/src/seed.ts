@@ -83,6 +83,10 @@ export async function generateSeedData() {
             case 'relation':
               record[fieldName] = `${typedField.target?.toLowerCase() || 'unknown'}_${Math.floor(Math.random() * numRecords)}`;
               break;
+            case 'hasMany':
+            case 'manyToMany':
+              // Linked from the other side, or left empty
+              break;
             default:
               record[fieldName] = `Default ${fieldName} value`;
           }
@@ -2,6 +2,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import { logger } from '../logger';
 import { pathManager } from '../storage/path-manager';
+import { metaManager } from '../storage/meta-manager';
 import { cacheService } from '../cache/cache-service';
 
 // In-memory cache for loaded metadata (fallback when Redis unavailable)
@@ -93,10 +94,8 @@ export async function getAllResourceNames(): Promise<string[]> {
  */
 export async function saveResourceMeta(resource: string, meta: any): Promise<void> {
   try {
-    const metaDir = pathManager.getMetaDirectory();
-    await fs.mkdir(metaDir, { recursive: true });
-    const metaPath = pathManager.getMetaFilePath(`${resource}.json`);
-    await fs.writeFile(metaPath, JSON.stringify(meta, null, 2), 'utf-8');
+    await fs.mkdir(pathManager.getMetaDirectory(), { recursive: true });
+    metaManager.saveSchema(resource, meta);
 
     // Update both caches
     metaCache.set(resource, meta);
@@ -108,4 +107,26 @@ export async function saveResourceMeta(resource: string, meta: any): Promise<voi
     logger.error({ resource, error: errMsg }, 'Failed to save metadata');
     throw new Error(`Failed to save metadata for ${resource}`);
   }
-}
\ No newline at end of file
+}
+/**
+ * How writes handle fields that are not in a resource's schema:
+ * `auto` adds them to the schema, `strict` rejects the write, `strip` drops them.
+ */
+export type SchemaMode = 'auto' | 'strict' | 'strip';
+
+export const SCHEMA_MODES: SchemaMode[] = ['auto', 'strict', 'strip'];
+
+/**
+ * Returns the schema mode of a resource: its own `schemaMode`, or else the global `SCHEMA_MODE` (default: `auto`).
+ * Without metadata, returns the global mode, which also decides whether unknown resources are created on first write.
+ * @param meta Optional: The resource metadata.
+ * @returns The schema mode.
+ */
+export function getSchemaMode(meta?: any): SchemaMode {
+  if (SCHEMA_MODES.includes(meta?.schemaMode)) {
+    return meta.schemaMode;
+  }
+
+  const globalMode = process.env.SCHEMA_MODE as SchemaMode | undefined;
+  return globalMode && SCHEMA_MODES.includes(globalMode) ? globalMode : 'auto';
+}
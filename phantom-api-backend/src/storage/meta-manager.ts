@@ -1,16 +1,52 @@
-import { writeFileSync, readFileSync, existsSync, readdirSync } from 'fs';
+import { writeFileSync, readFileSync, existsSync, readdirSync, unlinkSync } from 'fs';
 import path from 'path';
 import { pathManager } from './path-manager';
 import { logger } from '../logger';
 
+/**
+ * A change of a stored schema, as seen by schema listeners.
+ */
+export interface SchemaChange {
+  tableName: string;
+  /** The schema before the change, or null if the table is new. */
+  before: Record<string, any> | null;
+  /** The schema after the change, or null if the table was deleted. */
+  after: Record<string, any> | null;
+  /** Fields renamed by the change, from their old to their new name. */
+  renamedFields?: Record<string, string>;
+  /** The new name of the table, if the change renamed it. */
+  renamedTo?: string;
+}
+
+/**
+ * A listener notified after a schema file is written or deleted.
+ */
+export type SchemaListener = (change: SchemaChange) => void;
+
 /**
  * Manages metadata schema storage for dynamic tables
  */
 export class MetaManager {
+  private listeners: SchemaListener[] = [];
+
+  /**
+   * Registers a listener notified of every schema change.
+   * Saving a schema identical to the stored one is not a change.
+   * @param listener The function to call after each change.
+   */
+  onSchemaChange(listener: SchemaListener): void {
+    this.listeners.push(listener);
+  }
+
   /**
    * Saves a table schema to a JSON file
+   * @param tableName The name of the table.
+   * @param schema The schema to store.
+   * @param renamedFields Fields renamed since the stored schema, from their old to their new name,
+   * so that listeners do not see them as dropped and added.
    */
-  saveSchema(tableName: string, schema: Record<string, any>): void {
+  saveSchema(tableName: string, schema: Record<string, any>, renamedFields?: Record<string, string>): void {
+    const before = this.loadSchema(tableName);
     try {
       const filePath = pathManager.getMetaFilePath(`${tableName}.json`);
       writeFileSync(filePath, JSON.stringify(schema, null, 2), 'utf8');
@@ -19,6 +55,35 @@ export class MetaManager {
       logger.error(`Failed to save schema for table ${tableName}:`, error);
       throw new Error(`Failed to save schema for table ${tableName}`);
     }
+
+    if (JSON.stringify(before) !== JSON.stringify(schema)) {
+      this.notify({ tableName, before, after: schema, renamedFields });
+    }
+  }
+
+  /**
+   * Moves the schema of a renamed table to the file of its new name.
+   * @param tableName The current name of the table.
+   * @param newName The new name of the table.
+   * @returns True if the table had a stored schema.
+   */
+  renameSchema(tableName: string, newName: string): boolean {
+    const schema = this.loadSchema(tableName);
+    if (!schema) {
+      return false;
+    }
+
+    try {
+      writeFileSync(pathManager.getMetaFilePath(`${newName}.json`), JSON.stringify(schema, null, 2), 'utf8');
+      unlinkSync(pathManager.getMetaFilePath(`${tableName}.json`));
+      logger.info(`Schema of table ${tableName} moved to ${newName}`);
+    } catch (error) {
+      logger.error({ error, tableName, newName }, 'Failed to rename schema');
+      throw new Error(`Failed to rename schema of table ${tableName}`);
+    }
+
+    this.notify({ tableName, before: schema, after: schema, renamedTo: newName });
+    return true;
   }
 
   /**
@@ -97,10 +162,10 @@ export class MetaManager {
     try {
       const filePath = pathManager.getMetaFilePath(`${tableName}.json`);
       if (existsSync(filePath)) {
-        // Using require to access fs.unlinkSync since it's not imported
-        const fs = require('fs');
-        fs.unlinkSync(filePath);
+        const before = this.loadSchema(tableName);
+        unlinkSync(filePath);
         logger.info(`Schema deleted for table ${tableName}`);
+        this.notify({ tableName, before, after: null });
         return true;
       }
       return false;
@@ -125,6 +190,19 @@ export class MetaManager {
       metaDirectory: pathManager.getMetaDirectory()
     };
   }
+
+  /**
+   * Calls the schema listeners. A failing listener is logged and does not undo the change.
+   */
+  private notify(change: SchemaChange): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        logger.error({ error, tableName: change.tableName }, 'Schema listener failed');
+      }
+    }
+  }
 }
 
 /**
@@ -49,6 +49,14 @@ export class PathManager {
     return path.join(this.getDataDirectory(), 'logs');
   }
 
+  /**
+   * Gets the directory for storing schema migration files (default: `migrations` in the data directory).
+   * Set `MIGRATIONS_DIR` to keep migrations in version control, next to the application code.
+   */
+  getMigrationsDirectory(): string {
+    return process.env.MIGRATIONS_DIR || path.join(this.getDataDirectory(), 'migrations');
+  }
+
   /**
    * Gets a specific meta file path
    */
@@ -70,7 +78,8 @@ export class PathManager {
     const directories = [
       this.getDataDirectory(),
       this.getMetaDirectory(),
-      this.getLogsDirectory()
+      this.getLogsDirectory(),
+      this.getMigrationsDirectory()
     ];
 
     for (const dir of directories) {
@@ -102,6 +111,7 @@ export class PathManager {
     databasePath: string;
     metaDirectory: string;
     logsDirectory: string;
+    migrationsDirectory: string;
   } {
     return {
       isUsingVolume: this.isUsingVolume(),
@@ -109,7 +119,8 @@ export class PathManager {
       dataDirectory: this.getDataDirectory(),
       databasePath: this.getDatabasePath(),
       metaDirectory: this.getMetaDirectory(),
-      logsDirectory: this.getLogsDirectory()
+      logsDirectory: this.getLogsDirectory(),
+      migrationsDirectory: this.getMigrationsDirectory()
     };
   }
 }
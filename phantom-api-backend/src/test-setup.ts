@@ -33,6 +33,11 @@ beforeEach(async (context) => {
   process.env.DB_PATH = testDbPath;
   process.env.PORT = '3001';
 
+  // Each test file writes its schema migrations to its own, initially empty, directory
+  const migrationsDir = path.join(TEST_DATA_DIR, `test-migrations-${dbId}`);
+  process.env.MIGRATIONS_DIR = migrationsDir;
+  fs.rmSync(migrationsDir, { recursive: true, force: true });
+
   // Reset database connection and clean up old db file
   resetDatabaseConnection();
   if (fs.existsSync(testDbPath)) {
@@ -60,6 +65,8 @@ afterAll(() => {
     fs.readdirSync(TEST_DATA_DIR).forEach(file => {
       if (file.startsWith('test-') && file.endsWith('.db')) {
         fs.unlinkSync(path.join(TEST_DATA_DIR, file));
+      } else if (file.startsWith('test-migrations-')) {
+        fs.rmSync(path.join(TEST_DATA_DIR, file), { recursive: true, force: true });
       }
     });
   }
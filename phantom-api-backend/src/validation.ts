@@ -2,6 +2,8 @@ import { z } from 'zod';
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { FieldError } from './middleware/errorHandler';
+import { isComputedField } from './database/computed';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -227,6 +229,183 @@ export class ValidationManager {
     }
   }
 
+  /**
+   * Validates a record against the field constraints of a resource meta schema:
+   * `required`, enum values (`enum`, `values` or `options`), `minLength`/`maxLength`, `min`/`max`, `pattern`,
+   * `format` (`email`, `url`, `date` or `datetime`) and the value type.
+   * Missing required fields that have a `default` are accepted, as the default fills them.
+   * Computed fields are read-only: the data cannot set them.
+   * @param schema The resource meta schema.
+   * @param data The record data. Relation fields may be given by name or by foreign key column (`authorId`).
+   * @param partial Whether the data is a partial update: missing fields are not checked, but required fields cannot be cleared.
+   * @returns The invalid fields; empty if the record is valid.
+   */
+  validateRecord(schema: Record<string, any>, data: Record<string, any>, partial = false): FieldError[] {
+    const errors: FieldError[] = [];
+
+    for (const [name, fieldConfig] of Object.entries(schema.fields ?? {})) {
+      const field = fieldConfig as any;
+      if (name === 'id') continue;
+      if (isComputedField(field)) {
+        if (data[name] !== undefined) {
+          errors.push({ field: name, message: 'is computed and cannot be written' });
+        }
+        continue;
+      }
+
+      const value = field.type === 'relation' && data[name] === undefined ? data[`${name}Id`] : data[name];
+      if (value === undefined || value === null) {
+        const missing = value === undefined && (partial || field.default !== undefined);
+        if (field.required && !missing) {
+          errors.push({ field: name, message: 'is required' });
+        }
+        continue;
+      }
+
+      const result = this.buildFieldValidator(field).safeParse(value);
+      if (!result.success) {
+        errors.push({ field: name, message: result.error.issues[0].message });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Fills the missing fields of a new record with their schema default.
+   * The default `CURRENT_TIMESTAMP` is replaced with the current date and time.
+   * @param schema The resource meta schema.
+   * @param data The record data, modified in place.
+   */
+  applyDefaults(schema: Record<string, any>, data: Record<string, any>) {
+    for (const [name, fieldConfig] of Object.entries(schema.fields ?? {})) {
+      const field = fieldConfig as any;
+      if (data[name] !== undefined || field.default === undefined || field.default === null || isComputedField(field)) continue;
+      if (field.type === 'relation' && data[`${name}Id`] !== undefined) continue;
+
+      data[name] = field.default === 'CURRENT_TIMESTAMP'
+        ? new Date().toISOString()
+        : structuredClone(field.default);
+    }
+  }
+
+  /**
+   * Returns the values a field is restricted to.
+   * @param field The field definition.
+   * @returns The allowed values, or undefined if the field is not an enum.
+   */
+  allowedValues(field: Record<string, any>): any[] | undefined {
+    const values = field.enum ?? field.values ?? field.options;
+    return Array.isArray(values) ? values : undefined;
+  }
+
+  /**
+   * Converts a stored value to another field type without loss.
+   * Numeric and boolean strings are parsed, dates are normalized to ISO strings and anything becomes a string.
+   * @param value The value to convert; SQLite booleans (0 and 1) should be converted to booleans first.
+   * @param type The field type to convert to.
+   * @returns The converted value, null for a null value, or undefined if the value cannot be converted exactly.
+   */
+  convertValue(value: any, type: string): any {
+    if (value === null || value === undefined) return null;
+
+    switch (type) {
+      case 'string':
+      case 'text':
+      case 'email':
+        if (value instanceof Date) return value.toISOString();
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+      case 'integer':
+      case 'number':
+      case 'decimal': {
+        let number = value;
+        if (typeof value === 'boolean') number = Number(value);
+        if (typeof value === 'string' && value.trim() !== '') number = Number(value);
+        if (typeof number !== 'number' || !Number.isFinite(number)) return undefined;
+        return type === 'integer' && !Number.isInteger(number) ? undefined : number;
+      }
+      case 'boolean':
+        if (typeof value === 'boolean') return value;
+        if (value === 1 || value === '1' || value === 'true') return true;
+        if (value === 0 || value === '0' || value === 'false') return false;
+        return undefined;
+      case 'date':
+      case 'datetime': {
+        const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : null;
+        if (!date || Number.isNaN(date.getTime())) return undefined;
+        const iso = date.toISOString();
+        if (type === 'datetime') return iso;
+        // Dropping the time of day would lose information
+        return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : undefined;
+      }
+      case 'json':
+        if (typeof value !== 'string') return value;
+        try {
+          return JSON.parse(value);
+        } catch {
+          return value;
+        }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Builds the Zod validator of a meta schema field. Null and undefined values are handled by the caller.
+   * @param field The field definition.
+   * @returns A Zod schema for the field's values.
+   */
+  private buildFieldValidator(field: any): z.ZodTypeAny {
+    const values = this.allowedValues(field);
+    if (values) {
+      return z.any().refine((value) => values.includes(value), { message: `must be one of: ${values.join(', ')}` });
+    }
+
+    switch (field.type) {
+      case 'string':
+      case 'text':
+      case 'email': {
+        let validator = z.string({ invalid_type_error: 'must be a string' });
+        if (field.minLength !== undefined) validator = validator.min(field.minLength, `must be at least ${field.minLength} characters`);
+        if (field.maxLength !== undefined) validator = validator.max(field.maxLength, `must be at most ${field.maxLength} characters`);
+        if (field.pattern) validator = validator.regex(new RegExp(field.pattern), `must match the pattern ${field.pattern}`);
+
+        switch (field.type === 'email' ? 'email' : field.format) {
+          case 'email':
+            return validator.email('must be a valid email address');
+          case 'url':
+            return validator.url('must be a valid URL');
+          case 'date':
+            return validator.date('must be a valid date (YYYY-MM-DD)');
+          case 'datetime':
+            return validator.refine((value) => !Number.isNaN(Date.parse(value)), 'must be a valid date and time');
+          default:
+            return validator;
+        }
+      }
+      case 'integer':
+      case 'number':
+      case 'decimal': {
+        let validator = z.number({ invalid_type_error: 'must be a number' });
+        if (field.type === 'integer') validator = validator.int('must be an integer');
+        if (field.min !== undefined) validator = validator.min(field.min, `must be at least ${field.min}`);
+        if (field.max !== undefined) validator = validator.max(field.max, `must be at most ${field.max}`);
+        return validator;
+      }
+      case 'boolean':
+        // SQLite stores booleans as 0 and 1
+        return z.any().refine((value) => typeof value === 'boolean' || value === 0 || value === 1, { message: 'must be a boolean' });
+      case 'date':
+      case 'datetime':
+        return z.any().refine(
+          (value) => value instanceof Date || (typeof value === 'string' && !Number.isNaN(Date.parse(value))),
+          { message: field.type === 'date' ? 'must be a valid date' : 'must be a valid date and time' }
+        );
+      default:
+        return z.any();
+    }
+  }
+
   /**
    * Updates an existing schema for a resource with new field definitions.
    * @param resource The name of the resource whose schema to update.
@@ -29,6 +29,68 @@ interface APIResponse<T = any> {
   error?: string;
   /** Detailed error information (optional). */
   details?: string[];
+  /** Pagination metadata, returned by list endpoints (optional). */
+  meta?: PaginationMeta | CursorPaginationMeta;
+}
+
+/**
+ * Pagination metadata returned alongside list results.
+ */
+interface PaginationMeta {
+  /** The number of records matching the filter. */
+  total: number;
+  /** The page size used for the query. */
+  limit: number;
+  /** The number of records skipped. */
+  offset: number;
+  /** The 1-based page number. */
+  page: number;
+  /** Whether more records are available after this page. */
+  hasMore: boolean;
+}
+
+/**
+ * Metadata returned alongside a page of records in cursor (keyset) pagination mode.
+ */
+interface CursorPaginationMeta {
+  /** The page size used for the query. */
+  limit: number;
+  /** Cursor for the following page, or null on the last page. */
+  nextCursor: string | null;
+  /** Cursor for the preceding page, or null on the first page. */
+  prevCursor: string | null;
+  /** Whether more records are available after this page. */
+  hasMore: boolean;
+}
+
+/**
+ * A page of records fetched with cursor pagination.
+ * @template T The type of the records.
+ */
+interface CursorPage<T> {
+  /** The records of the current page. */
+  data: T[];
+  /** Cursor metadata for the page. */
+  meta: CursorPaginationMeta;
+}
+
+/**
+ * Options for cursor (keyset) pagination. Offsets and page numbers do not apply.
+ */
+interface CursorQueryOptions extends Omit<ResourceQueryOptions, 'id' | 'offset' | 'page' | 'q'> {
+  /** Optional: A cursor returned by a previous page. */
+  cursor?: string;
+}
+
+/**
+ * A page of records together with its pagination metadata.
+ * @template T The type of the records.
+ */
+interface PaginatedResult<T> {
+  /** The records of the current page. */
+  data: T[];
+  /** Pagination metadata for the query. */
+  meta: PaginationMeta;
 }
 
 /**
@@ -48,6 +110,98 @@ interface BatchRequestItem {
  */
 interface BatchResponseItem extends APIResponse { }
 
+/**
+ * Options for a batch operation.
+ */
+interface BatchOptions {
+  /** Run every request in one transaction; if any request fails, none of the changes are kept. */
+  atomic?: boolean;
+}
+
+
+/**
+ * A scalar value that can be compared in a filter.
+ */
+type FilterValue = string | number | boolean | null;
+
+/**
+ * Operators that can be applied to a single field in a filter.
+ * Several operators on the same field are combined with AND.
+ */
+interface FieldOperators {
+  /** Equal to the value (`null` matches missing values). */
+  eq?: FilterValue;
+  /** Not equal to the value (`null` matches present values). */
+  neq?: FilterValue;
+  /** Greater than the value. */
+  gt?: FilterValue;
+  /** Greater than or equal to the value. */
+  gte?: FilterValue;
+  /** Less than the value. */
+  lt?: FilterValue;
+  /** Less than or equal to the value. */
+  lte?: FilterValue;
+  /** Case-sensitive SQL LIKE pattern (`%` and `_` wildcards). */
+  like?: string;
+  /** Case-insensitive SQL LIKE pattern. */
+  ilike?: string;
+  /** Contains the given substring (wildcards are matched literally). */
+  contains?: string;
+  /** Starts with the given prefix (wildcards are matched literally). */
+  startsWith?: string;
+  /** `true` to match missing values, `false` to match present values. */
+  isNull?: boolean;
+  /** Between the two values, inclusive. */
+  between?: [FilterValue, FilterValue];
+  /** One of the values. */
+  in?: FilterValue[];
+  /** None of the values. */
+  nin?: FilterValue[];
+}
+
+/**
+ * A filter for querying resources. Keys are field names, or the logical groups `$or`, `$and` and `$not`.
+ * A plain value is shorthand for `{ eq: value }` and an array for `{ in: values }`.
+ * @example
+ * { status: 'published', $or: [{ views: { gte: 100 } }, { featured: true }] }
+ */
+interface WhereFilter {
+  /** Matches if any of the nested filters match. */
+  $or?: WhereFilter[];
+  /** Matches if all of the nested filters match. */
+  $and?: WhereFilter[];
+  /** Matches if the nested filter does not match. */
+  $not?: WhereFilter;
+  [field: string]: FilterValue | FilterValue[] | FieldOperators | WhereFilter | WhereFilter[] | undefined;
+}
+
+/**
+ * Options for populating a relation field.
+ */
+interface PopulateOptions {
+  /** Fields of the related records to return. */
+  select?: string | string[];
+  /** A filter on the related records. */
+  where?: WhereFilter;
+  /** Relation fields of the related records to populate in turn. */
+  populate?: PopulateSpec;
+}
+
+/**
+ * Relation fields to populate: comma-separated dotted paths (`'author.company,tags'`), an array of paths,
+ * or options by field name (`{ tags: { select: 'name', where: { active: true } }, author: true }`).
+ */
+type PopulateSpec = string | string[] | { [field: string]: PopulateOptions | true };
+
+/**
+ * Serializes a populate specification as a query parameter: paths are comma-separated, options are sent as JSON.
+ */
+function serializePopulate(populate: PopulateSpec): string {
+  if (typeof populate === 'string') {
+    return populate;
+  }
+  return Array.isArray(populate) ? populate.join(',') : JSON.stringify(populate);
+}
 
 /**
  * Options for querying resources.
@@ -59,16 +213,33 @@ interface ResourceQueryOptions {
   limit?: number;
   /** Optional: The number of records to skip. */
   offset?: number;
-  /** Optional: Fields to populate (e.g., related resources). Can be a single string or an array of strings. */
-  populate?: string | string[];
+  /** Optional: Relation fields to populate, as dotted paths or with options per field. */
+  populate?: PopulateSpec;
   /** Optional: Fields to sort by. Can be a single string or an array of strings (e.g., 'name:asc', '-createdAt'). */
   sort?: string | string[];
   /** Optional: Fields to select. Can be a single string or an array of strings. */
   select?: string | string[];
-  /** Optional: A WHERE clause for filtering records. */
-  where?: Record<string, any>;
+  /** Optional: A filter for the records to return. */
+  where?: WhereFilter;
   /** Optional: The page number for pagination. */
   page?: number;
+  /** Optional: Include soft-deleted records (requires the `delete` permission on the resource). */
+  withDeleted?: boolean;
+  /**
+   * Optional: Full-text search over the `searchable` fields of the resource, most relevant first.
+   * Matching records carry a `_search` object (see `SearchMatch`).
+   */
+  q?: string;
+}
+
+/**
+ * The relevance of a record returned by a full-text search, in its `_search` property.
+ */
+interface SearchMatch {
+  /** Higher is more relevant. */
+  rank: number;
+  /** An excerpt of the record's text, where the matched words are wrapped in `<mark>` tags. */
+  snippet: string;
 }
 
 /**
@@ -82,6 +253,118 @@ interface ResourceMetaFields {
   };
 }
 
+/**
+ * An error reported for a single record of a bulk operation.
+ */
+interface BulkRowError {
+  /** Position of the record in the input array (bulk creates). */
+  index?: number;
+  /** ID of the matching record (bulk updates and deletes). */
+  id?: string;
+  /** Why the record was not processed. */
+  error: string;
+}
+
+/**
+ * The result of a bulk create, update or delete.
+ */
+interface BulkResult {
+  /** IDs of the records that were created, updated or deleted. */
+  ids: string[];
+  /** Records that were skipped, with the reason. */
+  errors: BulkRowError[];
+}
+
+/**
+ * Options for a single-record update or delete.
+ */
+interface WriteOptions {
+  /**
+   * Only write if the record is unchanged: either the `ETag` returned when it was read, or its `version`.
+   * The request is rejected with status 412 if the record was modified in the meantime.
+   */
+  ifMatch?: string | number;
+}
+
+/**
+ * The outcome of an upsert for a single record.
+ */
+interface UpsertResult<T = any> {
+  /** The ID of the written record. */
+  id: string;
+  /** Whether the record was inserted or an existing record was updated. */
+  operation: 'inserted' | 'updated';
+  /** The record as stored. */
+  record: T | null;
+}
+
+/**
+ * Options for computing aggregates over resources.
+ * Each aggregate function takes fields (`'*'` counts rows with `count`); results are named `<function>_<field>`,
+ * or `count` for `count: '*'`. Rows are counted when no aggregate is given.
+ */
+interface AggregateOptions {
+  count?: string | string[];
+  sum?: string | string[];
+  avg?: string | string[];
+  min?: string | string[];
+  max?: string | string[];
+  countDistinct?: string | string[];
+  /** Optional: Fields to group by; `'field:day'`, `'field:week'` or `'field:month'` truncates a date. */
+  groupBy?: string | string[];
+  /** Optional: A filter for the records to aggregate. */
+  where?: WhereFilter;
+  /** Optional: A filter on the groups, by group key and aggregate name (e.g., `{ count: { gt: 1 } }`). */
+  having?: WhereFilter;
+  /** Optional: Group keys and aggregates to sort by (e.g., '-count'). */
+  sort?: string | string[];
+  /** Optional: The maximum number of groups to return. */
+  limit?: number;
+  /** Optional: Include soft-deleted records (requires the `delete` permission on the resource). */
+  withDeleted?: boolean;
+}
+
+/**
+ * Records affected by deleting a record they reference through a relation field.
+ */
+interface DeleteDependents {
+  /** The resource holding the records. */
+  resource: string;
+  /** The relation field referencing the deleted record. */
+  field: string;
+  /** What happens to the records: deleted (`cascade`), unlinked (`setNull`), or blocking the delete. */
+  onDelete: 'cascade' | 'setNull' | 'restrict' | 'noAction';
+  /** The IDs of the records. */
+  ids: string[];
+}
+
+/**
+ * A schema migration and its state.
+ */
+interface MigrationStatus {
+  /** Timestamp and description of the change, also the name of the migration file. */
+  id: string;
+  resource: string;
+  /** `modified` if the file changed since it was applied, `missing` if it was applied but its file is gone. */
+  state: 'applied' | 'pending' | 'modified' | 'missing';
+  appliedAt?: string;
+}
+
+/**
+ * A resource whose current schema differs from the one its migration files describe.
+ */
+interface MigrationDifference {
+  resource: string;
+  /** `added` if the resource has no migration, `removed` if its migrations create it but it does not exist. */
+  status: 'added' | 'removed' | 'changed';
+  /** For changed resources: the fields that differ. */
+  fields?: {
+    added: string[];
+    removed: string[];
+    changed: string[];
+  };
+}
+
 /**
  * Represents a specific resource in the Phantom API, providing methods for CRUD operations.
  * @template T The type of the resource data.
@@ -116,25 +399,27 @@ class Resource<T = any> {
 
   /**
    * Reads one or more resources based on the provided options.
+   * When `id` is given the single matching resource is returned, otherwise a page of resources with its pagination metadata.
    * @param options Query options for filtering, sorting, pagination, and population.
-   * @returns A Promise that resolves to a single resource or an array of resources.
+   * @returns A Promise that resolves to a single resource, or to a paginated result.
    * @throws An error if the read operation fails.
    */
-  async read(options: ResourceQueryOptions = {}): Promise<T | T[]> {
-    const { populate, ...restOptions } = options;
-    let url = `/api/${this.resourceName}`;
+  async read(options: ResourceQueryOptions & { id: string }): Promise<T>;
+  async read(options?: ResourceQueryOptions): Promise<PaginatedResult<T>>;
+  async read(options: ResourceQueryOptions = {}): Promise<T | PaginatedResult<T>> {
+    const { id, populate, ...restOptions } = options;
+    let url = id ? `/api/${this.resourceName}/${id}` : `/api/${this.resourceName}`;
 
     const queryParams = new URLSearchParams();
     
     if (populate) {
-      const populateString = Array.isArray(populate) ? populate.join(',') : populate;
-      queryParams.append('populate', populateString);
+      queryParams.append('populate', serializePopulate(populate));
     }
     
-    // Add other query parameters
+    // Add other query parameters; filters are sent as JSON to keep their structure
     Object.entries(restOptions).forEach(([key, value]) => {
       if (value !== undefined) {
-        queryParams.append(key, String(value));
+        queryParams.append(key, key === 'where' ? JSON.stringify(value) : String(value));
       }
     });
 
@@ -143,24 +428,90 @@ class Resource<T = any> {
     }
 
     const response = await this.client.get<APIResponse>(url);
-    if (response.data.success) {
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Read operation failed');
+    }
+    if (id) {
       return response.data.data;
     }
+    return { data: response.data.data, meta: response.data.meta as PaginationMeta };
+  }
+
+  /**
+   * Reads a page of resources using cursor (keyset) pagination, which stays stable while records are written.
+   * @param options Query options; pass the `nextCursor` or `prevCursor` of a previous page as `cursor`.
+   * @returns A Promise that resolves to the page and its cursors.
+   * @throws An error if the read operation fails.
+   */
+  async readCursor(options: CursorQueryOptions = {}): Promise<CursorPage<T>> {
+    const { populate, ...restOptions } = options;
+    const queryParams = new URLSearchParams({ paginate: 'cursor' });
+
+    if (populate) {
+      queryParams.append('populate', serializePopulate(populate));
+    }
+    Object.entries(restOptions).forEach(([key, value]) => {
+      if (value !== undefined) {
+        queryParams.append(key, key === 'where' ? JSON.stringify(value) : String(value));
+      }
+    });
+
+    const response = await this.client.get<APIResponse<T[]>>(`/api/${this.resourceName}?${queryParams.toString()}`);
+    if (response.data.success) {
+      return { data: response.data.data, meta: response.data.meta as CursorPaginationMeta };
+    }
     throw new Error(response.data.error || 'Read operation failed');
   }
 
   /**
-   * Updates an existing resource.
+   * Iterates over every resource matching the options, following cursors page by page.
+   * @example
+   * for await (const post of client.resource('Post').iterate({ where: { status: 'published' } })) {
+   *   console.log(post.title);
+   * }
+   * @param options Query options; `limit` sets the page size used for each request.
+   * @returns An async iterator over the matching resources.
+   * @throws An error if fetching a page fails.
+   */
+  async *iterate(options: Omit<CursorQueryOptions, 'cursor'> = {}): AsyncGenerator<T, void, undefined> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.readCursor({ ...options, cursor });
+      yield* page.data;
+      cursor = page.meta.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Counts the resources matching a filter.
+   * @param where Optional filter for the records to count.
+   * @returns A Promise that resolves to the number of matching resources.
+   * @throws An error if the count operation fails.
+   */
+  async count(where?: WhereFilter): Promise<number> {
+    const query = where ? `?where=${encodeURIComponent(JSON.stringify(where))}` : '';
+    const response = await this.client.get<APIResponse<{ total: number }>>(`/api/${this.resourceName}/count${query}`);
+    if (response.data.success) {
+      return response.data.data.total;
+    }
+    throw new Error(response.data.error || 'Count operation failed');
+  }
+
+  /**
+   * Updates an existing resource. Only the fields present in `data` are changed.
    * @param data The data to update, including the resource's ID.
+   * @param options Optional precondition the record must meet to be updated.
    * @returns A Promise that resolves to the updated resource.
-   * @throws An error if the update operation fails or if the ID is missing.
+   * @throws An error if the update operation fails, if the ID is missing, or if `ifMatch` no longer matches the record.
    */
-  async update(data: Record<string, any> & { id: string }): Promise<T> {
+  async update(data: Record<string, any> & { id: string }, options: WriteOptions = {}): Promise<T> {
     if (!data.id) {
       throw new Error('ID is required for update operation');
     }
     const { id, ...updateData } = data;
-    const response = await this.client.put<APIResponse>(`/api/${this.resourceName}/${id}`, updateData);
+    const response = await this.client.patch<APIResponse>(`/api/${this.resourceName}/${id}`, updateData, {
+      headers: this.preconditionHeaders(options)
+    });
     if (response.data.success) {
       return response.data.data;
     }
@@ -170,17 +521,182 @@ class Resource<T = any> {
   /**
    * Deletes a resource by its ID.
    * @param id The ID of the resource to delete.
+   * @param options Optional precondition the record must meet to be deleted.
    * @returns A Promise that resolves to true if the deletion was successful.
-   * @throws An error if the delete operation fails.
+   * @throws An error if the delete operation fails or if `ifMatch` no longer matches the record.
    */
-  async delete(id: string): Promise<boolean> {
-    const response = await this.client.delete<APIResponse>(`/api/${this.resourceName}/${id}`);
+  async delete(id: string, options: WriteOptions = {}): Promise<boolean> {
+    const response = await this.client.delete<APIResponse>(`/api/${this.resourceName}/${id}`, {
+      headers: this.preconditionHeaders(options)
+    });
     if (response.data.success) {
       return response.data.data;
     }
     throw new Error(response.data.error || 'Delete operation failed');
   }
 
+  /**
+   * Computes aggregates over the resources matching a filter, as a whole or by group.
+   * @param options The aggregates, group keys, filters, sort and limit.
+   * @returns A Promise that resolves to one row per group (a single row without `groupBy`), with the group keys and aggregates.
+   * @throws An error if a field, filter or sort is invalid.
+   * @example
+   * await resource('Order').aggregate({ sum: 'total', groupBy: 'created_at:month', sort: '-sum_total' });
+   */
+  async aggregate(options: AggregateOptions = {}): Promise<Record<string, any>[]> {
+    const queryParams = new URLSearchParams();
+    Object.entries(options).forEach(([key, value]) => {
+      if (value === undefined) return;
+      if (key === 'where' || key === 'having') {
+        queryParams.append(key, JSON.stringify(value));
+      } else {
+        queryParams.append(key, Array.isArray(value) ? value.join(',') : String(value));
+      }
+    });
+
+    const response = await this.client.get<APIResponse<Record<string, any>[]>>(`/api/${this.resourceName}/aggregate?${queryParams.toString()}`);
+    if (response.data.success) {
+      return response.data.data;
+    }
+    throw new Error(response.data.error || 'Aggregate operation failed');
+  }
+
+  /**
+   * Lists the resources that deleting a resource would delete, unlink or be blocked by, without deleting it.
+   * @param id The ID of the resource.
+   * @returns A Promise that resolves to the affected resources and whether the delete is blocked.
+   * @throws An error if the resource does not exist.
+   */
+  async dependents(id: string): Promise<{ blocked: boolean; dependents: DeleteDependents[] }> {
+    const response = await this.client.get<APIResponse>(`/api/${this.resourceName}/${id}/dependents`);
+    if (response.data.success) {
+      return response.data.data;
+    }
+    throw new Error(response.data.error || 'Dependents operation failed');
+  }
+
+  /**
+   * Restores a soft-deleted resource from the trash.
+   * @param id The ID of the resource to restore.
+   * @returns A Promise that resolves to the restored resource.
+   * @throws An error if the resource does not use soft delete or the record is not in the trash.
+   */
+  async restore(id: string): Promise<T> {
+    const response = await this.client.post<APIResponse>(`/api/${this.resourceName}/${id}/restore`);
+    if (response.data.success) {
+      return response.data.data;
+    }
+    throw new Error(response.data.error || 'Restore operation failed');
+  }
+
+  /**
+   * Retrieves the change history of a resource, most recent change first.
+   * @param id The ID of the resource.
+   * @param options Optional: Pagination options.
+   * @returns A Promise that resolves to the history entries and pagination metadata.
+   */
+  async history(id: string, options: { page?: number; limit?: number } = {}): Promise<{ data: any[]; meta: any }> {
+    const response = await this.client.get<APIResponse>(`/api/${this.resourceName}/${id}/history`, { params: options });
+    if (response.data.success) {
+      return { data: response.data.data, meta: response.data.meta };
+    }
+    throw new Error(response.data.error || 'History operation failed');
+  }
+
+  /**
+   * Reverts a resource to the state it had after a history entry.
+   * @param id The ID of the resource.
+   * @param entryId The ID of the history entry to revert to.
+   * @returns A Promise that resolves to the reverted resource.
+   * @throws An error if the entry does not belong to the resource or records a deletion.
+   */
+  async revert(id: string, entryId: string): Promise<T> {
+    const response = await this.client.post<APIResponse>(`/api/${this.resourceName}/${id}/history/${entryId}/revert`);
+    if (response.data.success) {
+      return response.data.data;
+    }
+    throw new Error(response.data.error || 'Revert operation failed');
+  }
+
+  /**
+   * Builds the `If-Match` header for a conditional write.
+   * @param options The write options.
+   * @returns The headers to send with the request.
+   */
+  private preconditionHeaders(options: WriteOptions): Record<string, string> {
+    if (options.ifMatch === undefined) {
+      return {};
+    }
+    const etag = typeof options.ifMatch === 'number' ? `"v${options.ifMatch}"` : options.ifMatch;
+    return { 'If-Match': etag };
+  }
+
+  /**
+   * Creates several resources in one request.
+   * Invalid records are skipped and reported in `errors`; the others are inserted together.
+   * @param records The data for the new resources (at most 1000).
+   * @returns A Promise that resolves to the IDs of the created resources and the per-record errors.
+   * @throws An error if the bulk create operation fails.
+   */
+  async createMany(records: Record<string, any>[]): Promise<BulkResult> {
+    const response = await this.client.post<APIResponse<BulkResult>>(`/api/${this.resourceName}/bulk`, { records });
+    if (response.data.success) {
+      return response.data.data;
+    }
+    throw new Error(response.data.error || 'Bulk create operation failed');
+  }
+
+  /**
+   * Updates every resource matching a filter with the same data.
+   * @param where The filter selecting the resources to update; must not be empty.
+   * @param data The values to set.
+   * @returns A Promise that resolves to the IDs of the updated resources and the per-record errors.
+   * @throws An error if the bulk update operation fails.
+   */
+  async updateMany(where: WhereFilter, data: Record<string, any>): Promise<BulkResult> {
+    const response = await this.client.patch<APIResponse<BulkResult>>(`/api/${this.resourceName}/bulk`, { where, data });
+    if (response.data.success) {
+      return response.data.data;
+    }
+    throw new Error(response.data.error || 'Bulk update operation failed');
+  }
+
+  /**
+   * Deletes every resource matching a filter.
+   * @param where The filter selecting the resources to delete; must not be empty.
+   * @returns A Promise that resolves to the IDs of the deleted resources and the per-record errors.
+   * @throws An error if the bulk delete operation fails.
+   */
+  async deleteMany(where: WhereFilter): Promise<BulkResult> {
+    const query = `?where=${encodeURIComponent(JSON.stringify(where))}`;
+    const response = await this.client.delete<APIResponse<BulkResult>>(`/api/${this.resourceName}${query}`);
+    if (response.data.success) {
+      return response.data.data;
+    }
+    throw new Error(response.data.error || 'Bulk delete operation failed');
+  }
+
+  /**
+   * Inserts resources, or updates the existing resources they conflict with, atomically.
+   * The `conflictOn` fields must be covered by a unique constraint on the server.
+   * @param data The record, or records (at most 1000), to write.
+   * @param options An object listing the fields that identify an existing record.
+   * @returns A Promise that resolves to the outcome for the record, or one outcome per record when an array was given.
+   * @throws An error if the upsert operation fails.
+   */
+  async upsert(data: Record<string, any>, options: { conflictOn: string[] }): Promise<UpsertResult<T>>;
+  async upsert(data: Record<string, any>[], options: { conflictOn: string[] }): Promise<UpsertResult<T>[]>;
+  async upsert(data: Record<string, any> | Record<string, any>[], options: { conflictOn: string[] }): Promise<UpsertResult<T> | UpsertResult<T>[]> {
+    const response = await this.client.put<APIResponse<UpsertResult<T>[]>>(`/api/${this.resourceName}/upsert`, {
+      conflictOn: options.conflictOn,
+      data
+    });
+    if (response.data.success) {
+      return Array.isArray(data) ? response.data.data : response.data.data[0];
+    }
+    throw new Error(response.data.error || 'Upsert operation failed');
+  }
+
   /**
    * Retrieves the metadata (schema) for the resource.
    * @returns A Promise that resolves to the resource's meta fields.
@@ -230,6 +746,7 @@ class PhantomAPIClient {
   private client: AxiosInstance;
   private config: PhantomAPIConfig;
   private csrfToken: string | null = null;
+  private refreshing: Promise<string | null> | null = null;
 
   /**
    * Creates an instance of PhantomAPIClient.
@@ -286,6 +803,20 @@ class PhantomAPIClient {
           }
         }
 
+        // If the access token has expired, renew the session and retry once
+        if (error.response?.status === 401 &&
+          error.config &&
+          !error.config._retry &&
+          !error.config.url?.includes('/auth/')) {
+
+          error.config._retry = true;
+          const token = await this.refreshSession();
+          if (token) {
+            error.config.headers['Authorization'] = `Bearer ${token}`;
+            return this.client.request(error.config);
+          }
+        }
+
         throw error;
       }
     );
@@ -329,6 +860,27 @@ class PhantomAPIClient {
     this.client.defaults.headers['Authorization'] = `Bearer ${token}`;
   }
 
+  /**
+   * Renews the session with the refresh token cookie set at login, and uses the new access token.
+   * Called automatically when a request is rejected because the access token has expired.
+   * Concurrent calls share one request, since each refresh token works once.
+   * @returns A Promise that resolves to the new access token, or null if the session cannot be renewed.
+   */
+  async refreshSession(): Promise<string | null> {
+    this.refreshing ??= this.client.post('/auth/refresh')
+      .then((response) => {
+        const token: string | undefined = response.data?.token;
+        if (!token) return null;
+        this.setToken(token);
+        return token;
+      })
+      .catch(() => null)
+      .finally(() => {
+        this.refreshing = null;
+      });
+    return this.refreshing;
+  }
+
   /**
    * Sets the base URL for the API client.
    * @param baseURL The new base URL for API requests.
@@ -386,20 +938,77 @@ class PhantomAPIClient {
   }
 
   /**
-   * Applies a specific migration by file name.
-   * @param fileName The name of the migration file to apply.
+   * Applies a specific migration by its ID (file name without extension).
+   * @param fileName The ID of the migration to apply.
    * @returns A Promise that resolves to the API response for applying the migration.
    * @throws An error if applying the migration fails.
    */
   async applyMigration(fileName: string) {
     try {
-      const response = await this.client.post<APIResponse>('/admin/api/migrations/apply', { fileName });
+      const response = await this.client.post<APIResponse>('/admin/api/migrations/apply', { migrationId: fileName });
       return response.data;
     } catch (error) {
       throw new Error(`Failed to apply migration: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Lists the schema migrations with their state: applied, pending, modified or missing.
+   * @returns A Promise that resolves to the API response with the migrations.
+   * @throws An error if reading the migration status fails.
+   */
+  async getMigrationStatus() {
+    try {
+      const response = await this.client.get<APIResponse<MigrationStatus[]>>('/admin/api/migrations');
+      return response.data;
+    } catch (error) {
+      throw new Error(`Failed to get migration status: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Applies the pending schema migrations, in order.
+   * @returns A Promise that resolves to the API response with the IDs of the applied migrations.
+   * @throws An error if a migration fails.
+   */
+  async migrateUp() {
+    try {
+      const response = await this.client.post<APIResponse<string[]>>('/admin/api/migrations/up', {});
+      return response.data;
+    } catch (error) {
+      throw new Error(`Failed to apply migrations: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Reverts applied schema migrations, most recent first.
+   * @param to Optional: the ID of the migration to go back to. Without it, only the most recent migration is reverted.
+   * @returns A Promise that resolves to the API response with the IDs of the reverted migrations.
+   * @throws An error if a migration fails.
+   */
+  async migrateDown(to?: string) {
+    try {
+      const response = await this.client.post<APIResponse<string[]>>('/admin/api/migrations/down', to !== undefined ? { to } : {});
+      return response.data;
+    } catch (error) {
+      throw new Error(`Failed to revert migrations: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Compares the schemas described by the migration files with the current schemas.
+   * @returns A Promise that resolves to the API response with the differing resources.
+   * @throws An error if the comparison fails.
+   */
+  async diffMigrations() {
+    try {
+      const response = await this.client.get<APIResponse<MigrationDifference[]>>('/admin/api/migrations/diff');
+      return response.data;
+    } catch (error) {
+      throw new Error(`Failed to compare schemas with migrations: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Generates seed data.
    * @returns A Promise that resolves to the API response for generating seed data.
@@ -431,15 +1040,20 @@ class PhantomAPIClient {
 
   /**
    * Executes a batch of requests.
+   * String values like `'$0.id'` in a request's data refer to fields of earlier results.
    * @param requests An array of batch request items.
+   * @param options Optional: `atomic` runs all requests in one transaction.
    * @returns A Promise that resolves to an array of batch response items.
-   * @throws An error if the batch operation fails.
+   * @throws An error if the batch operation fails, or if any request fails in atomic mode.
    */
-  async batch(requests: BatchRequestItem[]): Promise<BatchResponseItem[]> {
+  async batch(requests: BatchRequestItem[], options: BatchOptions = {}): Promise<BatchResponseItem[]> {
     try {
-      const response = await this.client.post<APIResponse<BatchResponseItem[]>>('/api/batch', { requests });
+      const response = await this.client.post<{ success: boolean; results: BatchResponseItem[]; error?: string }>(
+        '/api/batch',
+        { requests, atomic: options.atomic === true }
+      );
       if (response.data.success) {
-        return response.data.data;
+        return response.data.results;
       }
       throw new Error(response.data.error || 'Batch operation failed');
     } catch (error) {
@@ -502,14 +1116,15 @@ export function resource<T = any>(resourceName: string): Resource<T> {
 /**
  * Executes a batch of requests using the global Phantom API client instance.
  * @param requests An array of batch request items.
+ * @param options Optional: `atomic` runs all requests in one transaction.
  * @returns A Promise that resolves to an array of batch response items.
  * @throws An error if `setEndpoint` has not been called first or `createClient` has not been used.
  */
-export async function batch(requests: BatchRequestItem[]): Promise<BatchResponseItem[]> {
+export async function batch(requests: BatchRequestItem[], options: BatchOptions = {}): Promise<BatchResponseItem[]> {
   if (!globalClient) {
     throw new Error('Must call setEndpoint first or use createClient');
   }
-  return globalClient.batch(requests);
+  return globalClient.batch(requests, options);
 }
 
 /**
@@ -537,8 +1152,8 @@ export async function pullMigrations() {
 }
 
 /**
- * Applies a specific migration by file name using the global Phantom API client instance.
- * @param fileName The name of the migration file to apply.
+ * Applies a specific migration by its ID using the global Phantom API client instance.
+ * @param fileName The ID of the migration to apply.
  * @returns A Promise that resolves to the API response for applying the migration.
  * @throws An error if `setEndpoint` has not been called first or `createClient` has not been used.
  */
@@ -549,6 +1164,55 @@ export async function applyMigration(fileName: string) {
   return globalClient.applyMigration(fileName);
 }
 
+/**
+ * Lists the schema migrations with their state using the global Phantom API client instance.
+ * @returns A Promise that resolves to the API response with the migrations.
+ * @throws An error if `setEndpoint` has not been called first or `createClient` has not been used.
+ */
+export async function getMigrationStatus() {
+  if (!globalClient) {
+    throw new Error('Must call setEndpoint first or use createClient');
+  }
+  return globalClient.getMigrationStatus();
+}
+
+/**
+ * Applies the pending schema migrations using the global Phantom API client instance.
+ * @returns A Promise that resolves to the API response with the IDs of the applied migrations.
+ * @throws An error if `setEndpoint` has not been called first or `createClient` has not been used.
+ */
+export async function migrateUp() {
+  if (!globalClient) {
+    throw new Error('Must call setEndpoint first or use createClient');
+  }
+  return globalClient.migrateUp();
+}
+
+/**
+ * Reverts applied schema migrations using the global Phantom API client instance.
+ * @param to Optional: the ID of the migration to go back to. Without it, only the most recent migration is reverted.
+ * @returns A Promise that resolves to the API response with the IDs of the reverted migrations.
+ * @throws An error if `setEndpoint` has not been called first or `createClient` has not been used.
+ */
+export async function migrateDown(to?: string) {
+  if (!globalClient) {
+    throw new Error('Must call setEndpoint first or use createClient');
+  }
+  return globalClient.migrateDown(to);
+}
+
+/**
+ * Compares the schemas described by the migration files with the current schemas using the global Phantom API client instance.
+ * @returns A Promise that resolves to the API response with the differing resources.
+ * @throws An error if `setEndpoint` has not been called first or `createClient` has not been used.
+ */
+export async function diffMigrations() {
+  if (!globalClient) {
+    throw new Error('Must call setEndpoint first or use createClient');
+  }
+  return globalClient.diffMigrations();
+}
+
 /**
  * Generates seed data using the global Phantom API client instance.
  * @returns A Promise that resolves to the API response for generating seed data.
@@ -574,6 +1238,18 @@ export async function applySeedData(fileName: string) {
   return globalClient.applySeedData(fileName);
 }
 
+/**
+ * Renews the session of the global Phantom API client instance with its refresh token cookie.
+ * @returns A Promise that resolves to the new access token, or null if the session cannot be renewed.
+ * @throws An error if `setEndpoint` has not been called first or `createClient` has not been used.
+ */
+export async function refreshSession(): Promise<string | null> {
+  if (!globalClient) {
+    throw new Error('Must call setEndpoint first or use createClient');
+  }
+  return globalClient.refreshSession();
+}
+
 /**
  * Refreshes the CSRF token using the global Phantom API client instance.
  * @returns A Promise that resolves to the new CSRF token or null.
@@ -588,7 +1264,7 @@ export async function refreshCSRFToken(): Promise<string | null> {
 
 
 // Export types
-export type { PhantomAPIConfig, APIResponse, ResourceQueryOptions, ResourceMetaFields, BatchRequestItem, BatchResponseItem };
+export type { PhantomAPIConfig, APIResponse, ResourceQueryOptions, ResourceMetaFields, BatchRequestItem, BatchResponseItem, BatchOptions, WriteOptions, BulkResult, BulkRowError, UpsertResult, AggregateOptions, DeleteDependents, SearchMatch, MigrationStatus, MigrationDifference, WhereFilter, PopulateOptions, PopulateSpec, FieldOperators, FilterValue, PaginationMeta, PaginatedResult, CursorPaginationMeta, CursorPage, CursorQueryOptions };
 export { PhantomAPIClient, Resource };
 
 // Default export for convenience
@@ -600,8 +1276,13 @@ export default {
   health,
   pullMigrations,
   applyMigration,
+  getMigrationStatus,
+  migrateUp,
+  migrateDown,
+  diffMigrations,
   generateSeedData,
   applySeedData,
   refreshCSRFToken,
+  refreshSession,
   batch
 };
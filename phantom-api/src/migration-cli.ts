@@ -9,25 +9,136 @@ import api from './index';
 const program = new Command();
 
 program
-  .name('migration')
+  .name('phantom-migration')
   .description('CLI for managing database migrations via Phantom API')
   .version('1.0.0');
 
+/**
+ * Points the global client at the backend, authenticated with the admin token from `PHANTOM_API_TOKEN`.
+ */
+function connect() {
+  api.setEndpoint(process.env.PHANTOM_API_URL || 'http://localhost:3000');
+  if (process.env.PHANTOM_API_TOKEN) {
+    api.setToken(process.env.PHANTOM_API_TOKEN);
+  }
+}
+
+/**
+ * Prints an error and exits with a failure status.
+ */
+function fail(action: string, error: unknown): never {
+  console.error(chalk.red(`Error during ${action}:`), error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+
+const stateColors = {
+  applied: chalk.green,
+  pending: chalk.yellow,
+  modified: chalk.red,
+  missing: chalk.red
+};
+
+/**
+ * Defines the 'status' command to list the migrations and their state.
+ */
+program.command('status')
+  .description('Lists the migrations with their state: applied, pending, modified or missing')
+  .action(async () => {
+    try {
+      connect();
+      const response = await api.getMigrationStatus();
+      const migrations = response.data ?? [];
+
+      if (migrations.length === 0) {
+        console.log(chalk.cyan('No migrations.'));
+      }
+      for (const migration of migrations) {
+        console.log(`${stateColors[migration.state](migration.state.padEnd(8))}  ${migration.id}`);
+      }
+    } catch (error) {
+      fail('migration status', error);
+    }
+  });
+
+/**
+ * Defines the 'up' command to apply the pending migrations.
+ */
+program.command('up')
+  .description('Applies the pending migrations, in order')
+  .action(async () => {
+    try {
+      connect();
+      const response = await api.migrateUp();
+      for (const id of response.data ?? []) {
+        console.log(chalk.green(`Applied ${id}`));
+      }
+      console.log(chalk.cyan(response.message || 'Migrations applied.'));
+    } catch (error) {
+      fail('migration', error);
+    }
+  });
+
+/**
+ * Defines the 'down' command to revert applied migrations.
+ */
+program.command('down')
+  .description('Reverts the most recent migration, or every migration applied after the one given with --to')
+  .option('--to <id>', 'ID of the migration to go back to')
+  .action(async (options: { to?: string }) => {
+    try {
+      connect();
+      const response = await api.migrateDown(options.to);
+      for (const id of response.data ?? []) {
+        console.log(chalk.green(`Reverted ${id}`));
+      }
+      console.log(chalk.cyan(response.message || 'Migrations reverted.'));
+    } catch (error) {
+      fail('migration rollback', error);
+    }
+  });
+
+/**
+ * Defines the 'diff' command to compare the current schemas with the migration files.
+ */
+program.command('diff')
+  .description('Lists the resources whose schema differs from the one described by the migration files')
+  .action(async () => {
+    try {
+      connect();
+      const response = await api.diffMigrations();
+      const differences = response.data ?? [];
+
+      if (differences.length === 0) {
+        console.log(chalk.green('Schemas match the migrations.'));
+      }
+      for (const difference of differences) {
+        console.log(`${chalk.yellow(difference.status.padEnd(8))}  ${difference.resource}`);
+        if (difference.fields) {
+          for (const [change, fields] of Object.entries(difference.fields)) {
+            if (fields.length > 0) {
+              console.log(`          ${change}: ${fields.join(', ')}`);
+            }
+          }
+        }
+      }
+    } catch (error) {
+      fail('migration diff', error);
+    }
+  });
+
 /**
  * Defines the 'pull' command to generate new migration files on the backend.
  */
 program.command('pull')
-  .description('Generates new migration files on the backend')
+  .description('Generates migration files for the schema changes that have none')
   .action(async () => {
     try {
       console.log(chalk.blue('Requesting migration pull from backend...'));
-      
-      // Set endpoint for the global client
-      api.setEndpoint(process.env.PHANTOM_API_URL || 'http://localhost:3000');
-      
+      connect();
+
       // Use the proper public API method
       const response = await api.pullMigrations();
-      
+
       if (response.success) {
         console.log(chalk.green(response.message || 'Migration pull successful.'));
         if (response.data && Array.isArray(response.data)) {
@@ -37,9 +148,8 @@ program.command('pull')
         console.log(chalk.red(response.error || 'Migration pull failed.'));
       }
     } catch (error) {
-      console.error(chalk.red('Error during migration pull:'), error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      fail('migration pull', error);
     }
   });
 
-program.parse(process.argv);
\ No newline at end of file
+program.parse(process.argv);